@@ -0,0 +1,71 @@
+// Service worker for system notifications. Payloads follow `PushPayload` in
+// src/utils/pushNotifications.ts and arrive either as push events or as
+// messages relayed by an open tab of the app.
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+const getWindows = () =>
+  self.clients.matchAll({ type: "window", includeUncontrolled: true });
+
+const showPayload = async (payload) => {
+  // A focused tab already shows the notification in its bell
+  const windows = await getWindows();
+  if (windows.some((client) => client.focused)) return;
+
+  await self.registration.showNotification(payload.title, {
+    body: payload.body,
+    // Several tabs may relay the same notification; the tag shows it once
+    tag: payload.id,
+    icon: "/favicon.ico",
+    data: payload,
+    actions: (payload.actions || []).map(({ action, title }) => ({
+      action,
+      title,
+    })),
+  });
+};
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  try {
+    event.waitUntil(showPayload(event.data.json()));
+  } catch (error) {
+    console.error("Error reading push payload:", error);
+  }
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "show-notification") {
+    event.waitUntil(showPayload(event.data.payload));
+  }
+});
+
+self.addEventListener("notificationclick", (event) => {
+  const payload = event.notification.data || {};
+  const action = (payload.actions || []).find(
+    ({ action }) => action === event.action,
+  );
+  const url = new URL(action?.url || payload.url || "/", self.location.origin)
+    .href;
+
+  event.notification.close();
+  event.waitUntil(
+    getWindows().then(async (windows) => {
+      const client = windows.find((candidate) =>
+        candidate.url.startsWith(self.location.origin),
+      );
+      if (!client) return self.clients.openWindow(url);
+
+      // Tabs opened before the worker took control can't be navigated
+      await client.focus();
+      return client.navigate(url).catch(() => self.clients.openWindow(url));
+    }),
+  );
+});
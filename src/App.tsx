@@ -5,6 +5,8 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { useAuth, AuthProvider } from "@/store/authStore";
 import { ProtectedRoute } from "@/components/layout/ProtectedRoute";
+import { usePresenceHeartbeat } from "@/hooks/use-presence";
+import { usePushNotifications } from "@/hooks/use-push-notifications";
 
 // Pages
 import Login from "./pages/Login";
@@ -14,6 +16,7 @@ import Calendar from "./pages/Calendar";
 import Messages from "./pages/Messages";
 import Friends from "./pages/Friends";
 import FriendHangouts from "./pages/FriendHangouts";
+import Availability from "./pages/Availability";
 import Profile from "./pages/Profile";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
@@ -21,7 +24,9 @@ import NotFound from "./pages/NotFound";
 const queryClient = new QueryClient();
 
 const AppRoutes = () => {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  usePresenceHeartbeat(user?.id);
+  usePushNotifications(user);
 
   if (isLoading) {
     return (
@@ -88,6 +93,14 @@ const AppRoutes = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/availability"
+        element={
+          <ProtectedRoute>
+            <Availability />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/profile"
         element={
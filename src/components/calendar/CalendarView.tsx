@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -10,6 +10,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { HangoutOverlapModal } from "./HangoutOverlapModal";
+import { TimeGrid } from "./TimeGrid";
 import {
   Calendar as CalendarIcon,
   ChevronLeft,
@@ -18,67 +19,124 @@ import {
   Plus,
   Clock,
   Users,
+  Repeat,
 } from "lucide-react";
-import { Event, HangoutEvent, User } from "@/types";
+import { Event, HangoutEvent, HangoutOverlap } from "@/types";
 import {
   format,
   startOfMonth,
   endOfMonth,
+  startOfWeek,
+  endOfWeek,
   eachDayOfInterval,
   isSameDay,
-  isToday,
+  addDays,
+  addWeeks,
   addMonths,
-  subMonths,
 } from "date-fns";
 import { cn } from "@/lib/utils";
+import { expandEvents } from "@/utils/recurrence";
+import {
+  formatInTimeZone,
+  getOwnerTimeLabel,
+  getZonedDayRange,
+  toZonedDate,
+} from "@/utils/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
 
 interface CalendarViewProps {
   events: Event[];
   onDateSelect: (date: Date) => void;
+  // A time range dragged out on the week or day grid
+  onRangeSelect?: (start: Date, end: Date) => void;
   onEventClick: (event: Event) => void;
-  getOverlappingHangouts?: (date: Date) => Array<{
-    userEvent: HangoutEvent;
-    friendEvent: HangoutEvent;
-    friend: User;
-    overlap: { start: string; end: string };
-  }>;
-  checkEventOverlap?: (eventId: string) => {
-    userEvent: HangoutEvent;
-    friendEvent: HangoutEvent;
-    friend: User;
-    overlap: { start: string; end: string };
-  } | null;
+  onEventReschedule?: (
+    event: Event,
+    times: { startTime: string; endTime: string },
+  ) => void;
+  getOverlappingHangouts?: (date: Date) => HangoutOverlap[];
+  checkEventOverlap?: (eventId: string) => HangoutOverlap | null;
+  // Turns an overlap into a shared hangout with the friend invited
+  onCreateHangout?: (overlap: HangoutOverlap) => void;
   selectedDate?: Date;
+  // Opens the day view on this date, e.g. when jumping to a search result
+  focusDate?: Date;
 }
 
+type CalendarViewMode = "month" | "week" | "day";
+
+const VIEW_MODES: Array<{ value: CalendarViewMode; label: string }> = [
+  { value: "month", label: "Month" },
+  { value: "week", label: "Week" },
+  { value: "day", label: "Day" },
+];
+
 export const CalendarView = ({
   events,
   onDateSelect,
+  onRangeSelect,
   onEventClick,
+  onEventReschedule,
   getOverlappingHangouts,
   checkEventOverlap,
+  onCreateHangout,
   selectedDate,
+  focusDate,
 }: CalendarViewProps) => {
-  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const timeZone = useTimeZone();
+  const today = toZonedDate(new Date(), timeZone);
+  const [view, setView] = useState<CalendarViewMode>("month");
+  const [currentDate, setCurrentDate] = useState(today);
   const [showOverlapModal, setShowOverlapModal] = useState(false);
-  const [selectedOverlap, setSelectedOverlap] = useState<{
-    userEvent: HangoutEvent;
-    friendEvent: HangoutEvent;
-    friend: User;
-    overlap: { start: string; end: string };
-  } | null>(null);
+  const [selectedOverlap, setSelectedOverlap] = useState<HangoutOverlap | null>(
+    null,
+  );
+
+  useEffect(() => {
+    if (!focusDate) return;
+    setCurrentDate(focusDate);
+    setView("day");
+  }, [focusDate]);
 
-  const monthStart = startOfMonth(currentMonth);
-  const monthEnd = endOfMonth(currentMonth);
+  const monthStart = startOfMonth(currentDate);
+  const monthEnd = endOfMonth(currentDate);
   const monthDays = eachDayOfInterval({ start: monthStart, end: monthEnd });
+  const weekDays = eachDayOfInterval({
+    start: startOfWeek(currentDate),
+    end: endOfWeek(currentDate),
+  });
 
-  const goToPreviousMonth = () => setCurrentMonth(subMonths(currentMonth, 1));
-  const goToNextMonth = () => setCurrentMonth(addMonths(currentMonth, 1));
+  const navigate = (direction: 1 | -1) => {
+    if (view === "month") setCurrentDate(addMonths(currentDate, direction));
+    else if (view === "week") setCurrentDate(addWeeks(currentDate, direction));
+    else setCurrentDate(addDays(currentDate, direction));
+  };
+
+  const getTitle = () => {
+    if (view === "day") return format(currentDate, "EEEE, MMM d, yyyy");
+    if (view === "week") {
+      return `${format(weekDays[0], "MMM d")} - ${format(weekDays[6], "MMM d, yyyy")}`;
+    }
+    return format(currentDate, "MMMM yyyy");
+  };
+
+  const showOverlap = (overlap: HangoutOverlap) => {
+    setSelectedOverlap(overlap);
+    setShowOverlapModal(true);
+  };
+
+  const openDay = (day: Date) => {
+    setCurrentDate(day);
+    setView("day");
+  };
 
   const getEventsForDay = (date: Date) => {
-    return events.filter((event) => {
-      const eventDate = new Date(event.startTime);
-      return isSameDay(eventDate, date);
+    // Days are laid out in the viewer's zone, whatever the browser's is.
+    // Recurring events are shown as their occurrences on this day
+    const { start, end } = getZonedDayRange(date, timeZone);
+    return expandEvents(events, start, end).filter((event) => {
+      const eventStart = new Date(event.startTime);
+      return eventStart >= start && eventStart < end;
     });
   };
 
@@ -101,8 +159,7 @@ export const CalendarView = ({
 
           // If it's a hangout with overlap, show the overlap modal
           if (hasOverlap && event.type === "hangout") {
-            setSelectedOverlap(hasOverlap);
-            setShowOverlapModal(true);
+            showOverlap(hasOverlap);
           } else {
             onEventClick(event);
           }
@@ -142,72 +199,119 @@ export const CalendarView = ({
             <div className="flex items-center justify-between">
               <CardTitle className="flex items-center space-x-2">
                 <CalendarIcon className="h-5 w-5" />
-                <span>{format(currentMonth, "MMMM yyyy")}</span>
+                <span>{getTitle()}</span>
               </CardTitle>
-              <div className="flex space-x-1">
-                <Button variant="outline" size="sm" onClick={goToPreviousMonth}>
+              <div className="flex flex-wrap gap-1">
+                {VIEW_MODES.map((mode) => (
+                  <Button
+                    key={mode.value}
+                    variant={view === mode.value ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setView(mode.value)}
+                  >
+                    {mode.label}
+                  </Button>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setCurrentDate(toZonedDate(new Date(), timeZone))
+                  }
+                >
+                  Today
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate(-1)}
+                >
                   <ChevronLeft className="h-4 w-4" />
                 </Button>
-                <Button variant="outline" size="sm" onClick={goToNextMonth}>
+                <Button variant="outline" size="sm" onClick={() => navigate(1)}>
                   <ChevronRight className="h-4 w-4" />
                 </Button>
               </div>
             </div>
           </CardHeader>
           <CardContent>
-            {/* Calendar Header */}
-            <div className="grid grid-cols-7 gap-1 mb-2">
-              {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day) => (
-                <div
-                  key={day}
-                  className="p-2 text-center text-sm font-medium text-muted-foreground"
-                >
-                  {day}
+            {view !== "month" ? (
+              <TimeGrid
+                days={view === "week" ? weekDays : [currentDate]}
+                events={events}
+                timeZone={timeZone}
+                onSlotSelect={(start, end) =>
+                  end && onRangeSelect
+                    ? onRangeSelect(start, end)
+                    : onDateSelect(start)
+                }
+                onEventClick={onEventClick}
+                onEventReschedule={onEventReschedule}
+                onOverlapClick={showOverlap}
+                onDayClick={view === "week" ? openDay : undefined}
+                getOverlappingHangouts={getOverlappingHangouts}
+                checkEventOverlap={checkEventOverlap}
+              />
+            ) : (
+              <>
+                {/* Calendar Header */}
+                <div className="grid grid-cols-7 gap-1 mb-2">
+                  {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map(
+                    (day) => (
+                      <div
+                        key={day}
+                        className="p-2 text-center text-sm font-medium text-muted-foreground"
+                      >
+                        {day}
+                      </div>
+                    ),
+                  )}
                 </div>
-              ))}
-            </div>
 
-            {/* Calendar Days */}
-            <div className="grid grid-cols-7 gap-1">
-              {monthDays.map((day) => {
-                const dayEvents = getEventsForDay(day);
-                const isSelected = selectedDate && isSameDay(day, selectedDate);
-                const isCurrentDay = isToday(day);
+                {/* Calendar Days */}
+                <div className="grid grid-cols-7 gap-1">
+                  {monthDays.map((day) => {
+                    const dayEvents = getEventsForDay(day);
+                    const isSelected =
+                      selectedDate && isSameDay(day, selectedDate);
+                    const isCurrentDay = isSameDay(day, today);
 
-                return (
-                  <div
-                    key={day.toISOString()}
-                    onClick={() => onDateSelect(day)}
-                    className={cn(
-                      "min-h-[100px] p-2 border rounded-md cursor-pointer transition-colors",
-                      isSelected && "bg-primary/10 border-primary",
-                      isCurrentDay && "bg-blue-50 border-blue-200",
-                      !isSelected &&
-                        !isCurrentDay &&
-                        "bg-background border-border hover:bg-muted",
-                    )}
-                  >
-                    <div
-                      className={cn(
-                        "text-sm font-medium mb-1",
-                        isCurrentDay && "text-blue-600",
-                        isSelected && "text-primary",
-                      )}
-                    >
-                      {format(day, "d")}
-                    </div>
-                    <div className="space-y-1">
-                      {dayEvents.slice(0, 2).map(renderEventBadge)}
-                      {dayEvents.length > 2 && (
-                        <div className="text-xs text-muted-foreground">
-                          +{dayEvents.length - 2} more
+                    return (
+                      <div
+                        key={day.toISOString()}
+                        onClick={() => onDateSelect(day)}
+                        className={cn(
+                          "min-h-[100px] p-2 border rounded-md cursor-pointer transition-colors",
+                          isSelected && "bg-primary/10 border-primary",
+                          isCurrentDay && "bg-blue-50 border-blue-200",
+                          !isSelected &&
+                            !isCurrentDay &&
+                            "bg-background border-border hover:bg-muted",
+                        )}
+                      >
+                        <div
+                          className={cn(
+                            "text-sm font-medium mb-1",
+                            isCurrentDay && "text-blue-600",
+                            isSelected && "text-primary",
+                          )}
+                        >
+                          {format(day, "d")}
                         </div>
-                      )}
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
+                        <div className="space-y-1">
+                          {dayEvents.slice(0, 2).map(renderEventBadge)}
+                          {dayEvents.length > 2 && (
+                            <div className="text-xs text-muted-foreground">
+                              +{dayEvents.length - 2} more
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -248,14 +352,14 @@ export const CalendarView = ({
                       event.type === "hangout" &&
                       checkEventOverlap &&
                       checkEventOverlap(event.id);
+                    const ownerTime = getOwnerTimeLabel(event, timeZone);
 
                     return (
                       <div
                         key={event.id}
                         onClick={() => {
                           if (hasOverlap && event.type === "hangout") {
-                            setSelectedOverlap(hasOverlap);
-                            setShowOverlapModal(true);
+                            showOverlap(hasOverlap);
                           } else {
                             onEventClick(event);
                           }
@@ -271,6 +375,9 @@ export const CalendarView = ({
                           <div className="flex-1">
                             <div className="flex items-center space-x-2 mb-1">
                               <h4 className="font-medium">{event.title}</h4>
+                              {event.recurrence && (
+                                <Repeat className="h-3 w-3 text-muted-foreground" />
+                              )}
                               {event.type === "hangout" && (
                                 <Badge variant="secondary" className="text-xs">
                                   <MapPin className="h-3 w-3 mr-1" />
@@ -290,10 +397,24 @@ export const CalendarView = ({
                             <div className="flex items-center space-x-1 text-sm text-muted-foreground">
                               <Clock className="h-3 w-3" />
                               <span>
-                                {format(new Date(event.startTime), "h:mm a")} -{" "}
-                                {format(new Date(event.endTime), "h:mm a")}
+                                {formatInTimeZone(
+                                  event.startTime,
+                                  "h:mm a",
+                                  timeZone,
+                                )}{" "}
+                                -{" "}
+                                {formatInTimeZone(
+                                  event.endTime,
+                                  "h:mm a",
+                                  timeZone,
+                                )}
                               </span>
                             </div>
+                            {ownerTime && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {ownerTime} where it was planned
+                              </p>
+                            )}
                             {event.description && (
                               <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
                                 {event.description}
@@ -380,6 +501,14 @@ export const CalendarView = ({
         friendEvent={selectedOverlap?.friendEvent || null}
         friend={selectedOverlap?.friend || null}
         overlapTime={selectedOverlap?.overlap || null}
+        onCreateHangout={
+          onCreateHangout && selectedOverlap
+            ? () => {
+                onCreateHangout(selectedOverlap);
+                setShowOverlapModal(false);
+              }
+            : undefined
+        }
       />
     </div>
   );
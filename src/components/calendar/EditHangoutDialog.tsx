@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { HangoutEvent } from "@/types";
+import { fromZonedDate, formatInTimeZone } from "@/utils/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
+
+interface EditHangoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event: HangoutEvent | null;
+  onSave: (
+    updates: Pick<
+      HangoutEvent,
+      "title" | "description" | "startTime" | "endTime"
+    >,
+  ) => Promise<void>;
+}
+
+const DATETIME_LOCAL_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+export const EditHangoutDialog = ({
+  open,
+  onOpenChange,
+  event,
+  onSave,
+}: EditHangoutDialogProps) => {
+  const timeZone = useTimeZone();
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !event) return;
+
+    setTitle(event.title);
+    setDescription(event.description || "");
+    setStartTime(
+      formatInTimeZone(event.startTime, DATETIME_LOCAL_FORMAT, timeZone),
+    );
+    setEndTime(
+      formatInTimeZone(event.endTime, DATETIME_LOCAL_FORMAT, timeZone),
+    );
+  }, [open, event, timeZone]);
+
+  // Form times are wall-clock times in the user's home zone
+  const toInstant = (value: string) =>
+    fromZonedDate(new Date(value), timeZone).toISOString();
+
+  const isValid =
+    title.trim().length > 0 &&
+    Boolean(startTime) &&
+    Boolean(endTime) &&
+    new Date(endTime) > new Date(startTime);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    await onSave({
+      title: title.trim(),
+      description: description.trim(),
+      startTime: toInstant(startTime),
+      endTime: toInstant(endTime),
+    });
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Edit Hangout</DialogTitle>
+          <DialogDescription>
+            Everyone who's still coming will be notified of the changes
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="hangout-title">Title</Label>
+            <Input
+              id="hangout-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="hangout-description">Description</Label>
+            <Textarea
+              id="hangout-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="hangout-start">Start</Label>
+              <Input
+                id="hangout-start"
+                type="datetime-local"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hangout-end">End</Label>
+              <Input
+                id="hangout-end"
+                type="datetime-local"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid || isSaving}>
+            {isSaving ? "Saving..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -24,8 +24,10 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Calendar, Clock, MapPin, Plus, X } from "lucide-react";
-import { CreateEventInput } from "@/types";
+import { CreateEventInput, RecurrenceRule } from "@/types";
 import { format } from "date-fns";
+import { fromZonedDate, getTimeZoneAbbreviation } from "@/utils/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
 
 const eventSchema = z
   .object({
@@ -42,25 +44,47 @@ const eventSchema = z
 
 type EventFormData = z.infer<typeof eventSchema>;
 
+type RepeatFrequency = "none" | RecurrenceRule["frequency"];
+type RepeatEnd = "never" | "count" | "until";
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+
 interface EventModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSubmit: (eventData: CreateEventInput) => void;
   defaultDate?: Date;
+  // End of a range dragged out on the calendar; defaults to an hour later
+  defaultEndDate?: Date;
+  defaultType?: "personal" | "hangout";
+  defaultTitle?: string;
 }
 
+const DATETIME_LOCAL_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
 export const EventModal = ({
   open,
   onOpenChange,
   onSubmit,
   defaultDate,
+  defaultEndDate,
+  defaultType,
+  defaultTitle,
 }: EventModalProps) => {
+  const timeZone = useTimeZone();
   const [activitySuggestions, setActivitySuggestions] = useState<string[]>([]);
   const [newActivity, setNewActivity] = useState("");
+  const [budgetMin, setBudgetMin] = useState<number | undefined>();
   const [budgetLimit, setBudgetLimit] = useState<number | undefined>();
   const [maxTravelDistance, setMaxTravelDistance] = useState<
     number | undefined
   >();
+  const [repeat, setRepeat] = useState<RepeatFrequency>("none");
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [repeatWeekdays, setRepeatWeekdays] = useState<number[]>([]);
+  const [repeatEnd, setRepeatEnd] = useState<RepeatEnd>("never");
+  const [repeatCount, setRepeatCount] = useState(10);
+  const [repeatUntil, setRepeatUntil] = useState("");
 
   const {
     register,
@@ -73,11 +97,11 @@ export const EventModal = ({
     resolver: zodResolver(eventSchema),
     defaultValues: {
       type: "personal",
-      startTime: defaultDate ? format(defaultDate, "yyyy-MM-dd'T'HH:mm") : "",
+      startTime: defaultDate ? format(defaultDate, DATETIME_LOCAL_FORMAT) : "",
       endTime: defaultDate
         ? format(
-            new Date(defaultDate.getTime() + 60 * 60 * 1000),
-            "yyyy-MM-dd'T'HH:mm",
+            defaultEndDate || new Date(defaultDate.getTime() + 60 * 60 * 1000),
+            DATETIME_LOCAL_FORMAT,
           )
         : "",
     },
@@ -85,18 +109,56 @@ export const EventModal = ({
 
   const watchedType = watch("type");
 
+  // The modal stays mounted, so prefill the form each time it opens
+  useEffect(() => {
+    if (!open) return;
+
+    if (defaultType) setValue("type", defaultType);
+    if (defaultTitle) setValue("title", defaultTitle);
+    if (!defaultDate) return;
+
+    setValue("startTime", format(defaultDate, DATETIME_LOCAL_FORMAT));
+    setValue(
+      "endTime",
+      format(
+        defaultEndDate || new Date(defaultDate.getTime() + 60 * 60 * 1000),
+        DATETIME_LOCAL_FORMAT,
+      ),
+    );
+  }, [open, defaultDate, defaultEndDate, defaultType, defaultTitle, setValue]);
+
+  // Form times are wall-clock times in the user's home zone
+  const toInstant = (value: string) =>
+    fromZonedDate(new Date(value), timeZone).toISOString();
+
   const handleEventSubmit = (data: EventFormData) => {
     const eventData: CreateEventInput = {
       title: data.title,
       description: data.description,
-      startTime: new Date(data.startTime).toISOString(),
-      endTime: new Date(data.endTime).toISOString(),
+      startTime: toInstant(data.startTime),
+      endTime: toInstant(data.endTime),
       type: data.type,
+      timeZone,
     };
 
+    if (repeat !== "none") {
+      eventData.recurrence = {
+        frequency: repeat,
+        interval: Math.max(1, repeatInterval),
+        ...(repeat === "weekly" &&
+          repeatWeekdays.length > 0 && { byWeekday: repeatWeekdays }),
+        ...(repeatEnd === "count" && { count: Math.max(1, repeatCount) }),
+        ...(repeatEnd === "until" &&
+          repeatUntil && {
+            until: toInstant(`${repeatUntil}T23:59:59`),
+          }),
+      };
+    }
+
     if (data.type === "hangout") {
       eventData.preferences = {
         activitySuggestions,
+        budgetMin,
         budgetLimit,
         maxTravelDistance,
       };
@@ -110,11 +172,26 @@ export const EventModal = ({
     reset();
     setActivitySuggestions([]);
     setNewActivity("");
+    setBudgetMin(undefined);
     setBudgetLimit(undefined);
     setMaxTravelDistance(undefined);
+    setRepeat("none");
+    setRepeatInterval(1);
+    setRepeatWeekdays([]);
+    setRepeatEnd("never");
+    setRepeatCount(10);
+    setRepeatUntil("");
     onOpenChange(false);
   };
 
+  const toggleWeekday = (weekday: number) => {
+    setRepeatWeekdays((prev) =>
+      prev.includes(weekday)
+        ? prev.filter((d) => d !== weekday)
+        : [...prev, weekday].sort((a, b) => a - b),
+    );
+  };
+
   const addActivity = () => {
     if (
       newActivity.trim() &&
@@ -233,6 +310,113 @@ export const EventModal = ({
                 )}
               </div>
             </div>
+            <p className="text-xs text-muted-foreground -mt-2">
+              Times are in {timeZone} ({getTimeZoneAbbreviation(timeZone)})
+            </p>
+
+            {/* Recurrence */}
+            <div className="space-y-2">
+              <Label htmlFor="repeat">Repeat</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <Select
+                  value={repeat}
+                  onValueChange={(value) => setRepeat(value as RepeatFrequency)}
+                >
+                  <SelectTrigger id="repeat">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Does not repeat</SelectItem>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+                {repeat !== "none" && (
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-muted-foreground">Every</span>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={repeatInterval}
+                      onChange={(e) =>
+                        setRepeatInterval(Number(e.target.value) || 1)
+                      }
+                      className="w-20"
+                    />
+                    <span className="text-sm text-muted-foreground">
+                      {
+                        {
+                          daily: "day(s)",
+                          weekly: "week(s)",
+                          monthly: "month(s)",
+                        }[repeat]
+                      }
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              {repeat === "weekly" && (
+                <div className="flex space-x-1">
+                  {WEEKDAYS.map((label, weekday) => (
+                    <Button
+                      key={weekday}
+                      type="button"
+                      size="sm"
+                      variant={
+                        repeatWeekdays.includes(weekday) ? "default" : "outline"
+                      }
+                      className="h-8 w-8 p-0"
+                      onClick={() => toggleWeekday(weekday)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {repeat !== "none" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <Select
+                    value={repeatEnd}
+                    onValueChange={(value) => setRepeatEnd(value as RepeatEnd)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="never">Never ends</SelectItem>
+                      <SelectItem value="count">Ends after</SelectItem>
+                      <SelectItem value="until">Ends on</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {repeatEnd === "count" && (
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        type="number"
+                        min="1"
+                        value={repeatCount}
+                        onChange={(e) =>
+                          setRepeatCount(Number(e.target.value) || 1)
+                        }
+                        className="w-20"
+                      />
+                      <span className="text-sm text-muted-foreground">
+                        occurrences
+                      </span>
+                    </div>
+                  )}
+                  {repeatEnd === "until" && (
+                    <Input
+                      type="date"
+                      value={repeatUntil}
+                      onChange={(e) => setRepeatUntil(e.target.value)}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
 
             {/* Hangout Preferences */}
             {watchedType === "hangout" && (
@@ -280,22 +464,37 @@ export const EventModal = ({
                     )}
                   </div>
 
-                  {/* Budget Limit */}
+                  {/* Budget Range */}
                   <div className="space-y-2">
-                    <Label htmlFor="budgetLimit">Budget Limit (Optional)</Label>
-                    <Input
-                      id="budgetLimit"
-                      type="number"
-                      placeholder="Enter budget in dollars"
-                      value={budgetLimit || ""}
-                      onChange={(e) =>
-                        setBudgetLimit(
-                          e.target.value ? Number(e.target.value) : undefined,
-                        )
-                      }
-                      min="0"
-                      step="0.01"
-                    />
+                    <Label htmlFor="budgetMin">Budget Range (Optional)</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        id="budgetMin"
+                        type="number"
+                        placeholder="Min in dollars"
+                        value={budgetMin ?? ""}
+                        onChange={(e) =>
+                          setBudgetMin(
+                            e.target.value ? Number(e.target.value) : undefined,
+                          )
+                        }
+                        min="0"
+                        step="0.01"
+                      />
+                      <Input
+                        id="budgetLimit"
+                        type="number"
+                        placeholder="Max in dollars"
+                        value={budgetLimit || ""}
+                        onChange={(e) =>
+                          setBudgetLimit(
+                            e.target.value ? Number(e.target.value) : undefined,
+                          )
+                        }
+                        min="0"
+                        step="0.01"
+                      />
+                    </div>
                   </div>
 
                   {/* Max Travel Distance */}
@@ -0,0 +1,97 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Users } from "lucide-react";
+import { HangoutEvent, RsvpStatus } from "@/types";
+import { useUsers } from "@/hooks/use-users";
+import {
+  RSVP_LABELS,
+  getHangoutMembers,
+  getRsvpStatus,
+} from "@/utils/sharedHangouts";
+
+interface HangoutAttendeesProps {
+  event: HangoutEvent;
+  currentUserId?: string;
+  onRespond?: (status: RsvpStatus) => void;
+}
+
+const RESPONSES: Array<{ status: RsvpStatus; label: string }> = [
+  { status: "going", label: "Going" },
+  { status: "maybe", label: "Maybe" },
+  { status: "declined", label: "Can't go" },
+];
+
+const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .map((word) => word[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+
+export const HangoutAttendees = ({
+  event,
+  currentUserId,
+  onRespond,
+}: HangoutAttendeesProps) => {
+  const members = getHangoutMembers(event);
+  const users = useUsers(members);
+  const myStatus = currentUserId ? getRsvpStatus(event, currentUserId) : null;
+  const isInvitee = myStatus !== null && event.userId !== currentUserId;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium flex items-center space-x-2">
+        <Users className="h-4 w-4" />
+        <span>Who's Coming</span>
+      </h4>
+
+      <div className="space-y-2">
+        {members.map((memberId) => {
+          const member = users[memberId];
+          const status = getRsvpStatus(event, memberId) || "pending";
+
+          return (
+            <div key={memberId} className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Avatar className="h-7 w-7">
+                  <AvatarImage src={member?.avatar} alt={member?.fullName} />
+                  <AvatarFallback className="text-xs">
+                    {member ? getInitials(member.fullName) : "?"}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm">
+                  {memberId === currentUserId
+                    ? "You"
+                    : member?.fullName || "Unknown user"}
+                </span>
+              </div>
+              <Badge
+                variant={status === "going" ? "default" : "outline"}
+                className="text-xs"
+              >
+                {memberId === event.userId ? "Organizer" : RSVP_LABELS[status]}
+              </Badge>
+            </div>
+          );
+        })}
+      </div>
+
+      {isInvitee && onRespond && (
+        <div className="flex space-x-2">
+          {RESPONSES.map(({ status, label }) => (
+            <Button
+              key={status}
+              size="sm"
+              variant={myStatus === status ? "default" : "outline"}
+              onClick={() => onRespond(status)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -17,10 +17,13 @@ import {
   MessageCircle,
   Users,
   Calendar,
+  CalendarPlus,
 } from "lucide-react";
 import { HangoutEvent, User } from "@/types";
-import { format } from "date-fns";
 import { Link } from "react-router-dom";
+import { evaluateHangoutMatch } from "@/utils/hangoutMatching";
+import { formatInTimeZone, getOwnerTimeLabel } from "@/utils/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
 
 interface HangoutOverlapModalProps {
   open: boolean;
@@ -29,6 +32,7 @@ interface HangoutOverlapModalProps {
   friendEvent: HangoutEvent | null;
   friend: User | null;
   overlapTime: { start: string; end: string } | null;
+  onCreateHangout?: () => void;
 }
 
 export const HangoutOverlapModal = ({
@@ -38,7 +42,10 @@ export const HangoutOverlapModal = ({
   friendEvent,
   friend,
   overlapTime,
+  onCreateHangout,
 }: HangoutOverlapModalProps) => {
+  const timeZone = useTimeZone();
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -57,84 +64,117 @@ export const HangoutOverlapModal = ({
         return "Invalid time range";
       }
 
-      return `${format(startDate, "MMM d, h:mm a")} - ${format(endDate, "h:mm a")}`;
+      return `${formatInTimeZone(startDate, "MMM d, h:mm a", timeZone)} - ${formatInTimeZone(endDate, "h:mm a", timeZone)}`;
     } catch (error) {
       return "Invalid time range";
     }
   };
 
-  const renderHangoutPreferences = (event: HangoutEvent, title: string) => (
-    <div className="space-y-3">
-      <div className="flex items-center space-x-2">
-        <MapPin className="h-5 w-5 text-blue-600" />
-        <h3 className="font-semibold">{title}</h3>
-      </div>
+  const formatBudget = (preferences: HangoutEvent["preferences"]) =>
+    preferences.budgetMin !== undefined
+      ? `$${preferences.budgetMin} - $${preferences.budgetLimit ?? "any"}`
+      : `$${preferences.budgetLimit}`;
 
-      <div className="space-y-2 ml-7">
-        <div>
-          <p className="font-medium">{event.title}</p>
-          <p className="text-sm text-muted-foreground">
-            {format(new Date(event.startTime), "MMM d, h:mm a")} -{" "}
-            {format(new Date(event.endTime), "h:mm a")}
-          </p>
-          {event.description && (
-            <p className="text-sm text-muted-foreground mt-1">
-              {event.description}
-            </p>
-          )}
+  const renderHangoutPreferences = (
+    event: HangoutEvent,
+    title: string,
+    owner?: User,
+  ) => {
+    // Older events have no zone of their own, so fall back to the owner's
+    const ownerTime = getOwnerTimeLabel(
+      { ...event, timeZone: event.timeZone || owner?.timeZone },
+      timeZone,
+    );
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center space-x-2">
+          <MapPin className="h-5 w-5 text-blue-600" />
+          <h3 className="font-semibold">{title}</h3>
         </div>
 
-        {event.preferences && (
-          <>
-            {event.preferences.activitySuggestions &&
-              event.preferences.activitySuggestions.length > 0 && (
-                <div>
-                  <p className="text-sm font-medium mb-1">
-                    Activity Suggestions:
-                  </p>
-                  <div className="flex flex-wrap gap-1">
-                    {event.preferences.activitySuggestions.map(
-                      (activity, index) => (
-                        <Badge
-                          key={index}
-                          variant="outline"
-                          className="text-xs"
-                        >
-                          {activity}
-                        </Badge>
-                      ),
-                    )}
+        <div className="space-y-2 ml-7">
+          <div>
+            <p className="font-medium">{event.title}</p>
+            <p className="text-sm text-muted-foreground">
+              {formatInTimeZone(event.startTime, "MMM d, h:mm a", timeZone)} -{" "}
+              {formatInTimeZone(event.endTime, "h:mm a", timeZone)}
+            </p>
+            {ownerTime && (
+              <p className="text-xs text-muted-foreground">
+                {owner ? `${ownerTime} for ${owner.fullName}` : ownerTime}
+              </p>
+            )}
+            {event.description && (
+              <p className="text-sm text-muted-foreground mt-1">
+                {event.description}
+              </p>
+            )}
+          </div>
+
+          {event.preferences && (
+            <>
+              {event.preferences.activitySuggestions &&
+                event.preferences.activitySuggestions.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium mb-1">
+                      Activity Suggestions:
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {event.preferences.activitySuggestions.map(
+                        (activity, index) => (
+                          <Badge
+                            key={index}
+                            variant="outline"
+                            className="text-xs"
+                          >
+                            {activity}
+                          </Badge>
+                        ),
+                      )}
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-            <div className="flex space-x-4 text-sm">
-              {event.preferences.budgetLimit && (
-                <div className="flex items-center space-x-1 text-green-600">
-                  <DollarSign className="h-3 w-3" />
-                  <span>Budget: ${event.preferences.budgetLimit}</span>
-                </div>
-              )}
+              <div className="flex space-x-4 text-sm">
+                {(event.preferences.budgetLimit ||
+                  event.preferences.budgetMin !== undefined) && (
+                  <div className="flex items-center space-x-1 text-green-600">
+                    <DollarSign className="h-3 w-3" />
+                    <span>Budget: {formatBudget(event.preferences)}</span>
+                  </div>
+                )}
 
-              {event.preferences.maxTravelDistance && (
-                <div className="flex items-center space-x-1 text-purple-600">
-                  <Navigation className="h-3 w-3" />
-                  <span>
-                    Max travel: {event.preferences.maxTravelDistance} miles
-                  </span>
-                </div>
-              )}
-            </div>
-          </>
-        )}
+                {event.preferences.maxTravelDistance && (
+                  <div className="flex items-center space-x-1 text-purple-600">
+                    <Navigation className="h-3 w-3" />
+                    <span>
+                      Max travel: {event.preferences.maxTravelDistance} miles
+                    </span>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   if (!userEvent || !friendEvent || !friend || !overlapTime) {
     return null;
   }
 
+  const evaluation = evaluateHangoutMatch(
+    {
+      users: [userEvent.userId, friendEvent.userId],
+      hangoutEvents: [userEvent.id, friendEvent.id],
+      start: overlapTime.start,
+      end: overlapTime.end,
+    },
+    [userEvent, friendEvent],
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
@@ -192,6 +232,7 @@ export const HangoutOverlapModal = ({
           {renderHangoutPreferences(
             friendEvent,
             `${friend.fullName}'s Hangout Plans`,
+            friend,
           )}
 
           {/* Compatibility Check */}
@@ -199,6 +240,9 @@ export const HangoutOverlapModal = ({
             <h4 className="font-semibold text-blue-800 mb-2 flex items-center space-x-2">
               <Calendar className="h-4 w-4" />
               <span>Compatibility Analysis</span>
+              <Badge variant="secondary" className="text-xs">
+                {evaluation.compatibilityScore}% match
+              </Badge>
             </h4>
             <div className="space-y-2 text-sm">
               {/* Activity Compatibility */}
@@ -207,13 +251,7 @@ export const HangoutOverlapModal = ({
                   <div>
                     <p className="font-medium">Common Activities:</p>
                     {(() => {
-                      const commonActivities =
-                        userEvent.preferences.activitySuggestions.filter(
-                          (activity) =>
-                            friendEvent.preferences?.activitySuggestions?.includes(
-                              activity,
-                            ),
-                        );
+                      const commonActivities = evaluation.sharedActivities;
 
                       if (commonActivities.length > 0) {
                         return (
@@ -242,21 +280,18 @@ export const HangoutOverlapModal = ({
                 )}
 
               {/* Budget Compatibility */}
-              {userEvent.preferences?.budgetLimit &&
-                friendEvent.preferences?.budgetLimit && (
+              {(userEvent.preferences?.budgetLimit ||
+                userEvent.preferences?.budgetMin !== undefined) &&
+                (friendEvent.preferences?.budgetLimit ||
+                  friendEvent.preferences?.budgetMin !== undefined) && (
                   <div>
                     <p className="font-medium">Budget Range:</p>
                     <p className="text-muted-foreground">
-                      $
-                      {Math.min(
-                        userEvent.preferences.budgetLimit,
-                        friendEvent.preferences.budgetLimit,
-                      )}{" "}
-                      - $
-                      {Math.max(
-                        userEvent.preferences.budgetLimit,
-                        friendEvent.preferences.budgetLimit,
-                      )}
+                      {formatBudget(userEvent.preferences)} vs{" "}
+                      {formatBudget(friendEvent.preferences)}
+                      {evaluation.budgetCompatible
+                        ? " - your budgets overlap"
+                        : " - your budgets don't overlap"}
                     </p>
                   </div>
                 )}
@@ -297,6 +332,12 @@ export const HangoutOverlapModal = ({
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Close
           </Button>
+          {onCreateHangout && (
+            <Button variant="outline" onClick={onCreateHangout}>
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              Create Hangout
+            </Button>
+          )}
           <Link to={`/messages?user=${friend.id}`}>
             <Button>
               <MessageCircle className="mr-2 h-4 w-4" />
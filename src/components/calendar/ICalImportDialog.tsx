@@ -0,0 +1,206 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AlertTriangle, Repeat, Upload } from "lucide-react";
+import { Event } from "@/types";
+import {
+  ICalImportItem,
+  ImportedEvent,
+  parseICal,
+  planICalImport,
+} from "@/utils/ical";
+import { describeRecurrence } from "@/utils/recurrence";
+import { formatInTimeZone } from "@/utils/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { toast } from "sonner";
+
+interface ICalImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existingEvents: Event[];
+  onImport: (events: ImportedEvent[]) => Promise<number>;
+}
+
+export const ICalImportDialog = ({
+  open,
+  onOpenChange,
+  existingEvents,
+  onImport,
+}: ICalImportDialogProps) => {
+  const timeZone = useTimeZone();
+  const [items, setItems] = useState<ICalImportItem[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFileChange = async (file?: File) => {
+    if (!file) return;
+
+    try {
+      const result = parseICal(await file.text());
+      const plan = planICalImport(result.events, existingEvents);
+
+      setItems(plan);
+      setErrors(result.errors);
+      // Events already in the calendar are left unticked by default
+      setSelected(
+        new Set(
+          plan
+            .filter((item) => !item.existing)
+            .map((item) => item.event.icalUid),
+        ),
+      );
+    } catch (error) {
+      console.error("Error reading calendar file:", error);
+      toast.error("Couldn't read that calendar file");
+    }
+  };
+
+  const toggleItem = (uid: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(uid);
+      else next.delete(uid);
+      return next;
+    });
+  };
+
+  const handleClose = () => {
+    setItems([]);
+    setErrors([]);
+    setSelected(new Set());
+    onOpenChange(false);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const count = await onImport(
+        items
+          .filter((item) => selected.has(item.event.icalUid))
+          .map((item) => item.event),
+      );
+      toast.success(`Imported ${count} event(s)`);
+      handleClose();
+    } catch (error) {
+      toast.error("Failed to import events");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && handleClose()}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Import Calendar</DialogTitle>
+          <DialogDescription>
+            Bring events in from an .ics file. Review them before they're added
+            to your calendar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+        />
+
+        {errors.length > 0 && (
+          <div className="p-3 text-sm bg-amber-50 border border-amber-200 rounded-lg text-amber-800 space-y-1">
+            {errors.map((error, index) => (
+              <p key={index}>{error}</p>
+            ))}
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <ScrollArea className="max-h-[50vh] pr-3">
+            <div className="space-y-2">
+              {items.map(({ event, existing, conflicts }) => (
+                <label
+                  key={event.icalUid}
+                  className="flex items-start space-x-3 p-3 border rounded-lg cursor-pointer hover:bg-muted"
+                >
+                  <Checkbox
+                    checked={selected.has(event.icalUid)}
+                    onCheckedChange={(checked) =>
+                      toggleItem(event.icalUid, checked === true)
+                    }
+                    className="mt-1"
+                  />
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium">{event.title}</p>
+                      {event.type === "hangout" && (
+                        <Badge variant="secondary" className="text-xs">
+                          Hangout
+                        </Badge>
+                      )}
+                      {existing ? (
+                        <Badge variant="outline" className="text-xs">
+                          Updates existing
+                        </Badge>
+                      ) : (
+                        <Badge className="text-xs">New</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {formatInTimeZone(
+                        event.startTime,
+                        "MMM d, yyyy h:mm a",
+                        timeZone,
+                      )}{" "}
+                      - {formatInTimeZone(event.endTime, "h:mm a", timeZone)}
+                    </p>
+                    {event.recurrence && (
+                      <p className="flex items-center space-x-1 text-xs text-muted-foreground">
+                        <Repeat className="h-3 w-3" />
+                        <span>{describeRecurrence(event.recurrence)}</span>
+                      </p>
+                    )}
+                    {conflicts.length > 0 && (
+                      <p className="flex items-center space-x-1 text-xs text-amber-700">
+                        <AlertTriangle className="h-3 w-3" />
+                        <span>
+                          Overlaps{" "}
+                          {conflicts
+                            .map((conflict) => conflict.title)
+                            .join(", ")}
+                        </span>
+                      </p>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={selected.size === 0 || isImporting}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Import {selected.size > 0 && `${selected.size} event(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,447 @@
+import { useEffect, useRef, useState } from "react";
+import { MapPin, Users, Calendar as CalendarIcon, Repeat } from "lucide-react";
+import { Event, HangoutOverlap } from "@/types";
+import { format, isSameDay } from "date-fns";
+import { cn } from "@/lib/utils";
+import { expandEvents } from "@/utils/recurrence";
+import {
+  formatInTimeZone,
+  getZonedDayRange,
+  toZonedDate,
+} from "@/utils/timezone";
+import {
+  TimeGridDragMode,
+  layoutTimeGridEntries,
+  shiftEventTimes,
+} from "@/utils/timeGridLayout";
+
+interface TimeGridProps {
+  days: Date[];
+  events: Event[];
+  timeZone: string;
+  // Wall-clock times in the viewer's zone; `end` is set for dragged ranges
+  onSlotSelect: (start: Date, end?: Date) => void;
+  onEventClick: (event: Event) => void;
+  onEventReschedule?: (
+    event: Event,
+    times: { startTime: string; endTime: string },
+  ) => void;
+  onOverlapClick: (overlap: HangoutOverlap) => void;
+  onDayClick?: (date: Date) => void;
+  getOverlappingHangouts?: (date: Date) => HangoutOverlap[];
+  checkEventOverlap?: (eventId: string) => HangoutOverlap | null;
+}
+
+type DragState =
+  | { kind: "create"; dayIndex: number; anchor: number; current: number }
+  | {
+      kind: TimeGridDragMode;
+      event: Event;
+      originDay: number;
+      originMinutes: number;
+      days: number;
+      minutes: number;
+    };
+
+const HOUR_HEIGHT = 48;
+const MINUTES_PER_DAY = 24 * 60;
+const SLOT_MINUTES = 30;
+// Drags and arrow keys move times in steps of this many minutes
+const SNAP_MINUTES = 15;
+// Most people plan their day from here, so the grid opens scrolled to it
+const INITIAL_SCROLL_HOUR = 8;
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const toPixels = (minutes: number) => (minutes / 60) * HOUR_HEIGHT;
+
+const snap = (minutes: number, step = SNAP_MINUTES) =>
+  Math.floor(minutes / step) * step;
+
+// A wall-clock time on the given grid day
+const atMinutes = (day: Date, minutes: number) => {
+  const date = new Date(day);
+  date.setHours(0, minutes, 0, 0);
+  return date;
+};
+
+export const TimeGrid = ({
+  days,
+  events,
+  timeZone,
+  onSlotSelect,
+  onEventClick,
+  onEventReschedule,
+  onOverlapClick,
+  onDayClick,
+  getOverlappingHangouts,
+  checkEventOverlap,
+}: TimeGridProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(new Date());
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = toPixels(INITIAL_SCROLL_HOUR * 60);
+    }
+  }, []);
+
+  const today = toZonedDate(now, timeZone);
+
+  // Minutes into the day shown, clamped to the day's bounds
+  const getMinutesIntoDay = (
+    time: Date | string,
+    range: { start: Date; end: Date },
+  ) => {
+    const instant = new Date(time);
+    if (instant <= range.start) return 0;
+    if (instant >= range.end) return MINUTES_PER_DAY;
+
+    const zoned = toZonedDate(instant, timeZone);
+    return zoned.getHours() * 60 + zoned.getMinutes();
+  };
+
+  // The day column and time of day under the pointer
+  const getPointerPosition = (e: React.PointerEvent) => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    const gutter = gutterRef.current?.offsetWidth || 0;
+    const columnWidth = (rect.width - gutter) / days.length;
+    const dayIndex = Math.floor((e.clientX - rect.left - gutter) / columnWidth);
+    const minutes = ((e.clientY - rect.top) / HOUR_HEIGHT) * 60;
+
+    return {
+      dayIndex: Math.min(Math.max(dayIndex, 0), days.length - 1),
+      minutes: Math.min(Math.max(minutes, 0), MINUTES_PER_DAY - 1),
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, state: DragState) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    gridRef.current?.setPointerCapture(e.pointerId);
+    setDrag(state);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const { dayIndex, minutes } = getPointerPosition(e);
+
+    if (drag.kind === "create") {
+      setDrag({ ...drag, current: snap(minutes) });
+    } else {
+      setDrag({
+        ...drag,
+        days: drag.kind === "move" ? dayIndex - drag.originDay : 0,
+        minutes: snap(minutes - drag.originMinutes + SNAP_MINUTES / 2),
+      });
+    }
+  };
+
+  const openEvent = (event: Event) => {
+    const overlap = event.type === "hangout" && checkEventOverlap?.(event.id);
+    if (overlap) onOverlapClick(overlap);
+    else onEventClick(event);
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+
+    if (drag.kind === "create") {
+      const day = days[drag.dayIndex];
+      if (drag.current === drag.anchor) {
+        onSlotSelect(atMinutes(day, snap(drag.anchor, SLOT_MINUTES)));
+      } else {
+        const start = Math.min(drag.anchor, drag.current);
+        const end = Math.max(drag.anchor, drag.current) + SNAP_MINUTES;
+        onSlotSelect(atMinutes(day, start), atMinutes(day, end));
+      }
+    } else if (drag.days === 0 && drag.minutes === 0) {
+      // A press without movement is a click
+      openEvent(drag.event);
+    } else {
+      onEventReschedule?.(
+        drag.event,
+        shiftEventTimes(
+          drag.event,
+          drag.kind,
+          { days: drag.days, minutes: drag.minutes },
+          timeZone,
+        ),
+      );
+    }
+  };
+
+  const handleEventKeyDown = (e: React.KeyboardEvent, event: Event) => {
+    const step = (days: number, minutes: number, mode: TimeGridDragMode) => {
+      e.preventDefault();
+      onEventReschedule?.(
+        event,
+        shiftEventTimes(event, mode, { days, minutes }, timeZone),
+      );
+    };
+
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      openEvent(event);
+    } else if (!onEventReschedule) {
+      return;
+    } else if (e.key === "ArrowUp") {
+      step(0, -SNAP_MINUTES, e.shiftKey ? "resize" : "move");
+    } else if (e.key === "ArrowDown") {
+      step(0, SNAP_MINUTES, e.shiftKey ? "resize" : "move");
+    } else if (e.key === "ArrowLeft") {
+      step(-1, 0, "move");
+    } else if (e.key === "ArrowRight") {
+      step(1, 0, "move");
+    }
+  };
+
+  // The event as it would land if the current drag were dropped
+  const getDraggedEvent = (): Event | null => {
+    if (!drag || drag.kind === "create") return null;
+    return {
+      ...drag.event,
+      ...shiftEventTimes(
+        drag.event,
+        drag.kind,
+        { days: drag.days, minutes: drag.minutes },
+        timeZone,
+      ),
+    };
+  };
+
+  const renderDayColumn = (day: Date, dayIndex: number) => {
+    const range = getZonedDayRange(day, timeZone);
+    const draggedEvent = getDraggedEvent();
+    const dayEvents = [
+      ...expandEvents(events, range.start, range.end).filter(
+        (event) => event.id !== draggedEvent?.id,
+      ),
+      ...(draggedEvent ? [draggedEvent] : []),
+    ].filter(
+      (event) =>
+        new Date(event.startTime) < range.end &&
+        new Date(event.endTime) > range.start,
+    );
+    const placements = layoutTimeGridEntries(
+      dayEvents.map((event) => ({
+        item: event,
+        start: getMinutesIntoDay(event.startTime, range),
+        end: getMinutesIntoDay(event.endTime, range),
+      })),
+    );
+    const overlaps = getOverlappingHangouts ? getOverlappingHangouts(day) : [];
+
+    return (
+      <div
+        key={day.toISOString()}
+        tabIndex={0}
+        aria-label={`${format(day, "EEEE, MMMM d")}, press Enter to add an event`}
+        className="relative border-l cursor-pointer select-none focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring"
+        style={{ height: toPixels(MINUTES_PER_DAY) }}
+        onPointerDown={(e) => {
+          const minutes = snap(getPointerPosition(e).minutes);
+          startDrag(e, {
+            kind: "create",
+            dayIndex,
+            anchor: minutes,
+            current: minutes,
+          });
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && e.target === e.currentTarget) {
+            onSlotSelect(atMinutes(day, INITIAL_SCROLL_HOUR * 60));
+          }
+        }}
+      >
+        {HOURS.map((hour) => (
+          <div
+            key={hour}
+            className="border-b border-dashed border-border/60"
+            style={{ height: HOUR_HEIGHT }}
+          />
+        ))}
+
+        {/* Friend overlap windows sit behind the events */}
+        {overlaps.map((item) => {
+          const start = getMinutesIntoDay(item.overlap.start, range);
+          const end = getMinutesIntoDay(item.overlap.end, range);
+
+          return (
+            <div
+              key={`${item.userEvent.id}-${item.friendEvent.id}`}
+              title={`Overlaps with ${item.friend.fullName}`}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onOverlapClick(item)}
+              className="absolute inset-x-0 bg-green-200/50 border-y border-green-300"
+              style={{ top: toPixels(start), height: toPixels(end - start) }}
+            />
+          );
+        })}
+
+        {drag?.kind === "create" && drag.dayIndex === dayIndex && (
+          <div
+            className="absolute inset-x-1 z-10 rounded bg-primary/20 border border-primary pointer-events-none"
+            style={{
+              top: toPixels(Math.min(drag.anchor, drag.current)),
+              height: toPixels(
+                Math.abs(drag.current - drag.anchor) + SNAP_MINUTES,
+              ),
+            }}
+          />
+        )}
+
+        {placements.map(({ item: event, start, end, column, columns }) => {
+          const hasOverlap =
+            event.type === "hangout" &&
+            checkEventOverlap &&
+            checkEventOverlap(event.id);
+          const isDragging = event.id === draggedEvent?.id;
+
+          return (
+            <div
+              key={event.id}
+              tabIndex={0}
+              role="button"
+              aria-label={`${event.title}, ${formatInTimeZone(event.startTime, "h:mm a", timeZone)}. Arrow keys move it, Shift with up or down resizes it`}
+              onPointerDown={(e) =>
+                startDrag(e, {
+                  kind: "move",
+                  event,
+                  originDay: dayIndex,
+                  originMinutes: getPointerPosition(e).minutes,
+                  days: 0,
+                  minutes: 0,
+                })
+              }
+              onKeyDown={(e) => handleEventKeyDown(e, event)}
+              className={cn(
+                "absolute overflow-hidden rounded px-1 py-0.5 text-xs hover:opacity-80 transition-opacity touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                onEventReschedule && "cursor-move",
+                isDragging && "z-20 opacity-80 shadow-lg",
+                event.type === "hangout" && hasOverlap
+                  ? "bg-gradient-to-r from-green-100 to-blue-100 text-green-800 border-2 border-green-300 shadow-md"
+                  : event.type === "hangout"
+                    ? "bg-blue-100 text-blue-800 border border-blue-200"
+                    : "bg-gray-100 text-gray-800 border border-gray-200",
+              )}
+              style={{
+                top: toPixels(start),
+                height: toPixels(end - start),
+                left: `${(column / columns) * 100}%`,
+                width: `${100 / columns}%`,
+              }}
+            >
+              <div className="flex items-center space-x-1 font-medium">
+                {event.type === "hangout" && hasOverlap ? (
+                  <Users className="h-3 w-3 shrink-0 text-green-600" />
+                ) : event.type === "hangout" ? (
+                  <MapPin className="h-3 w-3 shrink-0" />
+                ) : (
+                  <CalendarIcon className="h-3 w-3 shrink-0" />
+                )}
+                <span className="truncate">{event.title}</span>
+                {event.recurrence && <Repeat className="h-3 w-3 shrink-0" />}
+              </div>
+              {end - start >= 45 && (
+                <div className="truncate">
+                  {formatInTimeZone(event.startTime, "h:mm a", timeZone)} -{" "}
+                  {formatInTimeZone(event.endTime, "h:mm a", timeZone)}
+                </div>
+              )}
+
+              {/* Bottom edge handle for resizing */}
+              {onEventReschedule && (
+                <div
+                  className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize"
+                  onPointerDown={(e) =>
+                    startDrag(e, {
+                      kind: "resize",
+                      event,
+                      originDay: dayIndex,
+                      originMinutes: getPointerPosition(e).minutes,
+                      days: 0,
+                      minutes: 0,
+                    })
+                  }
+                />
+              )}
+            </div>
+          );
+        })}
+
+        {isSameDay(day, today) && (
+          <div
+            className="absolute inset-x-0 z-10 pointer-events-none"
+            style={{
+              top: toPixels(today.getHours() * 60 + today.getMinutes()),
+            }}
+          >
+            <div className="relative border-t-2 border-red-500">
+              <div className="absolute -left-1 -top-[5px] h-2 w-2 rounded-full bg-red-500" />
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const columns = { gridTemplateColumns: `3.5rem repeat(${days.length}, 1fr)` };
+
+  return (
+    <div className="border rounded-md">
+      {/* Day headers */}
+      <div className="grid border-b" style={columns}>
+        <div />
+        {days.map((day) => (
+          <button
+            key={day.toISOString()}
+            type="button"
+            onClick={() => onDayClick?.(day)}
+            className={cn(
+              "p-2 text-center text-sm border-l",
+              onDayClick ? "hover:bg-muted" : "cursor-default",
+              isSameDay(day, today) && "text-blue-600 font-semibold",
+            )}
+          >
+            <div className="text-muted-foreground">{format(day, "EEE")}</div>
+            <div className="text-lg">{format(day, "d")}</div>
+          </button>
+        ))}
+      </div>
+
+      <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+        <div
+          ref={gridRef}
+          className="grid"
+          style={columns}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+        >
+          <div ref={gutterRef}>
+            {HOURS.map((hour) => (
+              <div
+                key={hour}
+                className="pr-2 text-right text-xs text-muted-foreground -translate-y-2"
+                style={{ height: HOUR_HEIGHT }}
+              >
+                {hour > 0 && format(new Date(2000, 0, 1, hour), "h a")}
+              </div>
+            ))}
+          </div>
+          {days.map(renderDayColumn)}
+        </div>
+      </div>
+    </div>
+  );
+};
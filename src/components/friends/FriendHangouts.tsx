@@ -16,14 +16,17 @@ import {
   MessageCircle,
 } from "lucide-react";
 import { HangoutEvent, User } from "@/types";
-import { format, isToday, isTomorrow, isThisWeek } from "date-fns";
+import { addDays, format, isSameDay, isSameWeek } from "date-fns";
 import { Link } from "react-router-dom";
+import { getOwnerTimeLabel, toZonedDate } from "@/utils/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
 
 interface FriendHangoutsProps {
   friendHangouts: Array<{ event: HangoutEvent; friend: User }>;
 }
 
 export const FriendHangouts = ({ friendHangouts }: FriendHangoutsProps) => {
+  const timeZone = useTimeZone();
   // Safety check for undefined or null friendHangouts
   const safeFriendHangouts = friendHangouts || [];
 
@@ -38,19 +41,24 @@ export const FriendHangouts = ({ friendHangouts }: FriendHangoutsProps) => {
 
   const formatEventTime = (startTime: string, endTime: string) => {
     try {
-      const start = new Date(startTime);
-      const end = new Date(endTime);
-
       // Check for invalid dates
-      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      if (
+        isNaN(new Date(startTime).getTime()) ||
+        isNaN(new Date(endTime).getTime())
+      ) {
         return "Invalid date";
       }
 
-      if (isToday(start)) {
+      // Compare and format as wall-clock times in the viewer's zone
+      const start = toZonedDate(startTime, timeZone);
+      const end = toZonedDate(endTime, timeZone);
+      const now = toZonedDate(new Date(), timeZone);
+
+      if (isSameDay(start, now)) {
         return `Today ${format(start, "h:mm a")} - ${format(end, "h:mm a")}`;
-      } else if (isTomorrow(start)) {
+      } else if (isSameDay(start, addDays(now, 1))) {
         return `Tomorrow ${format(start, "h:mm a")} - ${format(end, "h:mm a")}`;
-      } else if (isThisWeek(start)) {
+      } else if (isSameWeek(start, now)) {
         return `${format(start, "EEEE h:mm a")} - ${format(end, "h:mm a")}`;
       } else {
         return `${format(start, "MMM d, h:mm a")} - ${format(end, "h:mm a")}`;
@@ -103,6 +111,10 @@ export const FriendHangouts = ({ friendHangouts }: FriendHangoutsProps) => {
             if (!event || !friend || !event.id || !friend.id) {
               return null;
             }
+            const ownerTime = getOwnerTimeLabel(
+              { ...event, timeZone: event.timeZone || friend.timeZone },
+              timeZone,
+            );
 
             return (
               <div key={event.id} className="border rounded-lg p-4 space-y-3">
@@ -145,6 +157,11 @@ export const FriendHangouts = ({ friendHangouts }: FriendHangoutsProps) => {
                     <span>
                       {formatEventTime(event.startTime, event.endTime)}
                     </span>
+                    {ownerTime && (
+                      <span className="text-xs">
+                        ({ownerTime} for {friend.fullName})
+                      </span>
+                    )}
                   </div>
 
                   {event.description && (
@@ -1,3 +1,4 @@
+import { useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -11,18 +12,32 @@ import { UserPlus, UserCheck, UserX } from "lucide-react";
 import { User } from "@/types";
 import { acceptFriendRequest, rejectFriendRequest } from "@/utils/auth";
 import { useAuth } from "@/store/authStore";
+import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface FriendRequestCardProps {
   requests: User[];
+  // Request to draw attention to, e.g. when opened from a notification
+  highlightedId?: string | null;
   onRequestHandled: () => void;
 }
 
 export const FriendRequestCard = ({
   requests,
+  highlightedId,
   onRequestHandled,
 }: FriendRequestCardProps) => {
   const { user, updateUser } = useAuth();
+  const highlightedRef = useRef<HTMLDivElement>(null);
+
+  const isHighlightShown = requests.some(
+    (requester) => requester.id === highlightedId,
+  );
+  useEffect(() => {
+    if (isHighlightShown) {
+      highlightedRef.current?.scrollIntoView({ block: "center" });
+    }
+  }, [isHighlightShown]);
 
   const getInitials = (name: string) => {
     return name
@@ -33,10 +48,10 @@ export const FriendRequestCard = ({
       .slice(0, 2);
   };
 
-  const handleAcceptRequest = (requesterId: string) => {
+  const handleAcceptRequest = async (requesterId: string) => {
     if (!user) return;
 
-    const success = acceptFriendRequest(user.id, requesterId);
+    const success = await acceptFriendRequest(user.id, requesterId);
     if (success) {
       // Update current user's state
       const updatedUser = {
@@ -57,10 +72,10 @@ export const FriendRequestCard = ({
     }
   };
 
-  const handleRejectRequest = (requesterId: string) => {
+  const handleRejectRequest = async (requesterId: string) => {
     if (!user) return;
 
-    const success = rejectFriendRequest(user.id, requesterId);
+    const success = await rejectFriendRequest(user.id, requesterId);
     if (success) {
       // Update current user's state
       const updatedUser = {
@@ -112,7 +127,11 @@ export const FriendRequestCard = ({
         {requests.map((requester) => (
           <div
             key={requester.id}
-            className="flex items-center justify-between p-3 border rounded-lg"
+            ref={requester.id === highlightedId ? highlightedRef : undefined}
+            className={cn(
+              "flex items-center justify-between p-3 border rounded-lg",
+              requester.id === highlightedId && "border-primary bg-primary/5",
+            )}
           >
             <div className="flex items-center space-x-3">
               <Avatar className="h-10 w-10">
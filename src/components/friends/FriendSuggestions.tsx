@@ -0,0 +1,141 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontal, Sparkles, UserPlus, X } from "lucide-react";
+import { useAuth } from "@/store/authStore";
+import { useFriendSuggestions } from "@/hooks/use-friend-suggestions";
+import { sendFriendRequest } from "@/utils/auth";
+import { toast } from "sonner";
+
+interface FriendSuggestionsProps {
+  // Shows only the best few, e.g. on the dashboard
+  limit?: number;
+}
+
+export const FriendSuggestions = ({ limit }: FriendSuggestionsProps) => {
+  const { user, updateUser } = useAuth();
+  const { suggestions, isLoading, dismiss } = useFriendSuggestions(limit);
+
+  const getInitials = (name: string) => {
+    return name
+      .split(" ")
+      .map((word) => word[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2);
+  };
+
+  const handleSendFriendRequest = async (otherUserId: string) => {
+    if (!user) return;
+
+    const success = await sendFriendRequest(user.id, otherUserId);
+    if (success) {
+      updateUser({
+        ...user,
+        friendRequests: {
+          ...user.friendRequests,
+          sent: [...user.friendRequests.sent, otherUserId],
+        },
+      });
+      toast.success("Friend request sent!");
+    } else {
+      toast.error("Failed to send friend request");
+    }
+  };
+
+  const handleDismiss = async (
+    otherUserId: string,
+    reason: "dismissed" | "not_interested",
+  ) => {
+    if (!(await dismiss(otherUserId, reason))) {
+      toast.error("Failed to hide suggestion");
+    }
+  };
+
+  if (isLoading || suggestions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Sparkles className="h-5 w-5" />
+          <span>People You May Know</span>
+        </CardTitle>
+        <CardDescription>
+          Based on mutual friends, hangout habits and recent activity
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {suggestions.map(({ user: suggestedUser, reasons }) => (
+          <div
+            key={suggestedUser.id}
+            className="flex items-center justify-between p-3 border rounded-lg"
+          >
+            <div className="flex items-center space-x-3 min-w-0">
+              <Avatar className="h-10 w-10">
+                <AvatarImage
+                  src={suggestedUser.avatar}
+                  alt={suggestedUser.fullName}
+                />
+                <AvatarFallback>
+                  {getInitials(suggestedUser.fullName)}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="font-medium truncate">{suggestedUser.fullName}</p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {reasons.join(" · ")}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-1">
+              <Button
+                size="sm"
+                onClick={() => handleSendFriendRequest(suggestedUser.id)}
+              >
+                <UserPlus className="mr-2 h-4 w-4" />
+                Add Friend
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Dismiss for now"
+                onClick={() => handleDismiss(suggestedUser.id, "dismissed")}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem
+                    onClick={() =>
+                      handleDismiss(suggestedUser.id, "not_interested")
+                    }
+                  >
+                    Not interested
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -15,6 +15,10 @@ import { User } from "@/types";
 import { Link } from "react-router-dom";
 import { useCalendarStore } from "@/store/calendarStore";
 import { useAuth } from "@/store/authStore";
+import { usePresence } from "@/hooks/use-presence";
+import { PresenceDot } from "@/components/presence/PresenceDot";
+import { getLastSeenLabel } from "@/utils/presence";
+import { UserActionsMenu } from "./UserActionsMenu";
 
 interface FriendsListProps {
   friends: User[];
@@ -24,6 +28,7 @@ export const FriendsList = ({ friends }: FriendsListProps) => {
   const { user } = useAuth();
   const { getFriendHangouts } = useCalendarStore(user?.id);
   const [searchFilter, setSearchFilter] = useState("");
+  const presence = usePresence(friends.map((friend) => friend.id));
 
   const getInitials = (name: string) => {
     return name
@@ -104,12 +109,18 @@ export const FriendsList = ({ friends }: FriendsListProps) => {
                   className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
                 >
                   <div className="flex items-center space-x-3">
-                    <Avatar className="h-12 w-12">
-                      <AvatarImage src={friend.avatar} alt={friend.fullName} />
-                      <AvatarFallback>
-                        {getInitials(friend.fullName)}
-                      </AvatarFallback>
-                    </Avatar>
+                    <div className="relative">
+                      <Avatar className="h-12 w-12">
+                        <AvatarImage
+                          src={friend.avatar}
+                          alt={friend.fullName}
+                        />
+                        <AvatarFallback>
+                          {getInitials(friend.fullName)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <PresenceDot presence={presence[friend.id]} />
+                    </div>
                     <div>
                       <div className="flex items-center space-x-2">
                         <p className="font-medium">{friend.fullName}</p>
@@ -121,7 +132,8 @@ export const FriendsList = ({ friends }: FriendsListProps) => {
                         )}
                       </div>
                       <p className="text-sm text-muted-foreground">
-                        @{friend.username}
+                        @{friend.username} ·{" "}
+                        {getLastSeenLabel(presence[friend.id])}
                       </p>
                     </div>
                   </div>
@@ -138,6 +150,7 @@ export const FriendsList = ({ friends }: FriendsListProps) => {
                         Calendar
                       </Button>
                     </Link>
+                    <UserActionsMenu otherUser={friend} />
                   </div>
                 </div>
               );
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { ReportReason, User } from "@/types";
+
+const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam or scam",
+  harassment: "Harassment or bullying",
+  inappropriate: "Inappropriate content",
+  fake_account: "Fake account or impersonation",
+  other: "Something else",
+};
+
+interface ReportUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reportedUser: User;
+  onReport: (
+    reason: ReportReason,
+    details: string,
+    alsoBlock: boolean,
+  ) => Promise<void>;
+}
+
+export const ReportUserDialog = ({
+  open,
+  onOpenChange,
+  reportedUser,
+  onReport,
+}: ReportUserDialogProps) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [alsoBlock, setAlsoBlock] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setReason(null);
+    setDetails("");
+    setAlsoBlock(false);
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    setIsSubmitting(true);
+    await onReport(reason, details, alsoBlock);
+    setIsSubmitting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Report {reportedUser.fullName}</DialogTitle>
+          <DialogDescription>
+            Reports are private; {reportedUser.fullName} won't know who sent one
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={reason ?? ""}
+            onValueChange={(value) => setReason(value as ReportReason)}
+          >
+            {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map(
+              (value) => (
+                <div key={value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={value} id={`report-${value}`} />
+                  <Label htmlFor={`report-${value}`}>
+                    {REPORT_REASON_LABELS[value]}
+                  </Label>
+                </div>
+              ),
+            )}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              placeholder="Anything that helps us understand what happened"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="report-block"
+              checked={alsoBlock}
+              onCheckedChange={(checked) => setAlsoBlock(checked === true)}
+            />
+            <Label htmlFor="report-block">
+              Block {reportedUser.fullName} too
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!reason || isSubmitting}>
+            Send Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Ban, Flag, MoreHorizontal, UserMinus } from "lucide-react";
+import { ReportReason, User } from "@/types";
+import { blockUser, removeFriend, reportUser } from "@/utils/auth";
+import { withUserBlocked, withoutConnection } from "@/utils/blocking";
+import { useAuth } from "@/store/authStore";
+import { ReportUserDialog } from "./ReportUserDialog";
+import { toast } from "sonner";
+
+interface UserActionsMenuProps {
+  otherUser: User;
+}
+
+// Unfriend, block and report, for anywhere another user is listed
+export const UserActionsMenu = ({ otherUser }: UserActionsMenuProps) => {
+  const { user, updateUser } = useAuth();
+  const [openDialog, setOpenDialog] = useState<
+    "unfriend" | "block" | "report" | null
+  >(null);
+
+  if (!user) return null;
+
+  const isFriend = user.friends.includes(otherUser.id);
+
+  const handleUnfriend = async () => {
+    if (await removeFriend(user.id, otherUser.id)) {
+      updateUser(withoutConnection(user, otherUser.id));
+      toast.success(`Removed ${otherUser.fullName} from your friends`);
+    } else {
+      toast.error("Failed to remove friend");
+    }
+  };
+
+  const handleBlock = async () => {
+    if (await blockUser(user.id, otherUser.id)) {
+      updateUser(withUserBlocked(user, otherUser.id));
+      toast.success(`Blocked ${otherUser.fullName}`);
+    } else {
+      toast.error("Failed to block user");
+    }
+  };
+
+  const handleReport = async (
+    reason: ReportReason,
+    details: string,
+    alsoBlock: boolean,
+  ) => {
+    if (!(await reportUser(user.id, otherUser.id, reason, details))) {
+      toast.error("Failed to send report");
+      return;
+    }
+
+    setOpenDialog(null);
+    toast.success("Thanks, we've received your report");
+    if (alsoBlock) await handleBlock();
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="ghost">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {isFriend && (
+            <DropdownMenuItem onClick={() => setOpenDialog("unfriend")}>
+              <UserMinus className="mr-2 h-4 w-4" />
+              Unfriend
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setOpenDialog("block")}>
+            <Ban className="mr-2 h-4 w-4" />
+            Block
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="text-destructive"
+            onClick={() => setOpenDialog("report")}
+          >
+            <Flag className="mr-2 h-4 w-4" />
+            Report
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog
+        open={openDialog === "unfriend" || openDialog === "block"}
+        onOpenChange={(open) => !open && setOpenDialog(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {openDialog === "block"
+                ? `Block ${otherUser.fullName}?`
+                : `Unfriend ${otherUser.fullName}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {openDialog === "block"
+                ? "You'll stop being friends, and neither of you will be able to find, message or see each other's hangouts. You can unblock them in Settings."
+                : "You'll no longer see each other's hangouts or get matched. You can send a new friend request later."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={openDialog === "block" ? handleBlock : handleUnfriend}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {openDialog === "block" ? "Block" : "Unfriend"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReportUserDialog
+        open={openDialog === "report"}
+        onOpenChange={(open) => !open && setOpenDialog(null)}
+        reportedUser={otherUser}
+        onReport={handleReport}
+      />
+    </>
+  );
+};
@@ -12,8 +12,13 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Search, UserPlus, UserCheck, Clock } from "lucide-react";
 import { User } from "@/types";
-import { searchUsers, sendFriendRequest } from "@/utils/auth";
+import {
+  cancelFriendRequest,
+  searchUsers,
+  sendFriendRequest,
+} from "@/utils/auth";
 import { useAuth } from "@/store/authStore";
+import { UserActionsMenu } from "./UserActionsMenu";
 import { toast } from "sonner";
 
 export const UserSearch = () => {
@@ -23,10 +28,10 @@ export const UserSearch = () => {
   const [isSearching, setIsSearching] = useState(false);
 
   useEffect(() => {
-    const delayedSearch = setTimeout(() => {
+    const delayedSearch = setTimeout(async () => {
       if (searchQuery.trim() && user) {
         setIsSearching(true);
-        const results = searchUsers(searchQuery, user.id);
+        const results = await searchUsers(searchQuery, user.id);
         setSearchResults(results);
         setIsSearching(false);
       } else {
@@ -64,10 +69,10 @@ export const UserSearch = () => {
     return "none";
   };
 
-  const handleSendFriendRequest = (otherUserId: string) => {
+  const handleSendFriendRequest = async (otherUserId: string) => {
     if (!user) return;
 
-    const success = sendFriendRequest(user.id, otherUserId);
+    const success = await sendFriendRequest(user.id, otherUserId);
     if (success) {
       // Update current user's sent requests
       const updatedUser = {
@@ -84,6 +89,24 @@ export const UserSearch = () => {
     }
   };
 
+  const handleCancelFriendRequest = async (otherUserId: string) => {
+    if (!user) return;
+
+    const success = await cancelFriendRequest(user.id, otherUserId);
+    if (success) {
+      updateUser({
+        ...user,
+        friendRequests: {
+          ...user.friendRequests,
+          sent: user.friendRequests.sent.filter((id) => id !== otherUserId),
+        },
+      });
+      toast.success("Friend request cancelled");
+    } else {
+      toast.error("Failed to cancel friend request");
+    }
+  };
+
   const renderActionButton = (otherUser: User) => {
     const status = getFriendshipStatus(otherUser);
 
@@ -97,9 +120,14 @@ export const UserSearch = () => {
         );
       case "pending":
         return (
-          <Button variant="outline" size="sm" disabled>
+          <Button
+            variant="outline"
+            size="sm"
+            title="Cancel friend request"
+            onClick={() => handleCancelFriendRequest(otherUser.id)}
+          >
             <Clock className="mr-2 h-4 w-4" />
-            Pending
+            Cancel Request
           </Button>
         );
       case "received":
@@ -174,7 +202,10 @@ export const UserSearch = () => {
                   </p>
                 </div>
               </div>
-              {renderActionButton(searchUser)}
+              <div className="flex items-center space-x-1">
+                {renderActionButton(searchUser)}
+                <UserActionsMenu otherUser={searchUser} />
+              </div>
             </div>
           ))}
         </div>
@@ -12,10 +12,13 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import { SearchPalette } from "@/components/search/SearchPalette";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
+import { SyncStatusIndicator } from "@/components/layout/SyncStatusIndicator";
 import {
-  Bell,
   Calendar,
   Home,
+  LayoutGrid,
   LogOut,
   Menu,
   MessageCircle,
@@ -30,6 +33,7 @@ import { useMessageStore } from "@/store/messageStore";
 const navigationItems = [
   { name: "Home", href: "/dashboard", icon: Home },
   { name: "Calendar", href: "/calendar", icon: Calendar },
+  { name: "Availability", href: "/availability", icon: LayoutGrid },
   { name: "Messages", href: "/messages", icon: MessageCircle },
   { name: "Friends", href: "/friends", icon: Users },
 ];
@@ -114,20 +118,13 @@ export const Navbar = () => {
 
         {/* User Menu */}
         <div className="flex items-center space-x-4">
+          <SearchPalette />
+
+          {/* Offline writes waiting to sync */}
+          <SyncStatusIndicator />
+
           {/* Notifications */}
-          <Link to="/notifications">
-            <Button variant="ghost" size="sm" className="relative">
-              <Bell className="h-4 w-4" />
-              {unreadNotifications > 0 && (
-                <Badge
-                  variant="destructive"
-                  className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs"
-                >
-                  {unreadNotifications}
-                </Badge>
-              )}
-            </Button>
-          </Link>
+          <NotificationBell />
 
           {/* User Avatar Menu */}
           <DropdownMenu>
@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { SyncStatus } from "@/types";
+import { useSyncStatus } from "@/hooks/use-sync-status";
+import { getSyncStatusLabel } from "@/utils/offlineSync";
+import { cn } from "@/lib/utils";
+
+const STATUS_ICONS: Record<SyncStatus["state"], typeof Cloud> = {
+  synced: Cloud,
+  syncing: RefreshCw,
+  offline: CloudOff,
+  error: AlertTriangle,
+};
+
+export const SyncStatusIndicator = () => {
+  const { status, retry, discardFailed } = useSyncStatus();
+  const Icon = STATUS_ICONS[status.state];
+  const label = getSyncStatusLabel(status);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative"
+          aria-label={label}
+          title={label}
+        >
+          <Icon
+            className={cn(
+              "h-5 w-5",
+              status.state === "synced" && "text-muted-foreground",
+              status.state === "syncing" && "animate-spin",
+              status.state === "offline" && "text-amber-500",
+              status.state === "error" && "text-destructive",
+            )}
+          />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-64" align="end">
+        <DropdownMenuLabel className="font-normal">{label}</DropdownMenuLabel>
+        {status.pending > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => retry()}
+              disabled={status.state === "offline"}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Retry now
+            </DropdownMenuItem>
+          </>
+        )}
+        {status.failed > 0 && (
+          <DropdownMenuItem
+            onClick={() => discardFailed()}
+            className="text-red-600"
+          >
+            <AlertTriangle className="mr-2 h-4 w-4" />
+            Discard unsaved changes
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
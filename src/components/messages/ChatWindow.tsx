@@ -1,47 +1,212 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { Send, ArrowLeft } from "lucide-react";
-import { User, Conversation, Message } from "@/types";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Send,
+  ArrowLeft,
+  Users,
+  Plus,
+  CalendarPlus,
+  Calendar,
+  MapPin,
+} from "lucide-react";
+import {
+  User,
+  Conversation,
+  Message,
+  Event,
+  HangoutProposalPayload,
+  LocationPayload,
+  ProposalResponse,
+} from "@/types";
 import { useAuth } from "@/store/authStore";
 import { useMessageStore } from "@/store/messageStore";
+import { useCalendarStore } from "@/store/calendarStore";
+import { useUsers } from "@/hooks/use-users";
+import { usePresence, useTypingIndicator } from "@/hooks/use-presence";
+import { PresenceDot } from "@/components/presence/PresenceDot";
+import {
+  getConversationTitle,
+  getSeenBy,
+  isGroupConversation,
+} from "@/utils/conversations";
+import {
+  RichMessageDraft,
+  buildEventCard,
+  buildHangoutProposal,
+  buildLocationPin,
+  getProposal,
+} from "@/utils/richMessages";
+import { isDeleted, isHiddenFor } from "@/utils/messageEdits";
+import { isBlockedBetween } from "@/utils/blocking";
+import {
+  TYPING_TIMEOUT_MS,
+  getLastSeenLabel,
+  getPresenceStatus,
+  getTypingLabel,
+  isTypingIn,
+} from "@/utils/presence";
+import { RichMessageCard } from "./RichMessageCard";
+import { MessageActions, MessageReactions } from "./MessageActions";
+import { ProposeHangoutDialog } from "./ProposeHangoutDialog";
+import { ShareEventDialog } from "./ShareEventDialog";
+import { ShareLocationDialog } from "./ShareLocationDialog";
 import { format, isToday, isYesterday } from "date-fns";
 import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+type AttachmentDialog = "proposal" | "event" | "location";
+
+const RICH_MESSAGE_TYPES = ["hangout_proposal", "event_card", "location"];
 
 interface ChatWindowProps {
   conversation: Conversation | null;
+  // The other person in a direct conversation; null for groups
   otherUser: User | null;
   onBack?: () => void;
+  onManageGroup?: () => void;
+  // Scrolled to and highlighted once, e.g. when opened from search
+  highlightMessageId?: string | null;
 }
 
 export const ChatWindow = ({
-  conversation,
+  conversation: selectedConversation,
   otherUser,
   onBack,
+  onManageGroup,
+  highlightMessageId,
 }: ChatWindowProps) => {
   const { user } = useAuth();
-  const { sendMessage, markMessagesAsRead } = useMessageStore(user?.id);
+  const {
+    conversations,
+    sendMessage,
+    sendGroupMessage,
+    markMessagesAsRead,
+    hasOlderMessages,
+    loadOlderMessages,
+    respondToProposal,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+  } = useMessageStore(user?.id);
+  const { occurrences, createEvent } = useCalendarStore(user?.id);
   const [newMessage, setNewMessage] = useState("");
   const [isSending, setIsSending] = useState(false);
+  const [openDialog, setOpenDialog] = useState<AttachmentDialog | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  // Prefer this window's copy so sends and responses show up right away
+  const conversation =
+    conversations.find((c) => c.id === selectedConversation?.id) ||
+    selectedConversation;
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrolledToMessageId = useRef<string | null>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  // Distance from the bottom to hold while older messages are added above
+  const scrollOffsetFromBottom = useRef<number | null>(null);
+  const isGroup = conversation ? isGroupConversation(conversation) : false;
+  // Either side may have blocked the other since the chat started
+  const isBlocked = !isGroup && isBlockedBetween(user, otherUser);
+  // Past members can still have messages in a group's history
+  const members = useUsers([
+    ...(conversation?.participants || []),
+    ...(conversation?.messages.map((message) => message.senderId) || []),
+  ]);
+  const title = conversation
+    ? getConversationTitle(conversation, members, user?.id)
+    : "";
+  const otherParticipantIds =
+    conversation?.participants.filter((id) => id !== user?.id) || [];
+  // Refreshed often enough for typing to clear when it stops
+  const presence = usePresence(otherParticipantIds, TYPING_TIMEOUT_MS / 2);
+  const { notifyTyping, stopTyping } = useTypingIndicator(
+    user?.id,
+    conversation?.id,
+  );
+  const typingLabel = conversation
+    ? getTypingLabel(
+        otherParticipantIds
+          .filter((id) => isTypingIn(presence[id], conversation.id))
+          .map((id) => members[id]?.fullName.split(" ")[0] || "Someone"),
+      )
+    : null;
+  const onlineCount = otherParticipantIds.filter(
+    (id) => getPresenceStatus(presence[id]) === "online",
+  ).length;
+  // Messages the user deleted for themselves stay out of their view
+  const messages = (conversation?.messages || []).filter(
+    (message) => !user || !isHiddenFor(message, user.id),
+  );
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  const newestMessageId =
+    conversation?.messages[conversation.messages.length - 1]?.id;
+
   useEffect(() => {
-    scrollToBottom();
-  }, [conversation?.messages]);
+    const highlighted =
+      highlightMessageId &&
+      highlightMessageId !== scrolledToMessageId.current &&
+      document.getElementById(`message-${highlightMessageId}`);
+
+    if (highlighted) {
+      scrolledToMessageId.current = highlightMessageId;
+      highlighted.scrollIntoView({ behavior: "smooth", block: "center" });
+    } else {
+      scrollToBottom();
+    }
+    // Only new messages scroll down, not older pages loaded above
+  }, [newestMessageId, highlightMessageId]);
+
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container || scrollOffsetFromBottom.current === null) return;
+
+    container.scrollTop =
+      container.scrollHeight - scrollOffsetFromBottom.current;
+    if (!isLoadingOlder) scrollOffsetFromBottom.current = null;
+  }, [messages.length, isLoadingOlder]);
+
+  const canLoadOlder = conversation ? hasOlderMessages(conversation.id) : false;
+
+  const handleLoadOlder = async () => {
+    const container = scrollContainerRef.current;
+    if (!conversation || !container || !canLoadOlder || isLoadingOlder) return;
+
+    scrollOffsetFromBottom.current =
+      container.scrollHeight - container.scrollTop;
+    setIsLoadingOlder(true);
+    try {
+      await loadOlderMessages(conversation.id);
+    } catch (error) {
+      console.error("Failed to load older messages:", error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < 50) handleLoadOlder();
+  };
 
   useEffect(() => {
     // Mark messages as read when conversation is opened
-    if (conversation && user) {
-      markMessagesAsRead(conversation.id);
+    if (selectedConversation && user) {
+      markMessagesAsRead(selectedConversation.id);
     }
-  }, [conversation, user, markMessagesAsRead]);
+  }, [selectedConversation, user, markMessagesAsRead]);
 
   const getInitials = (name: string) => {
     return name
@@ -52,6 +217,27 @@ export const ChatWindow = ({
       .slice(0, 2);
   };
 
+  // Receipts go under the user's latest message, like most chat apps
+  const lastOwnMessage = [...messages]
+    .reverse()
+    .find(
+      (message) => message.senderId === user?.id && message.type !== "system",
+    );
+
+  const getSeenLabel = (message: Message) => {
+    const seenBy = getSeenBy(conversation!, message);
+    if (seenBy.length === 0) return null;
+    if (!isGroup) return "Seen";
+
+    const others = conversation!.participants.filter((id) => id !== user?.id);
+    if (others.every((id) => seenBy.includes(id))) return "Seen by everyone";
+
+    return `Seen by ${seenBy
+      .map((id) => members[id]?.fullName.split(" ")[0])
+      .filter(Boolean)
+      .join(", ")}`;
+  };
+
   const formatMessageTime = (timestamp: string) => {
     const date = new Date(timestamp);
 
@@ -64,14 +250,21 @@ export const ChatWindow = ({
     }
   };
 
+  const send = (body: string | RichMessageDraft) =>
+    isGroup
+      ? sendGroupMessage(conversation, body)
+      : sendMessage(otherUser.id, body);
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !otherUser || !user || isSending) return;
+    if (!newMessage.trim() || !conversation || !user || isSending) return;
+    if (!isGroup && !otherUser) return;
 
     setIsSending(true);
     try {
-      await sendMessage(otherUser.id, newMessage);
+      await send(newMessage);
       setNewMessage("");
+      stopTyping();
     } catch (error) {
       console.error("Failed to send message:", error);
     } finally {
@@ -79,6 +272,97 @@ export const ChatWindow = ({
     }
   };
 
+  const sendAttachment = async (draft: RichMessageDraft) => {
+    try {
+      await send(draft);
+      setOpenDialog(null);
+    } catch (error) {
+      console.error("Failed to send message:", error);
+      toast.error("Failed to send message");
+    }
+  };
+
+  const handlePropose = (proposal: Omit<HangoutProposalPayload, "responses">) =>
+    sendAttachment(buildHangoutProposal(proposal));
+
+  const handleShareEvent = (event: Event) =>
+    sendAttachment(buildEventCard(event));
+
+  const handleShareLocation = (location: LocationPayload) =>
+    sendAttachment(buildLocationPin(location));
+
+  const handleRespond = async (
+    message: Message,
+    response: ProposalResponse,
+  ) => {
+    const proposal = getProposal(message);
+    if (!proposal) return;
+
+    try {
+      if (response === "accepted") {
+        await createEvent({
+          title: proposal.title,
+          startTime: proposal.startTime,
+          endTime: proposal.endTime,
+          type: "hangout",
+          timeZone: proposal.timeZone,
+          preferences: { activitySuggestions: [] },
+        });
+      }
+      await respondToProposal(message, response);
+      if (response === "accepted") {
+        toast.success("Hangout added to your calendar");
+      }
+    } catch (error) {
+      console.error("Failed to respond to proposal:", error);
+      toast.error("Failed to respond to proposal");
+    }
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content);
+  };
+
+  const handleSaveEdit = async (message: Message) => {
+    const success = await editMessage(message, editText);
+    if (success) {
+      setEditingMessageId(null);
+    } else {
+      toast.error("Failed to edit message");
+    }
+  };
+
+  const handleDelete = async (message: Message, scope: "me" | "everyone") => {
+    const success = await deleteMessage(message, scope);
+    if (!success) toast.error("Failed to delete message");
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent, message: Message) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      handleSaveEdit(message);
+    } else if (e.key === "Escape") {
+      setEditingMessageId(null);
+    }
+  };
+
+  // Previous versions, shown when hovering the "edited" marker
+  const getEditHistoryLabel = (message: Message) =>
+    (message.editHistory || [])
+      .map((edit) => `${formatMessageTime(edit.editedAt)}: ${edit.content}`)
+      .join("\n");
+
+  // Upcoming events the user can share or propose, soonest first
+  const now = new Date();
+  const upcomingEvents = occurrences
+    .filter((event) => new Date(event.endTime) > now)
+    .sort(
+      (a, b) =>
+        new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+    )
+    .slice(0, 20);
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -86,7 +370,7 @@ export const ChatWindow = ({
     }
   };
 
-  if (!conversation || !otherUser) {
+  if (!conversation || (!isGroup && !otherUser)) {
     return (
       <Card className="h-full flex items-center justify-center">
         <CardContent>
@@ -113,26 +397,61 @@ export const ChatWindow = ({
               <ArrowLeft className="h-4 w-4" />
             </Button>
           )}
-          <Avatar className="h-8 w-8">
-            <AvatarImage src={otherUser.avatar} alt={otherUser.fullName} />
-            <AvatarFallback className="text-xs">
-              {getInitials(otherUser.fullName)}
-            </AvatarFallback>
-          </Avatar>
-          <div>
-            <p className="font-medium">{otherUser.fullName}</p>
+          <div className="relative">
+            <Avatar className="h-8 w-8">
+              {isGroup ? (
+                <AvatarFallback>
+                  <Users className="h-4 w-4" />
+                </AvatarFallback>
+              ) : (
+                <>
+                  <AvatarImage
+                    src={otherUser.avatar}
+                    alt={otherUser.fullName}
+                  />
+                  <AvatarFallback className="text-xs">
+                    {getInitials(otherUser.fullName)}
+                  </AvatarFallback>
+                </>
+              )}
+            </Avatar>
+            {!isGroup && (
+              <PresenceDot
+                presence={presence[otherUser.id]}
+                className="h-2.5 w-2.5"
+              />
+            )}
+          </div>
+          <div className="flex-1">
+            <p className="font-medium">{title}</p>
             <p className="text-sm text-muted-foreground font-normal">
-              @{otherUser.username}
+              {isGroup
+                ? `${conversation.participants.length} members${
+                    onlineCount > 0 ? ` · ${onlineCount} online` : ""
+                  }`
+                : `@${otherUser.username} · ${getLastSeenLabel(
+                    presence[otherUser.id],
+                  )}`}
             </p>
           </div>
+          {isGroup && onManageGroup && (
+            <Button variant="ghost" size="sm" onClick={onManageGroup}>
+              <Users className="mr-2 h-4 w-4" />
+              Members
+            </Button>
+          )}
         </CardTitle>
       </CardHeader>
 
       <Separator />
 
       {/* Messages */}
-      <CardContent className="flex-1 overflow-y-auto p-4 space-y-4">
-        {conversation.messages.length === 0 ? (
+      <CardContent
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto p-4 space-y-4"
+      >
+        {messages.length === 0 ? (
           <div className="flex items-center justify-center h-full">
             <p className="text-center text-muted-foreground">
               No messages yet. Start the conversation!
@@ -140,18 +459,64 @@ export const ChatWindow = ({
           </div>
         ) : (
           <>
-            {conversation.messages.map((message: Message, index: number) => {
+            {canLoadOlder && (
+              <div className="flex justify-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs text-muted-foreground"
+                  onClick={handleLoadOlder}
+                  disabled={isLoadingOlder}
+                >
+                  {isLoadingOlder
+                    ? "Loading earlier messages..."
+                    : "Load earlier messages"}
+                </Button>
+              </div>
+            )}
+            {messages.map((message: Message, index: number) => {
+              if (message.type === "system") {
+                return (
+                  <p
+                    key={message.id}
+                    className="text-center text-xs text-muted-foreground"
+                  >
+                    {message.content}
+                  </p>
+                );
+              }
+
               const isFromUser = message.senderId === user?.id;
+              const previous = messages[index - 1];
               const showAvatar =
                 index === 0 ||
-                conversation.messages[index - 1].senderId !== message.senderId;
+                previous.senderId !== message.senderId ||
+                previous.type === "system";
+              const sender = isGroup ? members[message.senderId] : otherUser;
+              const seenLabel =
+                message.id === lastOwnMessage?.id
+                  ? getSeenLabel(message)
+                  : null;
+              const deleted = isDeleted(message);
+              const actions = user && (
+                <MessageActions
+                  message={message}
+                  currentUserId={user.id}
+                  onReact={(emoji) => toggleReaction(message, emoji)}
+                  onEdit={() => startEditing(message)}
+                  onDelete={(scope) => handleDelete(message, scope)}
+                />
+              );
 
               return (
                 <div
                   key={message.id}
+                  id={`message-${message.id}`}
                   className={cn(
-                    "flex items-end space-x-2",
+                    "flex items-end space-x-2 rounded-md",
                     isFromUser ? "justify-end" : "justify-start",
+                    message.id === highlightMessageId &&
+                      "bg-yellow-100/60 dark:bg-yellow-900/30",
                   )}
                 >
                   {!isFromUser && (
@@ -159,11 +524,11 @@ export const ChatWindow = ({
                       className={cn("h-6 w-6", !showAvatar && "invisible")}
                     >
                       <AvatarImage
-                        src={otherUser.avatar}
-                        alt={otherUser.fullName}
+                        src={sender?.avatar}
+                        alt={sender?.fullName}
                       />
                       <AvatarFallback className="text-xs">
-                        {getInitials(otherUser.fullName)}
+                        {sender ? getInitials(sender.fullName) : "?"}
                       </AvatarFallback>
                     </Avatar>
                   )}
@@ -174,16 +539,74 @@ export const ChatWindow = ({
                       isFromUser && "items-end",
                     )}
                   >
+                    {isGroup && !isFromUser && showAvatar && (
+                      <p className="text-xs font-medium text-muted-foreground">
+                        {sender?.fullName || "Former member"}
+                      </p>
+                    )}
                     <div
                       className={cn(
-                        "rounded-lg px-3 py-2 text-sm break-words",
-                        isFromUser
-                          ? "bg-primary text-primary-foreground"
-                          : "bg-muted",
+                        "group flex items-center space-x-1",
+                        isFromUser && "flex-row-reverse space-x-reverse",
                       )}
                     >
-                      {message.content}
+                      {editingMessageId === message.id ? (
+                        <div className="flex items-center space-x-1">
+                          <Input
+                            autoFocus
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            onKeyDown={(e) => handleEditKeyDown(e, message)}
+                            className="h-8 text-sm"
+                          />
+                          <Button
+                            size="sm"
+                            className="h-8"
+                            onClick={() => handleSaveEdit(message)}
+                            disabled={!editText.trim()}
+                          >
+                            Save
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8"
+                            onClick={() => setEditingMessageId(null)}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : RICH_MESSAGE_TYPES.includes(message.type) ? (
+                        <RichMessageCard
+                          message={message}
+                          currentUserId={user?.id}
+                          users={members}
+                          onRespond={handleRespond}
+                        />
+                      ) : (
+                        <div
+                          className={cn(
+                            "rounded-lg px-3 py-2 text-sm break-words",
+                            deleted
+                              ? "border italic text-muted-foreground"
+                              : isFromUser
+                                ? "bg-primary text-primary-foreground"
+                                : "bg-muted",
+                          )}
+                        >
+                          {message.content}
+                        </div>
+                      )}
+                      {editingMessageId !== message.id && actions}
                     </div>
+                    {user && (
+                      <MessageReactions
+                        message={message}
+                        currentUserId={user.id}
+                        users={members}
+                        onReact={(emoji) => toggleReaction(message, emoji)}
+                      />
+                    )}
                     <p
                       className={cn(
                         "text-xs text-muted-foreground",
@@ -191,6 +614,14 @@ export const ChatWindow = ({
                       )}
                     >
                       {formatMessageTime(message.timestamp)}
+                      {message.editedAt && (
+                        <span title={getEditHistoryLabel(message)}>
+                          {" "}
+                          · edited
+                        </span>
+                      )}
+                      {seenLabel && ` · ${seenLabel}`}
+                      {message.pending && " · waiting to send"}
                     </p>
                   </div>
 
@@ -216,24 +647,78 @@ export const ChatWindow = ({
 
       {/* Message Input */}
       <div className="p-4 flex-shrink-0">
-        <form onSubmit={handleSendMessage} className="flex space-x-2">
-          <Input
-            placeholder={`Message ${otherUser.fullName}...`}
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            onKeyPress={handleKeyPress}
-            className="flex-1"
-            disabled={isSending}
-          />
-          <Button
-            type="submit"
-            size="sm"
-            disabled={!newMessage.trim() || isSending}
-          >
-            <Send className="h-4 w-4" />
-          </Button>
-        </form>
+        {typingLabel && (
+          <p className="mb-2 text-xs italic text-muted-foreground">
+            {typingLabel}
+          </p>
+        )}
+        {isBlocked ? (
+          <p className="text-center text-sm text-muted-foreground">
+            You can't message {otherUser.fullName}
+          </p>
+        ) : (
+          <form onSubmit={handleSendMessage} className="flex space-x-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" variant="outline" size="sm">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => setOpenDialog("proposal")}>
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                  Propose a hangout
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setOpenDialog("event")}>
+                  <Calendar className="mr-2 h-4 w-4" />
+                  Share an event
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setOpenDialog("location")}>
+                  <MapPin className="mr-2 h-4 w-4" />
+                  Share a location
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Input
+              placeholder={`Message ${title}...`}
+              value={newMessage}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                if (e.target.value.trim()) notifyTyping();
+                else stopTyping();
+              }}
+              onKeyPress={handleKeyPress}
+              className="flex-1"
+              disabled={isSending}
+            />
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!newMessage.trim() || isSending}
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+        )}
       </div>
+
+      <ProposeHangoutDialog
+        open={openDialog === "proposal"}
+        onOpenChange={(open) => !open && setOpenDialog(null)}
+        hangouts={upcomingEvents.filter((event) => event.type === "hangout")}
+        onPropose={handlePropose}
+      />
+      <ShareEventDialog
+        open={openDialog === "event"}
+        onOpenChange={(open) => !open && setOpenDialog(null)}
+        events={upcomingEvents}
+        onShare={handleShareEvent}
+      />
+      <ShareLocationDialog
+        open={openDialog === "location"}
+        onOpenChange={(open) => !open && setOpenDialog(null)}
+        onShare={handleShareLocation}
+      />
     </Card>
   );
 };
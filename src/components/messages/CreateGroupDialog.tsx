@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { User } from "@/types";
+
+interface CreateGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  friends: User[];
+  onCreate: (name: string, memberIds: string[]) => Promise<void>;
+}
+
+export const CreateGroupDialog = ({
+  open,
+  onOpenChange,
+  friends,
+  onCreate,
+}: CreateGroupDialogProps) => {
+  const [name, setName] = useState("");
+  const [memberIds, setMemberIds] = useState<Set<string>>(new Set());
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName("");
+    setMemberIds(new Set());
+  }, [open]);
+
+  const toggleMember = (friendId: string, checked: boolean) => {
+    setMemberIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(friendId);
+      else next.delete(friendId);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || memberIds.size === 0) return;
+
+    setIsCreating(true);
+    await onCreate(name, [...memberIds]);
+    setIsCreating(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>New Group</DialogTitle>
+          <DialogDescription>
+            Chat with several friends in one conversation
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Group name</Label>
+            <Input
+              id="group-name"
+              placeholder="e.g. Saturday crew"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            {friends.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Add friends to start a group
+              </p>
+            ) : (
+              <div className="max-h-60 overflow-y-auto space-y-2">
+                {friends.map((friend) => (
+                  <label
+                    key={friend.id}
+                    className="flex items-center space-x-2 text-sm cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={memberIds.has(friend.id)}
+                      onCheckedChange={(checked) =>
+                        toggleMember(friend.id, checked === true)
+                      }
+                    />
+                    <span>{friend.fullName}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={!name.trim() || memberIds.size === 0 || isCreating}
+          >
+            {isCreating ? "Creating..." : "Create Group"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LogOut, UserMinus, UserPlus } from "lucide-react";
+import { Conversation, User } from "@/types";
+import { useUsers } from "@/hooks/use-users";
+
+interface GroupMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversation: Conversation | null;
+  currentUserId?: string;
+  friends: User[];
+  onAddMember: (memberId: string) => Promise<void>;
+  onRemoveMember: (memberId: string) => Promise<void>;
+  onLeave: () => Promise<void>;
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .map((word) => word[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+
+export const GroupMembersDialog = ({
+  open,
+  onOpenChange,
+  conversation,
+  currentUserId,
+  friends,
+  onAddMember,
+  onRemoveMember,
+  onLeave,
+}: GroupMembersDialogProps) => {
+  const [newMemberId, setNewMemberId] = useState("");
+  const users = useUsers(conversation?.participants || []);
+
+  if (!conversation) return null;
+
+  const isCreator = conversation.createdBy === currentUserId;
+  const invitable = friends.filter(
+    (friend) => !conversation.participants.includes(friend.id),
+  );
+
+  const handleAdd = async () => {
+    if (!newMemberId) return;
+    await onAddMember(newMemberId);
+    setNewMemberId("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{conversation.name || "Group"}</DialogTitle>
+          <DialogDescription>
+            {conversation.participants.length} members
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="max-h-60 overflow-y-auto space-y-2">
+            {conversation.participants.map((memberId) => {
+              const member = users[memberId];
+
+              return (
+                <div
+                  key={memberId}
+                  className="flex items-center justify-between"
+                >
+                  <div className="flex items-center space-x-2">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage
+                        src={member?.avatar}
+                        alt={member?.fullName}
+                      />
+                      <AvatarFallback className="text-xs">
+                        {member ? getInitials(member.fullName) : "?"}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm">
+                      {memberId === currentUserId
+                        ? "You"
+                        : member?.fullName || "Unknown user"}
+                    </span>
+                    {memberId === conversation.createdBy && (
+                      <Badge variant="outline" className="text-xs">
+                        Admin
+                      </Badge>
+                    )}
+                  </div>
+                  {isCreator && memberId !== currentUserId && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onRemoveMember(memberId)}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {invitable.length > 0 && (
+            <div className="flex space-x-2">
+              <Select value={newMemberId} onValueChange={setNewMemberId}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Add a friend" />
+                </SelectTrigger>
+                <SelectContent>
+                  {invitable.map((friend) => (
+                    <SelectItem key={friend.id} value={friend.id}>
+                      {friend.fullName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={!newMemberId}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="destructive" onClick={onLeave}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Leave Group
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
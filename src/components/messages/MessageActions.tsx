@@ -0,0 +1,128 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { Message, User } from "@/types";
+import { cn } from "@/lib/utils";
+import {
+  REACTION_EMOJIS,
+  canEditMessage,
+  isDeleted,
+} from "@/utils/messageEdits";
+
+interface MessageActionsProps {
+  message: Message;
+  currentUserId: string;
+  onReact: (emoji: string) => void;
+  onEdit: () => void;
+  onDelete: (scope: "me" | "everyone") => void;
+}
+
+export const MessageActions = ({
+  message,
+  currentUserId,
+  onReact,
+  onEdit,
+  onDelete,
+}: MessageActionsProps) => {
+  const deleted = isDeleted(message);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+        >
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {!deleted && (
+          <>
+            <div className="flex space-x-1 px-1 py-1">
+              {REACTION_EMOJIS.map((emoji) => (
+                <DropdownMenuItem
+                  key={emoji}
+                  className="px-1.5 text-base"
+                  onClick={() => onReact(emoji)}
+                >
+                  {emoji}
+                </DropdownMenuItem>
+              ))}
+            </div>
+            <DropdownMenuSeparator />
+          </>
+        )}
+        {canEditMessage(message, currentUserId) && (
+          <DropdownMenuItem onClick={onEdit}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={() => onDelete("me")}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete for me
+        </DropdownMenuItem>
+        {message.senderId === currentUserId && !deleted && (
+          <DropdownMenuItem
+            className="text-destructive"
+            onClick={() => onDelete("everyone")}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete for everyone
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+interface MessageReactionsProps {
+  message: Message;
+  currentUserId: string;
+  users: Record<string, User>;
+  onReact: (emoji: string) => void;
+}
+
+export const MessageReactions = ({
+  message,
+  currentUserId,
+  users,
+  onReact,
+}: MessageReactionsProps) => {
+  const reactions = Object.entries(message.reactions || {});
+  if (reactions.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {reactions.map(([emoji, userIds]) => (
+        <button
+          key={emoji}
+          type="button"
+          title={userIds
+            .map((id) =>
+              id === currentUserId ? "You" : users[id]?.fullName || "Someone",
+            )
+            .join(", ")}
+          onClick={() => onReact(emoji)}
+          className={cn(
+            "flex items-center space-x-1 rounded-full border px-2 py-0.5 text-xs",
+            userIds.includes(currentUserId)
+              ? "border-primary bg-primary/10"
+              : "bg-background",
+          )}
+        >
+          <span>{emoji}</span>
+          <span>{userIds.length}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
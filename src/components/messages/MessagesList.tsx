@@ -9,28 +9,62 @@ import {
 } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Search, MessageCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Search, MessageCircle, Users } from "lucide-react";
 import { Conversation, User } from "@/types";
-import { userStorage } from "@/utils/storage";
 import { useAuth } from "@/store/authStore";
+import { useUsers } from "@/hooks/use-users";
+import { usePresence } from "@/hooks/use-presence";
+import { PresenceDot } from "@/components/presence/PresenceDot";
 import { useMessageStore } from "@/store/messageStore";
 import { format, isToday, isYesterday } from "date-fns";
 import { cn } from "@/lib/utils";
+import {
+  getConversationTitle,
+  isGroupConversation,
+} from "@/utils/conversations";
+import { getMessagePreview } from "@/utils/messageEdits";
+import { TYPING_TIMEOUT_MS, isTypingIn } from "@/utils/presence";
 
 interface MessagesListProps {
   conversations: Conversation[];
   selectedConversation: Conversation | null;
-  onConversationSelect: (conversation: Conversation, otherUser: User) => void;
+  // The other user is null for group conversations
+  onConversationSelect: (
+    conversation: Conversation,
+    otherUser: User | null,
+  ) => void;
+  onNewGroup?: () => void;
 }
 
 export const MessagesList = ({
   conversations,
   selectedConversation,
   onConversationSelect,
+  onNewGroup,
 }: MessagesListProps) => {
   const { user } = useAuth();
   const { getUnreadCount } = useMessageStore(user?.id);
   const [searchQuery, setSearchQuery] = useState("");
+  const users = useUsers(
+    conversations.flatMap((conversation) => [
+      ...conversation.participants,
+      ...(conversation.lastMessage ? [conversation.lastMessage.senderId] : []),
+    ]),
+  );
+
+  // Refreshed often enough for typing to clear when it stops
+  const presence = usePresence(
+    conversations.flatMap((conversation) =>
+      conversation.participants.filter((id) => id !== user?.id),
+    ),
+    TYPING_TIMEOUT_MS / 2,
+  );
+
+  const isSomeoneTyping = (conversation: Conversation) =>
+    conversation.participants.some(
+      (id) => id !== user?.id && isTypingIn(presence[id], conversation.id),
+    );
 
   const getInitials = (name: string) => {
     return name
@@ -45,8 +79,7 @@ export const MessagesList = ({
     const otherUserId = conversation.participants.find(
       (id: string) => id !== user?.id,
     );
-    const users = userStorage.getUsers();
-    return users.find((u) => u.id === otherUserId) || null;
+    return users[otherUserId] || null;
   };
 
   const formatLastMessageTime = (timestamp: string) => {
@@ -61,7 +94,28 @@ export const MessagesList = ({
     }
   };
 
+  const getLastMessagePrefix = (conversation: Conversation) => {
+    const lastMessage = conversation.lastMessage;
+    if (!lastMessage || lastMessage.type === "system") return "";
+    if (lastMessage.senderId === user?.id) return "You: ";
+    if (!isGroupConversation(conversation)) return "";
+
+    const sender = users[lastMessage.senderId];
+    return sender ? `${sender.fullName.split(" ")[0]}: ` : "";
+  };
+
   const filteredConversations = conversations.filter((conversation) => {
+    if (isGroupConversation(conversation)) {
+      return (
+        getConversationTitle(conversation, users, user?.id)
+          .toLowerCase()
+          .includes(searchQuery.toLowerCase()) ||
+        conversation.lastMessage?.content
+          .toLowerCase()
+          .includes(searchQuery.toLowerCase())
+      );
+    }
+
     const otherUser = getOtherParticipant(conversation);
     if (!otherUser) return false;
 
@@ -74,14 +128,26 @@ export const MessagesList = ({
     );
   });
 
+  const renderTitle = () => (
+    <CardTitle className="flex items-center justify-between">
+      <span className="flex items-center space-x-2">
+        <MessageCircle className="h-5 w-5" />
+        <span>Messages</span>
+      </span>
+      {onNewGroup && (
+        <Button size="sm" variant="outline" onClick={onNewGroup}>
+          <Users className="mr-2 h-4 w-4" />
+          New Group
+        </Button>
+      )}
+    </CardTitle>
+  );
+
   if (conversations.length === 0) {
     return (
       <Card className="h-full">
         <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <MessageCircle className="h-5 w-5" />
-            <span>Messages</span>
-          </CardTitle>
+          {renderTitle()}
           <CardDescription>Your conversations will appear here</CardDescription>
         </CardHeader>
         <CardContent className="flex items-center justify-center h-64">
@@ -100,10 +166,7 @@ export const MessagesList = ({
   return (
     <Card className="h-full">
       <CardHeader>
-        <CardTitle className="flex items-center space-x-2">
-          <MessageCircle className="h-5 w-5" />
-          <span>Messages</span>
-        </CardTitle>
+        {renderTitle()}
         <CardDescription>
           {conversations.length} conversation
           {conversations.length !== 1 ? "s" : ""}
@@ -131,8 +194,11 @@ export const MessagesList = ({
             </div>
           ) : (
             filteredConversations.map((conversation) => {
-              const otherUser = getOtherParticipant(conversation);
-              if (!otherUser) return null;
+              const isGroup = isGroupConversation(conversation);
+              const otherUser = isGroup
+                ? null
+                : getOtherParticipant(conversation);
+              if (!isGroup && !otherUser) return null;
 
               const unreadCount = getUnreadCount(conversation.id);
               const isSelected = selectedConversation?.id === conversation.id;
@@ -146,20 +212,33 @@ export const MessagesList = ({
                     isSelected && "bg-muted",
                   )}
                 >
-                  <Avatar className="h-10 w-10">
-                    <AvatarImage
-                      src={otherUser.avatar}
-                      alt={otherUser.fullName}
-                    />
-                    <AvatarFallback>
-                      {getInitials(otherUser.fullName)}
-                    </AvatarFallback>
-                  </Avatar>
+                  <div className="relative">
+                    <Avatar className="h-10 w-10">
+                      {isGroup ? (
+                        <AvatarFallback>
+                          <Users className="h-5 w-5" />
+                        </AvatarFallback>
+                      ) : (
+                        <>
+                          <AvatarImage
+                            src={otherUser.avatar}
+                            alt={otherUser.fullName}
+                          />
+                          <AvatarFallback>
+                            {getInitials(otherUser.fullName)}
+                          </AvatarFallback>
+                        </>
+                      )}
+                    </Avatar>
+                    {!isGroup && (
+                      <PresenceDot presence={presence[otherUser.id]} />
+                    )}
+                  </div>
 
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center justify-between">
                       <p className="font-medium truncate">
-                        {otherUser.fullName}
+                        {getConversationTitle(conversation, users, user?.id)}
                       </p>
                       <div className="flex items-center space-x-1">
                         {conversation.lastMessage && (
@@ -180,7 +259,11 @@ export const MessagesList = ({
                       </div>
                     </div>
 
-                    {conversation.lastMessage ? (
+                    {isSomeoneTyping(conversation) ? (
+                      <p className="text-sm italic text-primary truncate">
+                        typing...
+                      </p>
+                    ) : conversation.lastMessage ? (
                       <p
                         className={cn(
                           "text-sm truncate",
@@ -189,10 +272,8 @@ export const MessagesList = ({
                             : "text-muted-foreground",
                         )}
                       >
-                        {conversation.lastMessage.senderId === user?.id
-                          ? "You: "
-                          : ""}
-                        {conversation.lastMessage.content}
+                        {getLastMessagePrefix(conversation)}
+                        {getMessagePreview(conversation.lastMessage, user?.id)}
                       </p>
                     ) : (
                       <p className="text-sm text-muted-foreground">
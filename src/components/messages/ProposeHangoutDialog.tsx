@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Event, HangoutProposalPayload } from "@/types";
+import { formatInTimeZone, fromZonedDate } from "@/utils/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
+
+interface ProposeHangoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The user's upcoming hangouts, which can be proposed as they are
+  hangouts: Event[];
+  onPropose: (
+    proposal: Omit<HangoutProposalPayload, "responses">,
+  ) => Promise<void>;
+}
+
+const DATETIME_LOCAL_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+export const ProposeHangoutDialog = ({
+  open,
+  onOpenChange,
+  hangouts,
+  onPropose,
+}: ProposeHangoutDialogProps) => {
+  const timeZone = useTimeZone();
+  const [eventId, setEventId] = useState<string>();
+  const [title, setTitle] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setEventId(undefined);
+    setTitle("");
+    setStartTime("");
+    setEndTime("");
+  }, [open]);
+
+  const handleHangoutSelect = (id: string) => {
+    const hangout = hangouts.find((event) => event.id === id);
+    if (!hangout) return;
+
+    setEventId(hangout.id);
+    setTitle(hangout.title);
+    setStartTime(
+      formatInTimeZone(hangout.startTime, DATETIME_LOCAL_FORMAT, timeZone),
+    );
+    setEndTime(
+      formatInTimeZone(hangout.endTime, DATETIME_LOCAL_FORMAT, timeZone),
+    );
+  };
+
+  // Form times are wall-clock times in the user's home zone
+  const toInstant = (value: string) =>
+    fromZonedDate(new Date(value), timeZone).toISOString();
+
+  const isValid =
+    title.trim().length > 0 &&
+    Boolean(startTime) &&
+    Boolean(endTime) &&
+    new Date(endTime) > new Date(startTime);
+
+  const handlePropose = async () => {
+    if (!isValid) return;
+
+    setIsSending(true);
+    await onPropose({
+      title: title.trim(),
+      startTime: toInstant(startTime),
+      endTime: toInstant(endTime),
+      timeZone,
+      ...(eventId && { eventId }),
+    });
+    setIsSending(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Propose a Hangout</DialogTitle>
+          <DialogDescription>
+            Anyone who accepts gets it added to their calendar
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {hangouts.length > 0 && (
+            <div className="space-y-2">
+              <Label>Start from one of your hangouts</Label>
+              <Select value={eventId} onValueChange={handleHangoutSelect}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Pick a hangout (optional)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {hangouts.map((hangout) => (
+                    <SelectItem key={hangout.id} value={hangout.id}>
+                      {hangout.title} ·{" "}
+                      {formatInTimeZone(
+                        hangout.startTime,
+                        "MMM d, h:mm a",
+                        timeZone,
+                      )}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="proposal-title">Title</Label>
+            <Input
+              id="proposal-title"
+              placeholder="e.g. Bowling night"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="proposal-start">Start</Label>
+              <Input
+                id="proposal-start"
+                type="datetime-local"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-end">End</Label>
+              <Input
+                id="proposal-end"
+                type="datetime-local"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handlePropose} disabled={!isValid || isSending}>
+            {isSending ? "Sending..." : "Send Proposal"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
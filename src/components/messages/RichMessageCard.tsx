@@ -0,0 +1,151 @@
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar, Check, Clock, MapPin, X } from "lucide-react";
+import { Message, ProposalResponse, User } from "@/types";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { formatInTimeZone, getOwnerTimeLabel } from "@/utils/timezone";
+import {
+  getEventCard,
+  getLocation,
+  getLocationUrl,
+  getProposal,
+} from "@/utils/richMessages";
+
+interface RichMessageCardProps {
+  message: Message;
+  currentUserId?: string;
+  users: Record<string, User>;
+  onRespond?: (message: Message, response: ProposalResponse) => void;
+}
+
+export const RichMessageCard = ({
+  message,
+  currentUserId,
+  users,
+  onRespond,
+}: RichMessageCardProps) => {
+  const timeZone = useTimeZone();
+
+  const formatRange = (startTime: string, endTime: string) =>
+    `${formatInTimeZone(startTime, "EEE, MMM d h:mm a", timeZone)} - ${formatInTimeZone(endTime, "h:mm a", timeZone)}`;
+
+  const proposal = getProposal(message);
+  if (proposal) {
+    const responses = Object.entries(proposal.responses || {});
+    const myResponse = currentUserId
+      ? proposal.responses?.[currentUserId]
+      : undefined;
+    const canRespond =
+      onRespond && message.senderId !== currentUserId && !myResponse;
+    const ownerTime = getOwnerTimeLabel(proposal, timeZone);
+
+    return (
+      <div className="w-64 rounded-lg border bg-background p-3 space-y-2 text-foreground">
+        <div className="flex items-center space-x-2">
+          <Calendar className="h-4 w-4 text-green-600" />
+          <span className="text-xs font-medium text-muted-foreground">
+            Hangout proposal
+          </span>
+        </div>
+        <p className="font-medium">{proposal.title}</p>
+        <div className="flex items-center space-x-1 text-xs text-muted-foreground">
+          <Clock className="h-3 w-3" />
+          <span>{formatRange(proposal.startTime, proposal.endTime)}</span>
+        </div>
+        {ownerTime && (
+          <p className="text-xs text-muted-foreground">
+            {ownerTime} for the sender
+          </p>
+        )}
+
+        {responses.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {responses.map(([userId, response]) => (
+              <Badge
+                key={userId}
+                variant={response === "accepted" ? "default" : "outline"}
+                className="text-xs"
+              >
+                {userId === currentUserId
+                  ? "You"
+                  : users[userId]?.fullName.split(" ")[0] || "Someone"}{" "}
+                {response}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {canRespond && (
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              className="flex-1"
+              onClick={() => onRespond(message, "accepted")}
+            >
+              <Check className="mr-1 h-3 w-3" />
+              Accept
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              onClick={() => onRespond(message, "declined")}
+            >
+              <X className="mr-1 h-3 w-3" />
+              Decline
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const eventCard = getEventCard(message);
+  if (eventCard) {
+    return (
+      <Link
+        to="/calendar"
+        className="block w-64 rounded-lg border bg-background p-3 space-y-2 text-foreground hover:bg-muted/50"
+      >
+        <div className="flex items-center justify-between">
+          <Calendar className="h-4 w-4 text-primary" />
+          <Badge variant="secondary" className="text-xs">
+            {eventCard.eventType === "hangout" ? "Hangout" : "Event"}
+          </Badge>
+        </div>
+        <p className="font-medium">{eventCard.title}</p>
+        <div className="flex items-center space-x-1 text-xs text-muted-foreground">
+          <Clock className="h-3 w-3" />
+          <span>{formatRange(eventCard.startTime, eventCard.endTime)}</span>
+        </div>
+      </Link>
+    );
+  }
+
+  const location = getLocation(message);
+  if (location) {
+    return (
+      <a
+        href={getLocationUrl(location)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block w-64 rounded-lg border bg-background text-foreground hover:bg-muted/50"
+      >
+        {/* Static pin; the map itself opens in a new tab */}
+        <div className="flex h-24 items-center justify-center rounded-t-lg bg-muted">
+          <MapPin className="h-8 w-8 text-red-600" />
+        </div>
+        <div className="p-3">
+          <p className="font-medium">{location.label}</p>
+          <p className="text-xs text-muted-foreground">
+            {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+          </p>
+        </div>
+      </a>
+    );
+  }
+
+  // Types this client doesn't know fall back to the message text
+  return <>{message.content}</>;
+};
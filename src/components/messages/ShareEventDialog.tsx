@@ -0,0 +1,83 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Calendar, MapPin } from "lucide-react";
+import { Event } from "@/types";
+import { formatInTimeZone } from "@/utils/timezone";
+import { useTimeZone } from "@/hooks/use-time-zone";
+
+interface ShareEventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  events: Event[];
+  onShare: (event: Event) => void;
+}
+
+export const ShareEventDialog = ({
+  open,
+  onOpenChange,
+  events,
+  onShare,
+}: ShareEventDialogProps) => {
+  const timeZone = useTimeZone();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Share an Event</DialogTitle>
+          <DialogDescription>
+            Pick one of your upcoming events
+          </DialogDescription>
+        </DialogHeader>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No upcoming events to share
+          </p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {events.map((event) => (
+              <div
+                key={event.id}
+                className="flex items-center justify-between rounded-md border p-2"
+              >
+                <div className="flex items-center space-x-2 min-w-0">
+                  {event.type === "hangout" ? (
+                    <MapPin className="h-4 w-4 text-blue-600 flex-shrink-0" />
+                  ) : (
+                    <Calendar className="h-4 w-4 text-gray-600 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {event.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatInTimeZone(
+                        event.startTime,
+                        "EEE, MMM d h:mm a",
+                        timeZone,
+                      )}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onShare(event)}
+                >
+                  Share
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
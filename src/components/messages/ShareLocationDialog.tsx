@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LocateFixed } from "lucide-react";
+import { LocationPayload } from "@/types";
+import { toast } from "sonner";
+
+interface ShareLocationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onShare: (location: LocationPayload) => Promise<void>;
+}
+
+export const ShareLocationDialog = ({
+  open,
+  onOpenChange,
+  onShare,
+}: ShareLocationDialogProps) => {
+  const [label, setLabel] = useState("");
+  const [latitude, setLatitude] = useState("");
+  const [longitude, setLongitude] = useState("");
+  const [isLocating, setIsLocating] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLabel("");
+    setLatitude("");
+    setLongitude("");
+  }, [open]);
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error("Your browser can't share its location");
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLatitude(position.coords.latitude.toFixed(5));
+        setLongitude(position.coords.longitude.toFixed(5));
+        if (!label) setLabel("My location");
+        setIsLocating(false);
+      },
+      () => {
+        toast.error("Couldn't get your location");
+        setIsLocating(false);
+      },
+    );
+  };
+
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  const isValid =
+    label.trim().length > 0 &&
+    latitude !== "" &&
+    longitude !== "" &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lng) <= 180;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>Share a Location</DialogTitle>
+          <DialogDescription>
+            Drop a pin so everyone knows where to meet
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="location-label">Place</Label>
+            <Input
+              id="location-label"
+              placeholder="e.g. Corner Cafe"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="location-lat">Latitude</Label>
+              <Input
+                id="location-lat"
+                type="number"
+                step="any"
+                value={latitude}
+                onChange={(e) => setLatitude(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-lng">Longitude</Label>
+              <Input
+                id="location-lng"
+                type="number"
+                step="any"
+                value={longitude}
+                onChange={(e) => setLongitude(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleUseCurrentLocation}
+            disabled={isLocating}
+          >
+            <LocateFixed className="mr-2 h-4 w-4" />
+            {isLocating ? "Locating..." : "Use my current location"}
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              onShare({ label: label.trim(), latitude: lat, longitude: lng })
+            }
+            disabled={!isValid}
+          >
+            Share Pin
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -20,21 +20,44 @@ import {
   X,
   UserPlus,
   Calendar,
+  CalendarCheck,
+  CalendarPlus,
   MessageCircle,
 } from "lucide-react";
 import { useAuth } from "@/store/authStore";
 import { useNotificationStore } from "@/store/notificationStore";
-import { userStorage } from "@/utils/storage";
+import { useUsers } from "@/hooks/use-users";
 import { acceptFriendRequest, rejectFriendRequest } from "@/utils/auth";
+import {
+  DigestPeriod,
+  NotificationGroup,
+  getNotificationGroupMessage,
+} from "@/utils/notificationGroups";
 import { format } from "date-fns";
 import { toast } from "sonner";
 
 export const NotificationBell = () => {
   const { user, updateUser } = useAuth();
-  const { notifications, markAsRead, markAllAsRead } = useNotificationStore(
-    user?.id,
-  );
+  const {
+    notifications,
+    groups,
+    markAllAsRead,
+    markGroupAsRead,
+    dismissGroup,
+    getDigest,
+  } = useNotificationStore(user?.id);
   const [isOpen, setIsOpen] = useState(false);
+  const [digestPeriod, setDigestPeriod] = useState<DigestPeriod>("daily");
+  const users = useUsers(
+    notifications
+      .filter(
+        (n) =>
+          (n.type === "friend_request" || n.type === "message") &&
+          n.data?.senderId,
+      )
+      .map((n) => n.data.senderId),
+  );
+  const digest = getDigest(digestPeriod);
 
   const unreadCount = useMemo(
     () => notifications.filter((n) => !n.read).length,
@@ -52,11 +75,17 @@ export const NotificationBell = () => {
 
   const handleAcceptFriendRequest = async (
     requesterId: string,
-    notificationId: string,
+    group: NotificationGroup,
   ) => {
     if (!user) return;
+    // Stale notifications outlive cancelled requests and blocks
+    if (!user.friendRequests.received.includes(requesterId)) {
+      await markGroupAsRead(group);
+      toast.error("This friend request is no longer pending");
+      return;
+    }
 
-    const success = acceptFriendRequest(user.id, requesterId);
+    const success = await acceptFriendRequest(user.id, requesterId);
     if (success) {
       const updatedUser = {
         ...user,
@@ -69,18 +98,20 @@ export const NotificationBell = () => {
         },
       };
       updateUser(updatedUser);
-      markAsRead(notificationId);
+      await markGroupAsRead(group);
       toast.success("Friend request accepted!");
+    } else {
+      toast.error("Failed to accept friend request");
     }
   };
 
   const handleRejectFriendRequest = async (
     requesterId: string,
-    notificationId: string,
+    group: NotificationGroup,
   ) => {
     if (!user) return;
 
-    const success = rejectFriendRequest(user.id, requesterId);
+    const success = await rejectFriendRequest(user.id, requesterId);
     if (success) {
       const updatedUser = {
         ...user,
@@ -92,7 +123,7 @@ export const NotificationBell = () => {
         },
       };
       updateUser(updatedUser);
-      markAsRead(notificationId);
+      await markGroupAsRead(group);
       toast.success("Friend request rejected");
     }
   };
@@ -103,6 +134,11 @@ export const NotificationBell = () => {
         return <UserPlus className="h-4 w-4 text-blue-600" />;
       case "hangout_match":
         return <Calendar className="h-4 w-4 text-green-600" />;
+      case "hangout_invite":
+      case "hangout_update":
+        return <CalendarPlus className="h-4 w-4 text-green-600" />;
+      case "hangout_rsvp":
+        return <CalendarCheck className="h-4 w-4 text-green-600" />;
       case "message":
         return <MessageCircle className="h-4 w-4 text-purple-600" />;
       default:
@@ -110,11 +146,14 @@ export const NotificationBell = () => {
     }
   };
 
-  const renderNotificationContent = (notification: any) => {
-    const users = userStorage.getUsers();
+  const renderNotificationContent = (group: NotificationGroup) => {
+    const notification = group.latest;
 
-    if (notification.type === "friend_request") {
-      const requester = users.find((u) => u.id === notification.data?.senderId);
+    if (
+      notification.type === "friend_request" &&
+      user?.friendRequests.received.includes(notification.data?.senderId)
+    ) {
+      const requester = users[notification.data?.senderId];
       return (
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
@@ -139,10 +178,7 @@ export const NotificationBell = () => {
               variant="outline"
               className="h-6 px-2 text-xs"
               onClick={() =>
-                handleAcceptFriendRequest(
-                  notification.data.senderId,
-                  notification.id,
-                )
+                handleAcceptFriendRequest(notification.data.senderId, group)
               }
             >
               <Check className="h-3 w-3" />
@@ -152,10 +188,7 @@ export const NotificationBell = () => {
               variant="outline"
               className="h-6 px-2 text-xs"
               onClick={() =>
-                handleRejectFriendRequest(
-                  notification.data.senderId,
-                  notification.id,
-                )
+                handleRejectFriendRequest(notification.data.senderId, group)
               }
             >
               <X className="h-3 w-3" />
@@ -168,7 +201,9 @@ export const NotificationBell = () => {
     return (
       <div className="space-y-1">
         <p className="text-sm font-medium">{notification.title}</p>
-        <p className="text-xs text-muted-foreground">{notification.message}</p>
+        <p className="text-xs text-muted-foreground">
+          {getNotificationGroupMessage(group, users)}
+        </p>
       </div>
     );
   };
@@ -209,6 +244,22 @@ export const NotificationBell = () => {
                 ? "No notifications"
                 : `${unreadCount} unread`}
             </CardDescription>
+            {unreadCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                <button
+                  type="button"
+                  className="font-medium underline"
+                  onClick={() =>
+                    setDigestPeriod((prev) =>
+                      prev === "daily" ? "weekly" : "daily",
+                    )
+                  }
+                >
+                  {digestPeriod === "daily" ? "Today" : "This week"}
+                </button>
+                : {digest.summary}
+              </p>
+            )}
           </CardHeader>
           <CardContent className="pt-0">
             {notifications.length === 0 ? (
@@ -217,27 +268,39 @@ export const NotificationBell = () => {
               </p>
             ) : (
               <div className="space-y-3 max-h-80 overflow-y-auto">
-                {notifications.slice(0, 10).map((notification) => (
+                {groups.slice(0, 10).map((group) => (
                   <div
-                    key={notification.id}
-                    className={`p-3 rounded-lg border ${!notification.read ? "bg-blue-50 border-blue-200" : "bg-background"}`}
+                    key={group.key}
+                    className={`p-3 rounded-lg border ${group.unreadCount > 0 ? "bg-blue-50 border-blue-200" : "bg-background"}`}
                     onClick={() =>
-                      !notification.read && markAsRead(notification.id)
+                      group.unreadCount > 0 && markGroupAsRead(group)
                     }
                   >
                     <div className="flex items-start space-x-2">
                       <div className="flex-shrink-0 mt-0.5">
-                        {renderNotificationIcon(notification.type)}
+                        {renderNotificationIcon(group.type)}
                       </div>
                       <div className="flex-1 min-w-0">
-                        {renderNotificationContent(notification)}
+                        {renderNotificationContent(group)}
                         <p className="text-xs text-muted-foreground mt-1">
                           {format(
-                            new Date(notification.createdAt),
+                            new Date(group.latest.createdAt),
                             "MMM d, h:mm a",
                           )}
                         </p>
                       </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 flex-shrink-0"
+                        title="Dismiss"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          dismissGroup(group);
+                        }}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
                     </div>
                   </div>
                 ))}
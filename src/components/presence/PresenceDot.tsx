@@ -0,0 +1,30 @@
+import { Presence } from "@/types";
+import { cn } from "@/lib/utils";
+import { PRESENCE_LABELS, getPresenceStatus } from "@/utils/presence";
+
+interface PresenceDotProps {
+  presence?: Presence;
+  className?: string;
+}
+
+const STATUS_CLASSES = {
+  online: "bg-green-500",
+  away: "bg-yellow-400",
+  offline: "bg-gray-300",
+};
+
+// Status dot for the corner of an avatar; wrap the avatar in `relative`
+export const PresenceDot = ({ presence, className }: PresenceDotProps) => {
+  const status = getPresenceStatus(presence);
+
+  return (
+    <span
+      title={PRESENCE_LABELS[status]}
+      className={cn(
+        "absolute bottom-0 right-0 block h-3 w-3 rounded-full ring-2 ring-background",
+        STATUS_CLASSES[status],
+        className,
+      )}
+    />
+  );
+};
@@ -0,0 +1,236 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Calendar, MessageCircle, Search, User } from "lucide-react";
+import { Message } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import { useAuth } from "@/store/authStore";
+import { useCalendarStore } from "@/store/calendarStore";
+import { useMessageStore } from "@/store/messageStore";
+import { useUsers } from "@/hooks/use-users";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { formatInTimeZone } from "@/utils/timezone";
+import {
+  getConversationTitle,
+  getMessageConversationId,
+} from "@/utils/conversations";
+import { isDeleted, isHiddenFor } from "@/utils/messageEdits";
+import { getRsvpStatus } from "@/utils/sharedHangouts";
+import {
+  SearchDocument,
+  SearchResultKind,
+  buildSearchIndex,
+  searchIndex,
+} from "@/utils/searchIndex";
+
+const RESULT_GROUPS: Array<{
+  kind: SearchResultKind;
+  heading: string;
+  icon: typeof User;
+}> = [
+  { kind: "person", heading: "People", icon: User },
+  { kind: "event", heading: "Events", icon: Calendar },
+  { kind: "message", heading: "Messages", icon: MessageCircle },
+];
+
+// Loads what it searches only while the palette is open
+const SearchResults = ({ onSelect }: { onSelect: (href: string) => void }) => {
+  const { user } = useAuth();
+  const timeZone = useTimeZone();
+  const { conversations } = useMessageStore(user?.id);
+  const { events, sharedEvents } = useCalendarStore(user?.id);
+  const friends = useUsers(user?.friends || []);
+  // The whole stored history, not just the pages the chats have loaded
+  const [storedMessages, setStoredMessages] = useState<Message[]>([]);
+  // Past group members can still have messages worth finding
+  const members = useUsers([
+    ...conversations.flatMap((conversation) => conversation.participants),
+    ...storedMessages.map((message) => message.senderId),
+  ]);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    dataProvider.getUserMessages(user.id).then((messages) => {
+      if (!cancelled) setStoredMessages(messages);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const index = useMemo(() => {
+    if (!user) return buildSearchIndex([]);
+
+    const people: SearchDocument[] = Object.values(friends).map((friend) => ({
+      id: `person:${friend.id}`,
+      kind: "person",
+      title: friend.fullName,
+      subtitle: `@${friend.username}`,
+      body: friend.email,
+      href: `/messages?user=${friend.id}`,
+    }));
+
+    const calendarEvents: SearchDocument[] = [
+      ...events,
+      ...sharedEvents.filter(
+        (event) => getRsvpStatus(event, user.id) !== "declined",
+      ),
+    ].map((event) => ({
+      id: `event:${event.id}`,
+      kind: "event",
+      title: event.title,
+      subtitle: formatInTimeZone(
+        event.startTime,
+        "EEE, MMM d yyyy, h:mm a",
+        timeZone,
+      ),
+      body: event.description,
+      timestamp: event.startTime,
+      href: `/calendar?event=${event.id}`,
+    }));
+
+    const messagesByConversation = new Map<string, Message[]>();
+    storedMessages.forEach((message) => {
+      const conversationId = getMessageConversationId(message);
+      const list = messagesByConversation.get(conversationId);
+      if (list) list.push(message);
+      else messagesByConversation.set(conversationId, [message]);
+    });
+
+    const messages: SearchDocument[] = conversations.flatMap((conversation) => {
+      const title = getConversationTitle(conversation, members, user.id);
+      return (messagesByConversation.get(conversation.id) || [])
+        .filter(
+          (message) =>
+            message.type !== "system" &&
+            !isDeleted(message) &&
+            !isHiddenFor(message, user.id),
+        )
+        .map((message) => ({
+          id: `message:${message.id}`,
+          kind: "message" as const,
+          title: message.content,
+          subtitle: `${
+            message.senderId === user.id
+              ? "You"
+              : members[message.senderId]?.fullName || "Someone"
+          } in ${title}`,
+          timestamp: message.timestamp,
+          href: `/messages?conversation=${conversation.id}&message=${message.id}`,
+        }));
+    });
+
+    return buildSearchIndex([...people, ...calendarEvents, ...messages]);
+  }, [
+    user,
+    friends,
+    members,
+    events,
+    sharedEvents,
+    conversations,
+    storedMessages,
+    timeZone,
+  ]);
+
+  const results = searchIndex(index, query, 30);
+
+  return (
+    <Command
+      shouldFilter={false}
+      className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+    >
+      <CommandInput
+        placeholder="Search people, events and messages..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        {query.trim() && <CommandEmpty>No results found.</CommandEmpty>}
+        {RESULT_GROUPS.map(({ kind, heading, icon: Icon }) => {
+          const groupResults = results.filter(
+            (result) => result.document.kind === kind,
+          );
+          if (groupResults.length === 0) return null;
+
+          return (
+            <CommandGroup key={kind} heading={heading}>
+              {groupResults.map(({ document }) => (
+                <CommandItem
+                  key={document.id}
+                  value={document.id}
+                  onSelect={() => onSelect(document.href)}
+                >
+                  <Icon className="mr-2 h-4 w-4 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="truncate">{document.title}</p>
+                    {document.subtitle && (
+                      <p className="truncate text-xs text-muted-foreground">
+                        {document.subtitle}
+                      </p>
+                    )}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+      </CommandList>
+    </Command>
+  );
+};
+
+export const SearchPalette = () => {
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+
+  // Ctrl+K / Cmd+K opens search from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const handleSelect = (href: string) => {
+    setOpen(false);
+    navigate(href);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="text-muted-foreground"
+      >
+        <Search className="h-4 w-4 lg:mr-2" />
+        <span className="hidden lg:inline">Search</span>
+        <kbd className="ml-2 hidden rounded border bg-muted px-1.5 text-xs lg:inline">
+          Ctrl K
+        </kbd>
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <SearchResults onSelect={handleSelect} />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
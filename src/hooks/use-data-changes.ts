@@ -0,0 +1,46 @@
+import { useEffect, useRef } from "react";
+import { DataChange } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+
+// Bursts of writes, like a message plus its notification, refresh only once
+const CHANGE_DEBOUNCE_MS = 100;
+
+/**
+ * Calls `onChange` after writes of the given types that affect the user,
+ * from this view, another tab or another device. Changes arriving close
+ * together are handled in one call.
+ */
+export function useDataChanges(
+  userId: string | undefined,
+  types: DataChange["type"][],
+  onChange: (changes: DataChange[]) => void,
+) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const typesKey = [...types].sort().join(",");
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const watched = new Set(typesKey.split(","));
+    let pending: DataChange[] = [];
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = dataProvider.subscribeToChanges(userId, (change) => {
+      if (!watched.has(change.type)) return;
+
+      pending.push(change);
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        const changes = pending;
+        pending = [];
+        onChangeRef.current(changes);
+      }, CHANGE_DEBOUNCE_MS);
+    });
+
+    return () => {
+      clearTimeout(timeout);
+      unsubscribe();
+    };
+  }, [userId, typesKey]);
+}
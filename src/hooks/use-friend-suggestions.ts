@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from "react";
+import { SuggestionDismissal } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import { useAuth } from "@/store/authStore";
+import {
+  FriendSuggestion,
+  getFriendSuggestions,
+  getInteractionWindowStart,
+  getSuggestionCandidateIds,
+  withSuggestionDismissed,
+} from "@/utils/friendSuggestions";
+
+/**
+ * "People you may know" for the signed-in user, best match first. Dismissing
+ * someone is saved on the user's record, so it holds across devices.
+ */
+export function useFriendSuggestions(limit?: number) {
+  const { user, updateUser } = useAuth();
+  const [suggestions, setSuggestions] = useState<FriendSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSuggestions = useCallback(async () => {
+    if (!user) {
+      setSuggestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const [friends, conversations, sharedEvents, messages] = await Promise.all([
+      dataProvider.getUsers(user.friends),
+      dataProvider.getUserConversations(user.id),
+      dataProvider.getSharedEvents(user.id),
+      dataProvider.getUserMessages(user.id, getInteractionWindowStart()),
+    ]);
+    const candidateIds = getSuggestionCandidateIds(
+      user,
+      friends,
+      conversations,
+      sharedEvents,
+    );
+    const [candidates, events] = await Promise.all([
+      dataProvider.getUsers(candidateIds),
+      dataProvider.getEventsForUsers([user.id, ...candidateIds]),
+    ]);
+
+    setSuggestions(
+      getFriendSuggestions({
+        user,
+        candidates,
+        // Shared hangouts may also be a candidate's own event
+        events: [
+          ...new Map(
+            [...events, ...sharedEvents].map((event) => [event.id, event]),
+          ).values(),
+        ],
+        messages,
+      }),
+    );
+    setIsLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [loadSuggestions]);
+
+  const dismiss = async (
+    userId: string,
+    reason: SuggestionDismissal["reason"] = "dismissed",
+  ): Promise<boolean> => {
+    if (!user) return false;
+
+    const { suggestionDismissals } = withSuggestionDismissed(
+      user,
+      userId,
+      reason,
+    );
+    if (!(await dataProvider.updateUser(user.id, { suggestionDismissals }))) {
+      return false;
+    }
+
+    updateUser({ suggestionDismissals });
+    return true;
+  };
+
+  return {
+    suggestions: limit ? suggestions.slice(0, limit) : suggestions,
+    isLoading,
+    dismiss,
+  };
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Presence } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import {
+  AWAY_AFTER_MS,
+  HEARTBEAT_INTERVAL_MS,
+  TYPING_TIMEOUT_MS,
+} from "@/utils/presence";
+
+const ACTIVITY_EVENTS = ["mousemove", "keydown", "pointerdown", "scroll"];
+
+/**
+ * Reports the signed-in user as present while the app is open. Heartbeats
+ * go out on an interval and whenever the tab is hidden or shown; a hidden
+ * or idle tab reports the user as away.
+ */
+export function usePresenceHeartbeat(userId?: string) {
+  useEffect(() => {
+    if (!userId) return;
+
+    let lastActivity = Date.now();
+    let away = false;
+
+    const isAway = () =>
+      document.visibilityState === "hidden" ||
+      Date.now() - lastActivity > AWAY_AFTER_MS;
+
+    const beat = () => {
+      away = isAway();
+      dataProvider.updatePresence(userId, {
+        lastSeen: new Date().toISOString(),
+        away,
+      });
+    };
+
+    // Coming back from idle shouldn't wait for the next heartbeat
+    const handleActivity = () => {
+      lastActivity = Date.now();
+      if (away) beat();
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener("visibilitychange", beat);
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true }),
+    );
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", beat);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity),
+      );
+    };
+  }, [userId]);
+}
+
+/**
+ * Live presence for a list of users, keyed by user ID. Re-renders every
+ * `refreshMs` as well, so statuses derived from the time age out.
+ */
+export function usePresence(
+  userIds: string[],
+  refreshMs = HEARTBEAT_INTERVAL_MS,
+) {
+  const [presence, setPresence] = useState<Record<string, Presence>>({});
+  const [, setTick] = useState(0);
+  const key = [...new Set(userIds)].sort().join(",");
+
+  useEffect(() => {
+    const ids = key ? key.split(",") : [];
+    return dataProvider.subscribeToPresence(ids, (records) =>
+      setPresence(
+        Object.fromEntries(records.map((record) => [record.userId, record])),
+      ),
+    );
+  }, [key]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setTick((tick) => tick + 1), refreshMs);
+    return () => clearInterval(interval);
+  }, [refreshMs]);
+
+  return presence;
+}
+
+/**
+ * Tells others in a conversation when the user is typing. Keystrokes are
+ * throttled so a burst of typing sends one update per few seconds.
+ */
+export function useTypingIndicator(userId?: string, conversationId?: string) {
+  const lastSent = useRef(0);
+
+  const stopTyping = useCallback(() => {
+    if (!userId || lastSent.current === 0) return;
+    lastSent.current = 0;
+    dataProvider.updatePresence(userId, { typingIn: null });
+  }, [userId]);
+
+  const notifyTyping = useCallback(() => {
+    if (!userId || !conversationId) return;
+    if (Date.now() - lastSent.current < TYPING_TIMEOUT_MS / 2) return;
+
+    lastSent.current = Date.now();
+    dataProvider.updatePresence(userId, {
+      typingIn: conversationId,
+      typingAt: new Date().toISOString(),
+    });
+  }, [userId, conversationId]);
+
+  // Leaving the conversation ends any typing in it
+  useEffect(() => stopTyping, [conversationId, stopTyping]);
+
+  return { notifyTyping, stopTyping };
+}
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { User } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import {
+  PushPermission,
+  getPushPermission,
+  requestPushPermission,
+  showSystemNotification,
+} from "@/services/serviceWorker";
+import { useDataChanges } from "@/hooks/use-data-changes";
+import {
+  PUSH_NOTIFICATION_TYPES,
+  toPushPayload,
+} from "@/utils/pushNotifications";
+import {
+  getNotificationPreferences,
+  isNotificationDue,
+} from "@/utils/notificationPreferences";
+
+// The browser's notification permission, and a way to ask for it
+export function usePushPermission() {
+  const [permission, setPermission] =
+    useState<PushPermission>(getPushPermission);
+
+  const requestPermission = useCallback(async () => {
+    const result = await requestPushPermission();
+    setPermission(result);
+    return result;
+  }, []);
+
+  return { permission, requestPermission };
+}
+
+/**
+ * Relays the user's new notifications to the service worker as system
+ * notifications. The change feed carries them here from other tabs, or from
+ * Firestore listeners, so this stands in for a push server while the app is
+ * open. Notifications held back by quiet hours are relayed once they're due.
+ */
+export function usePushNotifications(user: User | null) {
+  const userId = user?.id;
+  const enabled = Boolean(user) && getNotificationPreferences(user).push;
+  const timeouts = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+
+  useEffect(() => {
+    const pending = timeouts.current;
+    return () => {
+      pending.forEach((timeout) => clearTimeout(timeout));
+      pending.clear();
+    };
+  }, [userId, enabled]);
+
+  useDataChanges(
+    enabled ? userId : undefined,
+    ["notification_added"],
+    async (changes) => {
+      if (!userId || getPushPermission() !== "granted") return;
+
+      const ids = new Set(
+        changes.map((change) =>
+          change.type === "notification_added" ? change.notificationId : "",
+        ),
+      );
+      const added = (await dataProvider.getUserNotifications(userId)).filter(
+        (notification) =>
+          ids.has(notification.id) &&
+          PUSH_NOTIFICATION_TYPES.includes(notification.type),
+      );
+
+      added.forEach((notification) => {
+        const payload = toPushPayload(notification);
+        if (!payload) return;
+
+        if (isNotificationDue(notification)) {
+          showSystemNotification(payload);
+          return;
+        }
+
+        const timeout = setTimeout(
+          () => {
+            timeouts.current.delete(timeout);
+            showSystemNotification(payload);
+          },
+          new Date(notification.deliverAt!).getTime() - Date.now(),
+        );
+        timeouts.current.add(timeout);
+      });
+    },
+  );
+}
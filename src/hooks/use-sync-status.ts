@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react";
+import { SyncStatus } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import { SYNCED_STATUS } from "@/utils/offlineSync";
+
+// Whether writes made offline are still waiting to reach the server
+export function useSyncStatus() {
+  const [status, setStatus] = useState<SyncStatus>(SYNCED_STATUS);
+
+  useEffect(() => dataProvider.subscribeToSyncStatus(setStatus), []);
+
+  return {
+    status,
+    retry: dataProvider.retrySync,
+    discardFailed: dataProvider.discardFailedSync,
+  };
+}
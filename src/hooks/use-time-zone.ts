@@ -0,0 +1,8 @@
+import { useAuth } from "@/store/authStore";
+import { getUserTimeZone } from "@/utils/timezone";
+
+// The signed-in user's home zone, which all times are rendered in
+export function useTimeZone() {
+  const { user } = useAuth();
+  return getUserTimeZone(user);
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { User } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+
+// Resolves a list of user IDs to a lookup map through the data provider
+export function useUsers(userIds: string[]) {
+  const [users, setUsers] = useState<Record<string, User>>({});
+  const key = [...new Set(userIds)].sort().join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+    const ids = key ? key.split(",") : [];
+
+    dataProvider.getUsers(ids).then((result) => {
+      if (cancelled) return;
+      setUsers(Object.fromEntries(result.map((user) => [user.id, user])));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return users;
+}
@@ -4,3 +4,7 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function generateId() {
+  return Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
+}
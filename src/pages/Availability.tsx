@@ -0,0 +1,382 @@
+import { useMemo, useState } from "react";
+import { Layout } from "@/components/layout/Layout";
+import { EventModal } from "@/components/calendar/EventModal";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarPlus, LayoutGrid, Users } from "lucide-react";
+import { useAuth } from "@/store/authStore";
+import { useCalendarStore } from "@/store/calendarStore";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { CreateEventInput, User } from "@/types";
+import { addDays, format } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  AVAILABILITY_BUCKET_MINUTES,
+  buildAvailabilityGrid,
+  getAvailabilityRun,
+} from "@/utils/availability";
+import { formatInTimeZone, toZonedDate } from "@/utils/timezone";
+import { toast } from "sonner";
+
+const RANGE_OPTIONS = [1, 3, 7];
+
+// Cell shades from nobody free to every selected friend free
+const HEAT_CLASSES = [
+  "bg-muted/40",
+  "bg-green-100",
+  "bg-green-200",
+  "bg-green-400",
+  "bg-green-600",
+];
+
+const getHeatClass = (count: number, total: number) => {
+  if (count === 0 || total === 0) return HEAT_CLASSES[0];
+  return HEAT_CLASSES[Math.ceil((count / total) * (HEAT_CLASSES.length - 1))];
+};
+
+const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .map((word) => word[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+
+const Availability = () => {
+  const { user } = useAuth();
+  const timeZone = useTimeZone();
+  const { friends, getAllFriendHangouts, createEvent } = useCalendarStore(
+    user?.id,
+  );
+  const [startDate, setStartDate] = useState(
+    format(toZonedDate(new Date(), timeZone), "yyyy-MM-dd"),
+  );
+  const [rangeDays, setRangeDays] = useState(7);
+  // Friends are included unless unticked, so new friends show up by default
+  const [excludedFriendIds, setExcludedFriendIds] = useState<Set<string>>(
+    new Set(),
+  );
+  const [selectedCell, setSelectedCell] = useState<{
+    day: number;
+    index: number;
+  } | null>(null);
+  const [proposal, setProposal] = useState<{
+    start: Date;
+    end: Date;
+    title: string;
+  } | null>(null);
+
+  const selectedFriends = friends.filter(
+    (friend) => !excludedFriendIds.has(friend.id),
+  );
+  const friendsById = new Map(friends.map((friend) => [friend.id, friend]));
+
+  const days = useMemo(() => {
+    const first = new Date(`${startDate}T00:00`);
+    if (isNaN(first.getTime())) return [];
+    return Array.from({ length: rangeDays }, (_, i) => addDays(first, i));
+  }, [startDate, rangeDays]);
+
+  const grid = buildAvailabilityGrid(
+    getAllFriendHangouts()
+      .filter(({ friend }) => !excludedFriendIds.has(friend.id))
+      .map(({ event }) => event),
+    days,
+    timeZone,
+  );
+
+  const toggleFriend = (friendId: string, included: boolean) => {
+    setExcludedFriendIds((prev) => {
+      const next = new Set(prev);
+      if (included) next.delete(friendId);
+      else next.add(friendId);
+      return next;
+    });
+  };
+
+  const selected = selectedCell
+    ? grid[selectedCell.day]?.[selectedCell.index]
+    : undefined;
+  const selectedUsers = (selected?.userIds || [])
+    .map((id) => friendsById.get(id))
+    .filter((friend): friend is User => Boolean(friend));
+
+  const handlePropose = () => {
+    if (!selectedCell || !selected) return;
+
+    const run = getAvailabilityRun(grid[selectedCell.day], selectedCell.index);
+    setProposal({
+      start: toZonedDate(run.start, timeZone),
+      end: toZonedDate(run.end, timeZone),
+      title: selectedUsers.length
+        ? `Hangout with ${selectedUsers.map((friend) => friend.fullName.split(" ")[0]).join(", ")}`
+        : "Hangout",
+    });
+  };
+
+  const handleCreateEvent = async (eventData: CreateEventInput) => {
+    try {
+      await createEvent(eventData);
+      toast.success("Hangout proposed!", {
+        description: "Friends with overlapping plans will be notified.",
+      });
+    } catch (error) {
+      toast.error("Failed to create hangout");
+    }
+  };
+
+  const rows = grid[0]?.length || 0;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Availability</h1>
+          <p className="text-muted-foreground">
+            See when your friends are free to hang out
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Filters */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Show</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="start-date">From</Label>
+                <Input
+                  id="start-date"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="range-days">Days</Label>
+                <Select
+                  value={String(rangeDays)}
+                  onValueChange={(value) => setRangeDays(Number(value))}
+                >
+                  <SelectTrigger id="range-days">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RANGE_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={String(option)}>
+                        {option === 1 ? "1 day" : `${option} days`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Friends</Label>
+                {friends.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Add friends to see when they're free
+                  </p>
+                ) : (
+                  friends.map((friend) => (
+                    <label
+                      key={friend.id}
+                      className="flex items-center space-x-2 text-sm cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={!excludedFriendIds.has(friend.id)}
+                        onCheckedChange={(checked) =>
+                          toggleFriend(friend.id, checked === true)
+                        }
+                      />
+                      <span>{friend.fullName}</span>
+                    </label>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Heatmap */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <LayoutGrid className="h-5 w-5" />
+                <span>When is everyone free?</span>
+              </CardTitle>
+              <CardDescription>
+                Darker cells have more friends with hangout plans. Click a cell
+                to see who.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="max-h-[600px] overflow-auto">
+                <div
+                  className="grid gap-px text-xs"
+                  style={{
+                    gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(2.5rem, 1fr))`,
+                  }}
+                >
+                  <div />
+                  {days.map((day) => (
+                    <div
+                      key={day.toISOString()}
+                      className="sticky top-0 bg-background p-1 text-center font-medium"
+                    >
+                      {format(day, "EEE d")}
+                    </div>
+                  ))}
+
+                  {Array.from({ length: rows }, (_, index) => (
+                    <div key={index} className="contents">
+                      <div className="pr-2 text-right text-muted-foreground">
+                        {(index * AVAILABILITY_BUCKET_MINUTES) % 60 === 0 &&
+                          format(
+                            new Date(
+                              2000,
+                              0,
+                              1,
+                              0,
+                              index * AVAILABILITY_BUCKET_MINUTES,
+                            ),
+                            "h a",
+                          )}
+                      </div>
+                      {grid.map((cells, day) => {
+                        const cell = cells[index];
+                        const isSelected =
+                          selectedCell?.day === day &&
+                          selectedCell.index === index;
+
+                        return (
+                          <button
+                            key={cell.start}
+                            type="button"
+                            title={`${cell.userIds.length} of ${selectedFriends.length} free`}
+                            onClick={() => setSelectedCell({ day, index })}
+                            className={cn(
+                              "h-4 rounded-sm",
+                              getHeatClass(
+                                cell.userIds.length,
+                                selectedFriends.length,
+                              ),
+                              isSelected && "ring-2 ring-primary",
+                            )}
+                          />
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Legend */}
+              <div className="flex items-center space-x-2 mt-4 text-xs text-muted-foreground">
+                <span>Fewer</span>
+                {HEAT_CLASSES.map((heatClass) => (
+                  <div
+                    key={heatClass}
+                    className={cn("h-3 w-6 rounded-sm", heatClass)}
+                  />
+                ))}
+                <span>More friends free</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Selected cell */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-base">
+                <Users className="h-4 w-4" />
+                <span>
+                  {selected
+                    ? `${formatInTimeZone(selected.start, "EEE, MMM d h:mm a", timeZone)} - ${formatInTimeZone(selected.end, "h:mm a", timeZone)}`
+                    : "Pick a time"}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!selected ? (
+                <p className="text-sm text-muted-foreground">
+                  Click a cell in the heatmap to see which friends are free
+                </p>
+              ) : (
+                <>
+                  {selectedUsers.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      None of these friends have hangout plans at this time
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {selectedUsers.map((friend) => (
+                        <div
+                          key={friend.id}
+                          className="flex items-center space-x-2"
+                        >
+                          <Avatar className="h-8 w-8">
+                            <AvatarImage
+                              src={friend.avatar}
+                              alt={friend.fullName}
+                            />
+                            <AvatarFallback>
+                              {getInitials(friend.fullName)}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <p className="text-sm font-medium">
+                              {friend.fullName}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              @{friend.username}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <Button className="w-full" onClick={handlePropose}>
+                    <CalendarPlus className="mr-2 h-4 w-4" />
+                    Propose hangout here
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <EventModal
+          open={proposal !== null}
+          onOpenChange={(open) => !open && setProposal(null)}
+          onSubmit={handleCreateEvent}
+          defaultDate={proposal?.start}
+          defaultEndDate={proposal?.end}
+          defaultType="hangout"
+          defaultTitle={proposal?.title}
+        />
+      </div>
+    </Layout>
+  );
+};
+
+export default Availability;
@@ -1,7 +1,10 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Layout } from "@/components/layout/Layout";
 import { CalendarView } from "@/components/calendar/CalendarView";
 import { EventModal } from "@/components/calendar/EventModal";
+import { ICalImportDialog } from "@/components/calendar/ICalImportDialog";
+import { HangoutAttendees } from "@/components/calendar/HangoutAttendees";
+import { EditHangoutDialog } from "@/components/calendar/EditHangoutDialog";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -20,40 +23,199 @@ import {
   Clock,
   DollarSign,
   Navigation,
+  Repeat,
+  Download,
+  Upload,
+  MessageCircle,
 } from "lucide-react";
 import { useAuth } from "@/store/authStore";
 import { useCalendarStore } from "@/store/calendarStore";
-import { Event, HangoutEvent, CreateEventInput } from "@/types";
+import { useMessageStore } from "@/store/messageStore";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  Event,
+  HangoutEvent,
+  CreateEventInput,
+  HangoutOverlap,
+  RsvpStatus,
+} from "@/types";
 import { format } from "date-fns";
 import { toast } from "sonner";
+import { RecurrenceEditScope, describeRecurrence } from "@/utils/recurrence";
+import { exportEventsToICal } from "@/utils/ical";
+import { formatInTimeZone, toZonedDate } from "@/utils/timezone";
+import {
+  getHangoutMembers,
+  getRsvpStatus,
+  getSharedHangoutTitle,
+  isSharedHangout,
+} from "@/utils/sharedHangouts";
+import { useTimeZone } from "@/hooks/use-time-zone";
 
 const Calendar = () => {
   const { user } = useAuth();
+  const timeZone = useTimeZone();
   const {
     events,
+    sharedEvents,
+    occurrences,
+    sharedOccurrences,
     createEvent,
+    updateEvent,
+    createSharedHangout,
+    respondToInvite,
+    undoLastChange,
+    canUndo,
     deleteEvent,
+    importEvents,
     getOverlappingHangouts,
     checkEventOverlap,
   } = useCalendarStore(user?.id);
+  const { getGroupForEvent, createGroupConversation } = useMessageStore(
+    user?.id,
+  );
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const openedEventId = useRef<string | null>(null);
+  const [focusDate, setFocusDate] = useState<Date | undefined>();
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
+  const [selectedEndDate, setSelectedEndDate] = useState<Date | undefined>();
   const [showEventModal, setShowEventModal] = useState(false);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
   const [showEventDetails, setShowEventDetails] = useState(false);
+  const [showDeleteScope, setShowDeleteScope] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showEditHangout, setShowEditHangout] = useState(false);
+  const [pendingReschedule, setPendingReschedule] = useState<{
+    event: Event;
+    times: { startTime: string; endTime: string };
+  } | null>(null);
+  const [pendingEdit, setPendingEdit] = useState<{
+    event: Event;
+    updates: Partial<Event>;
+  } | null>(null);
+
+  // Hangouts the user was invited to show up alongside their own events
+  const calendarEvents = [
+    ...events,
+    ...sharedEvents.filter(
+      (event) => user && getRsvpStatus(event, user.id) !== "declined",
+    ),
+  ];
+  // Re-read the selected event so RSVPs and edits show up straight away
+  const currentEvent =
+    calendarEvents.find((event) => event.id === selectedEvent?.id) ||
+    selectedEvent;
+  const isOwnEvent = currentEvent?.userId === user?.id;
+
+  // Handle deep linking to an event, e.g. from search
+  useEffect(() => {
+    const eventId = searchParams.get("event");
+    if (!eventId || eventId === openedEventId.current) return;
+
+    // Recurring events open on their next occurrence, or their first
+    const now = new Date();
+    const event =
+      [...occurrences, ...sharedOccurrences]
+        .filter(
+          (occurrence) =>
+            (occurrence.recurringEventId || occurrence.id) === eventId &&
+            new Date(occurrence.endTime) > now,
+        )
+        .sort(
+          (a, b) =>
+            new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+        )[0] || calendarEvents.find((candidate) => candidate.id === eventId);
+    if (!event) return;
+
+    openedEventId.current = eventId;
+    setFocusDate(toZonedDate(event.startTime, timeZone));
+    setSelectedEvent(event);
+    setShowEventDetails(true);
+  }, [searchParams, occurrences, sharedOccurrences, calendarEvents, timeZone]);
 
   const handleDateSelect = (date: Date) => {
     setSelectedDate(date);
+    setSelectedEndDate(undefined);
+    setShowEventModal(true);
+  };
+
+  const handleRangeSelect = (start: Date, end: Date) => {
+    setSelectedDate(start);
+    setSelectedEndDate(end);
     setShowEventModal(true);
   };
 
+  const handleUndo = async () => {
+    if (await undoLastChange()) {
+      toast.success("Change undone");
+    } else {
+      toast.error("Failed to undo change");
+    }
+  };
+
+  // Ctrl+Z / Cmd+Z undoes the last move outside of text fields
+  useEffect(() => {
+    if (!canUndo) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        (e.ctrlKey || e.metaKey) &&
+        !e.shiftKey &&
+        e.key.toLowerCase() === "z" &&
+        !target.closest("input, textarea, [contenteditable='true']")
+      ) {
+        e.preventDefault();
+        handleUndo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const rescheduleEvent = async (
+    event: Event,
+    times: { startTime: string; endTime: string },
+    scope: RecurrenceEditScope = "all",
+  ) => {
+    setPendingReschedule(null);
+
+    if (await updateEvent(event.id, times, scope)) {
+      toast.success(`Moved "${event.title}"`, {
+        action: { label: "Undo", onClick: handleUndo },
+      });
+    } else {
+      toast.error("Failed to move event");
+    }
+  };
+
+  const handleEventReschedule = (
+    event: Event,
+    times: { startTime: string; endTime: string },
+  ) => {
+    if (event.userId !== user?.id) {
+      toast.error("Only the organizer can move this hangout");
+      return;
+    }
+
+    // Occurrences of a series ask how much of it to move
+    if (event.recurringEventId) {
+      setPendingReschedule({ event, times });
+    } else {
+      rescheduleEvent(event, times);
+    }
+  };
+
   const handleEventClick = (event: Event) => {
     setSelectedEvent(event);
     setShowEventDetails(true);
   };
 
-  const handleCreateEvent = (eventData: CreateEventInput) => {
+  const handleCreateEvent = async (eventData: CreateEventInput) => {
     try {
-      const newEvent = createEvent(eventData);
+      await createEvent(eventData);
       toast.success(
         `${eventData.type === "hangout" ? "Hangout" : "Event"} created successfully!`,
       );
@@ -69,11 +231,94 @@ const Calendar = () => {
     }
   };
 
-  const handleDeleteEvent = () => {
+  const handleCreateSharedHangout = async ({
+    userEvent,
+    friendEvent,
+    friend,
+    overlap,
+  }: HangoutOverlap) => {
+    const hangout = await createSharedHangout(
+      {
+        users: [userEvent.userId, friendEvent.userId],
+        overlappingTime: overlap,
+        hangoutEvents: [userEvent.id, friendEvent.id],
+      },
+      { title: getSharedHangoutTitle([friend.fullName.split(" ")[0]]) },
+    );
+
+    if (hangout) {
+      toast.success("Hangout created!", {
+        description: `${friend.fullName} has been invited.`,
+      });
+    } else {
+      toast.error("Failed to create hangout");
+    }
+  };
+
+  const handleRespond = async (status: RsvpStatus) => {
+    if (!currentEvent) return;
+
+    if (await respondToInvite(currentEvent.id, status)) {
+      toast.success("RSVP updated");
+      if (status === "declined") setShowEventDetails(false);
+    } else {
+      toast.error("Failed to update RSVP");
+    }
+  };
+
+  const saveHangout = async (
+    event: Event,
+    updates: Partial<Event>,
+    scope: RecurrenceEditScope = "all",
+  ) => {
+    setPendingEdit(null);
+
+    if (await updateEvent(event.id, updates, scope)) {
+      toast.success("Hangout updated", {
+        description: "Attendees have been notified.",
+      });
+      setShowEditHangout(false);
+    } else {
+      toast.error("Failed to update hangout");
+    }
+  };
+
+  const handleSaveHangout = async (updates: Partial<Event>) => {
+    if (!currentEvent) return;
+
+    // Occurrences of a series ask how much of it to change
+    if (currentEvent.recurringEventId) {
+      setPendingEdit({ event: currentEvent, updates });
+    } else {
+      await saveHangout(currentEvent, updates);
+    }
+  };
+
+  // Opens the hangout's group chat, starting it with everyone still coming
+  const handleOpenGroupChat = async (hangout: HangoutEvent) => {
+    const conversation =
+      getGroupForEvent(hangout.id) ||
+      (await createGroupConversation(
+        hangout.title,
+        getHangoutMembers(hangout).filter(
+          (memberId) => getRsvpStatus(hangout, memberId) !== "declined",
+        ),
+        hangout.id,
+      ));
+
+    if (conversation) {
+      navigate(`/messages?conversation=${conversation.id}`);
+    } else {
+      toast.error("Failed to open group chat");
+    }
+  };
+
+  const handleDeleteEvent = async (scope: RecurrenceEditScope = "all") => {
     if (selectedEvent) {
-      const success = deleteEvent(selectedEvent.id);
+      const success = await deleteEvent(selectedEvent.id, scope);
       if (success) {
         toast.success("Event deleted successfully");
+        setShowDeleteScope(false);
         setShowEventDetails(false);
         setSelectedEvent(null);
       } else {
@@ -82,6 +327,18 @@ const Calendar = () => {
     }
   };
 
+  const handleExportEvents = () => {
+    const blob = new Blob([exportEventsToICal(events)], {
+      type: "text/calendar;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `calendar-${format(new Date(), "yyyy-MM-dd")}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const renderEventDetails = (event: Event) => {
     const isHangout = event.type === "hangout";
     const hangoutEvent = isHangout ? (event as HangoutEvent) : null;
@@ -104,11 +361,22 @@ const Calendar = () => {
           <div className="flex items-center space-x-2 text-sm text-muted-foreground">
             <Clock className="h-4 w-4" />
             <span>
-              {format(new Date(event.startTime), "MMM d, yyyy h:mm a")} -{" "}
-              {format(new Date(event.endTime), "h:mm a")}
+              {formatInTimeZone(
+                event.startTime,
+                "MMM d, yyyy h:mm a",
+                timeZone,
+              )}{" "}
+              - {formatInTimeZone(event.endTime, "h:mm a", timeZone)}
             </span>
           </div>
 
+          {event.recurrence && (
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+              <Repeat className="h-4 w-4" />
+              <span>{describeRecurrence(event.recurrence)}</span>
+            </div>
+          )}
+
           {event.description && (
             <div className="text-sm">
               <p className="font-medium mb-1">Description:</p>
@@ -117,6 +385,17 @@ const Calendar = () => {
           )}
         </div>
 
+        {hangoutEvent && isSharedHangout(hangoutEvent) && (
+          <>
+            <Separator />
+            <HangoutAttendees
+              event={hangoutEvent}
+              currentUserId={user?.id}
+              onRespond={handleRespond}
+            />
+          </>
+        )}
+
         {isHangout && hangoutEvent?.preferences && (
           <>
             <Separator />
@@ -177,20 +456,38 @@ const Calendar = () => {
               Manage your events and hangouts
             </p>
           </div>
-          <Button onClick={() => setShowEventModal(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            New Event
-          </Button>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleExportEvents}
+              disabled={events.length === 0}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+            <Button onClick={() => setShowEventModal(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Event
+            </Button>
+          </div>
         </div>
 
         {/* Calendar Component */}
         <CalendarView
-          events={events}
+          events={calendarEvents}
           onDateSelect={handleDateSelect}
+          onRangeSelect={handleRangeSelect}
           onEventClick={handleEventClick}
+          onEventReschedule={handleEventReschedule}
           getOverlappingHangouts={getOverlappingHangouts}
           checkEventOverlap={checkEventOverlap}
+          onCreateHangout={handleCreateSharedHangout}
           selectedDate={selectedDate}
+          focusDate={focusDate}
         />
 
         {/* Event Creation Modal */}
@@ -199,6 +496,15 @@ const Calendar = () => {
           onOpenChange={setShowEventModal}
           onSubmit={handleCreateEvent}
           defaultDate={selectedDate}
+          defaultEndDate={selectedEndDate}
+        />
+
+        {/* Calendar Import */}
+        <ICalImportDialog
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          existingEvents={events}
+          onImport={importEvents}
         />
 
         {/* Event Details Modal */}
@@ -209,12 +515,38 @@ const Calendar = () => {
               <DialogDescription>View and manage your event</DialogDescription>
             </DialogHeader>
 
-            {selectedEvent && renderEventDetails(selectedEvent)}
+            {currentEvent && renderEventDetails(currentEvent)}
 
             <DialogFooter className="flex justify-between">
-              <Button variant="destructive" onClick={handleDeleteEvent}>
-                Delete Event
-              </Button>
+              {isOwnEvent && (
+                <Button
+                  variant="destructive"
+                  onClick={() =>
+                    selectedEvent?.recurrence
+                      ? setShowDeleteScope(true)
+                      : handleDeleteEvent()
+                  }
+                >
+                  Delete Event
+                </Button>
+              )}
+              {currentEvent && isSharedHangout(currentEvent) && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleOpenGroupChat(currentEvent)}
+                >
+                  <MessageCircle className="mr-2 h-4 w-4" />
+                  Group Chat
+                </Button>
+              )}
+              {isOwnEvent && currentEvent && isSharedHangout(currentEvent) && (
+                <Button
+                  variant="outline"
+                  onClick={() => setShowEditHangout(true)}
+                >
+                  Edit Details
+                </Button>
+              )}
               <Button
                 variant="outline"
                 onClick={() => setShowEventDetails(false)}
@@ -224,6 +556,155 @@ const Calendar = () => {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        {/* Shared Hangout Editing */}
+        <EditHangoutDialog
+          open={showEditHangout}
+          onOpenChange={setShowEditHangout}
+          event={
+            currentEvent && isSharedHangout(currentEvent) ? currentEvent : null
+          }
+          onSave={handleSaveHangout}
+        />
+
+        {/* Recurring Event Delete Scope */}
+        <Dialog open={showDeleteScope} onOpenChange={setShowDeleteScope}>
+          <DialogContent className="sm:max-w-[400px]">
+            <DialogHeader>
+              <DialogTitle>Delete Recurring Event</DialogTitle>
+              <DialogDescription>
+                Choose which occurrences of "{selectedEvent?.title}" to delete
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-2">
+              <Button
+                variant="outline"
+                onClick={() => handleDeleteEvent("this")}
+              >
+                This event
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleDeleteEvent("following")}
+              >
+                This and following events
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => handleDeleteEvent("all")}
+              >
+                All events
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Recurring Event Move Scope */}
+        <Dialog
+          open={pendingReschedule !== null}
+          onOpenChange={(open) => !open && setPendingReschedule(null)}
+        >
+          <DialogContent className="sm:max-w-[400px]">
+            <DialogHeader>
+              <DialogTitle>Move Recurring Event</DialogTitle>
+              <DialogDescription>
+                Choose which occurrences of "{pendingReschedule?.event.title}"
+                to move
+              </DialogDescription>
+            </DialogHeader>
+
+            {pendingReschedule && (
+              <div className="grid gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    rescheduleEvent(
+                      pendingReschedule.event,
+                      pendingReschedule.times,
+                      "this",
+                    )
+                  }
+                >
+                  This event
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    rescheduleEvent(
+                      pendingReschedule.event,
+                      pendingReschedule.times,
+                      "following",
+                    )
+                  }
+                >
+                  This and following events
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    rescheduleEvent(
+                      pendingReschedule.event,
+                      pendingReschedule.times,
+                      "all",
+                    )
+                  }
+                >
+                  All events
+                </Button>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Recurring Event Edit Scope */}
+        <Dialog
+          open={pendingEdit !== null}
+          onOpenChange={(open) => !open && setPendingEdit(null)}
+        >
+          <DialogContent className="sm:max-w-[400px]">
+            <DialogHeader>
+              <DialogTitle>Edit Recurring Event</DialogTitle>
+              <DialogDescription>
+                Choose which occurrences of "{pendingEdit?.event.title}" to
+                change
+              </DialogDescription>
+            </DialogHeader>
+
+            {pendingEdit && (
+              <div className="grid gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    saveHangout(pendingEdit.event, pendingEdit.updates, "this")
+                  }
+                >
+                  This event
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    saveHangout(
+                      pendingEdit.event,
+                      pendingEdit.updates,
+                      "following",
+                    )
+                  }
+                >
+                  This and following events
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    saveHangout(pendingEdit.event, pendingEdit.updates, "all")
+                  }
+                >
+                  All events
+                </Button>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </Layout>
   );
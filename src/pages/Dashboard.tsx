@@ -1,4 +1,3 @@
-import { useState, useEffect } from "react";
 import { Layout } from "@/components/layout/Layout";
 import {
   Card,
@@ -12,6 +11,7 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { FriendHangouts } from "@/components/friends/FriendHangouts";
+import { FriendSuggestions } from "@/components/friends/FriendSuggestions";
 import {
   Calendar,
   MessageCircle,
@@ -19,37 +19,48 @@ import {
   Plus,
   Clock,
   MapPin,
+  CalendarPlus,
 } from "lucide-react";
 import { useAuth } from "@/store/authStore";
 import { useCalendarStore } from "@/store/calendarStore";
 import { useMessageStore } from "@/store/messageStore";
 import { useNotificationStore } from "@/store/notificationStore";
-import { userStorage } from "@/utils/storage";
+import { useUsers } from "@/hooks/use-users";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { formatInTimeZone } from "@/utils/timezone";
+import {
+  getConversationTitle,
+  isGroupConversation,
+} from "@/utils/conversations";
+import { getMessagePreview } from "@/utils/messageEdits";
+import {
+  RSVP_LABELS,
+  getRsvpStatus,
+  getSharedHangoutTitle,
+} from "@/utils/sharedHangouts";
+import { HangoutMatch, RsvpStatus, User } from "@/types";
 import { Link } from "react-router-dom";
 import { format } from "date-fns";
+import { toast } from "sonner";
 
 const Dashboard = () => {
   const { user } = useAuth();
-  const { events, getHangoutMatches, getAllFriendHangouts } = useCalendarStore(
-    user?.id,
-  );
+  const timeZone = useTimeZone();
+  const {
+    occurrences,
+    sharedEvents,
+    sharedOccurrences,
+    createSharedHangout,
+    respondToInvite,
+    getHangoutMatches,
+    getAllFriendHangouts,
+  } = useCalendarStore(user?.id);
   const { conversations, getTotalUnreadCount } = useMessageStore(user?.id);
   const { notifications, getUnreadCount } = useNotificationStore(user?.id);
 
-  const [friendRequests, setFriendRequests] = useState<any[]>([]);
   const friendHangouts = getAllFriendHangouts() || [];
 
-  useEffect(() => {
-    if (user) {
-      const users = userStorage.getUsers();
-      const requests = user.friendRequests.received
-        .map((requesterId) => users.find((u) => u.id === requesterId))
-        .filter(Boolean);
-      setFriendRequests(requests);
-    }
-  }, [user]);
-
-  const upcomingEvents = (events || [])
+  const upcomingEvents = [...(occurrences || []), ...sharedOccurrences]
     .filter(
       (event) =>
         event && event.startTime && new Date(event.startTime) > new Date(),
@@ -62,6 +73,24 @@ const Dashboard = () => {
 
   const recentConversations = (conversations || []).slice(0, 3);
   const hangoutMatches = (getHangoutMatches() || []).slice(0, 2);
+  const invitations = sharedEvents
+    .filter(
+      (event) =>
+        new Date(event.endTime) > new Date() &&
+        user &&
+        getRsvpStatus(event, user.id) === "pending",
+    )
+    .slice(0, 3);
+
+  const users = useUsers([
+    ...(user?.friendRequests.received || []),
+    ...recentConversations.flatMap((conversation) => conversation.participants),
+    ...hangoutMatches.flatMap((match) => match.users),
+    ...invitations.map((event) => event.userId),
+  ]);
+  const friendRequests = (user?.friendRequests.received || [])
+    .map((requesterId) => users[requesterId])
+    .filter(Boolean);
 
   const getInitials = (name: string) => {
     return name
@@ -72,12 +101,35 @@ const Dashboard = () => {
       .slice(0, 2);
   };
 
+  const handleCreateHangout = async (match: HangoutMatch, others: User[]) => {
+    const hangout = await createSharedHangout(match, {
+      title: getSharedHangoutTitle(
+        others.map((other) => other.fullName.split(" ")[0]),
+      ),
+    });
+
+    if (hangout) {
+      toast.success("Hangout created!", {
+        description: "Everyone in the match has been invited.",
+      });
+    } else {
+      toast.error("Failed to create hangout");
+    }
+  };
+
+  const handleRespond = async (eventId: string, status: RsvpStatus) => {
+    if (await respondToInvite(eventId, status)) {
+      toast.success(`RSVP sent: ${RSVP_LABELS[status]}`);
+    } else {
+      toast.error("Failed to update RSVP");
+    }
+  };
+
   const getOtherParticipant = (conversation: any) => {
     const otherUserId = conversation.participants.find(
       (id: string) => id !== user?.id,
     );
-    const users = userStorage.getUsers();
-    return users.find((u) => u.id === otherUserId);
+    return users[otherUserId];
   };
 
   return (
@@ -206,7 +258,11 @@ const Dashboard = () => {
                       <div className="flex items-center space-x-1 text-xs text-muted-foreground">
                         <Clock className="h-3 w-3" />
                         <span>
-                          {format(new Date(event.startTime), "MMM d, h:mm a")}
+                          {formatInTimeZone(
+                            event.startTime,
+                            "MMM d, h:mm a",
+                            timeZone,
+                          )}
                         </span>
                       </div>
                     </div>
@@ -239,8 +295,9 @@ const Dashboard = () => {
                 </p>
               ) : (
                 recentConversations.map((conversation) => {
+                  const isGroup = isGroupConversation(conversation);
                   const otherUser = getOtherParticipant(conversation);
-                  if (!otherUser) return null;
+                  if (!otherUser && !isGroup) return null;
 
                   return (
                     <div
@@ -248,21 +305,32 @@ const Dashboard = () => {
                       className="flex items-center space-x-4"
                     >
                       <Avatar className="h-10 w-10">
-                        <AvatarImage
-                          src={otherUser.avatar}
-                          alt={otherUser.fullName}
-                        />
-                        <AvatarFallback>
-                          {getInitials(otherUser.fullName)}
-                        </AvatarFallback>
+                        {isGroup ? (
+                          <AvatarFallback>
+                            <Users className="h-5 w-5" />
+                          </AvatarFallback>
+                        ) : (
+                          <>
+                            <AvatarImage
+                              src={otherUser.avatar}
+                              alt={otherUser.fullName}
+                            />
+                            <AvatarFallback>
+                              {getInitials(otherUser.fullName)}
+                            </AvatarFallback>
+                          </>
+                        )}
                       </Avatar>
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium truncate">
-                          {otherUser.fullName}
+                          {getConversationTitle(conversation, users, user?.id)}
                         </p>
                         {conversation.lastMessage && (
                           <p className="text-xs text-muted-foreground truncate">
-                            {conversation.lastMessage.content}
+                            {getMessagePreview(
+                              conversation.lastMessage,
+                              user?.id,
+                            )}
                           </p>
                         )}
                       </div>
@@ -287,6 +355,65 @@ const Dashboard = () => {
           </Card>
         </div>
 
+        {/* Hangout Invitations */}
+        {invitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Hangout Invitations</CardTitle>
+              <CardDescription>
+                Friends want you to join their plans
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {invitations.map((event) => (
+                <div
+                  key={event.id}
+                  className="flex items-center justify-between"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {event.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {users[event.userId]?.fullName || "A friend"} ·{" "}
+                      {formatInTimeZone(
+                        event.startTime,
+                        "MMM d, h:mm a",
+                        timeZone,
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button
+                      size="sm"
+                      className="h-8 px-2 text-xs"
+                      onClick={() => handleRespond(event.id, "going")}
+                    >
+                      Going
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-8 px-2 text-xs"
+                      onClick={() => handleRespond(event.id, "maybe")}
+                    >
+                      Maybe
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 px-2 text-xs"
+                      onClick={() => handleRespond(event.id, "declined")}
+                    >
+                      Can't go
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Friends' Hangouts - Always visible */}
         <FriendHangouts friendHangouts={friendHangouts} />
 
@@ -365,12 +492,11 @@ const Dashboard = () => {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {hangoutMatches.map((match) => {
-                    const otherUserId = match.users.find(
-                      (id) => id !== user?.id,
-                    );
-                    const otherUser = userStorage
-                      .getUsers()
-                      .find((u) => u.id === otherUserId);
+                    const otherUsers = match.users
+                      .filter((id) => id !== user?.id)
+                      .map((id) => users[id])
+                      .filter(Boolean);
+                    const [otherUser] = otherUsers;
                     if (!otherUser) return null;
 
                     return (
@@ -390,23 +516,43 @@ const Dashboard = () => {
                           </Avatar>
                           <div>
                             <p className="text-sm font-medium">
-                              {otherUser.fullName}
+                              {otherUsers.length > 1
+                                ? `${otherUser.fullName} + ${otherUsers.length - 1} more`
+                                : otherUser.fullName}
                             </p>
                             <p className="text-xs text-muted-foreground">
-                              {format(
-                                new Date(match.overlappingTime.start),
+                              {formatInTimeZone(
+                                match.overlappingTime.start,
                                 "MMM d, h:mm a",
+                                timeZone,
                               )}
+                              {match.compatibilityScore !== undefined &&
+                                ` · ${match.compatibilityScore}% match`}
+                              {!!match.sharedActivities?.length &&
+                                ` · ${match.sharedActivities.join(", ")}`}
                             </p>
                           </div>
                         </div>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="h-8 px-2 text-xs"
-                        >
-                          View Details
-                        </Button>
+                        <div className="flex space-x-1">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-8 px-2 text-xs"
+                            onClick={() =>
+                              handleCreateHangout(match, otherUsers)
+                            }
+                          >
+                            <CalendarPlus className="mr-1 h-3 w-3" />
+                            Create Hangout
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-8 px-2 text-xs"
+                          >
+                            View Details
+                          </Button>
+                        </div>
                       </div>
                     );
                   })}
@@ -415,6 +561,9 @@ const Dashboard = () => {
             )}
           </div>
         )}
+
+        {/* People You May Know */}
+        <FriendSuggestions limit={3} />
       </div>
     </Layout>
   );
@@ -1,28 +1,36 @@
 import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
 import { UserSearch } from "@/components/friends/UserSearch";
 import { FriendRequestCard } from "@/components/friends/FriendRequestCard";
 import { FriendsList } from "@/components/friends/FriendsList";
+import { FriendSuggestions } from "@/components/friends/FriendSuggestions";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Users, UserPlus, Search } from "lucide-react";
 import { useAuth } from "@/store/authStore";
-import { userStorage } from "@/utils/storage";
+import { dataProvider } from "@/services/dataProvider";
 import { User } from "@/types";
 
 const Friends = () => {
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
   const [friends, setFriends] = useState<User[]>([]);
   const [friendRequests, setFriendRequests] = useState<User[]>([]);
+  // System notifications link to a request with ?highlight=<user id>
+  const highlightedId = searchParams.get("highlight");
 
   useEffect(() => {
     loadFriendsData();
   }, [user]);
 
-  const loadFriendsData = () => {
+  const loadFriendsData = async () => {
     if (!user) return;
 
-    const users = userStorage.getUsers();
+    const users = await dataProvider.getUsers([
+      ...user.friends,
+      ...user.friendRequests.received,
+    ]);
 
     // Get friends
     const userFriends = user.friends
@@ -57,7 +65,10 @@ const Friends = () => {
         </div>
 
         {/* Tabs */}
-        <Tabs defaultValue="friends" className="space-y-6">
+        <Tabs
+          defaultValue={searchParams.get("tab") || "friends"}
+          className="space-y-6"
+        >
           <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger
               value="friends"
@@ -96,11 +107,13 @@ const Friends = () => {
           <TabsContent value="requests" className="space-y-6">
             <FriendRequestCard
               requests={friendRequests}
+              highlightedId={highlightedId}
               onRequestHandled={handleRequestHandled}
             />
           </TabsContent>
 
           <TabsContent value="search" className="space-y-6">
+            <FriendSuggestions />
             <UserSearch />
           </TabsContent>
         </Tabs>
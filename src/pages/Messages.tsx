@@ -1,50 +1,121 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useSearchParams } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
 import { MessagesList } from "@/components/messages/MessagesList";
 import { ChatWindow } from "@/components/messages/ChatWindow";
+import { CreateGroupDialog } from "@/components/messages/CreateGroupDialog";
+import { GroupMembersDialog } from "@/components/messages/GroupMembersDialog";
 import { MessageCircle } from "lucide-react";
 import { useAuth } from "@/store/authStore";
 import { useMessageStore } from "@/store/messageStore";
-import { userStorage } from "@/utils/storage";
+import { dataProvider } from "@/services/dataProvider";
+import { useUsers } from "@/hooks/use-users";
 import { Conversation, User } from "@/types";
+import { isGroupConversation } from "@/utils/conversations";
+import { toast } from "sonner";
 
 const Messages = () => {
   const { user } = useAuth();
-  const { conversations, createConversation, getConversationWithUser } =
-    useMessageStore(user?.id);
+  const {
+    conversations,
+    isLoading,
+    createConversation,
+    getConversationWithUser,
+    createGroupConversation,
+    addGroupMembers,
+    removeGroupMember,
+    leaveGroup,
+  } = useMessageStore(user?.id);
   const [searchParams] = useSearchParams();
   const [selectedConversation, setSelectedConversation] =
     useState<Conversation | null>(null);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [showMobileChat, setShowMobileChat] = useState(false);
+  const [showCreateGroup, setShowCreateGroup] = useState(false);
+  const [showGroupMembers, setShowGroupMembers] = useState(false);
+  const friendsById = useUsers(user?.friends || []);
+  const friends = Object.values(friendsById);
+  const openedLinkId = useRef<string | null>(null);
+
+  // Follow the stored copy so membership changes show up straight away
+  const currentConversation =
+    conversations.find((conv) => conv.id === selectedConversation?.id) ||
+    selectedConversation;
+
+  // Handle deep linking to a conversation, e.g. a hangout's chat or a
+  // search result
+  useEffect(() => {
+    const conversationId = searchParams.get("conversation");
+    if (!conversationId || conversationId === openedLinkId.current) return;
+
+    const conversation = conversations.find(
+      (conv) => conv.id === conversationId,
+    );
+    if (!conversation) return;
+
+    // Only follow the link once, not on every conversation refresh
+    openedLinkId.current = conversationId;
+
+    const openConversation = async () => {
+      // Direct chats need the other person for their header
+      const otherUserId = isGroupConversation(conversation)
+        ? null
+        : conversation.participants.find((id) => id !== user?.id);
+      const otherUser = otherUserId
+        ? await dataProvider.getUser(otherUserId)
+        : null;
+
+      setSelectedConversation(conversation);
+      setSelectedUser(otherUser);
+      setShowMobileChat(true);
+    };
+
+    openConversation();
+  }, [searchParams, conversations, user]);
 
   // Handle deep linking to a specific user conversation
   useEffect(() => {
     const userId = searchParams.get("user");
-    if (userId && user) {
-      const users = userStorage.getUsers();
-      const targetUser = users.find((u) => u.id === userId);
-
-      if (targetUser && user.friends.includes(userId)) {
-        // Check if conversation exists
-        let conversation = getConversationWithUser(userId);
-
-        // Create conversation if it doesn't exist
-        if (!conversation) {
-          conversation = createConversation(userId);
-        }
-
-        setSelectedConversation(conversation);
-        setSelectedUser(targetUser);
-        setShowMobileChat(true);
+    if (!userId || !user || !user.friends.includes(userId)) return;
+    // Wait for existing conversations so we don't recreate one
+    if (isLoading) return;
+
+    let cancelled = false;
+
+    const openConversation = async () => {
+      const targetUser = await dataProvider.getUser(userId);
+      if (!targetUser || cancelled) return;
+
+      // Check if conversation exists
+      let conversation = getConversationWithUser(userId);
+
+      // Create conversation if it doesn't exist
+      if (!conversation) {
+        conversation = await createConversation(userId);
       }
-    }
-  }, [searchParams, user, getConversationWithUser, createConversation]);
+      if (cancelled) return;
+
+      setSelectedConversation(conversation);
+      setSelectedUser(targetUser);
+      setShowMobileChat(true);
+    };
+
+    openConversation();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    searchParams,
+    user,
+    isLoading,
+    getConversationWithUser,
+    createConversation,
+  ]);
 
   const handleConversationSelect = (
     conversation: Conversation,
-    otherUser: User,
+    otherUser: User | null,
   ) => {
     setSelectedConversation(conversation);
     setSelectedUser(otherUser);
@@ -55,6 +126,43 @@ const Messages = () => {
     setShowMobileChat(false);
   };
 
+  const handleCreateGroup = async (name: string, memberIds: string[]) => {
+    const conversation = await createGroupConversation(name, memberIds);
+    if (!conversation) {
+      toast.error("Failed to create group");
+      return;
+    }
+
+    setShowCreateGroup(false);
+    handleConversationSelect(conversation, null);
+  };
+
+  const handleAddMember = async (memberId: string) => {
+    if (!currentConversation) return;
+    if (!(await addGroupMembers(currentConversation.id, [memberId]))) {
+      toast.error("Failed to add member");
+    }
+  };
+
+  const handleRemoveMember = async (memberId: string) => {
+    if (!currentConversation) return;
+    if (!(await removeGroupMember(currentConversation.id, memberId))) {
+      toast.error("Failed to remove member");
+    }
+  };
+
+  const handleLeaveGroup = async () => {
+    if (!currentConversation) return;
+    if (await leaveGroup(currentConversation.id)) {
+      setShowGroupMembers(false);
+      setSelectedConversation(null);
+      setShowMobileChat(false);
+      toast.success("You left the group");
+    } else {
+      toast.error("Failed to leave group");
+    }
+  };
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -74,8 +182,9 @@ const Messages = () => {
           >
             <MessagesList
               conversations={conversations}
-              selectedConversation={selectedConversation}
+              selectedConversation={currentConversation}
               onConversationSelect={handleConversationSelect}
+              onNewGroup={() => setShowCreateGroup(true)}
             />
           </div>
 
@@ -84,12 +193,32 @@ const Messages = () => {
             className={`md:col-span-3 ${!showMobileChat ? "hidden md:block" : "block"}`}
           >
             <ChatWindow
-              conversation={selectedConversation}
+              conversation={currentConversation}
               otherUser={selectedUser}
               onBack={handleBackToList}
+              onManageGroup={() => setShowGroupMembers(true)}
+              highlightMessageId={searchParams.get("message")}
             />
           </div>
         </div>
+
+        <CreateGroupDialog
+          open={showCreateGroup}
+          onOpenChange={setShowCreateGroup}
+          friends={friends}
+          onCreate={handleCreateGroup}
+        />
+
+        <GroupMembersDialog
+          open={showGroupMembers}
+          onOpenChange={setShowGroupMembers}
+          conversation={currentConversation}
+          currentUserId={user?.id}
+          friends={friends}
+          onAddMember={handleAddMember}
+          onRemoveMember={handleRemoveMember}
+          onLeave={handleLeaveGroup}
+        />
       </div>
     </Layout>
   );
@@ -1,4 +1,3 @@
-import { useState } from "react";
 import { Layout } from "@/components/layout/Layout";
 import {
   Card,
@@ -15,6 +14,13 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -34,6 +40,11 @@ import {
   Trash2,
   Save,
   Camera,
+  Users,
+  Globe,
+  Moon,
+  BellOff,
+  Ban,
 } from "lucide-react";
 import { useAuth } from "@/store/authStore";
 import { useForm } from "react-hook-form";
@@ -41,6 +52,21 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { toast } from "sonner";
 import { storage } from "@/utils/storage";
+import { dataProvider } from "@/services/dataProvider";
+import { getMatchPolicy } from "@/utils/hangoutMatching";
+import { getNotificationPreferences } from "@/utils/notificationPreferences";
+import { useUsers } from "@/hooks/use-users";
+import { unblockUser } from "@/utils/auth";
+import { withUserUnblocked } from "@/utils/blocking";
+import { usePushPermission } from "@/hooks/use-push-notifications";
+import { PushPermission } from "@/services/serviceWorker";
+import { MatchPolicy, NotificationPreferences } from "@/types";
+import {
+  getBrowserTimeZone,
+  getSupportedTimeZones,
+  getTimeZoneAbbreviation,
+  getUserTimeZone,
+} from "@/utils/timezone";
 
 const profileSchema = z.object({
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
@@ -58,14 +84,18 @@ const profileSchema = z.object({
 
 type ProfileFormData = z.infer<typeof profileSchema>;
 
+const PUSH_PERMISSION_LABELS: Record<PushPermission, string> = {
+  granted: "Show system notifications for matches, requests and messages",
+  default: "Let this browser show system notifications",
+  denied: "Blocked in your browser's site settings",
+  unsupported: "Not supported in this browser",
+};
+
 const Settings = () => {
   const { user, updateUser, logout } = useAuth();
-  const [notifications, setNotifications] = useState({
-    hangoutMatches: true,
-    friendRequests: true,
-    messages: true,
-    emailNotifications: false,
-  });
+  const friendsById = useUsers(user?.friends || []);
+  const blockedById = useUsers(user?.blockedUserIds || []);
+  const { permission: pushPermission, requestPermission } = usePushPermission();
 
   const {
     register,
@@ -97,35 +127,101 @@ const Settings = () => {
 
     try {
       // In a real app, you'd validate that the username/email aren't taken
-      const updatedUser = {
-        ...user,
+      const updates = {
         fullName: data.fullName,
         username: data.username.toLowerCase(),
         email: data.email.toLowerCase(),
       };
 
-      updateUser(updatedUser);
+      const success = await dataProvider.updateUser(user.id, updates);
+      if (!success) throw new Error("Failed to update profile");
+
+      updateUser(updates);
       toast.success("Profile updated successfully!");
     } catch (error) {
       toast.error("Failed to update profile");
     }
   };
 
-  const handleDeleteAccount = () => {
+  const handleDeleteAccount = async () => {
     if (!user) return;
 
     // Clear all user data
-    storage.clear();
+    await storage.clear();
     logout();
     toast.success("Account deleted successfully");
   };
 
-  const handleNotificationChange = (key: string, value: boolean) => {
-    setNotifications((prev) => ({
-      ...prev,
-      [key]: value,
-    }));
-    toast.success("Notification preferences updated");
+  const handleNotificationChange = async (
+    updates: Partial<NotificationPreferences>,
+  ) => {
+    if (!user) return;
+
+    const notificationPreferences = {
+      ...getNotificationPreferences(user),
+      ...updates,
+    };
+
+    if (await dataProvider.updateUser(user.id, { notificationPreferences })) {
+      updateUser({ notificationPreferences });
+      toast.success("Notification preferences updated");
+    } else {
+      toast.error("Failed to update notification preferences");
+    }
+  };
+
+  const handleEnablePush = async () => {
+    if ((await requestPermission()) === "granted") {
+      handleNotificationChange({ push: true });
+    } else {
+      toast.error("Browser notifications weren't allowed");
+    }
+  };
+
+  const handleMuteChange = (friendId: string, muted: boolean) => {
+    const { mutedUserIds } = getNotificationPreferences(user);
+    handleNotificationChange({
+      mutedUserIds: muted
+        ? [...new Set([...mutedUserIds, friendId])]
+        : mutedUserIds.filter((id) => id !== friendId),
+    });
+  };
+
+  const handleUnblock = async (blockedUserId: string) => {
+    if (!user) return;
+
+    if (await unblockUser(user.id, blockedUserId)) {
+      updateUser({
+        blockedUserIds: withUserUnblocked(user, blockedUserId).blockedUserIds,
+      });
+      toast.success("User unblocked");
+    } else {
+      toast.error("Failed to unblock user");
+    }
+  };
+
+  const handleMatchPolicyChange = async (updates: Partial<MatchPolicy>) => {
+    if (!user) return;
+
+    const matchPolicy = { ...getMatchPolicy(user), ...updates };
+
+    if (await dataProvider.updateUser(user.id, { matchPolicy })) {
+      updateUser({ matchPolicy });
+      toast.success("Matching preferences updated");
+    } else {
+      toast.error("Failed to update matching preferences");
+    }
+  };
+
+  const handleTimeZoneChange = async (timeZone: string) => {
+    if (!user) return;
+
+    if (await dataProvider.updateUser(user.id, { timeZone })) {
+      updateUser({ timeZone });
+      toast.success("Time zone updated");
+    } else {
+      toast.error("Failed to update time zone");
+    }
   };
 
   if (!user) {
@@ -138,6 +234,20 @@ const Settings = () => {
     );
   }
 
+  const notifications = getNotificationPreferences(user);
+  const friends = user.friends
+    .map((id) => friendsById[id])
+    .filter((friend): friend is NonNullable<typeof friend> => Boolean(friend));
+  const blockedUsers = (user.blockedUserIds || [])
+    .map((id) => blockedById[id])
+    .filter((blocked): blocked is NonNullable<typeof blocked> =>
+      Boolean(blocked),
+    );
+  const matchPolicy = getMatchPolicy(user);
+  const timeZone = getUserTimeZone(user);
+  const browserTimeZone = getBrowserTimeZone();
+  const timeZones = [...new Set([timeZone, ...getSupportedTimeZones()])];
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -288,7 +398,26 @@ const Settings = () => {
                   id="hangout-matches"
                   checked={notifications.hangoutMatches}
                   onCheckedChange={(checked) =>
-                    handleNotificationChange("hangoutMatches", checked)
+                    handleNotificationChange({ hangoutMatches: checked })
+                  }
+                />
+              </div>
+
+              <Separator />
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="hangout-invites">Hangout Invites</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Get notified about invites, RSVPs and changes to shared
+                    hangouts
+                  </p>
+                </div>
+                <Switch
+                  id="hangout-invites"
+                  checked={notifications.hangoutInvites}
+                  onCheckedChange={(checked) =>
+                    handleNotificationChange({ hangoutInvites: checked })
                   }
                 />
               </div>
@@ -306,7 +435,7 @@ const Settings = () => {
                   id="friend-requests"
                   checked={notifications.friendRequests}
                   onCheckedChange={(checked) =>
-                    handleNotificationChange("friendRequests", checked)
+                    handleNotificationChange({ friendRequests: checked })
                   }
                 />
               </div>
@@ -324,7 +453,7 @@ const Settings = () => {
                   id="messages"
                   checked={notifications.messages}
                   onCheckedChange={(checked) =>
-                    handleNotificationChange("messages", checked)
+                    handleNotificationChange({ messages: checked })
                   }
                 />
               </div>
@@ -342,16 +471,361 @@ const Settings = () => {
                 </div>
                 <Switch
                   id="email-notifications"
-                  checked={notifications.emailNotifications}
+                  checked={notifications.email}
                   onCheckedChange={(checked) =>
-                    handleNotificationChange("emailNotifications", checked)
+                    handleNotificationChange({ email: checked })
                   }
                 />
               </div>
+
+              <Separator />
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="push-notifications">
+                    Browser Notifications
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    {PUSH_PERMISSION_LABELS[pushPermission]}
+                  </p>
+                </div>
+                {pushPermission === "default" ? (
+                  <Button
+                    id="push-notifications"
+                    variant="outline"
+                    size="sm"
+                    onClick={handleEnablePush}
+                  >
+                    Enable
+                  </Button>
+                ) : (
+                  <Switch
+                    id="push-notifications"
+                    disabled={pushPermission !== "granted"}
+                    checked={pushPermission === "granted" && notifications.push}
+                    onCheckedChange={(checked) =>
+                      handleNotificationChange({ push: checked })
+                    }
+                  />
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Quiet Hours & Muted Friends */}
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Moon className="h-5 w-5" />
+                <span>Quiet Hours</span>
+              </CardTitle>
+              <CardDescription>
+                Notifications during quiet hours wait until they end
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="quiet-hours">Enable Quiet Hours</Label>
+                <Switch
+                  id="quiet-hours"
+                  checked={notifications.quietHours.enabled}
+                  onCheckedChange={(checked) =>
+                    handleNotificationChange({
+                      quietHours: {
+                        ...notifications.quietHours,
+                        enabled: checked,
+                      },
+                    })
+                  }
+                />
+              </div>
+
+              <div className="grid gap-4 grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="quiet-start">From</Label>
+                  <Input
+                    id="quiet-start"
+                    type="time"
+                    value={notifications.quietHours.start}
+                    disabled={!notifications.quietHours.enabled}
+                    onChange={(e) =>
+                      e.target.value &&
+                      handleNotificationChange({
+                        quietHours: {
+                          ...notifications.quietHours,
+                          start: e.target.value,
+                        },
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quiet-end">Until</Label>
+                  <Input
+                    id="quiet-end"
+                    type="time"
+                    value={notifications.quietHours.end}
+                    disabled={!notifications.quietHours.enabled}
+                    onChange={(e) =>
+                      e.target.value &&
+                      handleNotificationChange({
+                        quietHours: {
+                          ...notifications.quietHours,
+                          end: e.target.value,
+                        },
+                      })
+                    }
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Times are in your home time zone, {timeZone.replace(/_/g, " ")}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <BellOff className="h-5 w-5" />
+                <span>Muted Friends</span>
+              </CardTitle>
+              <CardDescription>
+                Muted friends' messages, invites and requests won't notify you
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {friends.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Add friends to choose who can notify you
+                </p>
+              ) : (
+                friends.map((friend) => (
+                  <div
+                    key={friend.id}
+                    className="flex items-center justify-between"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage
+                          src={friend.avatar}
+                          alt={friend.fullName}
+                        />
+                        <AvatarFallback>
+                          {getInitials(friend.fullName)}
+                        </AvatarFallback>
+                      </Avatar>
+                      <Label htmlFor={`mute-${friend.id}`}>
+                        {friend.fullName}
+                      </Label>
+                    </div>
+                    <Switch
+                      id={`mute-${friend.id}`}
+                      checked={notifications.mutedUserIds.includes(friend.id)}
+                      onCheckedChange={(checked) =>
+                        handleMuteChange(friend.id, checked)
+                      }
+                    />
+                  </div>
+                ))
+              )}
             </CardContent>
           </Card>
         </div>
 
+        {/* Blocked Users */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Ban className="h-5 w-5" />
+              <span>Blocked Users</span>
+            </CardTitle>
+            <CardDescription>
+              Blocked people can't find you, message you or see your hangouts
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {blockedUsers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                You haven't blocked anyone
+              </p>
+            ) : (
+              blockedUsers.map((blocked) => (
+                <div
+                  key={blocked.id}
+                  className="flex items-center justify-between"
+                >
+                  <div className="flex items-center space-x-2">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage
+                        src={blocked.avatar}
+                        alt={blocked.fullName}
+                      />
+                      <AvatarFallback>
+                        {getInitials(blocked.fullName)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <p className="text-sm font-medium">{blocked.fullName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        @{blocked.username}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleUnblock(blocked.id)}
+                  >
+                    Unblock
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Time Zone */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Globe className="h-5 w-5" />
+              <span>Time Zone</span>
+            </CardTitle>
+            <CardDescription>
+              Your calendar and your friends' plans are shown in this zone
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="time-zone">Home Time Zone</Label>
+            <Select value={timeZone} onValueChange={handleTimeZoneChange}>
+              <SelectTrigger id="time-zone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZones.map((zone) => (
+                  <SelectItem key={zone} value={zone}>
+                    {zone.replace(/_/g, " ")} ({getTimeZoneAbbreviation(zone)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {timeZone !== browserTimeZone && (
+              <p className="text-sm text-muted-foreground">
+                This device is set to {browserTimeZone}.{" "}
+                <button
+                  type="button"
+                  className="underline"
+                  onClick={() => handleTimeZoneChange(browserTimeZone)}
+                >
+                  Use it instead
+                </button>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Hangout Matching */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Users className="h-5 w-5" />
+              <span>Hangout Matching</span>
+            </CardTitle>
+            <CardDescription>
+              Choose which overlapping hangouts are worth a notification
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="min-overlap">Minimum Overlap</Label>
+                <Select
+                  value={String(matchPolicy.minOverlapMinutes)}
+                  onValueChange={(value) =>
+                    handleMatchPolicyChange({
+                      minOverlapMinutes: Number(value),
+                    })
+                  }
+                >
+                  <SelectTrigger id="min-overlap">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">Any overlap</SelectItem>
+                    <SelectItem value="15">15 minutes</SelectItem>
+                    <SelectItem value="30">30 minutes</SelectItem>
+                    <SelectItem value="60">1 hour</SelectItem>
+                    <SelectItem value="120">2 hours</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="min-score">Minimum Compatibility</Label>
+                <Select
+                  value={String(matchPolicy.minCompatibilityScore)}
+                  onValueChange={(value) =>
+                    handleMatchPolicyChange({
+                      minCompatibilityScore: Number(value),
+                    })
+                  }
+                >
+                  <SelectTrigger id="min-score">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">Show all matches</SelectItem>
+                    <SelectItem value="25">25% or higher</SelectItem>
+                    <SelectItem value="50">50% or higher</SelectItem>
+                    <SelectItem value="75">75% or higher</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="require-activity">Shared Activity</Label>
+                <p className="text-sm text-muted-foreground">
+                  Skip matches where suggested activities have nothing in common
+                </p>
+              </div>
+              <Switch
+                id="require-activity"
+                checked={matchPolicy.requireSharedActivity}
+                onCheckedChange={(checked) =>
+                  handleMatchPolicyChange({ requireSharedActivity: checked })
+                }
+              />
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="require-budget">Budget Compatibility</Label>
+                <p className="text-sm text-muted-foreground">
+                  Skip matches whose budget ranges don't overlap
+                </p>
+              </div>
+              <Switch
+                id="require-budget"
+                checked={matchPolicy.requireBudgetCompatibility}
+                onCheckedChange={(checked) =>
+                  handleMatchPolicyChange({
+                    requireBudgetCompatibility: checked,
+                  })
+                }
+              />
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Account Information */}
         <Card>
           <CardHeader>
@@ -1,12 +1,48 @@
-import { User, Event, Message, Notification } from "@/types";
+import {
+  User,
+  Event,
+  HangoutEvent,
+  Message,
+  MessagePage,
+  MessagePageOptions,
+  MessageChange,
+  Conversation,
+  HangoutMatch,
+  Notification,
+  Presence,
+  DataChange,
+  UserReport,
+  RsvpStatus,
+} from "@/types";
+import {
+  countUnreadMessages,
+  getMessageConversationId,
+  getReadCursor,
+  toStoredConversation,
+} from "@/utils/conversations";
+import { compareMessages, getMessagePage } from "@/utils/messagePages";
+import { ChangeListener, isChangeFor } from "@/services/changeFeed";
+import {
+  isBlockedBetween,
+  withUserBlocked,
+  withUserUnblocked,
+  withoutConnection,
+} from "@/utils/blocking";
+import { withRsvp, withStoredRsvps } from "@/utils/sharedHangouts";
 
 // In-memory storage that simulates a real database
-class BackendService {
+export class BackendService {
   private users: Map<string, User> = new Map();
   private auth: Map<string, { password: string; userId: string }> = new Map();
   private events: Map<string, Event> = new Map();
   private messages: Map<string, Message> = new Map();
+  private conversations: Map<string, Conversation> = new Map();
   private notifications: Map<string, Notification> = new Map();
+  private hangoutMatches: Map<string, HangoutMatch> = new Map();
+  private reports: Map<string, UserReport> = new Map();
+  private presence: Map<string, Presence> = new Map();
+  private presenceListeners: Set<() => void> = new Set();
+  private changeListeners: Set<ChangeListener> = new Set();
   private currentUser: User | null = null;
 
   // Generate unique IDs
@@ -14,6 +50,14 @@ class BackendService {
     return Date.now().toString(36) + Math.random().toString(36).substr(2);
   }
 
+  private emitChange(change: DataChange) {
+    this.changeListeners.forEach((listener) => listener(change));
+  }
+
+  private getParticipants(conversationId: string): string[] {
+    return this.conversations.get(conversationId)?.participants || [];
+  }
+
   // User Management
   async createUser(
     email: string,
@@ -111,13 +155,41 @@ class BackendService {
     return () => {};
   }
 
+  async getUser(userId: string): Promise<User | null> {
+    return this.users.get(userId) || null;
+  }
+
+  async getUsers(userIds: string[]): Promise<User[]> {
+    return userIds
+      .map((userId) => this.users.get(userId))
+      .filter(Boolean) as User[];
+  }
+
+  async updateUser(
+    userId: string,
+    updates: Partial<Omit<User, "id">>,
+  ): Promise<boolean> {
+    const stored = this.users.get(userId);
+    if (!stored) return false;
+
+    const user = { ...stored, ...updates };
+    this.users.set(userId, user);
+    if (this.currentUser?.id === userId) {
+      this.currentUser = user;
+    }
+    this.emitChange({ type: "user_updated", userId });
+    return true;
+  }
+
   // Search users
   async searchUsers(query: string, currentUserId: string): Promise<User[]> {
     const results: User[] = [];
+    const currentUser = this.users.get(currentUserId);
 
     this.users.forEach((user) => {
       if (
         user.id !== currentUserId &&
+        !isBlockedBetween(currentUser, user) &&
         (user.username.toLowerCase().includes(query.toLowerCase()) ||
           user.fullName.toLowerCase().includes(query.toLowerCase()) ||
           user.email.toLowerCase().includes(query.toLowerCase()))
@@ -138,7 +210,9 @@ class BackendService {
       const fromUser = this.users.get(fromUserId);
       const toUser = this.users.get(toUserId);
 
-      if (!fromUser || !toUser) return false;
+      if (!fromUser || !toUser || isBlockedBetween(fromUser, toUser)) {
+        return false;
+      }
 
       // Update sender's sent requests
       fromUser.friendRequests.sent.push(toUserId);
@@ -148,20 +222,8 @@ class BackendService {
       toUser.friendRequests.received.push(fromUserId);
       this.users.set(toUserId, toUser);
 
-      // Create notification
-      const notificationId = this.generateId();
-      const notification: Notification = {
-        id: notificationId,
-        userId: toUserId,
-        type: "friend_request",
-        title: "New Friend Request",
-        message: "Someone sent you a friend request",
-        data: { senderId: fromUserId },
-        read: false,
-        createdAt: new Date().toISOString(),
-      };
-      this.notifications.set(notificationId, notification);
-
+      this.emitChange({ type: "user_updated", userId: fromUserId });
+      this.emitChange({ type: "user_updated", userId: toUserId });
       return true;
     } catch (error) {
       console.error("Error sending friend request:", error);
@@ -177,7 +239,15 @@ class BackendService {
       const user = this.users.get(userId);
       const requester = this.users.get(requesterId);
 
-      if (!user || !requester) return false;
+      // The request may have been cancelled, or either side blocked the other
+      if (
+        !user ||
+        !requester ||
+        !user.friendRequests.received.includes(requesterId) ||
+        isBlockedBetween(user, requester)
+      ) {
+        return false;
+      }
 
       // Update both users' friend lists
       user.friendRequests.received = user.friendRequests.received.filter(
@@ -192,6 +262,8 @@ class BackendService {
       requester.friends.push(userId);
       this.users.set(requesterId, requester);
 
+      this.emitChange({ type: "user_updated", userId });
+      this.emitChange({ type: "user_updated", userId: requesterId });
       return true;
     } catch (error) {
       console.error("Error accepting friend request:", error);
@@ -219,6 +291,8 @@ class BackendService {
       this.users.set(userId, user);
       this.users.set(requesterId, requester);
 
+      this.emitChange({ type: "user_updated", userId });
+      this.emitChange({ type: "user_updated", userId: requesterId });
       return true;
     } catch (error) {
       console.error("Error rejecting friend request:", error);
@@ -226,24 +300,108 @@ class BackendService {
     }
   }
 
+  async cancelFriendRequest(
+    fromUserId: string,
+    toUserId: string,
+  ): Promise<boolean> {
+    try {
+      const fromUser = this.users.get(fromUserId);
+      const toUser = this.users.get(toUserId);
+
+      if (!fromUser || !toUser) return false;
+
+      fromUser.friendRequests.sent = fromUser.friendRequests.sent.filter(
+        (id) => id !== toUserId,
+      );
+      toUser.friendRequests.received = toUser.friendRequests.received.filter(
+        (id) => id !== fromUserId,
+      );
+
+      this.users.set(fromUserId, fromUser);
+      this.users.set(toUserId, toUser);
+
+      this.emitChange({ type: "user_updated", userId: fromUserId });
+      this.emitChange({ type: "user_updated", userId: toUserId });
+      return true;
+    } catch (error) {
+      console.error("Error cancelling friend request:", error);
+      return false;
+    }
+  }
+
+  async removeFriend(userId: string, friendId: string): Promise<boolean> {
+    try {
+      const user = this.users.get(userId);
+      const friend = this.users.get(friendId);
+
+      if (!user || !friend) return false;
+
+      this.users.set(userId, withoutConnection(user, friendId));
+      this.users.set(friendId, withoutConnection(friend, userId));
+
+      this.emitChange({ type: "user_updated", userId });
+      this.emitChange({ type: "user_updated", userId: friendId });
+      return true;
+    } catch (error) {
+      console.error("Error removing friend:", error);
+      return false;
+    }
+  }
+
+  // Blocking
+  async blockUser(userId: string, blockedUserId: string): Promise<boolean> {
+    try {
+      const user = this.users.get(userId);
+      const blockedUser = this.users.get(blockedUserId);
+
+      if (!user || !blockedUser || userId === blockedUserId) return false;
+
+      this.users.set(userId, withUserBlocked(user, blockedUserId));
+      this.users.set(blockedUserId, withoutConnection(blockedUser, userId));
+
+      this.emitChange({ type: "user_updated", userId });
+      this.emitChange({ type: "user_updated", userId: blockedUserId });
+      return true;
+    } catch (error) {
+      console.error("Error blocking user:", error);
+      return false;
+    }
+  }
+
+  async unblockUser(userId: string, blockedUserId: string): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user) return false;
+
+    this.users.set(userId, withUserUnblocked(user, blockedUserId));
+    this.emitChange({ type: "user_updated", userId });
+    return true;
+  }
+
+  async reportUser(report: Omit<UserReport, "id">): Promise<UserReport | null> {
+    try {
+      const reportData: UserReport = { ...report, id: this.generateId() };
+      this.reports.set(reportData.id, reportData);
+      return reportData;
+    } catch (error) {
+      console.error("Error reporting user:", error);
+      return null;
+    }
+  }
+
   // Events
-  async createEvent(event: Omit<Event, "id">): Promise<string | null> {
+  async createEvent(event: Omit<Event, "id">): Promise<Event | null> {
     try {
       const eventId = this.generateId();
-      const eventData: Event = {
+      const eventData = {
         ...event,
         id: eventId,
         createdAt: new Date().toISOString(),
-      };
+      } as Event;
 
       this.events.set(eventId, eventData);
 
-      // Check for hangout overlaps
-      if (event.type === "hangout") {
-        this.checkForHangoutOverlaps(eventId, event);
-      }
-
-      return eventId;
+      this.emitChange({ type: "event_created", eventId });
+      return eventData;
     } catch (error) {
       console.error("Error creating event:", error);
       return null;
@@ -265,16 +423,25 @@ class BackendService {
     );
   }
 
-  async updateEvent(
-    eventId: string,
-    updates: Partial<Event>,
-  ): Promise<boolean> {
+  async getEventsForUsers(userIds: string[]): Promise<Event[]> {
+    return Array.from(this.events.values()).filter((event) =>
+      userIds.includes(event.userId),
+    );
+  }
+
+  async getSharedEvents(userId: string): Promise<Event[]> {
+    return Array.from(this.events.values()).filter((event) =>
+      (event as HangoutEvent).attendeeIds?.includes(userId),
+    );
+  }
+
+  async updateEvent(event: Event): Promise<boolean> {
     try {
-      const event = this.events.get(eventId);
-      if (event) {
-        const updatedEvent = { ...event, ...updates };
-        this.events.set(eventId, updatedEvent);
-      }
+      const stored = this.events.get(event.id);
+      if (!stored) return false;
+
+      this.events.set(event.id, withStoredRsvps(event, stored));
+      this.emitChange({ type: "event_updated", eventId: event.id });
       return true;
     } catch (error) {
       console.error("Error updating event:", error);
@@ -282,9 +449,24 @@ class BackendService {
     }
   }
 
+  async respondToInvite(
+    eventId: string,
+    userId: string,
+    status: RsvpStatus,
+  ): Promise<boolean> {
+    const stored = this.events.get(eventId);
+    if (!stored) return false;
+
+    this.events.set(eventId, withRsvp(stored, userId, status));
+    this.emitChange({ type: "event_updated", eventId });
+    return true;
+  }
+
   async deleteEvent(eventId: string): Promise<boolean> {
     try {
-      this.events.delete(eventId);
+      if (this.events.delete(eventId)) {
+        this.emitChange({ type: "event_deleted", eventId });
+      }
       return true;
     } catch (error) {
       console.error("Error deleting event:", error);
@@ -292,148 +474,200 @@ class BackendService {
     }
   }
 
-  // Check for hangout overlaps
-  private checkForHangoutOverlaps(eventId: string, event: Omit<Event, "id">) {
+  // Hangout matches
+  async getUserHangoutMatches(userId: string): Promise<HangoutMatch[]> {
+    return Array.from(this.hangoutMatches.values()).filter((match) =>
+      match.users.includes(userId),
+    );
+  }
+
+  async saveHangoutMatch(match: HangoutMatch): Promise<boolean> {
     try {
-      const userData = this.users.get(event.userId);
-      if (!userData) return;
-
-      const friends = userData.friends;
-
-      // Get all friend hangouts
-      friends.forEach((friendId) => {
-        this.events.forEach((friendEvent) => {
-          if (
-            friendEvent.userId === friendId &&
-            friendEvent.type === "hangout"
-          ) {
-            // Check for time overlap
-            const eventStart = new Date(event.startTime);
-            const eventEnd = new Date(event.endTime);
-            const friendStart = new Date(friendEvent.startTime);
-            const friendEnd = new Date(friendEvent.endTime);
-
-            const overlapStart = new Date(
-              Math.max(eventStart.getTime(), friendStart.getTime()),
-            );
-            const overlapEnd = new Date(
-              Math.min(eventEnd.getTime(), friendEnd.getTime()),
-            );
-
-            if (overlapStart <= overlapEnd) {
-              // Create hangout match notifications
-              const overlap = {
-                start: overlapStart.toISOString(),
-                end: overlapEnd.toISOString(),
-              };
-
-              // Notify both users
-              const notification1Id = this.generateId();
-              const notification1: Notification = {
-                id: notification1Id,
-                userId: event.userId,
-                type: "hangout_match",
-                title: "Hangout Match Found!",
-                message: "You have an overlapping hangout time with a friend",
-                data: {
-                  matchedUserId: friendId,
-                  overlappingTime: overlap,
-                  hangoutEvents: [eventId, friendEvent.id],
-                },
-                read: false,
-                createdAt: new Date().toISOString(),
-              };
-
-              const notification2Id = this.generateId();
-              const notification2: Notification = {
-                id: notification2Id,
-                userId: friendId,
-                type: "hangout_match",
-                title: "Hangout Match Found!",
-                message: "You have an overlapping hangout time with a friend",
-                data: {
-                  matchedUserId: event.userId,
-                  overlappingTime: overlap,
-                  hangoutEvents: [eventId, friendEvent.id],
-                },
-                read: false,
-                createdAt: new Date().toISOString(),
-              };
-
-              this.notifications.set(notification1Id, notification1);
-              this.notifications.set(notification2Id, notification2);
-            }
-          }
-        });
+      this.hangoutMatches.set(match.id, match);
+      this.emitChange({
+        type: "hangout_match_saved",
+        matchId: match.id,
+        users: match.users,
       });
+      return true;
     } catch (error) {
-      console.error("Error checking hangout overlaps:", error);
+      console.error("Error saving hangout match:", error);
+      return false;
     }
   }
 
   // Messages
-  async sendMessage(
-    senderId: string,
-    receiverId: string,
-    content: string,
-  ): Promise<boolean> {
+  async sendMessage(message: Omit<Message, "id">): Promise<Message | null> {
     try {
+      // Group chats stay open; blocks only stop direct messages
+      if (
+        message.receiverId &&
+        isBlockedBetween(
+          this.users.get(message.senderId),
+          this.users.get(message.receiverId),
+        )
+      ) {
+        return null;
+      }
+
       const messageId = this.generateId();
-      const conversationId = [senderId, receiverId].sort().join("-");
+      const conversationId = getMessageConversationId(message);
 
-      const message: Message = {
+      const messageData: Message = {
+        ...message,
         id: messageId,
-        senderId,
-        receiverId,
-        content,
-        timestamp: new Date().toISOString(),
-        read: false,
+        conversationId,
       };
 
-      this.messages.set(messageId, message);
-
-      // Create notification
-      const notificationId = this.generateId();
-      const notification: Notification = {
-        id: notificationId,
-        userId: receiverId,
-        type: "message",
-        title: "New Message",
-        message: "You received a new message",
-        data: { senderId },
-        read: false,
-        createdAt: new Date().toISOString(),
-      };
-      this.notifications.set(notificationId, notification);
+      this.messages.set(messageId, messageData);
+
+      // Update or create conversation, keeping group details
+      const conversation = this.conversations.get(conversationId);
+      this.conversations.set(conversationId, {
+        ...conversation,
+        id: conversationId,
+        participants: conversation?.participants || [
+          message.senderId,
+          message.receiverId,
+        ],
+        messages: [],
+        lastMessage: messageData,
+        updatedAt: message.timestamp,
+      });
 
-      return true;
+      this.emitChange({
+        type: "message_sent",
+        conversationId,
+        messageId,
+        participants: this.getParticipants(conversationId),
+      });
+      return messageData;
     } catch (error) {
       console.error("Error sending message:", error);
-      return false;
+      return null;
+    }
+  }
+
+  async updateMessage(
+    message: Message,
+    change?: MessageChange,
+  ): Promise<boolean> {
+    const stored = this.messages.get(message.id);
+    if (!stored) return false;
+    const updated = change ? change(stored) : message;
+    this.messages.set(message.id, updated);
+
+    const conversationId = getMessageConversationId(updated);
+    const conversation = this.conversations.get(conversationId);
+    if (conversation?.lastMessage?.id === message.id) {
+      this.conversations.set(conversation.id, {
+        ...conversation,
+        lastMessage: updated,
+      });
     }
+    this.emitChange({
+      type: "message_updated",
+      conversationId,
+      messageId: message.id,
+      participants: this.getParticipants(conversationId),
+    });
+    return true;
+  }
+
+  private getAllMessages(conversationId: string): Message[] {
+    return Array.from(this.messages.values())
+      .filter((message) => message.conversationId === conversationId)
+      .sort(compareMessages);
+  }
+
+  async getConversationMessages(
+    conversationId: string,
+    page?: MessagePageOptions,
+  ): Promise<MessagePage> {
+    return getMessagePage(this.getAllMessages(conversationId), page);
+  }
+
+  async getUserConversations(userId: string): Promise<Conversation[]> {
+    const userConversations = Array.from(this.conversations.values()).filter(
+      (conversation) => conversation.participants.includes(userId),
+    );
+
+    return Promise.all(
+      userConversations.map(async (conversation) => ({
+        ...conversation,
+        messages: (await this.getConversationMessages(conversation.id))
+          .messages,
+        unreadCount: countUnreadMessages(
+          this.getAllMessages(conversation.id),
+          conversation,
+          userId,
+        ),
+      })),
+    );
+  }
+
+  async getUserMessages(userId: string, since?: string): Promise<Message[]> {
+    return Array.from(this.conversations.values())
+      .filter((conversation) => conversation.participants.includes(userId))
+      .flatMap((conversation) => this.getAllMessages(conversation.id))
+      .filter((message) => !since || message.timestamp >= since);
+  }
+
+  async saveConversation(conversation: Conversation): Promise<boolean> {
+    this.conversations.set(conversation.id, toStoredConversation(conversation));
+    this.emitChange({
+      type: "conversation_updated",
+      conversationId: conversation.id,
+      participants: conversation.participants,
+    });
+    return true;
+  }
+
+  async deleteConversation(conversationId: string): Promise<boolean> {
+    const participants = this.getParticipants(conversationId);
+    this.messages.forEach((message, messageId) => {
+      if (message.conversationId === conversationId) {
+        this.messages.delete(messageId);
+      }
+    });
+    if (!this.conversations.delete(conversationId)) return false;
+
+    this.emitChange({
+      type: "conversation_deleted",
+      conversationId,
+      participants,
+    });
+    return true;
+  }
+
+  async markConversationAsRead(
+    conversationId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation?.lastMessage) return false;
+
+    this.conversations.set(conversationId, {
+      ...conversation,
+      lastRead: {
+        ...conversation.lastRead,
+        [userId]: getReadCursor(conversation.lastMessage),
+      },
+    });
+    this.emitChange({
+      type: "conversation_updated",
+      conversationId,
+      participants: conversation.participants,
+    });
+    return true;
   }
 
-  getConversationMessages(
+  subscribeToConversationMessages(
     conversationId: string,
     callback: (messages: Message[]) => void,
   ) {
-    const getMessages = () => {
-      const conversationMessages: Message[] = [];
-
-      this.messages.forEach((message) => {
-        const msgConversationId = [message.senderId, message.receiverId]
-          .sort()
-          .join("-");
-        if (msgConversationId === conversationId) {
-          conversationMessages.push(message);
-        }
-      });
-
-      conversationMessages.sort(
-        (a, b) =>
-          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
-      );
-      callback(conversationMessages);
+    const getMessages = async () => {
+      callback(this.getAllMessages(conversationId));
     };
 
     // Initial load
@@ -447,24 +681,67 @@ class BackendService {
   }
 
   // Notifications
-  getUserNotifications(
+  async getUserNotifications(userId: string): Promise<Notification[]> {
+    const userNotifications: Notification[] = [];
+
+    this.notifications.forEach((notification) => {
+      if (notification.userId === userId) {
+        userNotifications.push(notification);
+      }
+    });
+
+    userNotifications.sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+    );
+    return userNotifications.slice(0, 50);
+  }
+
+  async createNotification(
+    notification: Omit<Notification, "id">,
+  ): Promise<Notification | null> {
+    const notificationData: Notification = {
+      ...notification,
+      id: this.generateId(),
+    };
+    this.notifications.set(notificationData.id, notificationData);
+    this.emitChange({
+      type: "notification_added",
+      notificationId: notificationData.id,
+      userId: notificationData.userId,
+    });
+    return notificationData;
+  }
+
+  async deleteNotification(notificationId: string): Promise<boolean> {
+    const notification = this.notifications.get(notificationId);
+    if (!notification) return false;
+
+    this.notifications.delete(notificationId);
+    this.emitChange({
+      type: "notification_deleted",
+      notificationId,
+      userId: notification.userId,
+    });
+    return true;
+  }
+
+  async clearUserNotifications(userId: string): Promise<boolean> {
+    this.notifications.forEach((notification, notificationId) => {
+      if (notification.userId === userId) {
+        this.notifications.delete(notificationId);
+      }
+    });
+    this.emitChange({ type: "notifications_cleared", userId });
+    return true;
+  }
+
+  subscribeToUserNotifications(
     userId: string,
     callback: (notifications: Notification[]) => void,
   ) {
-    const getNotifications = () => {
-      const userNotifications: Notification[] = [];
-
-      this.notifications.forEach((notification) => {
-        if (notification.userId === userId) {
-          userNotifications.push(notification);
-        }
-      });
-
-      userNotifications.sort(
-        (a, b) =>
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-      );
-      callback(userNotifications.slice(0, 50));
+    const getNotifications = async () => {
+      callback(await this.getUserNotifications(userId));
     };
 
     // Initial load
@@ -483,6 +760,11 @@ class BackendService {
       if (notification) {
         notification.read = true;
         this.notifications.set(notificationId, notification);
+        this.emitChange({
+          type: "notification_updated",
+          notificationId,
+          userId: notification.userId,
+        });
       }
       return true;
     } catch (error) {
@@ -490,6 +772,57 @@ class BackendService {
       return false;
     }
   }
+
+  // Presence
+  async updatePresence(
+    userId: string,
+    update: Partial<Omit<Presence, "userId">>,
+  ): Promise<boolean> {
+    this.presence.set(userId, {
+      lastSeen: new Date().toISOString(),
+      away: false,
+      ...this.presence.get(userId),
+      ...update,
+      userId,
+    });
+    this.presenceListeners.forEach((listener) => listener());
+    return true;
+  }
+
+  subscribeToPresence(
+    userIds: string[],
+    callback: (presence: Presence[]) => void,
+  ) {
+    const notify = () => {
+      callback(
+        userIds
+          .map((userId) => this.presence.get(userId))
+          .filter((presence): presence is Presence => Boolean(presence)),
+      );
+    };
+
+    // Initial state, then every change
+    notify();
+    this.presenceListeners.add(notify);
+
+    // Return unsubscribe function
+    return () => {
+      this.presenceListeners.delete(notify);
+    };
+  }
+
+  // Change feed, filtered to what the user can see
+  subscribeToChanges(userId: string, callback: (change: DataChange) => void) {
+    const listener: ChangeListener = (change) => {
+      if (isChangeFor(change, userId)) callback(change);
+    };
+    this.changeListeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
 }
 
 // Create singleton instance
@@ -0,0 +1,100 @@
+import { DataChange } from "@/types";
+import { generateId } from "@/lib/utils";
+
+export type ChangeListener = (change: DataChange) => void;
+
+export interface ChangeFeed {
+  publish: (change: DataChange) => void;
+  subscribe: (listener: ChangeListener) => () => void;
+}
+
+/**
+ * Whether a change can affect what the given user sees. Events and profiles
+ * show up on friends' calendars and lists, so those always count.
+ */
+export const isChangeFor = (change: DataChange, userId: string): boolean => {
+  switch (change.type) {
+    case "message_sent":
+    case "message_updated":
+    case "conversation_updated":
+    case "conversation_deleted":
+      return change.participants.includes(userId);
+    case "notification_added":
+    case "notification_updated":
+    case "notification_deleted":
+    case "notifications_cleared":
+      return change.userId === userId;
+    case "hangout_match_saved":
+      return change.users.includes(userId);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Publishes changes to listeners in this tab and every other open tab of the
+ * app. Tabs talk over a BroadcastChannel where there is one, and otherwise
+ * through `storage` events on a key that each publish overwrites.
+ */
+export const createChangeFeed = (name: string): ChangeFeed => {
+  const listeners = new Set<ChangeListener>();
+  const storageKey = `${name}_change`;
+  let channel: BroadcastChannel | null = null;
+  let connected = false;
+
+  const deliver = (change: DataChange) => {
+    listeners.forEach((listener) => listener(change));
+  };
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== storageKey || !event.newValue) return;
+    try {
+      deliver(JSON.parse(event.newValue).change);
+    } catch (error) {
+      console.error("Error reading change from storage:", error);
+    }
+  };
+
+  // Opened on first use so importing the feed has no side effects
+  const connect = () => {
+    if (connected) return;
+    connected = true;
+
+    if (typeof BroadcastChannel !== "undefined") {
+      channel = new BroadcastChannel(name);
+      channel.onmessage = (event: MessageEvent<DataChange>) =>
+        deliver(event.data);
+    } else if (typeof window !== "undefined") {
+      window.addEventListener("storage", onStorage);
+    }
+  };
+
+  return {
+    publish: (change) => {
+      connect();
+      deliver(change);
+
+      try {
+        if (channel) {
+          channel.postMessage(change);
+        } else if (typeof localStorage !== "undefined") {
+          // The ID makes repeated identical changes still fire an event
+          localStorage.setItem(
+            storageKey,
+            JSON.stringify({ id: generateId(), change }),
+          );
+        }
+      } catch (error) {
+        console.error("Error publishing change:", error);
+      }
+    },
+
+    subscribe: (listener) => {
+      connect();
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
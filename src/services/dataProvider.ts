@@ -0,0 +1,189 @@
+import {
+  User,
+  Event,
+  Message,
+  MessagePage,
+  MessagePageOptions,
+  MessageChange,
+  Conversation,
+  HangoutMatch,
+  Notification,
+  Presence,
+  DataChange,
+  RsvpStatus,
+  SyncStatus,
+  UserReport,
+} from "@/types";
+import { createLocalStorageProvider } from "@/services/providers/localStorageProvider";
+import { createMemoryProvider } from "@/services/providers/memoryProvider";
+import { createFirestoreProvider } from "@/services/providers/firestoreProvider";
+import { withOfflineQueue } from "@/services/providers/offlineProvider";
+
+export type DataProviderKind = "local" | "memory" | "firestore";
+
+export interface AuthResult {
+  success: boolean;
+  error?: string;
+  user?: User;
+}
+
+/**
+ * Async contract every store talks to, regardless of where the data lives.
+ *
+ * Adapters assign IDs on create and return the stored record. They never
+ * create notifications themselves; every notification goes through the
+ * notification dispatcher, which applies the recipient's preferences.
+ *
+ * Failed writes resolve to false or null, except that remote adapters throw
+ * when the server can't be reached, so the offline queue can tell the two
+ * apart (see `isUnavailableError`).
+ */
+export interface DataProvider {
+  readonly kind: DataProviderKind;
+
+  // Authentication
+  createUserAccount: (
+    email: string,
+    password: string,
+    username: string,
+    fullName: string,
+  ) => Promise<AuthResult>;
+  signIn: (email: string, password: string) => Promise<AuthResult>;
+  signOut: () => Promise<void>;
+  onAuthStateChange: (callback: (user: User | null) => void) => () => void;
+
+  // Users
+  getUser: (userId: string) => Promise<User | null>;
+  getUsers: (userIds: string[]) => Promise<User[]>;
+  // Writes only the given fields, so friend and block changes made meanwhile
+  // survive a save from a stale copy of the user
+  updateUser: (
+    userId: string,
+    updates: Partial<Omit<User, "id">>,
+  ) => Promise<boolean>;
+  searchUsers: (query: string, currentUserId: string) => Promise<User[]>;
+
+  // Friend graph
+  getFriends: (userId: string) => Promise<User[]>;
+  sendFriendRequest: (fromUserId: string, toUserId: string) => Promise<boolean>;
+  acceptFriendRequest: (
+    userId: string,
+    requesterId: string,
+  ) => Promise<boolean>;
+  rejectFriendRequest: (
+    userId: string,
+    requesterId: string,
+  ) => Promise<boolean>;
+  cancelFriendRequest: (
+    fromUserId: string,
+    toUserId: string,
+  ) => Promise<boolean>;
+  removeFriend: (userId: string, friendId: string) => Promise<boolean>;
+
+  // Blocking ends any friendship or pending request between the two. Blocked
+  // people are left out of each other's searches, and direct messages and
+  // friend requests between them are rejected
+  blockUser: (userId: string, blockedUserId: string) => Promise<boolean>;
+  unblockUser: (userId: string, blockedUserId: string) => Promise<boolean>;
+  reportUser: (report: Omit<UserReport, "id">) => Promise<UserReport | null>;
+
+  // Events
+  getUserEvents: (userId: string) => Promise<Event[]>;
+  getEventsForUsers: (userIds: string[]) => Promise<Event[]>;
+  // Shared hangouts the user is invited to but doesn't own
+  getSharedEvents: (userId: string) => Promise<Event[]>;
+  createEvent: (event: Omit<Event, "id">) => Promise<Event | null>;
+  // Replaces the stored event, so fields left out are removed. The stored
+  // RSVPs are kept, since they only change through respondToInvite
+  updateEvent: (event: Event) => Promise<boolean>;
+  // Writes just this invitee's answer, so answers others give meanwhile and
+  // the owner's edits don't overwrite each other
+  respondToInvite: (
+    eventId: string,
+    userId: string,
+    status: RsvpStatus,
+  ) => Promise<boolean>;
+  deleteEvent: (eventId: string) => Promise<boolean>;
+
+  // Hangout matches. Members see a saved match whether or not they were
+  // notified about it; saving a match that's already stored replaces it
+  getUserHangoutMatches: (userId: string) => Promise<HangoutMatch[]>;
+  saveHangoutMatch: (match: HangoutMatch) => Promise<boolean>;
+
+  // Conversations
+  getUserConversations: (userId: string) => Promise<Conversation[]>;
+  // Conversations come with their latest page of messages and the user's
+  // unread count; older pages are fetched here, newest page first
+  getConversationMessages: (
+    conversationId: string,
+    page?: MessagePageOptions,
+  ) => Promise<MessagePage>;
+  // Every stored message in the user's conversations, or those sent since
+  // the given time, for searching and counting beyond the loaded pages
+  getUserMessages: (userId: string, since?: string) => Promise<Message[]>;
+  saveConversation: (conversation: Conversation) => Promise<boolean>;
+  deleteConversation: (conversationId: string) => Promise<boolean>;
+  sendMessage: (message: Omit<Message, "id">) => Promise<Message | null>;
+  // Replaces a stored message, or applies `change` to the stored copy, e.g.
+  // to record a reaction or a response to a proposal
+  updateMessage: (message: Message, change?: MessageChange) => Promise<boolean>;
+  markConversationAsRead: (
+    conversationId: string,
+    userId: string,
+  ) => Promise<boolean>;
+
+  // Notifications
+  getUserNotifications: (userId: string) => Promise<Notification[]>;
+  addNotification: (
+    notification: Omit<Notification, "id">,
+  ) => Promise<Notification | null>;
+  markNotificationAsRead: (notificationId: string) => Promise<boolean>;
+  deleteNotification: (notificationId: string) => Promise<boolean>;
+  clearUserNotifications: (userId: string) => Promise<boolean>;
+
+  // Presence. Updates merge into the user's record; subscribers hear the
+  // current records straight away and again whenever one changes
+  updatePresence: (
+    userId: string,
+    update: Partial<Omit<Presence, "userId">>,
+  ) => Promise<boolean>;
+  subscribeToPresence: (
+    userIds: string[],
+    callback: (presence: Presence[]) => void,
+  ) => () => void;
+
+  // Change feed. Subscribers hear about every write that may affect what the
+  // user sees, whether it happened in this view, another tab or another device
+  subscribeToChanges: (
+    userId: string,
+    callback: (change: DataChange) => void,
+  ) => () => void;
+
+  // Offline writes. Subscribers hear the current status straight away; only
+  // remote providers ever queue writes, so local ones always report synced
+  subscribeToSyncStatus: (callback: (status: SyncStatus) => void) => () => void;
+  retrySync: () => Promise<void>;
+  discardFailedSync: () => Promise<void>;
+}
+
+export const createDataProvider = (kind: DataProviderKind): DataProvider => {
+  switch (kind) {
+    case "memory":
+      return createMemoryProvider();
+    case "firestore":
+      return withOfflineQueue(createFirestoreProvider());
+    case "local":
+      return createLocalStorageProvider();
+    default:
+      // A typo shouldn't quietly keep data in one browser
+      throw new Error(
+        `Unknown VITE_DATA_PROVIDER "${kind}"; use local, memory or firestore`,
+      );
+  }
+};
+
+// Chosen once at startup via VITE_DATA_PROVIDER (local | memory | firestore),
+// defaulting to local storage
+export const dataProvider = createDataProvider(
+  (import.meta.env.VITE_DATA_PROVIDER as DataProviderKind) || "local",
+);
@@ -12,6 +12,7 @@ import {
   setDoc,
   getDoc,
   updateDoc,
+  deleteDoc,
   collection,
   query,
   where,
@@ -21,12 +22,36 @@ import {
   addDoc,
   orderBy,
   limit,
+  startAfter,
   onSnapshot,
   Timestamp,
   writeBatch,
+  documentId,
+  Query,
+  DocumentChangeType,
+  runTransaction,
 } from 'firebase/firestore';
 import { auth, db } from '@/config/firebase';
-import { User, Event, Message, Conversation, Notification } from '@/types';
+import {
+  User,
+  Event,
+  RsvpStatus,
+  Message,
+  MessagePage,
+  MessagePageOptions,
+  MessageChange,
+  Conversation,
+  HangoutMatch,
+  Notification,
+  Presence,
+  DataChange,
+  UserReport,
+} from '@/types';
+import { countUnreadMessages, getMessageConversationId, getReadCursor, toStoredConversation } from '@/utils/conversations';
+import { isBlockedBetween } from '@/utils/blocking';
+import { withStoredRsvps } from '@/utils/sharedHangouts';
+import { isUnavailableError } from '@/utils/offlineSync';
+import { MESSAGE_PAGE_SIZE } from '@/utils/messagePages';
 
 // Helper function to generate IDs
 const generateId = (): string => {
@@ -135,10 +160,59 @@ export const onAuthStateChange = (callback: (user: User | null) => void) => {
   });
 };
 
+// Firestore caps `in` queries at 30 values, so larger lists are split up
+const chunk = <T>(values: T[], size = 30): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+};
+
 // User Management Functions
-export const searchUsers = async (query: string, currentUserId: string): Promise<User[]> => {
+export const getUserById = async (userId: string): Promise<User | null> => {
   try {
-    const searchTerm = query.toLowerCase().trim();
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    return userDoc.exists() ? (userDoc.data() as User) : null;
+  } catch (error) {
+    console.error('Get user error:', error);
+    return null;
+  }
+};
+
+export const getUsersByIds = async (userIds: string[]): Promise<User[]> => {
+  try {
+    if (userIds.length === 0) return [];
+
+    const snapshots = await Promise.all(
+      chunk(userIds).map(ids =>
+        getDocs(query(collection(db, 'users'), where(documentId(), 'in', ids)))
+      )
+    );
+
+    return snapshots.flatMap(snapshot => snapshot.docs.map(doc => doc.data() as User));
+  } catch (error) {
+    console.error('Get users error:', error);
+    return [];
+  }
+};
+
+export const updateUserProfile = async (
+  userId: string,
+  updates: Partial<Omit<User, 'id'>>
+): Promise<boolean> => {
+  try {
+    await updateDoc(doc(db, 'users', userId), updates);
+    return true;
+  } catch (error) {
+    console.error('Update user error:', error);
+    return false;
+  }
+};
+
+export const searchUsers = async (searchQuery: string, currentUserId: string): Promise<User[]> => {
+  try {
+    const searchTerm = searchQuery.toLowerCase().trim();
     if (!searchTerm) return [];
 
     // Search by username
@@ -157,9 +231,10 @@ export const searchUsers = async (query: string, currentUserId: string): Promise
       limit(10)
     );
 
-    const [usernameSnapshot, nameSnapshot] = await Promise.all([
+    const [usernameSnapshot, nameSnapshot, currentUser] = await Promise.all([
       getDocs(usernameQuery),
-      getDocs(nameQuery)
+      getDocs(nameQuery),
+      getUserById(currentUserId)
     ]);
 
     const users = new Map<string, User>();
@@ -167,7 +242,7 @@ export const searchUsers = async (query: string, currentUserId: string): Promise
     // Combine results and remove duplicates
     [...usernameSnapshot.docs, ...nameSnapshot.docs].forEach(doc => {
       const userData = doc.data() as User;
-      if (userData.id !== currentUserId) {
+      if (userData.id !== currentUserId && !isBlockedBetween(currentUser, userData)) {
         users.set(userData.id, userData);
       }
     });
@@ -181,6 +256,9 @@ export const searchUsers = async (query: string, currentUserId: string): Promise
 
 export const sendFriendRequest = async (fromUserId: string, toUserId: string): Promise<boolean> => {
   try {
+    const [fromUser, toUser] = await Promise.all([getUserById(fromUserId), getUserById(toUserId)]);
+    if (isBlockedBetween(fromUser, toUser)) return false;
+
     const batch = writeBatch(db);
 
     // Update sender's sent requests
@@ -195,23 +273,11 @@ export const sendFriendRequest = async (fromUserId: string, toUserId: string): P
       'friendRequests.received': arrayUnion(fromUserId)
     });
 
-    // Create notification
-    const notification: Omit<Notification, 'id'> = {
-      userId: toUserId,
-      type: 'friend_request',
-      title: 'New Friend Request',
-      message: 'You have a new friend request',
-      read: false,
-      createdAt: new Date().toISOString(),
-      data: { fromUserId }
-    };
-
-    const notificationRef = doc(collection(db, 'notifications'));
-    batch.set(notificationRef, { ...notification, id: notificationRef.id });
-
     await batch.commit();
     return true;
   } catch (error) {
+    // Unreachable writes are left for the offline queue to retry
+    if (isUnavailableError(error)) throw error;
     console.error('Send friend request error:', error);
     return false;
   }
@@ -219,6 +285,12 @@ export const sendFriendRequest = async (fromUserId: string, toUserId: string): P
 
 export const acceptFriendRequest = async (userId: string, requesterId: string): Promise<boolean> => {
   try {
+    // The request may have been cancelled, or either side blocked the other
+    const [user, requester] = await Promise.all([getUserById(userId), getUserById(requesterId)]);
+    if (!user || !requester || !user.friendRequests.received.includes(requesterId) || isBlockedBetween(user, requester)) {
+      return false;
+    }
+
     const batch = writeBatch(db);
 
     // Update both users
@@ -266,14 +338,105 @@ export const rejectFriendRequest = async (userId: string, requesterId: string):
   }
 };
 
+export const cancelFriendRequest = async (fromUserId: string, toUserId: string): Promise<boolean> => {
+  try {
+    const batch = writeBatch(db);
+
+    const fromUserRef = doc(db, 'users', fromUserId);
+    const toUserRef = doc(db, 'users', toUserId);
+
+    batch.update(fromUserRef, {
+      'friendRequests.sent': arrayRemove(toUserId)
+    });
+
+    batch.update(toUserRef, {
+      'friendRequests.received': arrayRemove(fromUserId)
+    });
+
+    await batch.commit();
+    return true;
+  } catch (error) {
+    console.error('Cancel friend request error:', error);
+    return false;
+  }
+};
+
+// Drops the friendship and any pending request between the two users
+const removeConnection = (otherUserId: string) => ({
+  'friends': arrayRemove(otherUserId),
+  'friendRequests.sent': arrayRemove(otherUserId),
+  'friendRequests.received': arrayRemove(otherUserId)
+});
+
+export const removeFriend = async (userId: string, friendId: string): Promise<boolean> => {
+  try {
+    const batch = writeBatch(db);
+
+    batch.update(doc(db, 'users', userId), removeConnection(friendId));
+    batch.update(doc(db, 'users', friendId), removeConnection(userId));
+
+    await batch.commit();
+    return true;
+  } catch (error) {
+    console.error('Remove friend error:', error);
+    return false;
+  }
+};
+
+// Blocking Functions
+export const blockUser = async (userId: string, blockedUserId: string): Promise<boolean> => {
+  try {
+    if (userId === blockedUserId) return false;
+
+    const batch = writeBatch(db);
+
+    batch.update(doc(db, 'users', userId), {
+      ...removeConnection(blockedUserId),
+      blockedUserIds: arrayUnion(blockedUserId)
+    });
+    batch.update(doc(db, 'users', blockedUserId), removeConnection(userId));
+
+    await batch.commit();
+    return true;
+  } catch (error) {
+    console.error('Block user error:', error);
+    return false;
+  }
+};
+
+export const unblockUser = async (userId: string, blockedUserId: string): Promise<boolean> => {
+  try {
+    await updateDoc(doc(db, 'users', userId), {
+      blockedUserIds: arrayRemove(blockedUserId)
+    });
+    return true;
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    return false;
+  }
+};
+
+export const reportUser = async (report: Omit<UserReport, 'id'>): Promise<UserReport | null> => {
+  try {
+    const reportRef = doc(collection(db, 'reports'));
+    const reportData: UserReport = { ...report, id: reportRef.id };
+    await setDoc(reportRef, reportData);
+    return reportData;
+  } catch (error) {
+    console.error('Report user error:', error);
+    return null;
+  }
+};
+
 // Event Functions
-export const createEvent = async (event: Omit<Event, 'id'>): Promise<string | null> => {
+export const createEvent = async (event: Omit<Event, 'id'>): Promise<Event | null> => {
   try {
     const eventRef = doc(collection(db, 'events'));
-    const eventData = { ...event, id: eventRef.id };
+    const eventData = { ...event, id: eventRef.id } as Event;
     await setDoc(eventRef, eventData);
-    return eventRef.id;
+    return eventData;
   } catch (error) {
+    if (isUnavailableError(error)) throw error;
     console.error('Create event error:', error);
     return null;
   }
@@ -283,8 +446,8 @@ export const getUserEvents = async (userId: string): Promise<Event[]> => {
   try {
     const eventsQuery = query(
       collection(db, 'events'),
-      where('createdBy', '==', userId),
-      orderBy('date', 'desc')
+      where('userId', '==', userId),
+      orderBy('startTime', 'asc')
     );
     
     const snapshot = await getDocs(eventsQuery);
@@ -295,24 +458,132 @@ export const getUserEvents = async (userId: string): Promise<Event[]> => {
   }
 };
 
-export const updateEvent = async (eventId: string, updates: Partial<Event>): Promise<boolean> => {
+export const getEventsForUsers = async (userIds: string[]): Promise<Event[]> => {
   try {
-    await updateDoc(doc(db, 'events', eventId), updates);
-    return true;
+    if (userIds.length === 0) return [];
+
+    const snapshots = await Promise.all(
+      chunk(userIds).map(ids =>
+        getDocs(query(collection(db, 'events'), where('userId', 'in', ids)))
+      )
+    );
+
+    return snapshots.flatMap(snapshot => snapshot.docs.map(doc => doc.data() as Event));
   } catch (error) {
+    console.error('Get events error:', error);
+    return [];
+  }
+};
+
+export const getSharedEvents = async (userId: string): Promise<Event[]> => {
+  try {
+    const eventsQuery = query(
+      collection(db, 'events'),
+      where('attendeeIds', 'array-contains', userId)
+    );
+
+    const snapshot = await getDocs(eventsQuery);
+    return snapshot.docs.map(doc => doc.data() as Event);
+  } catch (error) {
+    console.error('Get shared events error:', error);
+    return [];
+  }
+};
+
+export const updateEvent = async (event: Event): Promise<boolean> => {
+  try {
+    const eventRef = doc(db, 'events', event.id);
+
+    // Replaces the document so fields the edit dropped, e.g. a recurrence rule,
+    // are removed. RSVPs are written one at a time by respondToInvite, so the
+    // stored ones are kept
+    return await runTransaction(db, async (transaction) => {
+      const eventDoc = await transaction.get(eventRef);
+      if (!eventDoc.exists()) return false;
+
+      transaction.set(eventRef, withStoredRsvps(event, eventDoc.data() as Event));
+      return true;
+    });
+  } catch (error) {
+    if (isUnavailableError(error)) throw error;
     console.error('Update event error:', error);
     return false;
   }
 };
 
+export const respondToInvite = async (
+  eventId: string,
+  userId: string,
+  status: RsvpStatus
+): Promise<boolean> => {
+  try {
+    // Only this invitee's answer changes, so concurrent answers don't clash
+    await updateDoc(doc(db, 'events', eventId), {
+      [`rsvps.${userId}`]: status,
+    });
+    return true;
+  } catch (error) {
+    console.error('Respond to invite error:', error);
+    return false;
+  }
+};
+
+export const deleteEvent = async (eventId: string): Promise<boolean> => {
+  try {
+    await deleteDoc(doc(db, 'events', eventId));
+    return true;
+  } catch (error) {
+    if (isUnavailableError(error)) throw error;
+    console.error('Delete event error:', error);
+    return false;
+  }
+};
+
+// Hangout Match Functions
+export const getUserHangoutMatches = async (userId: string): Promise<HangoutMatch[]> => {
+  try {
+    const matchesQuery = query(
+      collection(db, 'hangoutMatches'),
+      where('users', 'array-contains', userId)
+    );
+
+    const snapshot = await getDocs(matchesQuery);
+    return snapshot.docs.map(doc => doc.data() as HangoutMatch);
+  } catch (error) {
+    console.error('Get hangout matches error:', error);
+    return [];
+  }
+};
+
+// Match keys contain slashes, which document IDs can't
+export const saveHangoutMatch = async (match: HangoutMatch): Promise<boolean> => {
+  try {
+    await setDoc(doc(db, 'hangoutMatches', encodeURIComponent(match.id)), match);
+    return true;
+  } catch (error) {
+    if (isUnavailableError(error)) throw error;
+    console.error('Save hangout match error:', error);
+    return false;
+  }
+};
+
 // Message Functions
-export const sendMessage = async (message: Omit<Message, 'id'>): Promise<boolean> => {
+export const sendMessage = async (message: Omit<Message, 'id'>): Promise<Message | null> => {
   try {
-    const conversationId = [message.senderId, message.receiverId].sort().join('-');
+    // Group chats stay open; blocks only stop direct messages
+    if (message.receiverId) {
+      const [sender, receiver] = await Promise.all([
+        getUserById(message.senderId),
+        getUserById(message.receiverId)
+      ]);
+      if (isBlockedBetween(sender, receiver)) return null;
+    }
+
+    const conversationId = getMessageConversationId(message);
     
     // Add message to messages collection
     const messageRef = doc(collection(db, 'messages'));
-    const messageData = { ...message, id: messageRef.id };
+    const messageData: Message = { ...message, id: messageRef.id, conversationId };
     await setDoc(messageRef, messageData);
 
     // Update or create conversation
@@ -336,9 +607,88 @@ export const sendMessage = async (message: Omit<Message, 'id'>): Promise<boolean
       await setDoc(conversationRef, conversationData);
     }
 
-    return true;
+    return messageData;
   } catch (error) {
+    if (isUnavailableError(error)) throw error;
     console.error('Send message error:', error);
+    return null;
+  }
+};
+
+export const updateMessage = async (message: Message, change?: MessageChange): Promise<boolean> => {
+  try {
+    const messageRef = doc(db, 'messages', message.id);
+    const conversationRef = doc(db, 'conversations', getMessageConversationId(message));
+
+    // A transaction so reactions and responses others add meanwhile aren't lost
+    return await runTransaction(db, async (transaction) => {
+      const [messageDoc, conversationDoc] = await Promise.all([
+        transaction.get(messageRef),
+        transaction.get(conversationRef)
+      ]);
+      if (!messageDoc.exists()) return false;
+
+      const updated = change ? change(messageDoc.data() as Message) : message;
+      transaction.set(messageRef, updated);
+
+      // Keep the conversation preview in step with the message
+      if (conversationDoc.data()?.lastMessage?.id === message.id) {
+        transaction.update(conversationRef, { lastMessage: updated });
+      }
+      return true;
+    });
+  } catch (error) {
+    console.error('Update message error:', error);
+    return false;
+  }
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<boolean> => {
+  try {
+    // Messages live in their own collection and are never embedded here
+    await setDoc(doc(db, 'conversations', conversation.id), toStoredConversation(conversation));
+    return true;
+  } catch (error) {
+    console.error('Save conversation error:', error);
+    return false;
+  }
+};
+
+export const deleteConversation = async (conversationId: string): Promise<boolean> => {
+  try {
+    const messagesSnapshot = await getDocs(
+      query(collection(db, 'messages'), where('conversationId', '==', conversationId))
+    );
+
+    const batch = writeBatch(db);
+    messagesSnapshot.docs.forEach(messageDoc => batch.delete(messageDoc.ref));
+    batch.delete(doc(db, 'conversations', conversationId));
+
+    await batch.commit();
+    return true;
+  } catch (error) {
+    console.error('Delete conversation error:', error);
+    return false;
+  }
+};
+
+export const markConversationAsRead = async (
+  conversationId: string,
+  userId: string
+): Promise<boolean> => {
+  try {
+    const conversationRef = doc(db, 'conversations', conversationId);
+    const conversationDoc = await getDoc(conversationRef);
+    const lastMessage = conversationDoc.data()?.lastMessage as Message | undefined;
+    if (!lastMessage) return false;
+
+    // Only this participant's cursor changes, so concurrent readers don't clash
+    await updateDoc(conversationRef, {
+      [`lastRead.${userId}`]: getReadCursor(lastMessage),
+    });
+    return true;
+  } catch (error) {
+    console.error('Mark conversation as read error:', error);
     return false;
   }
 };
@@ -359,18 +709,67 @@ export const getUserConversations = async (userId: string): Promise<Conversation
   }
 };
 
-export const getConversationMessages = async (conversationId: string): Promise<Message[]> => {
+export const getConversationMessages = async (
+  conversationId: string,
+  { before, limit: pageSize = MESSAGE_PAGE_SIZE }: MessagePageOptions = {}
+): Promise<MessagePage> => {
   try {
+    // Newest first so the page ends at the cursor, with one extra to tell
+    // whether anything older is left. The ID breaks timestamp ties so a page
+    // boundary never skips messages sent at the same moment
     const messagesQuery = query(
       collection(db, 'messages'),
       where('conversationId', '==', conversationId),
-      orderBy('timestamp', 'asc')
+      orderBy('timestamp', 'desc'),
+      orderBy('id', 'desc'),
+      ...(before ? [startAfter(before.timestamp, before.id)] : []),
+      limit(pageSize + 1)
     );
 
     const snapshot = await getDocs(messagesQuery);
-    return snapshot.docs.map(doc => doc.data() as Message);
+    const messages = snapshot.docs.map(doc => doc.data() as Message);
+    return {
+      messages: messages.slice(0, pageSize).reverse(),
+      hasMore: messages.length > pageSize,
+    };
   } catch (error) {
     console.error('Get messages error:', error);
+    return { messages: [], hasMore: false };
+  }
+};
+
+// Reads only the messages after the user's read cursor, or the whole history
+// for chats read before cursors existed
+export const getUnreadCount = async (conversation: Conversation, userId: string): Promise<number> => {
+  try {
+    const cursor = conversation.lastRead?.[userId];
+    const snapshot = await getDocs(query(
+      collection(db, 'messages'),
+      where('conversationId', '==', conversation.id),
+      ...(cursor ? [where('timestamp', '>', cursor.timestamp)] : [])
+    ));
+    return countUnreadMessages(snapshot.docs.map(doc => doc.data() as Message), conversation, userId);
+  } catch (error) {
+    console.error('Count unread messages error:', error);
+    return 0;
+  }
+};
+
+export const getUserMessages = async (userId: string, since?: string): Promise<Message[]> => {
+  try {
+    const conversationIds = (await getUserConversations(userId)).map(conversation => conversation.id);
+    const snapshots = await Promise.all(
+      chunk(conversationIds).map(ids =>
+        getDocs(query(
+          collection(db, 'messages'),
+          where('conversationId', 'in', ids),
+          ...(since ? [where('timestamp', '>=', since)] : [])
+        ))
+      )
+    );
+    return snapshots.flatMap(snapshot => snapshot.docs.map(doc => doc.data() as Message));
+  } catch (error) {
+    console.error('Get user messages error:', error);
     return [];
   }
 };
@@ -393,6 +792,48 @@ export const getUserNotifications = async (userId: string): Promise<Notification
   }
 };
 
+export const createNotification = async (
+  notification: Omit<Notification, 'id'>
+): Promise<Notification | null> => {
+  try {
+    const notificationRef = doc(collection(db, 'notifications'));
+    const notificationData: Notification = { ...notification, id: notificationRef.id };
+    await setDoc(notificationRef, notificationData);
+    return notificationData;
+  } catch (error) {
+    if (isUnavailableError(error)) throw error;
+    console.error('Create notification error:', error);
+    return null;
+  }
+};
+
+export const deleteNotification = async (notificationId: string): Promise<boolean> => {
+  try {
+    await deleteDoc(doc(db, 'notifications', notificationId));
+    return true;
+  } catch (error) {
+    console.error('Delete notification error:', error);
+    return false;
+  }
+};
+
+export const clearUserNotifications = async (userId: string): Promise<boolean> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, 'notifications'), where('userId', '==', userId))
+    );
+
+    const batch = writeBatch(db);
+    snapshot.docs.forEach(notificationDoc => batch.delete(notificationDoc.ref));
+
+    await batch.commit();
+    return true;
+  } catch (error) {
+    console.error('Clear notifications error:', error);
+    return false;
+  }
+};
+
 export const markNotificationAsRead = async (notificationId: string): Promise<boolean> => {
   try {
     await updateDoc(doc(db, 'notifications', notificationId), { read: true });
@@ -435,4 +876,118 @@ export const subscribeToConversationMessages = (
     const messages = snapshot.docs.map(doc => doc.data() as Message);
     callback(messages);
   });
-};
\ No newline at end of file
+};
+
+// Presence Functions
+export const updatePresence = async (
+  userId: string,
+  update: Partial<Omit<Presence, 'userId'>>
+): Promise<boolean> => {
+  try {
+    await setDoc(doc(db, 'presence', userId), { ...update, userId }, { merge: true });
+    return true;
+  } catch (error) {
+    console.error('Update presence error:', error);
+    return false;
+  }
+};
+
+export const subscribeToPresence = (
+  userIds: string[],
+  callback: (presence: Presence[]) => void
+) => {
+  if (userIds.length === 0) {
+    callback([]);
+    return () => {};
+  }
+
+  // One listener per batch of IDs, merged into a single list for the caller
+  const batches: Presence[][] = [];
+  const unsubscribes = chunk(userIds).map((ids, index) =>
+    onSnapshot(query(collection(db, 'presence'), where(documentId(), 'in', ids)), (snapshot) => {
+      batches[index] = snapshot.docs.map(doc => doc.data() as Presence);
+      callback(batches.flat());
+    })
+  );
+
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
+
+// Change feed
+export const subscribeToChanges = (
+  userId: string,
+  callback: (change: DataChange) => void
+) => {
+  // Each listener's first snapshot is the current state, not a change
+  const listen = <T>(
+    source: Query,
+    toChange: (type: DocumentChangeType, id: string, data: T) => DataChange
+  ) => {
+    let initial = true;
+    return onSnapshot(source, (snapshot) => {
+      if (initial) {
+        initial = false;
+        return;
+      }
+      snapshot.docChanges().forEach((change) => {
+        callback(toChange(change.type, change.doc.id, change.doc.data() as T));
+      });
+    });
+  };
+
+  const eventChange = (type: DocumentChangeType, eventId: string): DataChange => ({
+    type: type === 'added' ? 'event_created' : type === 'removed' ? 'event_deleted' : 'event_updated',
+    eventId,
+  });
+
+  const unsubscribes = [
+    listen<Notification>(
+      query(collection(db, 'notifications'), where('userId', '==', userId)),
+      (type, notificationId) => ({
+        type:
+          type === 'added'
+            ? 'notification_added'
+            : type === 'removed'
+              ? 'notification_deleted'
+              : 'notification_updated',
+        notificationId,
+        userId,
+      })
+    ),
+    listen<Conversation>(
+      query(collection(db, 'conversations'), where('participants', 'array-contains', userId)),
+      (type, conversationId, conversation) => ({
+        type: type === 'removed' ? 'conversation_deleted' : 'conversation_updated',
+        conversationId,
+        participants: conversation.participants,
+      })
+    ),
+    listen<Event>(query(collection(db, 'events'), where('userId', '==', userId)), eventChange),
+    listen<Event>(
+      query(collection(db, 'events'), where('attendeeIds', 'array-contains', userId)),
+      eventChange
+    ),
+    listen<HangoutMatch>(
+      query(collection(db, 'hangoutMatches'), where('users', 'array-contains', userId)),
+      (_type, _matchId, match) => ({
+        type: 'hangout_match_saved',
+        matchId: match.id,
+        users: match.users,
+      })
+    ),
+  ];
+
+  // The user's own profile holds their friends and friend requests
+  let initialUser = true;
+  unsubscribes.push(
+    onSnapshot(doc(db, 'users', userId), () => {
+      if (initialUser) {
+        initialUser = false;
+        return;
+      }
+      callback({ type: 'user_updated', userId });
+    })
+  );
+
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
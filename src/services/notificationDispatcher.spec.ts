@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { BackendService } from "@/services/backend";
+import { createMemoryProvider } from "@/services/providers/memoryProvider";
+import type { DataProvider } from "@/services/dataProvider";
+import { Notification, User } from "@/types";
+import { createNotificationDispatcher } from "./notificationDispatcher";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "@/utils/notificationPreferences";
+
+describe("notification dispatcher", () => {
+  let provider: DataProvider;
+  let bob: User;
+
+  const friendRequest = (): Omit<Notification, "id"> => ({
+    userId: bob.id,
+    type: "friend_request",
+    title: "New Friend Request",
+    message: "Alice Smith sent you a friend request",
+    data: { senderId: "alice" },
+    read: false,
+    createdAt: new Date().toISOString(),
+  });
+
+  beforeEach(async () => {
+    provider = createMemoryProvider(new BackendService());
+    bob = (
+      await provider.createUserAccount(
+        "bob@example.com",
+        "Password1",
+        "bob",
+        "Bob Jones",
+      )
+    ).user!;
+  });
+
+  it("should store notifications the recipient allows", async () => {
+    const dispatcher = createNotificationDispatcher(provider);
+
+    const stored = await dispatcher.dispatch(friendRequest());
+
+    expect(stored?.id).toBeTruthy();
+    expect(await provider.getUserNotifications(bob.id)).toHaveLength(1);
+  });
+
+  it("should skip notifications the recipient turned off", async () => {
+    await provider.updateUser(bob.id, {
+      notificationPreferences: {
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        friendRequests: false,
+      },
+    });
+    const dispatcher = createNotificationDispatcher(provider);
+
+    expect(await dispatcher.dispatchAll([friendRequest()])).toEqual([null]);
+    expect(await provider.getUserNotifications(bob.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+import { Notification } from "@/types";
+import { DataProvider, dataProvider } from "@/services/dataProvider";
+import { getNotificationDelivery } from "@/utils/notificationPreferences";
+
+export interface NotificationDispatcher {
+  // Resolves to the stored notification, or null when preferences drop it
+  dispatch: (
+    notification: Omit<Notification, "id">,
+  ) => Promise<Notification | null>;
+  dispatchAll: (
+    notifications: Omit<Notification, "id">[],
+  ) => Promise<(Notification | null)[]>;
+}
+
+/**
+ * The one way notifications get created. Each is checked against its
+ * recipient's notification preferences before it's stored.
+ */
+export const createNotificationDispatcher = (
+  provider: DataProvider,
+): NotificationDispatcher => {
+  const dispatch = async (notification: Omit<Notification, "id">) => {
+    try {
+      const recipient = await provider.getUser(notification.userId);
+      const delivery = getNotificationDelivery(notification, recipient);
+      if (!delivery.deliver) return null;
+
+      return await provider.addNotification({
+        ...notification,
+        ...(delivery.deliverAt && { deliverAt: delivery.deliverAt }),
+      });
+    } catch (error) {
+      console.error("Error dispatching notification:", error);
+      return null;
+    }
+  };
+
+  return {
+    dispatch,
+    dispatchAll: (notifications) => Promise.all(notifications.map(dispatch)),
+  };
+};
+
+export const notificationDispatcher =
+  createNotificationDispatcher(dataProvider);
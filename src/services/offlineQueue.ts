@@ -0,0 +1,478 @@
+import { DataChange, SyncStatus } from "@/types";
+import { generateId } from "@/lib/utils";
+import type { DataProvider } from "@/services/dataProvider";
+import { getMessageConversationId } from "@/utils/conversations";
+import { Migration, openDatabase } from "@/utils/database";
+import {
+  MAX_SYNC_ATTEMPTS,
+  PENDING_ID_PREFIX,
+  QueuedMutation,
+  QueuedWrite,
+  enqueueMutation,
+  findStoredEvent,
+  getMutationRecordId,
+  getRetryDelay,
+  getSyncStatus,
+  isMessageStored,
+  isUnavailableError,
+  shouldReplayEventUpdate,
+  toStoredRecord,
+  withResolvedEventIds,
+} from "@/utils/offlineSync";
+
+const DB_NAME = "social_network_offline";
+const STORE_NAME = "queued_writes";
+const REPLAYED_IDS_STORE = "replayed_ids";
+const SYNC_LOCK = "social_network_sync";
+
+// Stands in for the ID of a record created offline until it replays
+export const createPendingId = () => `${PENDING_ID_PREFIX}${generateId()}`;
+
+// A record created offline, mapped to the ID it was stored under
+interface ReplayedId {
+  pendingId: string;
+  storedId: string;
+}
+
+// Entries are written one by one, so tabs never overwrite each other's writes
+export interface QueueStorage {
+  load: () => Promise<QueuedWrite[]>;
+  put: (...writes: QueuedWrite[]) => Promise<void>;
+  delete: (...ids: string[]) => Promise<void>;
+  loadReplayedIds: () => Promise<Map<string, string>>;
+  saveReplayedId: (pendingId: string, storedId: string) => Promise<void>;
+}
+
+const QUEUE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create the queued writes store",
+    upgrade: (database) => {
+      database.createObjectStore(STORE_NAME, { keyPath: "id" });
+    },
+  },
+  {
+    version: 2,
+    description: "Remember the stored IDs of replayed records",
+    upgrade: (database) => {
+      database.createObjectStore(REPLAYED_IDS_STORE, { keyPath: "pendingId" });
+    },
+  },
+];
+
+const byQueuedAt = (writes: QueuedWrite[]) =>
+  [...writes].sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+/**
+ * Keeps the queue in IndexedDB so writes survive a reload while offline.
+ * Falls back to memory where IndexedDB isn't available.
+ */
+export const createQueueStorage = (): QueueStorage => {
+  if (typeof indexedDB === "undefined") {
+    const stored = new Map<string, QueuedWrite>();
+    const replayedIds = new Map<string, string>();
+    return {
+      load: async () => byQueuedAt([...stored.values()]),
+      put: async (...writes) => {
+        writes.forEach((write) => stored.set(write.id, write));
+      },
+      delete: async (...ids) => {
+        ids.forEach((id) => stored.delete(id));
+      },
+      loadReplayedIds: async () => new Map(replayedIds),
+      saveReplayedId: async (pendingId, storedId) => {
+        replayedIds.set(pendingId, storedId);
+      },
+    };
+  }
+
+  const database = openDatabase(DB_NAME, QUEUE_MIGRATIONS);
+
+  return {
+    load: async () => {
+      try {
+        return byQueuedAt(await database.getAll<QueuedWrite>(STORE_NAME));
+      } catch (error) {
+        console.error("Error loading offline queue:", error);
+        return [];
+      }
+    },
+    put: async (...writes) => {
+      try {
+        await database.put(STORE_NAME, ...writes);
+      } catch (error) {
+        console.error("Error saving offline queue:", error);
+      }
+    },
+    delete: async (...ids) => {
+      try {
+        await database.delete(STORE_NAME, ...ids);
+      } catch (error) {
+        console.error("Error saving offline queue:", error);
+      }
+    },
+    loadReplayedIds: async () => {
+      try {
+        const replayed = await database.getAll<ReplayedId>(REPLAYED_IDS_STORE);
+        return new Map(replayed.map((id) => [id.pendingId, id.storedId]));
+      } catch (error) {
+        console.error("Error loading replayed IDs:", error);
+        return new Map();
+      }
+    },
+    saveReplayedId: async (pendingId, storedId) => {
+      try {
+        await database.put<ReplayedId>(REPLAYED_IDS_STORE, {
+          pendingId,
+          storedId,
+        });
+      } catch (error) {
+        console.error("Error saving replayed ID:", error);
+      }
+    },
+  };
+};
+
+export interface OfflineQueue {
+  // Settles once the queue saved by an earlier session is loaded
+  ready: Promise<void>;
+  getQueue: () => QueuedWrite[];
+  isOnline: () => boolean;
+  enqueue: (mutation: QueuedMutation) => Promise<void>;
+  // Drops queued writes to a record, e.g. an unsent event that got deleted
+  discard: (recordId: string) => Promise<void>;
+  // The stored ID of a created record that has since replayed
+  resolveId: (recordId: string) => string;
+  replay: () => Promise<void>;
+  // Gives failed writes a fresh set of attempts
+  retry: () => Promise<void>;
+  discardFailed: () => Promise<void>;
+  subscribe: (callback: (status: SyncStatus) => void) => () => void;
+  subscribeToChanges: (callback: (change: DataChange) => void) => () => void;
+}
+
+interface OfflineQueueOptions {
+  storage?: QueueStorage;
+  isOnline?: () => boolean;
+}
+
+const isBrowserOnline = () =>
+  typeof navigator === "undefined" || navigator.onLine;
+
+// Changes that make views pick up a queued write, or drop it once replayed
+const toChange = (mutation: QueuedMutation): DataChange | null => {
+  switch (mutation.type) {
+    case "create_event":
+      return { type: "event_created", eventId: mutation.event.id };
+    case "update_event":
+      return { type: "event_updated", eventId: mutation.event.id };
+    case "delete_event":
+      return { type: "event_deleted", eventId: mutation.eventId };
+    case "send_message": {
+      const { message } = mutation;
+      return {
+        type: "message_sent",
+        conversationId: getMessageConversationId(message),
+        messageId: message.id,
+        participants: [
+          message.senderId,
+          ...(message.receiverId ? [message.receiverId] : []),
+        ],
+      };
+    }
+    case "add_notification":
+      return {
+        type: "notification_added",
+        notificationId: mutation.notification.id,
+        userId: mutation.notification.userId,
+      };
+    case "save_hangout_match":
+      return {
+        type: "hangout_match_saved",
+        matchId: mutation.match.id,
+        users: mutation.match.users,
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Holds writes that couldn't reach `provider` and replays them, oldest first,
+ * once the browser is back online. A write that keeps failing is retried with
+ * exponential backoff and, after MAX_SYNC_ATTEMPTS, left for a manual retry.
+ * Tabs share the queue through IndexedDB and take turns replaying it.
+ */
+export const createOfflineQueue = (
+  provider: DataProvider,
+  options: OfflineQueueOptions = {},
+): OfflineQueue => {
+  const storage = options.storage || createQueueStorage();
+  const isOnline = options.isOnline || isBrowserOnline;
+  const statusListeners = new Set<(status: SyncStatus) => void>();
+  const changeListeners = new Set<(change: DataChange) => void>();
+  let replayedIds = new Map<string, string>();
+  let queue: QueuedWrite[] = [];
+  let replaying: Promise<void> | null = null;
+  let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const notify = () => {
+    const status = getSyncStatus(queue, isOnline());
+    statusListeners.forEach((listener) => listener(status));
+  };
+
+  const emit = (mutation: QueuedMutation) => {
+    const change = toChange(mutation);
+    if (change) changeListeners.forEach((listener) => listener(change));
+  };
+
+  // Only stores the entries that changed, never this tab's whole copy
+  const setQueue = async (next: QueuedWrite[]) => {
+    const previous = queue;
+    queue = next;
+    notify();
+
+    const removed = previous
+      .filter((write) => !next.some((entry) => entry.id === write.id))
+      .map((write) => write.id);
+    const changed = next.filter((write) => !previous.includes(write));
+    if (removed.length > 0) await storage.delete(...removed);
+    if (changed.length > 0) await storage.put(...changed);
+  };
+
+  // Picks up writes and replays other tabs made since this one last looked
+  const reload = async () => {
+    [queue, replayedIds] = await Promise.all([
+      storage.load(),
+      storage.loadReplayedIds(),
+    ]);
+  };
+
+  // Resolves whether the write reached the server, or was made moot there
+  const apply = async (queued: QueuedMutation): Promise<boolean> => {
+    const mutation = withResolvedEventIds(
+      queued,
+      (eventId) => replayedIds.get(eventId) || eventId,
+    );
+    switch (mutation.type) {
+      case "create_event": {
+        // An earlier replay may have stored the event without hearing back
+        const { event } = mutation;
+        const saved =
+          (event.clientId &&
+            findStoredEvent(
+              event,
+              await provider.getUserEvents(event.userId),
+            )) ||
+          (await provider.createEvent(toStoredRecord(event)));
+        if (saved) {
+          replayedIds.set(mutation.event.id, saved.id);
+          await storage.saveReplayedId(mutation.event.id, saved.id);
+        }
+        return Boolean(saved);
+      }
+      case "update_event": {
+        const event = {
+          ...mutation.event,
+          id: replayedIds.get(mutation.event.id) || mutation.event.id,
+        };
+        const stored = (await provider.getUserEvents(event.userId)).find(
+          (candidate) => candidate.id === event.id,
+        );
+        if (!shouldReplayEventUpdate(event, stored)) return true;
+        return provider.updateEvent({ ...toStoredRecord(event), id: event.id });
+      }
+      case "delete_event":
+        return provider.deleteEvent(
+          replayedIds.get(mutation.eventId) || mutation.eventId,
+        );
+      case "send_message": {
+        const { message } = mutation;
+        const page = await provider.getConversationMessages(
+          getMessageConversationId(message),
+        );
+        if (isMessageStored(message, page.messages)) return true;
+        return Boolean(await provider.sendMessage(toStoredRecord(message)));
+      }
+      case "send_friend_request":
+        return provider.sendFriendRequest(
+          mutation.fromUserId,
+          mutation.toUserId,
+        );
+      case "add_notification":
+        return Boolean(
+          await provider.addNotification(toStoredRecord(mutation.notification)),
+        );
+      case "save_hangout_match":
+        return provider.saveHangoutMatch(mutation.match);
+    }
+  };
+
+  const scheduleRetry = () => {
+    if (retryTimeout) clearTimeout(retryTimeout);
+    retryTimeout = null;
+
+    // Writes replay in order, so the first one decides when the next try is
+    const [next] = queue;
+    if (!next || next.failed || !isOnline()) return;
+
+    retryTimeout = setTimeout(
+      () => replay(),
+      Math.max(0, new Date(next.retryAt).getTime() - Date.now()),
+    );
+  };
+
+  const replayDue = async () => {
+    await reload();
+
+    for (const write of queue) {
+      if (!isOnline()) break;
+      // Waiting and failed writes hold back the ones queued after them
+      if (write.failed || new Date(write.retryAt).getTime() > Date.now()) {
+        break;
+      }
+
+      let success = false;
+      // The provider answered and said no; retrying won't change that
+      let rejected = false;
+      try {
+        success = await apply(write.mutation);
+        rejected = !success;
+      } catch (error) {
+        console.error("Error replaying queued write:", error);
+        rejected = !isUnavailableError(error);
+      }
+
+      if (success) {
+        await setQueue(queue.filter((queued) => queued.id !== write.id));
+        emit(write.mutation);
+        continue;
+      }
+
+      const attempts = write.attempts + 1;
+      await setQueue(
+        queue.map((queued) =>
+          queued.id === write.id
+            ? {
+                ...queued,
+                attempts,
+                retryAt: new Date(
+                  Date.now() + getRetryDelay(attempts),
+                ).toISOString(),
+                ...((rejected || attempts >= MAX_SYNC_ATTEMPTS) && {
+                  failed: true,
+                }),
+              }
+            : queued,
+        ),
+      );
+      // Later writes may depend on this one, e.g. messages keep their order
+      break;
+    }
+  };
+
+  const replay = async () => {
+    await ready;
+    if (!isOnline()) return;
+    if (replaying) return replaying;
+
+    const locks = typeof navigator !== "undefined" && navigator.locks;
+    replaying = (
+      locks ? locks.request(SYNC_LOCK, replayDue) : replayDue()
+    ).finally(() => {
+      replaying = null;
+      notify();
+      scheduleRetry();
+    });
+    return replaying;
+  };
+
+  const ready = reload().then(notify);
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", () => {
+      notify();
+      replay();
+    });
+    window.addEventListener("offline", notify);
+  }
+  replay();
+
+  return {
+    ready,
+    getQueue: () => queue,
+    isOnline,
+
+    enqueue: async (mutation) => {
+      await ready;
+      // Coalesce with what's stored now, including other tabs' writes
+      await reload();
+      const now = new Date().toISOString();
+      await setQueue(
+        enqueueMutation(queue, {
+          id: generateId(),
+          mutation,
+          queuedAt: now,
+          attempts: 0,
+          retryAt: now,
+        }),
+      );
+      emit(mutation);
+      scheduleRetry();
+    },
+
+    discard: async (recordId) => {
+      await ready;
+      await reload();
+      await setQueue(
+        queue.filter(
+          (write) => getMutationRecordId(write.mutation) !== recordId,
+        ),
+      );
+    },
+
+    resolveId: (recordId) => replayedIds.get(recordId) || recordId,
+
+    replay,
+
+    retry: async () => {
+      await ready;
+      await reload();
+      const now = new Date().toISOString();
+      await setQueue(
+        queue.map((write) => ({
+          ...write,
+          attempts: 0,
+          retryAt: now,
+          failed: false,
+        })),
+      );
+      await replay();
+    },
+
+    discardFailed: async () => {
+      await ready;
+      await reload();
+      const failed = queue.filter((write) => write.failed);
+      await setQueue(queue.filter((write) => !write.failed));
+      failed.forEach((write) => emit(write.mutation));
+      // Writes held back behind the failed ones can go out now
+      await replay();
+    },
+
+    subscribe: (callback) => {
+      statusListeners.add(callback);
+      callback(getSyncStatus(queue, isOnline()));
+      return () => {
+        statusListeners.delete(callback);
+      };
+    },
+
+    subscribeToChanges: (callback) => {
+      changeListeners.add(callback);
+      return () => {
+        changeListeners.delete(callback);
+      };
+    },
+  };
+};
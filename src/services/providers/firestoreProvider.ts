@@ -0,0 +1,123 @@
+import { User } from "@/types";
+import type { DataProvider } from "@/services/dataProvider";
+import {
+  createUserAccount,
+  signInUser,
+  signOutUser,
+  onAuthStateChange,
+  getUserById,
+  getUsersByIds,
+  updateUserProfile,
+  searchUsers,
+  sendFriendRequest,
+  acceptFriendRequest,
+  rejectFriendRequest,
+  cancelFriendRequest,
+  removeFriend,
+  blockUser,
+  unblockUser,
+  reportUser,
+  createEvent,
+  getUserEvents,
+  getEventsForUsers,
+  getSharedEvents,
+  updateEvent,
+  respondToInvite,
+  deleteEvent,
+  getUserHangoutMatches,
+  saveHangoutMatch,
+  sendMessage,
+  updateMessage,
+  getUserConversations,
+  getConversationMessages,
+  getUnreadCount,
+  getUserMessages,
+  saveConversation,
+  deleteConversation,
+  markConversationAsRead,
+  getUserNotifications,
+  createNotification,
+  markNotificationAsRead,
+  deleteNotification,
+  clearUserNotifications,
+  updatePresence,
+  subscribeToPresence,
+  subscribeToChanges,
+} from "@/services/firebase";
+import { SYNCED_STATUS } from "@/utils/offlineSync";
+
+export const createFirestoreProvider = (): DataProvider => ({
+  kind: "firestore",
+
+  createUserAccount,
+  signIn: signInUser,
+  signOut: signOutUser,
+  onAuthStateChange,
+
+  getUser: getUserById,
+  getUsers: getUsersByIds,
+  updateUser: updateUserProfile,
+  searchUsers,
+
+  getFriends: async (userId) => {
+    const user = await getUserById(userId);
+    return user ? getUsersByIds(user.friends) : ([] as User[]);
+  },
+  sendFriendRequest,
+  acceptFriendRequest,
+  rejectFriendRequest,
+  cancelFriendRequest,
+  removeFriend,
+
+  blockUser,
+  unblockUser,
+  reportUser,
+
+  getUserEvents,
+  getEventsForUsers,
+  getSharedEvents,
+  createEvent,
+  updateEvent,
+  respondToInvite,
+  deleteEvent,
+
+  getUserHangoutMatches,
+  saveHangoutMatch,
+
+  // Firestore keeps messages in their own collection, so hydrate them here
+  getUserConversations: async (userId) => {
+    const conversations = await getUserConversations(userId);
+    return Promise.all(
+      conversations.map(async (conversation) => ({
+        ...conversation,
+        messages: (await getConversationMessages(conversation.id)).messages,
+        unreadCount: await getUnreadCount(conversation, userId),
+      })),
+    );
+  },
+  getConversationMessages,
+  getUserMessages,
+  saveConversation,
+  deleteConversation,
+  sendMessage,
+  updateMessage,
+  markConversationAsRead,
+
+  getUserNotifications,
+  addNotification: createNotification,
+  markNotificationAsRead,
+  deleteNotification,
+  clearUserNotifications,
+
+  updatePresence,
+  subscribeToPresence,
+  subscribeToChanges,
+
+  // withOfflineQueue takes over these once it wraps the adapter
+  subscribeToSyncStatus: (callback) => {
+    callback(SYNCED_STATUS);
+    return () => {};
+  },
+  retrySync: async () => {},
+  discardFailedSync: async () => {},
+});
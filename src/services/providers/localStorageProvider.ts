@@ -0,0 +1,635 @@
+import { User, Event, Message, Notification, UserReport } from "@/types";
+import type { DataProvider } from "@/services/dataProvider";
+import {
+  userStorage,
+  credentialStorage,
+  eventStorage,
+  conversationStorage,
+  messageStorage,
+  notificationStorage,
+  hangoutMatchStorage,
+  presenceStorage,
+  reportStorage,
+} from "@/utils/storage";
+import { generateId } from "@/lib/utils";
+import {
+  countUnreadMessages,
+  getMessageConversationId,
+  getReadCursor,
+} from "@/utils/conversations";
+import { createChangeFeed, isChangeFor } from "@/services/changeFeed";
+import { SYNCED_STATUS } from "@/utils/offlineSync";
+import {
+  isBlockedBetween,
+  withUserBlocked,
+  withUserUnblocked,
+  withoutConnection,
+} from "@/utils/blocking";
+import { withRsvp, withStoredRsvps } from "@/utils/sharedHangouts";
+
+// Presence changes made in this tab; other tabs' arrive as storage events
+const presenceListeners = new Set<() => void>();
+
+const hashPassword = async (password: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(password),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const getParticipants = async (conversationId: string): Promise<string[]> =>
+  (await conversationStorage.getConversation(conversationId))?.participants ||
+  [];
+
+// The whole history without a start time, e.g. for chats read before read
+// cursors existed
+const getMessagesSince = (conversationId: string, since?: string) =>
+  since
+    ? messageStorage.getMessagesSince(conversationId, since)
+    : messageStorage.getMessages(conversationId);
+
+// Storage rethrows write errors once logged; the write then resolves to the
+// provider's usual failure value
+const tryWrite = async <T>(
+  fallback: T,
+  write: () => Promise<T>,
+): Promise<T> => {
+  try {
+    return await write();
+  } catch {
+    return fallback;
+  }
+};
+
+// Writes are published to every open tab, since they all share the storage
+const changeFeed = createChangeFeed("social_network_changes");
+
+// Auth listeners only need to hear about sign-in/out within this tab
+const authListeners = new Set<(user: User | null) => void>();
+
+const notifyAuthListeners = (user: User | null) => {
+  authListeners.forEach((listener) => listener(user));
+};
+
+export const createLocalStorageProvider = (): DataProvider => ({
+  kind: "local",
+
+  createUserAccount: (email, password, username, fullName) =>
+    tryWrite(
+      { success: false, error: "Failed to create account" },
+      async () => {
+        if (await userStorage.getUserByUsername(username.toLowerCase())) {
+          return { success: false, error: "Username already exists" };
+        }
+
+        if (await credentialStorage.getCredential(email)) {
+          return { success: false, error: "Email already exists" };
+        }
+
+        const user: User = {
+          id: generateId(),
+          email: email.toLowerCase(),
+          username: username.toLowerCase(),
+          fullName,
+          friends: [],
+          friendRequests: {
+            sent: [],
+            received: [],
+          },
+          createdAt: new Date().toISOString(),
+        };
+
+        await userStorage.addUser(user);
+        await credentialStorage.setCredential(
+          user.email,
+          await hashPassword(password),
+          user.id,
+        );
+        userStorage.setCurrentUser(user);
+        notifyAuthListeners(user);
+
+        return { success: true, user };
+      },
+    ),
+
+  signIn: async (email, password) => {
+    const credential = await credentialStorage.getCredential(email);
+    if (
+      !credential ||
+      credential.passwordHash !== (await hashPassword(password))
+    ) {
+      return { success: false, error: "Invalid email or password" };
+    }
+
+    const user = await userStorage.getUser(credential.userId);
+    if (!user) {
+      return { success: false, error: "User data not found" };
+    }
+
+    userStorage.setCurrentUser(user);
+    notifyAuthListeners(user);
+    return { success: true, user };
+  },
+
+  signOut: async () => {
+    userStorage.setCurrentUser(null);
+    notifyAuthListeners(null);
+  },
+
+  onAuthStateChange: (callback) => {
+    authListeners.add(callback);
+    callback(userStorage.getCurrentUser());
+    return () => {
+      authListeners.delete(callback);
+    };
+  },
+
+  getUser: (userId) => userStorage.getUser(userId),
+
+  getUsers: async (userIds) =>
+    (await userStorage.getUsers()).filter((user) => userIds.includes(user.id)),
+
+  updateUser: (userId, updates) =>
+    tryWrite(false, async () => {
+      const stored = await userStorage.getUser(userId);
+      if (!stored) return false;
+      await userStorage.updateUser({ ...stored, ...updates });
+      changeFeed.publish({ type: "user_updated", userId });
+      return true;
+    }),
+
+  searchUsers: async (query, currentUserId) => {
+    const searchTerm = query.toLowerCase().trim();
+    if (!searchTerm) return [];
+
+    const currentUser = await userStorage.getUser(currentUserId);
+    return (await userStorage.getUsers()).filter(
+      (user) =>
+        user.id !== currentUserId &&
+        !isBlockedBetween(currentUser, user) &&
+        (user.username.toLowerCase().includes(searchTerm) ||
+          user.fullName.toLowerCase().includes(searchTerm) ||
+          user.email.toLowerCase().includes(searchTerm)),
+    );
+  },
+
+  getFriends: async (userId) => {
+    const users = await userStorage.getUsers();
+    const user = users.find((u) => u.id === userId);
+    if (!user) return [];
+    return users.filter((u) => user.friends.includes(u.id));
+  },
+
+  sendFriendRequest: (fromUserId, toUserId) =>
+    tryWrite(false, async () => {
+      const fromUser = await userStorage.getUser(fromUserId);
+      const toUser = await userStorage.getUser(toUserId);
+      if (!fromUser || !toUser || isBlockedBetween(fromUser, toUser)) {
+        return false;
+      }
+
+      await userStorage.updateUser({
+        ...fromUser,
+        friendRequests: {
+          ...fromUser.friendRequests,
+          sent: [...new Set([...fromUser.friendRequests.sent, toUserId])],
+        },
+      });
+      await userStorage.updateUser({
+        ...toUser,
+        friendRequests: {
+          ...toUser.friendRequests,
+          received: [
+            ...new Set([...toUser.friendRequests.received, fromUserId]),
+          ],
+        },
+      });
+
+      changeFeed.publish({ type: "user_updated", userId: fromUserId });
+      changeFeed.publish({ type: "user_updated", userId: toUserId });
+      return true;
+    }),
+
+  acceptFriendRequest: (userId, requesterId) =>
+    tryWrite(false, async () => {
+      const user = await userStorage.getUser(userId);
+      const requester = await userStorage.getUser(requesterId);
+      // The request may have been cancelled, or either side blocked the other
+      if (
+        !user ||
+        !requester ||
+        !user.friendRequests.received.includes(requesterId) ||
+        isBlockedBetween(user, requester)
+      ) {
+        return false;
+      }
+
+      await userStorage.updateUser({
+        ...user,
+        friends: [...new Set([...user.friends, requesterId])],
+        friendRequests: {
+          ...user.friendRequests,
+          received: user.friendRequests.received.filter(
+            (id) => id !== requesterId,
+          ),
+        },
+      });
+      await userStorage.updateUser({
+        ...requester,
+        friends: [...new Set([...requester.friends, userId])],
+        friendRequests: {
+          ...requester.friendRequests,
+          sent: requester.friendRequests.sent.filter((id) => id !== userId),
+        },
+      });
+
+      changeFeed.publish({ type: "user_updated", userId });
+      changeFeed.publish({ type: "user_updated", userId: requesterId });
+      return true;
+    }),
+
+  rejectFriendRequest: (userId, requesterId) =>
+    tryWrite(false, async () => {
+      const user = await userStorage.getUser(userId);
+      const requester = await userStorage.getUser(requesterId);
+      if (!user || !requester) return false;
+
+      await userStorage.updateUser({
+        ...user,
+        friendRequests: {
+          ...user.friendRequests,
+          received: user.friendRequests.received.filter(
+            (id) => id !== requesterId,
+          ),
+        },
+      });
+      await userStorage.updateUser({
+        ...requester,
+        friendRequests: {
+          ...requester.friendRequests,
+          sent: requester.friendRequests.sent.filter((id) => id !== userId),
+        },
+      });
+
+      changeFeed.publish({ type: "user_updated", userId });
+      changeFeed.publish({ type: "user_updated", userId: requesterId });
+      return true;
+    }),
+
+  cancelFriendRequest: (fromUserId, toUserId) =>
+    tryWrite(false, async () => {
+      const fromUser = await userStorage.getUser(fromUserId);
+      const toUser = await userStorage.getUser(toUserId);
+      if (!fromUser || !toUser) return false;
+
+      await userStorage.updateUser({
+        ...fromUser,
+        friendRequests: {
+          ...fromUser.friendRequests,
+          sent: fromUser.friendRequests.sent.filter((id) => id !== toUserId),
+        },
+      });
+      await userStorage.updateUser({
+        ...toUser,
+        friendRequests: {
+          ...toUser.friendRequests,
+          received: toUser.friendRequests.received.filter(
+            (id) => id !== fromUserId,
+          ),
+        },
+      });
+
+      changeFeed.publish({ type: "user_updated", userId: fromUserId });
+      changeFeed.publish({ type: "user_updated", userId: toUserId });
+      return true;
+    }),
+
+  removeFriend: (userId, friendId) =>
+    tryWrite(false, async () => {
+      const user = await userStorage.getUser(userId);
+      const friend = await userStorage.getUser(friendId);
+      if (!user || !friend) return false;
+
+      await userStorage.updateUser(withoutConnection(user, friendId));
+      await userStorage.updateUser(withoutConnection(friend, userId));
+
+      changeFeed.publish({ type: "user_updated", userId });
+      changeFeed.publish({ type: "user_updated", userId: friendId });
+      return true;
+    }),
+
+  blockUser: (userId, blockedUserId) =>
+    tryWrite(false, async () => {
+      const user = await userStorage.getUser(userId);
+      const blockedUser = await userStorage.getUser(blockedUserId);
+      if (!user || !blockedUser || userId === blockedUserId) return false;
+
+      await userStorage.updateUser(withUserBlocked(user, blockedUserId));
+      await userStorage.updateUser(withoutConnection(blockedUser, userId));
+
+      changeFeed.publish({ type: "user_updated", userId });
+      changeFeed.publish({ type: "user_updated", userId: blockedUserId });
+      return true;
+    }),
+
+  unblockUser: (userId, blockedUserId) =>
+    tryWrite(false, async () => {
+      const user = await userStorage.getUser(userId);
+      if (!user) return false;
+
+      await userStorage.updateUser(withUserUnblocked(user, blockedUserId));
+      changeFeed.publish({ type: "user_updated", userId });
+      return true;
+    }),
+
+  reportUser: (report) =>
+    tryWrite(null, async () => {
+      const newReport: UserReport = { ...report, id: generateId() };
+      await reportStorage.addReport(newReport);
+      return newReport;
+    }),
+
+  getUserEvents: (userId) => eventStorage.getUserEvents(userId),
+
+  getEventsForUsers: async (userIds) =>
+    (await Promise.all(userIds.map(eventStorage.getUserEvents))).flat(),
+
+  getSharedEvents: (userId) => eventStorage.getSharedEvents(userId),
+
+  createEvent: (event) =>
+    tryWrite(null, async () => {
+      const newEvent = { ...event, id: generateId() } as Event;
+      await eventStorage.addEvent(newEvent);
+      changeFeed.publish({ type: "event_created", eventId: newEvent.id });
+      return newEvent;
+    }),
+
+  updateEvent: (event) =>
+    tryWrite(false, async () => {
+      const stored = await eventStorage.getEvent(event.id);
+      if (!stored) return false;
+
+      await eventStorage.updateEvent(withStoredRsvps(event, stored));
+      changeFeed.publish({ type: "event_updated", eventId: event.id });
+      return true;
+    }),
+
+  respondToInvite: (eventId, userId, status) =>
+    tryWrite(false, async () => {
+      const stored = await eventStorage.getEvent(eventId);
+      if (!stored) return false;
+
+      await eventStorage.updateEvent(withRsvp(stored, userId, status));
+      changeFeed.publish({ type: "event_updated", eventId });
+      return true;
+    }),
+
+  deleteEvent: (eventId) =>
+    tryWrite(false, async () => {
+      await eventStorage.deleteEvent(eventId);
+      changeFeed.publish({ type: "event_deleted", eventId });
+      return true;
+    }),
+
+  getUserHangoutMatches: (userId) => hangoutMatchStorage.getUserMatches(userId),
+
+  saveHangoutMatch: (match) =>
+    tryWrite(false, async () => {
+      await hangoutMatchStorage.saveMatch(match);
+      changeFeed.publish({
+        type: "hangout_match_saved",
+        matchId: match.id,
+        users: match.users,
+      });
+      return true;
+    }),
+
+  getUserConversations: async (userId) =>
+    Promise.all(
+      (await conversationStorage.getUserConversations(userId)).map(
+        async (conversation) => ({
+          ...conversation,
+          messages: (await messageStorage.getMessagePage(conversation.id))
+            .messages,
+          unreadCount: countUnreadMessages(
+            await getMessagesSince(
+              conversation.id,
+              conversation.lastRead?.[userId]?.timestamp,
+            ),
+            conversation,
+            userId,
+          ),
+        }),
+      ),
+    ),
+
+  getUserMessages: async (userId, since) =>
+    (
+      await Promise.all(
+        (await conversationStorage.getUserConversations(userId)).map(
+          (conversation) => getMessagesSince(conversation.id, since),
+        ),
+      )
+    ).flat(),
+
+  getConversationMessages: (conversationId, page) =>
+    messageStorage.getMessagePage(conversationId, page),
+
+  saveConversation: (conversation) =>
+    tryWrite(false, async () => {
+      await conversationStorage.setConversation(conversation);
+      changeFeed.publish({
+        type: "conversation_updated",
+        conversationId: conversation.id,
+        participants: conversation.participants,
+      });
+      return true;
+    }),
+
+  deleteConversation: (conversationId) =>
+    tryWrite(false, async () => {
+      const participants = await getParticipants(conversationId);
+      await conversationStorage.deleteConversation(conversationId);
+      changeFeed.publish({
+        type: "conversation_deleted",
+        conversationId,
+        participants,
+      });
+      return true;
+    }),
+
+  sendMessage: (message) =>
+    tryWrite(null, async () => {
+      // Group chats stay open; blocks only stop direct messages
+      if (
+        message.receiverId &&
+        isBlockedBetween(
+          await userStorage.getUser(message.senderId),
+          await userStorage.getUser(message.receiverId),
+        )
+      ) {
+        return null;
+      }
+
+      const newMessage: Message = {
+        ...message,
+        id: generateId(),
+        conversationId: getMessageConversationId(message),
+      };
+      await conversationStorage.addMessage(newMessage);
+      changeFeed.publish({
+        type: "message_sent",
+        conversationId: newMessage.conversationId!,
+        messageId: newMessage.id,
+        participants: await getParticipants(newMessage.conversationId!),
+      });
+      return newMessage;
+    }),
+
+  updateMessage: (message, change) =>
+    tryWrite(false, async () => {
+      // Older stored messages don't carry their conversation ID
+      const conversationId = getMessageConversationId(message);
+      const stored = await messageStorage.getMessage(message.id);
+      if (!stored) return false;
+
+      const updated = change ? change(stored) : message;
+      await messageStorage.setMessage(updated);
+
+      const conversation =
+        await conversationStorage.getConversation(conversationId);
+      if (conversation?.lastMessage?.id === message.id) {
+        await conversationStorage.setConversation({
+          ...conversation,
+          lastMessage: updated,
+        });
+      }
+      changeFeed.publish({
+        type: "message_updated",
+        conversationId,
+        messageId: message.id,
+        participants: conversation?.participants || [],
+      });
+      return true;
+    }),
+
+  markConversationAsRead: (conversationId, userId) =>
+    tryWrite(false, async () => {
+      // Messages are appended in order, so the last one is the newest
+      const conversation =
+        await conversationStorage.getConversation(conversationId);
+      if (conversation?.lastMessage) {
+        await conversationStorage.setConversation({
+          ...conversation,
+          lastRead: {
+            ...conversation.lastRead,
+            [userId]: getReadCursor(conversation.lastMessage),
+          },
+        });
+      }
+      changeFeed.publish({
+        type: "conversation_updated",
+        conversationId,
+        participants: conversation?.participants || [],
+      });
+      return true;
+    }),
+
+  getUserNotifications: (userId) =>
+    notificationStorage.getUserNotifications(userId),
+
+  addNotification: (notification) =>
+    tryWrite(null, async () => {
+      const newNotification: Notification = {
+        ...notification,
+        id: generateId(),
+      };
+      await notificationStorage.addNotification(newNotification);
+      changeFeed.publish({
+        type: "notification_added",
+        notificationId: newNotification.id,
+        userId: newNotification.userId,
+      });
+      return newNotification;
+    }),
+
+  markNotificationAsRead: (notificationId) =>
+    tryWrite(false, async () => {
+      await notificationStorage.markAsRead(notificationId);
+      const notification =
+        await notificationStorage.getNotification(notificationId);
+      if (notification) {
+        changeFeed.publish({
+          type: "notification_updated",
+          notificationId,
+          userId: notification.userId,
+        });
+      }
+      return true;
+    }),
+
+  deleteNotification: (notificationId) =>
+    tryWrite(false, async () => {
+      const notification =
+        await notificationStorage.getNotification(notificationId);
+      await notificationStorage.deleteNotifications(notificationId);
+      if (notification) {
+        changeFeed.publish({
+          type: "notification_deleted",
+          notificationId,
+          userId: notification.userId,
+        });
+      }
+      return true;
+    }),
+
+  clearUserNotifications: (userId) =>
+    tryWrite(false, async () => {
+      const notifications =
+        await notificationStorage.getUserNotifications(userId);
+      await notificationStorage.deleteNotifications(
+        ...notifications.map((notification) => notification.id),
+      );
+      changeFeed.publish({ type: "notifications_cleared", userId });
+      return true;
+    }),
+
+  updatePresence: async (userId, update) => {
+    presenceStorage.updatePresence(userId, update);
+    presenceListeners.forEach((listener) => listener());
+    return true;
+  },
+
+  subscribeToPresence: (userIds, callback) => {
+    const notify = () => {
+      const presence = presenceStorage.getPresence();
+      callback(userIds.map((id) => presence[id]).filter(Boolean));
+    };
+
+    notify();
+    presenceListeners.add(notify);
+    // Other tabs, possibly signed in as other users, write to the same store
+    window.addEventListener("storage", notify);
+
+    return () => {
+      presenceListeners.delete(notify);
+      window.removeEventListener("storage", notify);
+    };
+  },
+
+  subscribeToChanges: (userId, callback) =>
+    changeFeed.subscribe((change) => {
+      if (isChangeFor(change, userId)) callback(change);
+    }),
+
+  // Writes land in this browser straight away, so there's never a backlog
+  subscribeToSyncStatus: (callback) => {
+    callback(SYNCED_STATUS);
+    return () => {};
+  },
+  retrySync: async () => {},
+  discardFailedSync: async () => {},
+});
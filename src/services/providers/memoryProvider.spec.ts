@@ -0,0 +1,390 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { BackendService } from "@/services/backend";
+import { createMemoryProvider } from "./memoryProvider";
+import type { DataProvider } from "@/services/dataProvider";
+import { HangoutEvent, User } from "@/types";
+import { MESSAGE_PAGE_SIZE } from "@/utils/messagePages";
+import { withReactionToggled } from "@/utils/messageEdits";
+
+describe("memory data provider", () => {
+  let provider: DataProvider;
+  let alice: User;
+  let bob: User;
+
+  beforeEach(async () => {
+    provider = createMemoryProvider(new BackendService());
+    alice = (
+      await provider.createUserAccount(
+        "alice@example.com",
+        "Password1",
+        "alice",
+        "Alice Smith",
+      )
+    ).user!;
+    bob = (
+      await provider.createUserAccount(
+        "bob@example.com",
+        "Password1",
+        "bob",
+        "Bob Jones",
+      )
+    ).user!;
+  });
+
+  it("should sign in with the registered credentials only", async () => {
+    expect(
+      (await provider.signIn("alice@example.com", "Password1")).user?.id,
+    ).toBe(alice.id);
+    expect((await provider.signIn("alice@example.com", "wrong")).success).toBe(
+      false,
+    );
+  });
+
+  it("should connect users through the friend graph", async () => {
+    await provider.sendFriendRequest(alice.id, bob.id);
+
+    // Notifications are left to the dispatcher
+    expect(await provider.getUserNotifications(bob.id)).toEqual([]);
+    expect((await provider.getUser(bob.id))?.friendRequests.received).toEqual([
+      alice.id,
+    ]);
+
+    await provider.acceptFriendRequest(bob.id, alice.id);
+
+    expect((await provider.getFriends(alice.id)).map((u) => u.id)).toEqual([
+      bob.id,
+    ]);
+    expect((await provider.getUser(bob.id))?.friendRequests.received).toEqual(
+      [],
+    );
+  });
+
+  it("should unfriend, and hide blocked users from each other", async () => {
+    await provider.sendFriendRequest(alice.id, bob.id);
+    await provider.acceptFriendRequest(bob.id, alice.id);
+    await provider.removeFriend(alice.id, bob.id);
+
+    expect(await provider.getFriends(bob.id)).toEqual([]);
+
+    await provider.sendFriendRequest(alice.id, bob.id);
+    await provider.blockUser(bob.id, alice.id);
+
+    expect((await provider.getUser(alice.id))?.friendRequests.sent).toEqual([]);
+    expect(await provider.searchUsers("bob", alice.id)).toEqual([]);
+    expect(await provider.sendFriendRequest(alice.id, bob.id)).toBe(false);
+    expect(
+      await provider.sendMessage({
+        senderId: alice.id,
+        receiverId: bob.id,
+        content: "Hi",
+        timestamp: new Date().toISOString(),
+        read: false,
+      }),
+    ).toBeNull();
+
+    await provider.unblockUser(bob.id, alice.id);
+
+    expect(
+      (await provider.searchUsers("bob", alice.id)).map((u) => u.id),
+    ).toEqual([bob.id]);
+  });
+
+  it("should only accept requests that are still pending", async () => {
+    await provider.sendFriendRequest(alice.id, bob.id);
+    await provider.cancelFriendRequest(alice.id, bob.id);
+
+    expect(await provider.acceptFriendRequest(bob.id, alice.id)).toBe(false);
+
+    await provider.sendFriendRequest(alice.id, bob.id);
+    await provider.blockUser(alice.id, bob.id);
+
+    expect(await provider.acceptFriendRequest(bob.id, alice.id)).toBe(false);
+    expect(await provider.getFriends(bob.id)).toEqual([]);
+  });
+
+  it("should only write the user fields a save changes", async () => {
+    // Bob's copy predates the request
+    await provider.sendFriendRequest(alice.id, bob.id);
+    await provider.updateUser(bob.id, { timeZone: "Europe/London" });
+
+    const stored = await provider.getUser(bob.id);
+    expect(stored?.timeZone).toBe("Europe/London");
+    expect(stored?.friendRequests.received).toEqual([alice.id]);
+    expect(await provider.updateUser("someone-else", {})).toBe(false);
+  });
+
+  it("should store events and return them per user", async () => {
+    const event = await provider.createEvent({
+      userId: bob.id,
+      title: "Coffee",
+      startTime: "2026-01-03T14:00:00.000Z",
+      endTime: "2026-01-03T16:00:00.000Z",
+      type: "personal",
+      createdAt: new Date().toISOString(),
+    });
+
+    expect(event?.id).toBeTruthy();
+    expect(await provider.getEventsForUsers([bob.id])).toHaveLength(1);
+
+    await provider.deleteEvent(event!.id);
+    expect(await provider.getUserEvents(bob.id)).toEqual([]);
+    expect(await provider.updateEvent(event!)).toBe(false);
+  });
+
+  it("should remove event fields an update leaves out", async () => {
+    const event = (await provider.createEvent({
+      userId: bob.id,
+      title: "Standup",
+      startTime: "2026-01-05T09:00:00.000Z",
+      endTime: "2026-01-05T09:15:00.000Z",
+      type: "personal",
+      recurrence: { frequency: "daily", interval: 1 },
+      createdAt: new Date().toISOString(),
+    }))!;
+
+    const { recurrence: _recurrence, ...single } = event;
+    expect(await provider.updateEvent(single)).toBe(true);
+
+    const [stored] = await provider.getUserEvents(bob.id);
+    expect(stored.recurrence).toBeUndefined();
+    expect(stored.title).toBe("Standup");
+  });
+
+  it("should keep RSVPs that interleave with each other and edits", async () => {
+    const hangout = (await provider.createEvent({
+      userId: alice.id,
+      title: "Picnic",
+      startTime: "2026-01-03T14:00:00.000Z",
+      endTime: "2026-01-03T16:00:00.000Z",
+      type: "hangout",
+      preferences: { activitySuggestions: [] },
+      visibility: "friends",
+      attendeeIds: [bob.id, "carol"],
+      rsvps: { [bob.id]: "pending", carol: "pending" },
+      createdAt: new Date().toISOString(),
+    } as Omit<HangoutEvent, "id">)) as HangoutEvent;
+
+    // Both invitees and the owner work from the copy loaded before any answer
+    await provider.respondToInvite(hangout.id, bob.id, "going");
+    await provider.respondToInvite(hangout.id, "carol", "declined");
+    await provider.updateEvent({ ...hangout, title: "Beach picnic" });
+
+    const [stored] = (await provider.getSharedEvents(bob.id)) as HangoutEvent[];
+    expect(stored.title).toBe("Beach picnic");
+    expect(stored.rsvps).toEqual({ [bob.id]: "going", carol: "declined" });
+  });
+
+  it("should keep one hangout match per window for every member", async () => {
+    const match = {
+      id: `${alice.id},${bob.id}@2026-01-03T14:00:00.000Z/2026-01-03T16:00:00.000Z`,
+      users: [alice.id, bob.id],
+      overlappingTime: {
+        start: "2026-01-03T14:00:00.000Z",
+        end: "2026-01-03T16:00:00.000Z",
+      },
+      hangoutEvents: ["one", "two"],
+      compatibilityScore: 80,
+      createdAt: "2026-01-01T00:00:00.000Z",
+    };
+
+    expect(await provider.saveHangoutMatch(match)).toBe(true);
+    expect(await provider.saveHangoutMatch(match)).toBe(true);
+
+    expect(await provider.getUserHangoutMatches(alice.id)).toEqual([match]);
+    expect(await provider.getUserHangoutMatches(bob.id)).toEqual([match]);
+    expect(await provider.getUserHangoutMatches("someone-else")).toEqual([]);
+  });
+
+  it("should hydrate conversations with their messages", async () => {
+    await provider.sendMessage({
+      senderId: alice.id,
+      receiverId: bob.id,
+      content: "Hi Bob",
+      timestamp: new Date().toISOString(),
+      read: false,
+    });
+
+    const [conversation] = await provider.getUserConversations(bob.id);
+    expect(conversation.participants).toContain(alice.id);
+    expect(conversation.messages.map((m) => m.content)).toEqual(["Hi Bob"]);
+
+    await provider.markConversationAsRead(conversation.id, bob.id);
+    const [read] = await provider.getUserConversations(bob.id);
+    expect(read.lastRead?.[bob.id]?.messageId).toBe(
+      conversation.messages[0].id,
+    );
+  });
+
+  it("should keep group details and read cursors per member", async () => {
+    await provider.saveConversation({
+      id: "crew",
+      type: "group",
+      name: "Crew",
+      createdBy: alice.id,
+      participants: [alice.id, bob.id],
+      messages: [],
+      updatedAt: new Date().toISOString(),
+    });
+    await provider.sendMessage({
+      conversationId: "crew",
+      senderId: alice.id,
+      content: "Who's in?",
+      timestamp: new Date().toISOString(),
+      read: false,
+      readBy: [],
+    });
+
+    const [conversation] = await provider.getUserConversations(bob.id);
+    expect(conversation.name).toBe("Crew");
+    expect(conversation.participants).toEqual([alice.id, bob.id]);
+
+    await provider.markConversationAsRead("crew", bob.id);
+    const [read] = await provider.getUserConversations(alice.id);
+    expect(Object.keys(read.lastRead || {})).toEqual([bob.id]);
+    expect(read.name).toBe("Crew");
+  });
+
+  it("should page through older messages", async () => {
+    for (let i = 0; i < MESSAGE_PAGE_SIZE + 5; i++) {
+      await provider.sendMessage({
+        senderId: alice.id,
+        receiverId: bob.id,
+        content: `Message ${i}`,
+        timestamp: new Date(Date.UTC(2026, 6, 1, 12, i)).toISOString(),
+        read: false,
+      });
+    }
+
+    const [conversation] = await provider.getUserConversations(bob.id);
+    expect(conversation.messages).toHaveLength(MESSAGE_PAGE_SIZE);
+    expect(conversation.messages[0].content).toBe("Message 5");
+
+    const older = await provider.getConversationMessages(conversation.id, {
+      before: conversation.messages[0],
+    });
+    expect(older.messages.map((m) => m.content)).toEqual([
+      "Message 0",
+      "Message 1",
+      "Message 2",
+      "Message 3",
+      "Message 4",
+    ]);
+    expect(older.hasMore).toBe(false);
+  });
+
+  it("should count and return messages beyond the loaded page", async () => {
+    for (let i = 0; i < MESSAGE_PAGE_SIZE + 5; i++) {
+      await provider.sendMessage({
+        senderId: alice.id,
+        receiverId: bob.id,
+        content: `Message ${i}`,
+        timestamp: new Date(Date.UTC(2026, 6, 1, 12, i)).toISOString(),
+        read: false,
+      });
+    }
+
+    const [conversation] = await provider.getUserConversations(bob.id);
+    expect(conversation.unreadCount).toBe(MESSAGE_PAGE_SIZE + 5);
+    expect(await provider.getUserMessages(bob.id)).toHaveLength(
+      MESSAGE_PAGE_SIZE + 5,
+    );
+    expect(
+      await provider.getUserMessages(
+        bob.id,
+        new Date(Date.UTC(2026, 6, 1, 12, MESSAGE_PAGE_SIZE)).toISOString(),
+      ),
+    ).toHaveLength(5);
+
+    await provider.markConversationAsRead(conversation.id, bob.id);
+    const [read] = await provider.getUserConversations(bob.id);
+    expect(read.unreadCount).toBe(0);
+  });
+
+  it("should apply message changes to the stored copy", async () => {
+    const message = (await provider.sendMessage({
+      senderId: alice.id,
+      receiverId: bob.id,
+      content: "Pizza tonight?",
+      timestamp: new Date().toISOString(),
+      read: false,
+    }))!;
+
+    // Both react from the same stale copy of the message
+    await provider.updateMessage(message, (latest) =>
+      withReactionToggled(latest, "🍕", alice.id),
+    );
+    await provider.updateMessage(message, (latest) =>
+      withReactionToggled(latest, "🍕", bob.id),
+    );
+
+    const [conversation] = await provider.getUserConversations(bob.id);
+    expect(conversation.messages[0].reactions).toEqual({
+      "🍕": [alice.id, bob.id],
+    });
+    expect(conversation.lastMessage?.reactions).toEqual({
+      "🍕": [alice.id, bob.id],
+    });
+  });
+
+  it("should stream presence updates to subscribers", async () => {
+    const updates: string[][] = [];
+    const unsubscribe = provider.subscribeToPresence([bob.id], (presence) =>
+      updates.push(presence.map((record) => record.typingIn || "none")),
+    );
+
+    await provider.updatePresence(bob.id, { away: false });
+    await provider.updatePresence(bob.id, {
+      typingIn: "chat",
+      typingAt: new Date().toISOString(),
+    });
+    // Other users' updates don't reach this subscriber's list
+    await provider.updatePresence(alice.id, { away: true });
+    unsubscribe();
+    await provider.updatePresence(bob.id, { typingIn: null });
+
+    expect(updates).toEqual([[], ["none"], ["chat"], ["chat"]]);
+  });
+
+  it("should publish changes to the users they affect", async () => {
+    const carol = (
+      await provider.createUserAccount(
+        "carol@example.com",
+        "Password1",
+        "carol",
+        "Carol White",
+      )
+    ).user!;
+    const changes: string[] = [];
+    const unsubscribe = provider.subscribeToChanges(bob.id, (change) =>
+      changes.push(change.type),
+    );
+
+    await provider.sendMessage({
+      senderId: alice.id,
+      receiverId: bob.id,
+      content: "Hi Bob",
+      timestamp: new Date().toISOString(),
+      read: false,
+    });
+    // The conversation doesn't involve Bob, but friend lists always count
+    await provider.sendMessage({
+      senderId: alice.id,
+      receiverId: carol.id,
+      content: "Hi Carol",
+      timestamp: new Date().toISOString(),
+      read: false,
+    });
+    await provider.sendFriendRequest(alice.id, carol.id);
+    await provider.sendFriendRequest(carol.id, bob.id);
+    unsubscribe();
+    await provider.sendFriendRequest(alice.id, bob.id);
+
+    expect(changes).toEqual([
+      "message_sent",
+      "user_updated",
+      "user_updated",
+      "user_updated",
+      "user_updated",
+    ]);
+  });
+});
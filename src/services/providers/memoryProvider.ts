@@ -0,0 +1,88 @@
+import { User } from "@/types";
+import type { DataProvider } from "@/services/dataProvider";
+import { BackendService, backendService } from "@/services/backend";
+import { SYNCED_STATUS } from "@/utils/offlineSync";
+
+// In-memory adapter, handy for running the app fully offline in tests and demos
+export const createMemoryProvider = (
+  service: BackendService = backendService,
+): DataProvider => ({
+  kind: "memory",
+
+  createUserAccount: (email, password, username, fullName) =>
+    service.createUser(email, password, username, fullName),
+  signIn: (email, password) => service.signIn(email, password),
+  signOut: () => service.signOut(),
+  onAuthStateChange: (callback) => service.onAuthStateChange(callback),
+
+  getUser: (userId) => service.getUser(userId),
+  getUsers: (userIds) => service.getUsers(userIds),
+  updateUser: (userId, updates) => service.updateUser(userId, updates),
+  searchUsers: (query, currentUserId) =>
+    service.searchUsers(query, currentUserId),
+
+  getFriends: async (userId) => {
+    const user = await service.getUser(userId);
+    return user ? service.getUsers(user.friends) : ([] as User[]);
+  },
+  sendFriendRequest: (fromUserId, toUserId) =>
+    service.sendFriendRequest(fromUserId, toUserId),
+  acceptFriendRequest: (userId, requesterId) =>
+    service.acceptFriendRequest(userId, requesterId),
+  rejectFriendRequest: (userId, requesterId) =>
+    service.rejectFriendRequest(userId, requesterId),
+  cancelFriendRequest: (fromUserId, toUserId) =>
+    service.cancelFriendRequest(fromUserId, toUserId),
+  removeFriend: (userId, friendId) => service.removeFriend(userId, friendId),
+
+  blockUser: (userId, blockedUserId) =>
+    service.blockUser(userId, blockedUserId),
+  unblockUser: (userId, blockedUserId) =>
+    service.unblockUser(userId, blockedUserId),
+  reportUser: (report) => service.reportUser(report),
+
+  getUserEvents: (userId) => service.getUserEvents(userId),
+  getEventsForUsers: (userIds) => service.getEventsForUsers(userIds),
+  getSharedEvents: (userId) => service.getSharedEvents(userId),
+  createEvent: (event) => service.createEvent(event),
+  updateEvent: (event) => service.updateEvent(event),
+  respondToInvite: (eventId, userId, status) =>
+    service.respondToInvite(eventId, userId, status),
+  deleteEvent: (eventId) => service.deleteEvent(eventId),
+
+  getUserHangoutMatches: (userId) => service.getUserHangoutMatches(userId),
+  saveHangoutMatch: (match) => service.saveHangoutMatch(match),
+
+  getUserConversations: (userId) => service.getUserConversations(userId),
+  getConversationMessages: (conversationId, page) =>
+    service.getConversationMessages(conversationId, page),
+  getUserMessages: (userId, since) => service.getUserMessages(userId, since),
+  saveConversation: (conversation) => service.saveConversation(conversation),
+  deleteConversation: (conversationId) =>
+    service.deleteConversation(conversationId),
+  sendMessage: (message) => service.sendMessage(message),
+  updateMessage: (message, change) => service.updateMessage(message, change),
+  markConversationAsRead: (conversationId, userId) =>
+    service.markConversationAsRead(conversationId, userId),
+
+  getUserNotifications: (userId) => service.getUserNotifications(userId),
+  addNotification: (notification) => service.createNotification(notification),
+  markNotificationAsRead: (notificationId) =>
+    service.markNotificationAsRead(notificationId),
+  deleteNotification: (notificationId) =>
+    service.deleteNotification(notificationId),
+  clearUserNotifications: (userId) => service.clearUserNotifications(userId),
+
+  updatePresence: (userId, update) => service.updatePresence(userId, update),
+  subscribeToPresence: (userIds, callback) =>
+    service.subscribeToPresence(userIds, callback),
+  subscribeToChanges: (userId, callback) =>
+    service.subscribeToChanges(userId, callback),
+
+  subscribeToSyncStatus: (callback) => {
+    callback(SYNCED_STATUS);
+    return () => {};
+  },
+  retrySync: async () => {},
+  discardFailedSync: async () => {},
+});
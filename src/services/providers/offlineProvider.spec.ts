@@ -0,0 +1,325 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { BackendService } from "@/services/backend";
+import {
+  OfflineQueue,
+  createOfflineQueue,
+  createQueueStorage,
+} from "@/services/offlineQueue";
+import { createMemoryProvider } from "./memoryProvider";
+import { withOfflineQueue } from "./offlineProvider";
+import type { DataProvider } from "@/services/dataProvider";
+import { User } from "@/types";
+
+describe("offline queue provider", () => {
+  let remote: DataProvider;
+  let queue: OfflineQueue;
+  let provider: DataProvider;
+  let online: boolean;
+  let alice: User;
+  let bob: User;
+
+  beforeEach(async () => {
+    online = false;
+    remote = createMemoryProvider(new BackendService());
+    queue = createOfflineQueue(remote, { isOnline: () => online });
+    provider = withOfflineQueue(remote, queue);
+    alice = (
+      await remote.createUserAccount(
+        "alice@example.com",
+        "Password1",
+        "alice",
+        "Alice Smith",
+      )
+    ).user!;
+    bob = (
+      await remote.createUserAccount(
+        "bob@example.com",
+        "Password1",
+        "bob",
+        "Bob Jones",
+      )
+    ).user!;
+  });
+
+  it("should show queued messages and send them once on reconnect", async () => {
+    const sent = await provider.sendMessage({
+      senderId: alice.id,
+      receiverId: bob.id,
+      content: "On my way",
+      timestamp: new Date().toISOString(),
+      read: false,
+    });
+
+    expect(sent?.pending).toBe(true);
+    expect(await remote.getUserConversations(alice.id)).toEqual([]);
+    expect(
+      (await provider.getUserConversations(alice.id))[0].messages,
+    ).toMatchObject([{ id: sent?.id, pending: true }]);
+
+    online = true;
+    await queue.replay();
+    await queue.replay();
+
+    const [conversation] = await provider.getUserConversations(alice.id);
+    expect(conversation.messages).toHaveLength(1);
+    expect(conversation.messages[0]).toMatchObject({
+      content: "On my way",
+      clientId: sent?.clientId,
+    });
+    expect(conversation.messages[0].pending).toBeUndefined();
+  });
+
+  it("should not send later writes ahead of one that is backing off", async () => {
+    let reachable = false;
+    const sent: string[] = [];
+    const flaky: DataProvider = {
+      ...remote,
+      sendMessage: async (message) => {
+        if (!reachable) {
+          throw Object.assign(new Error("Offline"), { code: "unavailable" });
+        }
+        sent.push(message.content);
+        return remote.sendMessage(message);
+      },
+    };
+    const flakyQueue = createOfflineQueue(flaky, { isOnline: () => online });
+    const flakyProvider = withOfflineQueue(flaky, flakyQueue);
+    for (const content of ["First", "Second"]) {
+      await flakyProvider.sendMessage({
+        senderId: alice.id,
+        receiverId: bob.id,
+        content,
+        timestamp: new Date().toISOString(),
+        read: false,
+      });
+    }
+
+    online = true;
+    await flakyQueue.replay();
+    reachable = true;
+    await flakyQueue.replay();
+
+    expect(sent).toEqual([]);
+    expect(flakyQueue.getQueue()).toHaveLength(2);
+
+    await flakyQueue.retry();
+
+    expect(sent).toEqual(["First", "Second"]);
+    expect(flakyQueue.getQueue()).toEqual([]);
+  });
+
+  it("should keep the latest edit of an event", async () => {
+    online = true;
+    const event = (await provider.createEvent({
+      userId: alice.id,
+      title: "Climbing",
+      startTime: "2026-07-01T18:00:00.000Z",
+      endTime: "2026-07-01T20:00:00.000Z",
+      type: "personal",
+      createdAt: new Date().toISOString(),
+    }))!;
+
+    online = false;
+    await provider.updateEvent({ ...event, title: "Bouldering" });
+    expect((await provider.getUserEvents(alice.id))[0]).toMatchObject({
+      title: "Bouldering",
+      pending: true,
+    });
+
+    // Someone else saves the event after the offline edit
+    await remote.updateEvent({
+      ...event,
+      title: "Yoga",
+      updatedAt: new Date(Date.now() + 1000).toISOString(),
+    });
+
+    online = true;
+    await queue.replay();
+
+    expect(queue.getQueue()).toEqual([]);
+    expect((await provider.getUserEvents(alice.id))[0].title).toBe("Yoga");
+  });
+
+  it("should queue deletes made offline and hide the event meanwhile", async () => {
+    online = true;
+    const event = (await provider.createEvent({
+      userId: alice.id,
+      title: "Climbing",
+      startTime: "2026-07-01T18:00:00.000Z",
+      endTime: "2026-07-01T20:00:00.000Z",
+      type: "personal",
+      createdAt: new Date().toISOString(),
+    }))!;
+
+    online = false;
+    expect(await provider.deleteEvent(event.id)).toBe(true);
+    expect(await remote.getUserEvents(alice.id)).toHaveLength(1);
+    expect(await provider.getUserEvents(alice.id)).toEqual([]);
+
+    online = true;
+    await queue.replay();
+
+    expect(queue.getQueue()).toEqual([]);
+    expect(await remote.getUserEvents(alice.id)).toEqual([]);
+  });
+
+  it("should not store an event twice when a replay's answer is lost", async () => {
+    let answerLost = true;
+    const flaky: DataProvider = {
+      ...remote,
+      createEvent: async (event) => {
+        const saved = await remote.createEvent(event);
+        if (answerLost) {
+          answerLost = false;
+          throw Object.assign(new Error("Timed out"), {
+            code: "deadline-exceeded",
+          });
+        }
+        return saved;
+      },
+    };
+    const flakyQueue = createOfflineQueue(flaky, { isOnline: () => online });
+    const pending = (await withOfflineQueue(flaky, flakyQueue).createEvent({
+      userId: alice.id,
+      title: "Climbing",
+      startTime: "2026-07-01T18:00:00.000Z",
+      endTime: "2026-07-01T20:00:00.000Z",
+      type: "personal",
+      createdAt: new Date().toISOString(),
+    }))!;
+
+    online = true;
+    await flakyQueue.replay();
+    await flakyQueue.retry();
+
+    const stored = await remote.getUserEvents(alice.id);
+    expect(stored).toHaveLength(1);
+    expect(flakyQueue.getQueue()).toEqual([]);
+    expect(flakyQueue.resolveId(pending.id)).toBe(stored[0].id);
+  });
+
+  it("should point matches at the stored IDs of events created offline", async () => {
+    const event = (await provider.createEvent({
+      userId: alice.id,
+      title: "Free",
+      startTime: "2026-07-01T18:00:00.000Z",
+      endTime: "2026-07-01T20:00:00.000Z",
+      type: "personal",
+      createdAt: new Date().toISOString(),
+    }))!;
+
+    // Back online, but the event hasn't replayed yet
+    online = true;
+    await provider.saveHangoutMatch({
+      id: "match",
+      users: [alice.id, bob.id],
+      overlappingTime: {
+        start: "2026-07-01T18:00:00.000Z",
+        end: "2026-07-01T20:00:00.000Z",
+      },
+      hangoutEvents: [event.id, "bobs-event"],
+      createdAt: new Date().toISOString(),
+    });
+    expect(await remote.getUserHangoutMatches(alice.id)).toEqual([]);
+
+    await queue.replay();
+
+    const [stored] = await remote.getUserEvents(alice.id);
+    expect(
+      (await remote.getUserHangoutMatches(alice.id))[0].hangoutEvents,
+    ).toEqual([stored.id, "bobs-event"]);
+  });
+
+  it("should only queue writes that couldn't reach the server", async () => {
+    online = true;
+
+    // Rejected by a server that could be reached, so there's nothing to retry
+    expect(await provider.sendFriendRequest(alice.id, "nobody")).toBe(false);
+    expect(queue.getQueue()).toEqual([]);
+
+    const unreachable = withOfflineQueue(
+      {
+        ...remote,
+        createEvent: async () => {
+          throw Object.assign(new Error("Offline"), { code: "unavailable" });
+        },
+      },
+      queue,
+    );
+    const event = await unreachable.createEvent({
+      userId: alice.id,
+      title: "Climbing",
+      startTime: "2026-07-01T18:00:00.000Z",
+      endTime: "2026-07-01T20:00:00.000Z",
+      type: "personal",
+      createdAt: new Date().toISOString(),
+    });
+
+    expect(event?.pending).toBe(true);
+    expect(queue.getQueue().map((write) => write.mutation.type)).toEqual([
+      "create_event",
+    ]);
+  });
+
+  it("should surface bugs instead of queueing them", async () => {
+    online = true;
+    const broken = withOfflineQueue(
+      {
+        ...remote,
+        createEvent: async () => {
+          throw new TypeError("Cannot read properties of undefined");
+        },
+      },
+      queue,
+    );
+
+    await expect(
+      broken.createEvent({
+        userId: alice.id,
+        title: "Climbing",
+        startTime: "2026-07-01T18:00:00.000Z",
+        endTime: "2026-07-01T20:00:00.000Z",
+        type: "personal",
+        createdAt: new Date().toISOString(),
+      }),
+    ).rejects.toThrow(TypeError);
+    expect(queue.getQueue()).toEqual([]);
+  });
+
+  it("should keep writes queued by other tabs", async () => {
+    const storage = createQueueStorage();
+    const tabs = [1, 2].map(() =>
+      withOfflineQueue(
+        remote,
+        createOfflineQueue(remote, { storage, isOnline: () => online }),
+      ),
+    );
+
+    const event = (await tabs[0].createEvent({
+      userId: alice.id,
+      title: "Climbing",
+      startTime: "2026-07-01T18:00:00.000Z",
+      endTime: "2026-07-01T20:00:00.000Z",
+      type: "personal",
+      createdAt: new Date().toISOString(),
+    }))!;
+    await tabs[1].sendFriendRequest(alice.id, bob.id);
+
+    expect((await storage.load()).map((write) => write.mutation.type)).toEqual([
+      "create_event",
+      "send_friend_request",
+    ]);
+
+    // A reloaded tab can still find the event once it has replayed
+    online = true;
+    await createOfflineQueue(remote, {
+      storage,
+      isOnline: () => online,
+    }).replay();
+    const reloaded = createOfflineQueue(remote, { storage });
+    await reloaded.ready;
+    expect(reloaded.resolveId(event.id)).toBe(
+      (await remote.getUserEvents(alice.id))[0].id,
+    );
+  });
+});
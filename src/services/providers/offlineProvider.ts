@@ -0,0 +1,229 @@
+import { Event, Message } from "@/types";
+import { generateId } from "@/lib/utils";
+import type { DataProvider } from "@/services/dataProvider";
+import { isChangeFor } from "@/services/changeFeed";
+import {
+  OfflineQueue,
+  createOfflineQueue,
+  createPendingId,
+} from "@/services/offlineQueue";
+import { getMessageConversationId } from "@/utils/conversations";
+import { mergeMessages } from "@/utils/messagePages";
+import {
+  QueuedMutation,
+  getPendingMessages,
+  getReferencedEventIds,
+  isPendingId,
+  isUnavailableError,
+  toStoredRecord,
+  withPendingEvents,
+  withPendingMessages,
+  withResolvedEventIds,
+} from "@/utils/offlineSync";
+
+// What a write resolves to when the provider couldn't be reached
+const UNREACHABLE: unique symbol = Symbol("unreachable");
+
+/**
+ * Wraps a remote provider so creating, editing and deleting events, sending
+ * messages and friend requests, and the matches and notifications they
+ * trigger keep working offline. Writes that can't reach the provider are queued and reported as
+ * saved, and reads show them until they replay.
+ */
+export const withOfflineQueue = (
+  provider: DataProvider,
+  queue: OfflineQueue = createOfflineQueue(provider),
+): DataProvider => {
+  // Skips the provider when the browser already knows it's offline. Only
+  // network failures count as offline; rejections go back to the caller,
+  // since retrying them later wouldn't help
+  const tryProvider = async <T>(
+    write: () => Promise<T>,
+  ): Promise<T | typeof UNREACHABLE> => {
+    if (!queue.isOnline()) return UNREACHABLE;
+    try {
+      return await write();
+    } catch (error) {
+      if (isUnavailableError(error)) return UNREACHABLE;
+      throw error;
+    }
+  };
+
+  // Writes that point at events which haven't replayed yet wait behind them
+  // in the queue, so they're never stored with a placeholder ID
+  const resolveEventIds = <T extends QueuedMutation>(mutation: T) => {
+    const resolved = withResolvedEventIds(mutation, queue.resolveId);
+    return {
+      mutation: resolved,
+      waiting: getReferencedEventIds(resolved).some(isPendingId),
+    };
+  };
+
+  return {
+    ...provider,
+
+    sendFriendRequest: async (fromUserId, toUserId) => {
+      const sent = await tryProvider(() =>
+        provider.sendFriendRequest(fromUserId, toUserId),
+      );
+      if (sent !== UNREACHABLE) return sent;
+
+      await queue.enqueue({
+        type: "send_friend_request",
+        fromUserId,
+        toUserId,
+      });
+      return true;
+    },
+
+    getUserEvents: async (userId) => {
+      const events = await provider.getUserEvents(userId);
+      await queue.ready;
+      return withPendingEvents(
+        events,
+        queue.getQueue(),
+        (event) => event.userId === userId,
+      );
+    },
+    getEventsForUsers: async (userIds) => {
+      const events = await provider.getEventsForUsers(userIds);
+      await queue.ready;
+      return withPendingEvents(events, queue.getQueue(), (event) =>
+        userIds.includes(event.userId),
+      );
+    },
+    // A fresh client ID every time, since new events are often copied from
+    // stored ones, e.g. the rest of a split series
+    createEvent: async (event) => {
+      const withClientId = { ...event, clientId: generateId() };
+      const saved = await tryProvider(() => provider.createEvent(withClientId));
+      if (saved !== UNREACHABLE) return saved;
+
+      const pending = { ...withClientId, id: createPendingId() } as Event;
+      await queue.enqueue({ type: "create_event", event: pending });
+      return { ...pending, pending: true };
+    },
+    // Stamps each edit so replayed edits can tell which one came last
+    updateEvent: async (event) => {
+      const stamped = {
+        ...toStoredRecord(event),
+        id: queue.resolveId(event.id),
+        updatedAt: new Date().toISOString(),
+      };
+      if (!isPendingId(stamped.id)) {
+        const updated = await tryProvider(() => provider.updateEvent(stamped));
+        if (updated !== UNREACHABLE) return updated;
+      }
+      await queue.enqueue({ type: "update_event", event: stamped });
+      return true;
+    },
+    // Unsent events are just dropped from the queue
+    deleteEvent: async (eventId) => {
+      await queue.discard(eventId);
+      const storedId = queue.resolveId(eventId);
+      if (isPendingId(storedId)) return true;
+
+      const deleted = await tryProvider(() => provider.deleteEvent(storedId));
+      if (deleted !== UNREACHABLE) return deleted;
+
+      await queue.enqueue({ type: "delete_event", eventId: storedId });
+      return true;
+    },
+
+    getUserConversations: async (userId) => {
+      const conversations = await provider.getUserConversations(userId);
+      await queue.ready;
+      return withPendingMessages(conversations, queue.getQueue(), userId);
+    },
+    getConversationMessages: async (conversationId, page) => {
+      const stored = await provider.getConversationMessages(
+        conversationId,
+        page,
+      );
+      if (page?.before) return stored;
+
+      await queue.ready;
+      return {
+        ...stored,
+        messages: mergeMessages(
+          stored.messages,
+          getPendingMessages(queue.getQueue(), conversationId),
+        ),
+      };
+    },
+    sendMessage: async (message) => {
+      const withClientId = {
+        ...message,
+        clientId: message.clientId || generateId(),
+      };
+      const sent = await tryProvider(() => provider.sendMessage(withClientId));
+      if (sent !== UNREACHABLE) return sent;
+
+      const pending: Message = {
+        ...withClientId,
+        id: createPendingId(),
+        conversationId: getMessageConversationId(withClientId),
+      };
+      await queue.enqueue({ type: "send_message", message: pending });
+      return { ...pending, pending: true };
+    },
+    // Unsent messages are changed in the queue and go out as edited
+    updateMessage: async (message, change) => {
+      if (!isPendingId(message.id)) {
+        return provider.updateMessage(message, change);
+      }
+
+      await queue.enqueue({
+        type: "send_message",
+        message: { ...toStoredRecord(message), id: message.id },
+      });
+      return true;
+    },
+
+    saveHangoutMatch: async (match) => {
+      const { mutation, waiting } = resolveEventIds({
+        type: "save_hangout_match" as const,
+        match,
+      });
+      if (!waiting) {
+        const saved = await tryProvider(() =>
+          provider.saveHangoutMatch(mutation.match),
+        );
+        if (saved !== UNREACHABLE) return saved;
+      }
+
+      await queue.enqueue(mutation);
+      return true;
+    },
+
+    addNotification: async (notification) => {
+      const { mutation, waiting } = resolveEventIds({
+        type: "add_notification" as const,
+        notification: { ...notification, id: createPendingId() },
+      });
+      if (!waiting) {
+        const saved = await tryProvider(() =>
+          provider.addNotification(toStoredRecord(mutation.notification)),
+        );
+        if (saved !== UNREACHABLE) return saved;
+      }
+
+      await queue.enqueue(mutation);
+      return mutation.notification;
+    },
+
+    subscribeToChanges: (userId, callback) => {
+      const unsubscribers = [
+        provider.subscribeToChanges(userId, callback),
+        queue.subscribeToChanges((change) => {
+          if (isChangeFor(change, userId)) callback(change);
+        }),
+      ];
+      return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    },
+
+    subscribeToSyncStatus: queue.subscribe,
+    retrySync: queue.retry,
+    discardFailedSync: queue.discardFailed,
+  };
+};
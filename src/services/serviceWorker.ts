@@ -0,0 +1,52 @@
+import { PushPayload } from "@/utils/pushNotifications";
+
+export type PushPermission = NotificationPermission | "unsupported";
+
+export const isPushSupported = (): boolean =>
+  typeof window !== "undefined" &&
+  "serviceWorker" in navigator &&
+  "Notification" in window;
+
+export const getPushPermission = (): PushPermission =>
+  isPushSupported() ? Notification.permission : "unsupported";
+
+export const requestPushPermission = async (): Promise<PushPermission> => {
+  if (!isPushSupported()) return "unsupported";
+
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error("Error requesting notification permission:", error);
+    return getPushPermission();
+  }
+};
+
+export const registerServiceWorker =
+  async (): Promise<ServiceWorkerRegistration | null> => {
+    if (!isPushSupported()) return null;
+
+    try {
+      return await navigator.serviceWorker.register("/sw.js");
+    } catch (error) {
+      console.error("Error registering service worker:", error);
+      return null;
+    }
+  };
+
+// Hands a payload to the service worker, which decides whether to show it
+export const showSystemNotification = async (
+  payload: PushPayload,
+): Promise<boolean> => {
+  if (getPushPermission() !== "granted") return false;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    if (!registration.active) return false;
+
+    registration.active.postMessage({ type: "show-notification", payload });
+    return true;
+  } catch (error) {
+    console.error("Error showing system notification:", error);
+    return false;
+  }
+};
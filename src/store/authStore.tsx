@@ -7,12 +7,8 @@ import {
   ReactNode,
 } from "react";
 import { AuthState, User } from "@/types";
-import {
-  createUserAccount,
-  signInUser,
-  signOutUser,
-  onAuthStateChange,
-} from "@/services/firebase";
+import { dataProvider } from "@/services/dataProvider";
+import { useDataChanges } from "@/hooks/use-data-changes";
 
 interface AuthContextType extends AuthState {
   login: (
@@ -26,7 +22,8 @@ interface AuthContextType extends AuthState {
     fullName: string,
   ) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
-  updateUser: (user: User) => void;
+  // Merges into the signed-in user, e.g. the fields a settings page saved
+  updateUser: (updates: Partial<User>) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -47,9 +44,9 @@ const useAuthStore = () => {
   });
 
   useEffect(() => {
-    console.log("Setting up Firebase auth state listener...");
-    // Listen to Firebase auth state changes
-    const unsubscribe = onAuthStateChange((user) => {
+    console.log(`Setting up ${dataProvider.kind} auth state listener...`);
+    // Listen to auth state changes from the configured data provider
+    const unsubscribe = dataProvider.onAuthStateChange((user) => {
       console.log("Auth state changed:", user?.id || "null");
       setState({
         user,
@@ -59,21 +56,38 @@ const useAuthStore = () => {
     });
 
     return () => {
-      console.log("Cleaning up Firebase auth state listener");
+      console.log("Cleaning up auth state listener");
       unsubscribe();
     };
   }, []);
 
+  // Friend requests and profile edits can land from another tab or user
+  const userId = state.user?.id;
+  useDataChanges(userId, ["user_updated"], async (changes) => {
+    if (
+      !changes.some((change) => "userId" in change && change.userId === userId)
+    ) {
+      return;
+    }
+
+    const user = userId ? await dataProvider.getUser(userId) : null;
+    if (user) {
+      setState((prev) =>
+        prev.user?.id === user.id ? { ...prev, user } : prev,
+      );
+    }
+  });
+
   const login = async (
     email: string,
     password: string,
   ): Promise<{ success: boolean; error?: string }> => {
-    console.log("Firebase login attempt:", email);
+    console.log("Login attempt:", email);
     setState((prev) => ({ ...prev, isLoading: true }));
 
     try {
-      const result = await signInUser(email, password);
-      console.log("Firebase login result:", result);
+      const result = await dataProvider.signIn(email, password);
+      console.log("Login result:", result);
 
       if (result.success && result.user) {
         setState({
@@ -87,7 +101,7 @@ const useAuthStore = () => {
         return { success: false, error: result.error || "Login failed" };
       }
     } catch (error: any) {
-      console.error("Firebase login error:", error);
+      console.error("Login error:", error);
       setState((prev) => ({ ...prev, isLoading: false }));
       return {
         success: false,
@@ -102,17 +116,17 @@ const useAuthStore = () => {
     username: string,
     fullName: string,
   ): Promise<{ success: boolean; error?: string }> => {
-    console.log("Firebase register attempt:", { email, username, fullName });
+    console.log("Register attempt:", { email, username, fullName });
     setState((prev) => ({ ...prev, isLoading: true }));
 
     try {
-      const result = await createUserAccount(
+      const result = await dataProvider.createUserAccount(
         email,
         password,
         username,
         fullName,
       );
-      console.log("Firebase register result:", result);
+      console.log("Register result:", result);
 
       if (result.success && result.user) {
         setState({
@@ -126,7 +140,7 @@ const useAuthStore = () => {
         return { success: false, error: result.error || "Registration failed" };
       }
     } catch (error: any) {
-      console.error("Firebase register error:", error);
+      console.error("Register error:", error);
       setState((prev) => ({ ...prev, isLoading: false }));
       return {
         success: false,
@@ -136,23 +150,25 @@ const useAuthStore = () => {
   };
 
   const logout = async () => {
-    console.log("Firebase logout attempt");
+    console.log("Logout attempt");
     try {
-      await signOutUser();
+      await dataProvider.signOut();
       setState({
         user: null,
         isAuthenticated: false,
         isLoading: false,
       });
-      console.log("Firebase logout successful");
+      console.log("Logout successful");
     } catch (error) {
-      console.error("Firebase logout error:", error);
+      console.error("Logout error:", error);
     }
   };
 
-  const updateUser = (user: User) => {
-    console.log("Updating user in Firebase context:", user);
-    setState((prev) => ({ ...prev, user: { ...user } }));
+  const updateUser = (updates: Partial<User>) => {
+    console.log("Updating user in auth context:", updates);
+    setState((prev) =>
+      prev.user ? { ...prev, user: { ...prev.user, ...updates } } : prev,
+    );
   };
 
   return {
@@ -1,48 +1,196 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { addDays, startOfDay } from "date-fns";
 import {
   Event,
   HangoutEvent,
   CreateEventInput,
   User,
+  HangoutOverlap,
   HangoutMatch,
-  Notification,
+  MatchPolicy,
+  RsvpStatus,
 } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import { notificationDispatcher } from "@/services/notificationDispatcher";
+import { useDataChanges } from "@/hooks/use-data-changes";
 import {
-  eventStorage,
-  userStorage,
-  notificationStorage,
-} from "@/utils/storage";
-import { generateId } from "@/utils/auth";
+  DEFAULT_MATCH_POLICY,
+  GroupHangoutWindow,
+  createHangoutMatchNotifications,
+  evaluateHangoutMatch,
+  filterByMatchPolicy,
+  findGroupHangoutWindows,
+  getMatchKey,
+  getMatchPolicy,
+  toHangoutMatch,
+} from "@/utils/hangoutMatching";
+import {
+  RecurrenceEditScope,
+  excludeOccurrence,
+  expandEvent,
+  expandEvents,
+  findOccurrence,
+  isFirstOccurrence,
+  planSeriesEdit,
+  resolveOccurrence,
+  truncateSeries,
+} from "@/utils/recurrence";
+import { ImportedEvent, getEventUid } from "@/utils/ical";
+import {
+  buildSharedHangout,
+  createHangoutUpdateNotifications,
+  createInviteNotifications,
+  createRsvpNotification,
+  getRsvpStatus,
+  isSharedHangout,
+  withRsvp,
+} from "@/utils/sharedHangouts";
+import { getUserTimeZone, getZonedDayRange } from "@/utils/timezone";
+import { isBlockedBetween } from "@/utils/blocking";
+
+// Reschedules that can be undone, most recent last
+const MAX_UNDO_STEPS = 20;
+
+interface EventChange {
+  // Stored events as they were before the change
+  previous: Event[];
+  // Events the change split off, e.g. a detached occurrence
+  createdIds: string[];
+}
+
+// Recurring series are expanded this many days either side of today
+const RECURRENCE_HORIZON_DAYS = 90;
+
+const getRecurrenceHorizon = () => {
+  const today = startOfDay(new Date());
+  return {
+    start: addDays(today, -RECURRENCE_HORIZON_DAYS),
+    end: addDays(today, RECURRENCE_HORIZON_DAYS),
+  };
+};
 
 export const useCalendarStore = (userId?: string) => {
   const [events, setEvents] = useState<Event[]>([]);
+  const [friends, setFriends] = useState<User[]>([]);
+  const [friendEvents, setFriendEvents] = useState<Event[]>([]);
+  // Other people's hangouts the user is invited to
+  const [sharedEvents, setSharedEvents] = useState<HangoutEvent[]>([]);
+  const [hangoutMatches, setHangoutMatches] = useState<HangoutMatch[]>([]);
+  const [matchPolicy, setMatchPolicy] =
+    useState<MatchPolicy>(DEFAULT_MATCH_POLICY);
+  const [timeZone, setTimeZone] = useState<string>(getUserTimeZone());
+  // A ref so undo actions captured by toasts see changes made after them
+  const undoStack = useRef<EventChange[]>([]);
+  const [canUndo, setCanUndo] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
-  const loadEvents = useCallback(() => {
-    setIsLoading(true);
-    const allEvents = eventStorage.getEvents();
-    const userEvents = userId
-      ? allEvents.filter((event) => event.userId === userId)
-      : [];
-    setEvents(userEvents);
-    setIsLoading(false);
-  }, [userId]);
+  // Refreshes from the change feed skip the loading state
+  const loadEvents = useCallback(
+    async (showLoading = true) => {
+      if (!userId) {
+        setEvents([]);
+        setFriends([]);
+        setFriendEvents([]);
+        setSharedEvents([]);
+        setHangoutMatches([]);
+        setMatchPolicy(DEFAULT_MATCH_POLICY);
+        setTimeZone(getUserTimeZone());
+        undoStack.current = [];
+        setCanUndo(false);
+        setIsLoading(false);
+        return;
+      }
+
+      if (showLoading) setIsLoading(true);
+      const [currentUser, userEvents, userFriends, matches, invited] =
+        await Promise.all([
+          dataProvider.getUser(userId),
+          dataProvider.getUserEvents(userId),
+          dataProvider.getFriends(userId),
+          dataProvider.getUserHangoutMatches(userId),
+          dataProvider.getSharedEvents(userId),
+        ]);
+      const [allFriendEvents, hosts] = await Promise.all([
+        dataProvider.getEventsForUsers(userFriends.map((friend) => friend.id)),
+        dataProvider.getUsers([
+          ...new Set(invited.map((event) => event.userId)),
+        ]),
+      ]);
+      // Hangouts stay hidden between people where either side blocked the other
+      const blockedHostIds = new Set(
+        hosts
+          .filter((host) => isBlockedBetween(currentUser, host))
+          .map((host) => host.id),
+      );
+
+      setMatchPolicy(getMatchPolicy(currentUser));
+      setTimeZone(getUserTimeZone(currentUser));
+      setEvents(userEvents);
+      setFriends(userFriends);
+      setFriendEvents(allFriendEvents);
+      setSharedEvents(
+        invited.filter(
+          (event) => !blockedHostIds.has(event.userId),
+        ) as HangoutEvent[],
+      );
+      setHangoutMatches(matches);
+      setIsLoading(false);
+    },
+    [userId],
+  );
 
   useEffect(() => {
     loadEvents();
   }, [loadEvents]);
 
-  const createEvent = (eventData: CreateEventInput): Event => {
+  // Friends' plans, invitations and matches found by others or in other tabs
+  useDataChanges(
+    userId,
+    [
+      "event_created",
+      "event_updated",
+      "event_deleted",
+      "user_updated",
+      "hangout_match_saved",
+    ],
+    () => loadEvents(false),
+  );
+
+  const occurrences = useMemo(() => {
+    const horizon = getRecurrenceHorizon();
+    return expandEvents(events, horizon.start, horizon.end);
+  }, [events]);
+
+  const friendOccurrences = useMemo(() => {
+    const horizon = getRecurrenceHorizon();
+    return expandEvents(friendEvents, horizon.start, horizon.end);
+  }, [friendEvents]);
+
+  // Shared hangouts the user hasn't declined, for showing on their calendar
+  const sharedOccurrences = useMemo(() => {
+    if (!userId) return [];
+    const horizon = getRecurrenceHorizon();
+    return expandEvents(
+      sharedEvents.filter(
+        (event) => getRsvpStatus(event, userId) !== "declined",
+      ),
+      horizon.start,
+      horizon.end,
+    );
+  }, [sharedEvents, userId]);
+
+  const createEvent = async (eventData: CreateEventInput): Promise<Event> => {
     if (!userId) throw new Error("User ID is required");
 
-    const newEvent: Event = {
-      id: generateId(),
+    const newEvent: Omit<Event, "id"> = {
       userId,
       title: eventData.title,
       description: eventData.description,
       startTime: eventData.startTime,
       endTime: eventData.endTime,
       type: eventData.type,
+      timeZone: eventData.timeZone || timeZone,
+      ...(eventData.recurrence && { recurrence: eventData.recurrence }),
       createdAt: new Date().toISOString(),
     };
 
@@ -52,41 +200,279 @@ export const useCalendarStore = (userId?: string) => {
       (newEvent as HangoutEvent).visibility = "friends";
     }
 
-    eventStorage.addEvent(newEvent);
-    setEvents((prev) => [...prev, newEvent]);
+    const savedEvent = await dataProvider.createEvent(newEvent);
+    if (!savedEvent) throw new Error("Failed to create event");
+
+    setEvents((prev) => [...prev, savedEvent]);
 
     // Check for hangout matches if this is a hangout event
-    if (newEvent.type === "hangout") {
-      checkForHangoutMatches(newEvent as HangoutEvent);
+    if (savedEvent.type === "hangout") {
+      await checkForHangoutMatches(savedEvent as HangoutEvent);
     }
 
-    return newEvent;
+    return savedEvent;
   };
 
-  const updateEvent = (eventId: string, updates: Partial<Event>): boolean => {
-    const event = events.find((e) => e.id === eventId);
-    if (!event || event.userId !== userId) return false;
+  // Returns the created events, or null if any write failed
+  const saveEventChanges = async (
+    changed: Event[],
+    created: Omit<Event, "id">[],
+  ): Promise<Event[] | null> => {
+    const updated = await Promise.all(
+      changed.map((event) => dataProvider.updateEvent(event)),
+    );
+    const saved = await Promise.all(
+      created.map((event) => dataProvider.createEvent(event)),
+    );
+    const savedEvents = saved.filter(Boolean) as Event[];
 
-    const updatedEvent = { ...event, ...updates };
-    eventStorage.updateEvent(updatedEvent);
-    setEvents((prev) => prev.map((e) => (e.id === eventId ? updatedEvent : e)));
+    setEvents((prev) => [
+      ...prev.map(
+        (event) => changed.find((update) => update.id === event.id) || event,
+      ),
+      ...savedEvents,
+    ]);
 
-    return true;
+    return updated.every(Boolean) && saved.every(Boolean) ? savedEvents : null;
   };
 
-  const deleteEvent = (eventId: string): boolean => {
-    const event = events.find((e) => e.id === eventId);
-    if (!event || event.userId !== userId) return false;
+  // Moved hangouts may now overlap different friends' plans
+  const recheckHangoutMatches = async (changedEvents: Event[]) => {
+    for (const event of changedEvents) {
+      if (event.type === "hangout" && !isSharedHangout(event)) {
+        await checkForHangoutMatches(event as HangoutEvent);
+      }
+    }
+  };
 
-    eventStorage.deleteEvent(eventId);
-    setEvents((prev) => prev.filter((e) => e.id !== eventId));
+  /**
+   * Updates an event or one occurrence of a recurring event. For occurrences,
+   * `scope` picks whether the change applies to just this occurrence, this
+   * and the following ones, or the whole series.
+   */
+  const updateEvent = async (
+    eventId: string,
+    updates: Partial<Event>,
+    scope: RecurrenceEditScope = "all",
+  ): Promise<boolean> => {
+    const resolved = resolveOccurrence(events, eventId);
+    if (!resolved || resolved.event.userId !== userId) return false;
+    const { event, occurrenceStart } = resolved;
+
+    const { changed, created } = planSeriesEdit(
+      event,
+      updates,
+      occurrenceStart,
+      scope,
+    );
 
+    const saved = await saveEventChanges(changed, created);
+    if (!saved) return false;
+
+    undoStack.current = [
+      ...undoStack.current.slice(-(MAX_UNDO_STEPS - 1)),
+      { previous: [event], createdIds: saved.map((e) => e.id) },
+    ];
+    setCanUndo(true);
+
+    if (isSharedHangout(event)) {
+      // Split edits live on in the new occurrence or series, not the original
+      await notifyHangoutUpdate((saved[0] || changed[0]) as HangoutEvent);
+    } else if (updates.startTime || updates.endTime) {
+      await recheckHangoutMatches([...changed, ...saved]);
+    }
     return true;
   };
 
+  // Lets everyone still coming know the owner changed a shared hangout
+  const notifyHangoutUpdate = async (hangout: HangoutEvent) => {
+    if (!userId) return;
+
+    const owner = await dataProvider.getUser(userId);
+    if (!owner) return;
+
+    await notificationDispatcher.dispatchAll(
+      createHangoutUpdateNotifications(hangout, owner),
+    );
+  };
+
+  /**
+   * Turns a hangout match into a shared hangout owned by the user, inviting
+   * the other people in the match. Their RSVPs start out pending.
+   */
+  const createSharedHangout = async (
+    match: Pick<HangoutMatch, "users" | "overlappingTime" | "hangoutEvents">,
+    details: { title: string; description?: string },
+  ): Promise<HangoutEvent | null> => {
+    if (!userId) return null;
+
+    try {
+      const owner = await dataProvider.getUser(userId);
+      if (!owner) return null;
+
+      const allEvents = [...events, ...friendEvents];
+      const sourceHangouts = match.hangoutEvents
+        .map((id) => findOccurrence(allEvents, id))
+        .filter((event): event is HangoutEvent => event?.type === "hangout");
+
+      const saved = await dataProvider.createEvent(
+        buildSharedHangout(
+          userId,
+          match.users,
+          match.overlappingTime,
+          sourceHangouts,
+          { ...details, timeZone },
+        ),
+      );
+      if (!saved) return null;
+
+      const hangout = saved as HangoutEvent;
+      setEvents((prev) => [...prev, hangout]);
+      await notificationDispatcher.dispatchAll(
+        createInviteNotifications(hangout, owner),
+      );
+
+      return hangout;
+    } catch (error) {
+      console.error("Error creating shared hangout:", error);
+      return null;
+    }
+  };
+
+  // Records the user's RSVP to a shared hangout and tells its owner
+  const respondToInvite = async (
+    eventId: string,
+    status: RsvpStatus,
+  ): Promise<boolean> => {
+    if (!userId) return false;
+
+    const hangout = sharedEvents.find((event) => event.id === eventId);
+    if (!hangout || getRsvpStatus(hangout, userId) === null) return false;
+
+    try {
+      const responder = await dataProvider.getUser(userId);
+      if (!responder) return false;
+
+      const success = await dataProvider.respondToInvite(
+        eventId,
+        userId,
+        status,
+      );
+      if (!success) return false;
+
+      const updated = withRsvp(hangout, userId, status);
+      setSharedEvents((prev) =>
+        prev.map((event) => (event.id === eventId ? updated : event)),
+      );
+      await notificationDispatcher.dispatch(
+        createRsvpNotification(updated, responder, status),
+      );
+
+      return true;
+    } catch (error) {
+      console.error("Error responding to invite:", error);
+      return false;
+    }
+  };
+
+  // Reverts the most recent updateEvent call
+  const undoLastChange = async (): Promise<boolean> => {
+    const change = undoStack.current.pop();
+    setCanUndo(undoStack.current.length > 0);
+    if (!change) return false;
+
+    try {
+      const restored = await Promise.all(
+        change.previous.map((event) => dataProvider.updateEvent(event)),
+      );
+      const removed = await Promise.all(
+        change.createdIds.map((id) => dataProvider.deleteEvent(id)),
+      );
+
+      setEvents((prev) =>
+        prev
+          .filter((event) => !change.createdIds.includes(event.id))
+          .map(
+            (event) =>
+              change.previous.find((previous) => previous.id === event.id) ||
+              event,
+          ),
+      );
+      await recheckHangoutMatches(change.previous);
+
+      return restored.every(Boolean) && removed.every(Boolean);
+    } catch (error) {
+      console.error("Error undoing event change:", error);
+      return false;
+    }
+  };
+
+  const deleteEvent = async (
+    eventId: string,
+    scope: RecurrenceEditScope = "all",
+  ): Promise<boolean> => {
+    const resolved = resolveOccurrence(events, eventId);
+    if (!resolved || resolved.event.userId !== userId) return false;
+    const { event, occurrenceStart } = resolved;
+
+    if (
+      !occurrenceStart ||
+      scope === "all" ||
+      (scope === "following" && isFirstOccurrence(event, occurrenceStart))
+    ) {
+      const success = await dataProvider.deleteEvent(event.id);
+      if (success) {
+        setEvents((prev) => prev.filter((e) => e.id !== event.id));
+      }
+      return success;
+    }
+
+    const saved = await saveEventChanges(
+      [
+        scope === "this"
+          ? excludeOccurrence(event, occurrenceStart)
+          : truncateSeries(event, occurrenceStart),
+      ],
+      [],
+    );
+    return saved !== null;
+  };
+
+  /**
+   * Imports events parsed from an iCalendar file. Events whose UID is already
+   * in the calendar replace the existing event instead of duplicating it.
+   */
+  const importEvents = async (imported: ImportedEvent[]): Promise<number> => {
+    if (!userId) throw new Error("User ID is required");
+
+    const byUid = new Map(events.map((event) => [getEventUid(event), event]));
+    const changed: Event[] = [];
+    const created: Omit<Event, "id">[] = [];
+
+    // Floating and UTC times repeat in the user's zone, like new events do
+    imported.forEach((event) => {
+      const existing = byUid.get(event.icalUid);
+      if (existing) {
+        const { recurrence: _recurrence, ...current } = existing;
+        changed.push({ timeZone, ...current, ...event } as Event);
+      } else {
+        created.push({
+          timeZone,
+          ...event,
+          userId,
+          createdAt: new Date().toISOString(),
+        });
+      }
+    });
+
+    if (!(await saveEventChanges(changed, created))) {
+      throw new Error("Failed to import events");
+    }
+    return changed.length + created.length;
+  };
+
   const getFriendEvents = (friendId: string): Event[] => {
-    const allEvents = eventStorage.getEvents();
-    return allEvents.filter(
+    return friendOccurrences.filter(
       (event) =>
         event.userId === friendId &&
         (event.type === "hangout" || event.type === "personal"),
@@ -94,47 +480,79 @@ export const useCalendarStore = (userId?: string) => {
   };
 
   const getFriendHangouts = (friendId: string): HangoutEvent[] => {
-    const allEvents = eventStorage.getEvents();
-    return allEvents.filter(
-      (event) => event.userId === friendId && event.type === "hangout",
+    return friendOccurrences.filter(
+      (event) =>
+        event.userId === friendId &&
+        event.type === "hangout" &&
+        !isSharedHangout(event),
     ) as HangoutEvent[];
   };
 
-  const checkForHangoutMatches = (hangoutEvent: HangoutEvent) => {
+  // Friend hangouts intersecting a range, including recurring ones outside
+  // the usual horizon
+  const getFriendHangoutsBetween = (friendId: string, start: Date, end: Date) =>
+    expandEvents(
+      friendEvents.filter(
+        (event) =>
+          event.userId === friendId &&
+          event.type === "hangout" &&
+          !isSharedHangout(event),
+      ),
+      start,
+      end,
+    ).filter(
+      (event) =>
+        new Date(event.startTime) < end && new Date(event.endTime) > start,
+    ) as HangoutEvent[];
+
+  const checkForHangoutMatches = async (hangoutEvent: HangoutEvent) => {
     if (!userId) return;
 
-    const currentUser = userStorage.getCurrentUser();
+    // Read fresh data so matches against just-created friend hangouts count
+    const [currentUser, currentFriends, existingMatches] = await Promise.all([
+      dataProvider.getUser(userId),
+      dataProvider.getFriends(userId),
+      dataProvider.getUserHangoutMatches(userId),
+    ]);
     if (!currentUser) return;
 
-    const allEvents = eventStorage.getEvents();
-    const friends = userStorage
-      .getUsers()
-      .filter((user) => currentUser.friends.includes(user.id));
+    const circle = [currentUser, ...currentFriends];
+    // Shared hangouts are settled plans, not free time to match against
+    const circleEvents = (
+      await dataProvider.getEventsForUsers(circle.map((member) => member.id))
+    ).filter((event) => !isSharedHangout(event));
+
+    const matchedKeys = new Set(existingMatches.map((match) => match.id));
+    const usersById = new Map(circle.map((member) => [member.id, member]));
+
+    // Recurring hangouts are matched occurrence by occurrence
+    const horizon = getRecurrenceHorizon();
+    const targets = expandEvent(hangoutEvent, new Date(), horizon.end);
+
+    for (const target of targets) {
+      const start = new Date(target.startTime);
+      const end = new Date(target.endTime);
+      const targetEvents = expandEvents(circleEvents, start, end).filter(
+        (event) =>
+          new Date(event.startTime) < end && new Date(event.endTime) > start,
+      );
+
+      // Pairs and larger groups of mutual friends who are free alongside us
+      const windows = findGroupHangoutWindows(targetEvents, circle, {
+        minGroupSize: 2,
+        includeUserId: userId,
+        within: { start: target.startTime, end: target.endTime },
+      });
 
-    friends.forEach((friend) => {
-      const friendHangouts = allEvents.filter(
-        (event) => event.userId === friend.id && event.type === "hangout",
-      ) as HangoutEvent[];
+      for (const window of windows) {
+        const matchKey = getMatchKey(window);
+        if (matchedKeys.has(matchKey)) continue;
+        matchedKeys.add(matchKey);
+        await createHangoutMatch(window, targetEvents, usersById);
+      }
+    }
 
-      friendHangouts.forEach((friendHangout) => {
-        const overlap = getTimeOverlap(hangoutEvent, friendHangout);
-        if (overlap) {
-          // Check if notification already exists to avoid duplicates
-          const existingNotifications = notificationStorage.getNotifications();
-          const alreadyNotified = existingNotifications.some(
-            (notification) =>
-              notification.userId === userId &&
-              notification.type === "hangout_match" &&
-              notification.data?.hangoutEvents?.includes(hangoutEvent.id) &&
-              notification.data?.hangoutEvents?.includes(friendHangout.id),
-          );
-
-          if (!alreadyNotified) {
-            createHangoutMatch(hangoutEvent, friendHangout, overlap);
-          }
-        }
-      });
-    });
+    setHangoutMatches(await dataProvider.getUserHangoutMatches(userId));
   };
 
   const getTimeOverlap = (
@@ -149,8 +567,10 @@ export const useCalendarStore = (userId?: string) => {
     const overlapStart = new Date(Math.max(start1.getTime(), start2.getTime()));
     const overlapEnd = new Date(Math.min(end1.getTime(), end2.getTime()));
 
-    // Check if there's any overlap, even if it's just 1 minute or less
-    if (overlapStart <= overlapEnd) {
+    // Touching events don't count, and short overlaps fall below the policy
+    const overlapMinutes =
+      (overlapEnd.getTime() - overlapStart.getTime()) / 60000;
+    if (overlapMinutes > 0 && overlapMinutes >= matchPolicy.minOverlapMinutes) {
       return {
         start: overlapStart.toISOString(),
         end: overlapEnd.toISOString(),
@@ -160,77 +580,49 @@ export const useCalendarStore = (userId?: string) => {
     return null;
   };
 
-  const createHangoutMatch = (
-    event1: HangoutEvent,
-    event2: HangoutEvent,
-    overlap: { start: string; end: string },
+  const createHangoutMatch = async (
+    window: GroupHangoutWindow,
+    circleEvents: Event[],
+    usersById: Map<string, User>,
   ) => {
-    const users = [event1.userId, event2.userId];
-
-    // Create notifications for both users
-    users.forEach((userId) => {
-      const otherUserId = users.find((id) => id !== userId);
-      const otherUser = userStorage
-        .getUsers()
-        .find((u) => u.id === otherUserId);
-
-      if (otherUser) {
-        const notification: Notification = {
-          id: generateId(),
-          userId,
-          type: "hangout_match",
-          title: "Hangout Match Found!",
-          message: `You and ${otherUser.fullName} have overlapping hangout times`,
-          data: {
-            matchedUserId: otherUserId,
-            overlappingTime: overlap,
-            hangoutEvents: [event1.id, event2.id],
-          },
-          read: false,
-          createdAt: new Date().toISOString(),
-        };
+    const evaluation = evaluateHangoutMatch(window, circleEvents);
 
-        notificationStorage.addNotification(notification);
-      }
-    });
+    // Everyone in the group sees the match, notified or not
+    const saved = await dataProvider.saveHangoutMatch(
+      toHangoutMatch(window, evaluation),
+    );
+    if (!saved) return;
+
+    // Notify each member whose own matching policy accepts this match
+    await notificationDispatcher.dispatchAll(
+      filterByMatchPolicy(
+        createHangoutMatchNotifications(window, usersById, evaluation),
+        evaluation,
+        usersById,
+      ),
+    );
   };
 
+  // Matches that haven't ended yet, soonest first. Matching policies only
+  // gate notifications, so this lists every match the user is part of
   const getHangoutMatches = (): HangoutMatch[] => {
     if (!userId) return [];
 
-    const notifications = notificationStorage.getNotifications();
-    const hangoutNotifications = notifications.filter(
-      (n) => n.userId === userId && n.type === "hangout_match",
-    );
-
-    return hangoutNotifications.map((notification) => ({
-      id: notification.id,
-      users: [userId, notification.data.matchedUserId],
-      overlappingTime: notification.data.overlappingTime,
-      hangoutEvents: notification.data.hangoutEvents,
-      createdAt: notification.createdAt,
-    }));
+    const now = new Date();
+    return hangoutMatches
+      .filter((match) => new Date(match.overlappingTime.end) > now)
+      .sort((a, b) =>
+        a.overlappingTime.start.localeCompare(b.overlappingTime.start),
+      );
   };
 
   const getAllFriendHangouts = () => {
     if (!userId) return [];
 
-    const currentUser = userStorage.getCurrentUser();
-    if (!currentUser) return [];
-
-    const allEvents = eventStorage.getEvents();
-    const friends = userStorage
-      .getUsers()
-      .filter((user) => currentUser.friends.includes(user.id));
-
     const friendHangouts: Array<{ event: HangoutEvent; friend: User }> = [];
 
     friends.forEach((friend) => {
-      const friendEvents = allEvents.filter(
-        (event) => event.userId === friend.id && event.type === "hangout",
-      ) as HangoutEvent[];
-
-      friendEvents.forEach((event) => {
+      getFriendHangouts(friend.id).forEach((event) => {
         friendHangouts.push({ event, friend });
       });
     });
@@ -248,39 +640,24 @@ export const useCalendarStore = (userId?: string) => {
   const getOverlappingHangouts = (targetDate: Date) => {
     if (!userId) return [];
 
-    const currentUser = userStorage.getCurrentUser();
-    if (!currentUser) return [];
-
-    const allEvents = eventStorage.getEvents();
-    const userHangouts = allEvents.filter(
-      (event) => event.userId === userId && event.type === "hangout",
+    // The day as the user sees it in their home zone, as absolute instants
+    const day = getZonedDayRange(targetDate, timeZone);
+    const userHangouts = expandEvents(events, day.start, day.end).filter(
+      (event) => event.type === "hangout",
     ) as HangoutEvent[];
 
-    const friends = userStorage
-      .getUsers()
-      .filter((user) => currentUser.friends.includes(user.id));
-
-    const overlaps: Array<{
-      userEvent: HangoutEvent;
-      friendEvent: HangoutEvent;
-      friend: User;
-      overlap: { start: string; end: string };
-    }> = [];
+    const overlaps: HangoutOverlap[] = [];
 
     userHangouts.forEach((userEvent) => {
-      // Check if this event is on the target date
-      const eventDate = new Date(userEvent.startTime);
-      if (
-        eventDate.getDate() === targetDate.getDate() &&
-        eventDate.getMonth() === targetDate.getMonth() &&
-        eventDate.getFullYear() === targetDate.getFullYear()
-      ) {
+      // Check if this event starts on the target date
+      const eventStart = new Date(userEvent.startTime);
+      if (eventStart >= day.start && eventStart < day.end) {
         friends.forEach((friend) => {
-          const friendHangouts = allEvents.filter(
-            (event) => event.userId === friend.id && event.type === "hangout",
-          ) as HangoutEvent[];
-
-          friendHangouts.forEach((friendEvent) => {
+          getFriendHangoutsBetween(
+            friend.id,
+            new Date(userEvent.startTime),
+            new Date(userEvent.endTime),
+          ).forEach((friendEvent) => {
             const overlap = getTimeOverlap(userEvent, friendEvent);
             if (overlap) {
               overlaps.push({
@@ -301,26 +678,22 @@ export const useCalendarStore = (userId?: string) => {
   const checkEventOverlap = (eventId: string) => {
     if (!userId) return null;
 
-    const currentUser = userStorage.getCurrentUser();
-    if (!currentUser) return null;
-
-    const allEvents = eventStorage.getEvents();
-    const targetEvent = allEvents.find(
-      (e) => e.id === eventId && e.type === "hangout",
-    ) as HangoutEvent;
-
-    if (!targetEvent || targetEvent.userId !== userId) return null;
+    const targetEvent = findOccurrence(events, eventId) as HangoutEvent;
 
-    const friends = userStorage
-      .getUsers()
-      .filter((user) => currentUser.friends.includes(user.id));
+    if (
+      !targetEvent ||
+      targetEvent.type !== "hangout" ||
+      targetEvent.userId !== userId
+    ) {
+      return null;
+    }
 
     for (const friend of friends) {
-      const friendHangouts = allEvents.filter(
-        (event) => event.userId === friend.id && event.type === "hangout",
-      ) as HangoutEvent[];
-
-      for (const friendEvent of friendHangouts) {
+      for (const friendEvent of getFriendHangoutsBetween(
+        friend.id,
+        new Date(targetEvent.startTime),
+        new Date(targetEvent.endTime),
+      )) {
         const overlap = getTimeOverlap(targetEvent, friendEvent);
         if (overlap) {
           return {
@@ -338,10 +711,19 @@ export const useCalendarStore = (userId?: string) => {
 
   return {
     events,
+    occurrences,
+    sharedEvents,
+    sharedOccurrences,
+    friends,
     isLoading,
     createEvent,
     updateEvent,
+    createSharedHangout,
+    respondToInvite,
+    undoLastChange,
+    canUndo,
     deleteEvent,
+    importEvents,
     getFriendEvents,
     getFriendHangouts,
     getHangoutMatches,
@@ -1,63 +1,148 @@
 import { useState, useEffect, useCallback } from "react";
-import { Message, Conversation, User, Notification } from "@/types";
 import {
-  conversationStorage,
-  userStorage,
-  notificationStorage,
-} from "@/utils/storage";
-import { generateId } from "@/utils/auth";
+  Message,
+  MessageChange,
+  Conversation,
+  Notification,
+  ProposalResponse,
+} from "@/types";
+import { generateId } from "@/lib/utils";
+import { dataProvider } from "@/services/dataProvider";
+import { createPendingId } from "@/services/offlineQueue";
+import { notificationDispatcher } from "@/services/notificationDispatcher";
+import { useDataChanges } from "@/hooks/use-data-changes";
+import {
+  createSystemMessage,
+  getDirectConversationId,
+  getMessageConversationId,
+  isGroupConversation,
+  getUnreadCount,
+} from "@/utils/conversations";
+import { RichMessageDraft, withProposalResponse } from "@/utils/richMessages";
+import {
+  canEditMessage,
+  isDeleted,
+  toTombstone,
+  withEditedContent,
+  withHiddenFor,
+  withReactionToggled,
+} from "@/utils/messageEdits";
+import { MESSAGE_PAGE_SIZE, mergeMessages } from "@/utils/messagePages";
+import { isBlockedBetween } from "@/utils/blocking";
+
+// Plain text, or a rich message with its own fallback text
+type MessageBody = string | RichMessageDraft;
+
+const toMessageFields = (body: MessageBody) =>
+  typeof body === "string" ? { content: body.trim() } : body;
 
 export const useMessageStore = (userId?: string) => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  // Conversations whose history has been loaded back to the first message
+  const [fullyLoadedIds, setFullyLoadedIds] = useState<Set<string>>(new Set());
+
+  // Refreshes from the change feed skip the loading state
+  const loadConversations = useCallback(
+    async (showLoading = true) => {
+      if (!userId) {
+        setConversations([]);
+        setIsLoading(false);
+        return;
+      }
 
-  const loadConversations = useCallback(() => {
-    if (!userId) {
-      setConversations([]);
-      setIsLoading(false);
-      return;
-    }
-
-    setIsLoading(true);
-    const allConversations = conversationStorage.getConversations();
-    const userConversations = allConversations.filter((conv) =>
-      conv.participants.includes(userId),
-    );
+      if (showLoading) setIsLoading(true);
+      const userConversations = await dataProvider.getUserConversations(userId);
 
-    // Sort by last message timestamp
-    userConversations.sort(
-      (a, b) =>
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
-    );
+      // Sort by last message timestamp
+      userConversations.sort(
+        (a, b) =>
+          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
+      );
 
-    setConversations(userConversations);
-    setIsLoading(false);
-  }, [userId]);
+      // Keep older pages the user already scrolled back through
+      setConversations((prev) =>
+        userConversations.map((conversation) => {
+          const loaded = prev.find((c) => c.id === conversation.id);
+          return loaded
+            ? {
+                ...conversation,
+                // Messages shown while sending come back from the provider
+                messages: mergeMessages(
+                  loaded.messages.filter((message) => !message.pending),
+                  conversation.messages,
+                ),
+              }
+            : conversation;
+        }),
+      );
+      setIsLoading(false);
+    },
+    [userId],
+  );
 
   useEffect(() => {
     loadConversations();
   }, [loadConversations]);
 
-  const sendMessage = (receiverId: string, content: string): Message => {
+  useDataChanges(
+    userId,
+    [
+      "message_sent",
+      "message_updated",
+      "conversation_updated",
+      "conversation_deleted",
+    ],
+    () => loadConversations(false),
+  );
+
+  // Shows a message straight away; the next load swaps in the stored copy
+  const showPendingMessage = (message: Omit<Message, "id">) =>
+    setConversations((prev) =>
+      prev.map((conversation) =>
+        conversation.id === getMessageConversationId(message)
+          ? {
+              ...conversation,
+              messages: [
+                ...conversation.messages,
+                { ...message, id: createPendingId(), pending: true },
+              ],
+            }
+          : conversation,
+      ),
+    );
+
+  const sendMessage = async (
+    receiverId: string,
+    body: MessageBody,
+  ): Promise<Message> => {
     if (!userId) throw new Error("User ID is required");
 
-    const message: Message = {
-      id: generateId(),
+    // Checked up front so a rejected message isn't queued to retry offline
+    const [sender, receiver] = await Promise.all([
+      dataProvider.getUser(userId),
+      dataProvider.getUser(receiverId),
+    ]);
+    if (isBlockedBetween(sender, receiver)) {
+      throw new Error("You can't message this person");
+    }
+
+    const draft: Omit<Message, "id"> = {
       senderId: userId,
       receiverId,
-      content: content.trim(),
+      ...toMessageFields(body),
       timestamp: new Date().toISOString(),
       read: false,
     };
+    showPendingMessage(draft);
 
-    conversationStorage.addMessage(message);
-    loadConversations(); // Refresh conversations
+    const message = await dataProvider.sendMessage(draft);
+    await loadConversations(false); // Refresh conversations
+    if (!message) throw new Error("Failed to send message");
 
     // Create notification for receiver
-    const sender = userStorage.getUsers().find((u) => u.id === userId);
     if (sender) {
-      const notification: Notification = {
-        id: generateId(),
+      await notificationDispatcher.dispatch({
         userId: receiverId,
         type: "message",
         title: "New Message",
@@ -68,76 +153,377 @@ export const useMessageStore = (userId?: string) => {
         },
         read: false,
         createdAt: new Date().toISOString(),
-      };
+      });
+    }
+
+    return message;
+  };
 
-      notificationStorage.addNotification(notification);
+  const sendGroupMessage = async (
+    conversation: Conversation,
+    body: MessageBody,
+  ): Promise<Message> => {
+    if (!userId) throw new Error("User ID is required");
+    if (!conversation.participants.includes(userId)) {
+      throw new Error("Not a member of this conversation");
+    }
+
+    const conversationId = conversation.id;
+
+    const draft: Omit<Message, "id"> = {
+      conversationId,
+      senderId: userId,
+      ...toMessageFields(body),
+      timestamp: new Date().toISOString(),
+      read: false,
+      readBy: [],
+    };
+    showPendingMessage(draft);
+
+    const message = await dataProvider.sendMessage(draft);
+    await loadConversations(false);
+    if (!message) throw new Error("Failed to send message");
+
+    // Notify every other member
+    const sender = await dataProvider.getUser(userId);
+    if (sender) {
+      await notificationDispatcher.dispatchAll(
+        conversation.participants
+          .filter((memberId) => memberId !== userId)
+          .map(
+            (memberId): Omit<Notification, "id"> => ({
+              userId: memberId,
+              type: "message",
+              title: "New Message",
+              message: `${sender.fullName} sent a message in ${conversation.name || "a group"}`,
+              data: {
+                senderId: userId,
+                messageId: message.id,
+                conversationId,
+                ...(conversation.name && {
+                  conversationName: conversation.name,
+                }),
+              },
+              read: false,
+              createdAt: new Date().toISOString(),
+            }),
+          ),
+      );
     }
 
     return message;
   };
 
+  /**
+   * Applies a change to a message, showing it straight away and rolling
+   * back to the stored conversations if the save fails.
+   */
+  const saveMessage = async (
+    message: Message,
+    change: MessageChange,
+  ): Promise<boolean> => {
+    const updated = change(message);
+
+    setConversations((prev) =>
+      prev.map((conversation) =>
+        conversation.id === getMessageConversationId(updated)
+          ? {
+              ...conversation,
+              messages: conversation.messages.map((message) =>
+                message.id === updated.id ? updated : message,
+              ),
+              ...(conversation.lastMessage?.id === updated.id && {
+                lastMessage: updated,
+              }),
+            }
+          : conversation,
+      ),
+    );
+
+    const success = await dataProvider.updateMessage(updated, change);
+    if (!success) await loadConversations();
+
+    return success;
+  };
+
+  // A short first page means there's nothing older to fetch
+  const hasOlderMessages = (conversationId: string): boolean => {
+    const conversation = conversations.find((c) => c.id === conversationId);
+    return (
+      Boolean(conversation) &&
+      !fullyLoadedIds.has(conversationId) &&
+      conversation.messages.length >= MESSAGE_PAGE_SIZE
+    );
+  };
+
+  /**
+   * Fetches the page of messages before the oldest one loaded. Returns
+   * whether any were added.
+   */
+  const loadOlderMessages = async (
+    conversationId: string,
+  ): Promise<boolean> => {
+    const conversation = conversations.find((c) => c.id === conversationId);
+    if (!conversation || !hasOlderMessages(conversationId)) return false;
+
+    const page = await dataProvider.getConversationMessages(conversationId, {
+      before: conversation.messages[0],
+      limit: MESSAGE_PAGE_SIZE,
+    });
+
+    if (!page.hasMore) {
+      setFullyLoadedIds((prev) => new Set(prev).add(conversationId));
+    }
+    setConversations((prev) =>
+      prev.map((c) =>
+        c.id === conversationId
+          ? { ...c, messages: mergeMessages(page.messages, c.messages) }
+          : c,
+      ),
+    );
+
+    return page.messages.length > 0;
+  };
+
+  const respondToProposal = async (
+    message: Message,
+    response: ProposalResponse,
+  ): Promise<boolean> => {
+    if (!userId || message.senderId === userId) return false;
+
+    return saveMessage(message, (latest) =>
+      withProposalResponse(latest, userId, response),
+    );
+  };
+
+  const editMessage = async (
+    message: Message,
+    content: string,
+  ): Promise<boolean> => {
+    if (!userId || !content.trim() || !canEditMessage(message, userId)) {
+      return false;
+    }
+    if (content.trim() === message.content) return true;
+
+    return saveMessage(message, (latest) => withEditedContent(latest, content));
+  };
+
+  // Anyone can delete a message for themselves; only its sender for everyone
+  const deleteMessage = async (
+    message: Message,
+    scope: "me" | "everyone",
+  ): Promise<boolean> => {
+    if (!userId) return false;
+
+    if (scope === "me") {
+      return saveMessage(message, (latest) => withHiddenFor(latest, userId));
+    }
+    if (message.senderId !== userId || isDeleted(message)) return false;
+
+    return saveMessage(message, toTombstone);
+  };
+
+  const toggleReaction = async (
+    message: Message,
+    emoji: string,
+  ): Promise<boolean> => {
+    if (!userId || isDeleted(message)) return false;
+
+    return saveMessage(message, (latest) =>
+      withReactionToggled(latest, emoji, userId),
+    );
+  };
+
+  // Posts a membership change to the group for everyone to see
+  const announce = async (conversationId: string, content: string) => {
+    if (!userId) return;
+    await dataProvider.sendMessage(
+      createSystemMessage(conversationId, userId, content),
+    );
+  };
+
+  const getUserNames = async (userIds: string[]) =>
+    (await dataProvider.getUsers(userIds)).map((member) => member.fullName);
+
+  /**
+   * Starts a group conversation with the user and the given members. Groups
+   * created for a shared hangout remember its event so they can be reopened.
+   */
+  const createGroupConversation = async (
+    name: string,
+    memberIds: string[],
+    eventId?: string,
+  ): Promise<Conversation | null> => {
+    if (!userId) return null;
+
+    try {
+      const conversation: Conversation = {
+        id: generateId(),
+        type: "group",
+        name: name.trim(),
+        createdBy: userId,
+        ...(eventId && { eventId }),
+        participants: [...new Set([userId, ...memberIds])],
+        messages: [],
+        updatedAt: new Date().toISOString(),
+      };
+
+      const success = await dataProvider.saveConversation(conversation);
+      if (!success) return null;
+
+      const [creatorName] = await getUserNames([userId]);
+      await announce(
+        conversation.id,
+        `${creatorName} created the group "${conversation.name}"`,
+      );
+      await loadConversations();
+
+      return conversation;
+    } catch (error) {
+      console.error("Error creating group conversation:", error);
+      return null;
+    }
+  };
+
+  const getGroupForEvent = (eventId: string): Conversation | null =>
+    conversations.find(
+      (conv) => isGroupConversation(conv) && conv.eventId === eventId,
+    ) || null;
+
+  // Saves a group's new member list, announcing the change
+  const updateGroupMembers = async (
+    conversationId: string,
+    getParticipants: (participants: string[]) => string[],
+    getAnnouncement: () => Promise<string>,
+  ): Promise<boolean> => {
+    const conversation = conversations.find(
+      (conv) => conv.id === conversationId,
+    );
+    if (
+      !userId ||
+      !conversation ||
+      !isGroupConversation(conversation) ||
+      !conversation.participants.includes(userId)
+    ) {
+      return false;
+    }
+
+    try {
+      // Announce before saving so members who leave still post the message
+      await announce(conversationId, await getAnnouncement());
+      const latest =
+        (await dataProvider.getUserConversations(userId)).find(
+          (conv) => conv.id === conversationId,
+        ) || conversation;
+      const success = await dataProvider.saveConversation({
+        ...latest,
+        participants: getParticipants(latest.participants),
+      });
+      await loadConversations();
+
+      return success;
+    } catch (error) {
+      console.error("Error updating group members:", error);
+      return false;
+    }
+  };
+
+  const addGroupMembers = (conversationId: string, memberIds: string[]) =>
+    updateGroupMembers(
+      conversationId,
+      (participants) => [
+        ...participants,
+        ...memberIds.filter((id) => !participants.includes(id)),
+      ],
+      async () => {
+        const [actorName, ...names] = await getUserNames([
+          userId!,
+          ...memberIds,
+        ]);
+        return `${actorName} added ${names.join(", ")}`;
+      },
+    );
+
+  // Only the group's creator can remove other members
+  const removeGroupMember = async (
+    conversationId: string,
+    memberId: string,
+  ): Promise<boolean> => {
+    const conversation = conversations.find(
+      (conv) => conv.id === conversationId,
+    );
+    if (!conversation || conversation.createdBy !== userId) return false;
+
+    return updateGroupMembers(
+      conversationId,
+      (participants) => participants.filter((id) => id !== memberId),
+      async () => {
+        const [actorName, memberName] = await getUserNames([userId!, memberId]);
+        return `${actorName} removed ${memberName}`;
+      },
+    );
+  };
+
+  const leaveGroup = (conversationId: string) =>
+    updateGroupMembers(
+      conversationId,
+      (participants) => participants.filter((id) => id !== userId),
+      async () => {
+        const [name] = await getUserNames([userId!]);
+        return `${name} left the group`;
+      },
+    );
+
   const getConversation = (participantId: string): Conversation | null => {
     if (!userId) return null;
 
     return (
       conversations.find(
         (conv) =>
+          !isGroupConversation(conv) &&
           conv.participants.includes(participantId) &&
           conv.participants.includes(userId),
       ) || null
     );
   };
 
-  const markMessagesAsRead = (conversationId: string): void => {
-    const conversation = conversations.find(
-      (conv) => conv.id === conversationId,
-    );
-    if (!conversation) return;
-
-    let hasUnreadMessages = false;
-    const updatedMessages = conversation.messages.map((message) => {
-      if (message.receiverId === userId && !message.read) {
-        hasUnreadMessages = true;
-        return { ...message, read: true };
-      }
-      return message;
-    });
-
-    if (hasUnreadMessages) {
-      const updatedConversation = {
-        ...conversation,
-        messages: updatedMessages,
-      };
+  const markMessagesAsRead = useCallback(
+    async (conversationId: string): Promise<void> => {
+      if (!userId) return;
 
-      const allConversations = conversationStorage.getConversations();
-      const updatedConversations = allConversations.map((conv) =>
-        conv.id === conversationId ? updatedConversation : conv,
+      const conversation = conversations.find(
+        (conv) => conv.id === conversationId,
       );
+      if (!conversation) return;
 
-      conversationStorage.setConversations(updatedConversations);
-      loadConversations();
-    }
-  };
+      if (getUnreadCount(conversation, userId) > 0) {
+        await dataProvider.markConversationAsRead(conversationId, userId);
+        await loadConversations();
+      }
+    },
+    [conversations, userId, loadConversations],
+  );
 
-  const getUnreadCount = (conversationId: string): number => {
+  const getConversationUnreadCount = (conversationId: string): number => {
     const conversation = conversations.find(
       (conv) => conv.id === conversationId,
     );
-    if (!conversation) return 0;
+    if (!conversation || !userId) return 0;
 
-    return conversation.messages.filter(
-      (message) => message.receiverId === userId && !message.read,
-    ).length;
+    return getUnreadCount(conversation, userId);
   };
 
   const getTotalUnreadCount = (): number => {
     return conversations.reduce(
-      (total, conversation) => total + getUnreadCount(conversation.id),
+      (total, conversation) =>
+        total + getConversationUnreadCount(conversation.id),
       0,
     );
   };
 
-  const deleteConversation = (conversationId: string): boolean => {
+  const deleteConversation = async (
+    conversationId: string,
+  ): Promise<boolean> => {
     const conversation = conversations.find(
       (conv) => conv.id === conversationId,
     );
@@ -145,53 +531,63 @@ export const useMessageStore = (userId?: string) => {
       return false;
     }
 
-    const allConversations = conversationStorage.getConversations();
-    const updatedConversations = allConversations.filter(
-      (conv) => conv.id !== conversationId,
-    );
-
-    conversationStorage.setConversations(updatedConversations);
-    loadConversations();
+    const success = await dataProvider.deleteConversation(conversationId);
+    await loadConversations();
 
-    return true;
+    return success;
   };
 
-  const getConversationWithUser = (
-    otherUserId: string,
-  ): Conversation | null => {
-    if (!userId) return null;
+  const getConversationWithUser = useCallback(
+    (otherUserId: string): Conversation | null => {
+      if (!userId) return null;
 
-    const conversationId = [userId, otherUserId].sort().join("-");
-    return conversations.find((conv) => conv.id === conversationId) || null;
-  };
+      const conversationId = getDirectConversationId(userId, otherUserId);
+      return conversations.find((conv) => conv.id === conversationId) || null;
+    },
+    [conversations, userId],
+  );
 
-  const createConversation = (otherUserId: string): Conversation => {
-    if (!userId) throw new Error("User ID is required");
+  const createConversation = useCallback(
+    async (otherUserId: string): Promise<Conversation> => {
+      if (!userId) throw new Error("User ID is required");
 
-    const conversationId = [userId, otherUserId].sort().join("-");
+      const conversationId = getDirectConversationId(userId, otherUserId);
 
-    const newConversation: Conversation = {
-      id: conversationId,
-      participants: [userId, otherUserId],
-      messages: [],
-      updatedAt: new Date().toISOString(),
-    };
+      const newConversation: Conversation = {
+        id: conversationId,
+        type: "direct",
+        participants: [userId, otherUserId],
+        messages: [],
+        updatedAt: new Date().toISOString(),
+      };
 
-    const allConversations = conversationStorage.getConversations();
-    allConversations.push(newConversation);
-    conversationStorage.setConversations(allConversations);
+      await dataProvider.saveConversation(newConversation);
 
-    loadConversations();
-    return newConversation;
-  };
+      await loadConversations();
+      return newConversation;
+    },
+    [userId, loadConversations],
+  );
 
   return {
     conversations,
     isLoading,
     sendMessage,
+    sendGroupMessage,
+    hasOlderMessages,
+    loadOlderMessages,
+    respondToProposal,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    createGroupConversation,
+    getGroupForEvent,
+    addGroupMembers,
+    removeGroupMember,
+    leaveGroup,
     getConversation,
     markMessagesAsRead,
-    getUnreadCount,
+    getUnreadCount: getConversationUnreadCount,
     getTotalUnreadCount,
     deleteConversation,
     getConversationWithUser,
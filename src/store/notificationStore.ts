@@ -1,40 +1,85 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { Notification } from "@/types";
-import { notificationStorage } from "@/utils/storage";
+import { dataProvider } from "@/services/dataProvider";
+import { useDataChanges } from "@/hooks/use-data-changes";
+import { isNotificationDue } from "@/utils/notificationPreferences";
+import {
+  DigestPeriod,
+  NotificationDigest,
+  NotificationGroup,
+  buildNotificationDigest,
+  groupNotifications,
+} from "@/utils/notificationGroups";
 
 export const useNotificationStore = (userId?: string) => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-
-  const loadNotifications = useCallback(() => {
-    if (!userId) {
-      setNotifications([]);
+  // When the next notification held back by quiet hours is due
+  const [nextDeliveryAt, setNextDeliveryAt] = useState<string | null>(null);
+
+  // Refreshes from the change feed skip the loading state
+  const loadNotifications = useCallback(
+    async (showLoading = true) => {
+      if (!userId) {
+        setNotifications([]);
+        setNextDeliveryAt(null);
+        setIsLoading(false);
+        return;
+      }
+
+      if (showLoading) setIsLoading(true);
+      const userNotifications = await dataProvider.getUserNotifications(userId);
+
+      // Sort by creation date (newest first)
+      userNotifications.sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      );
+
+      const now = new Date();
+      setNotifications(
+        userNotifications.filter((notification) =>
+          isNotificationDue(notification, now),
+        ),
+      );
+      setNextDeliveryAt(
+        userNotifications
+          .filter((notification) => !isNotificationDue(notification, now))
+          .map((notification) => notification.deliverAt!)
+          .sort()[0] || null,
+      );
       setIsLoading(false);
-      return;
-    }
-
-    setIsLoading(true);
-    const allNotifications = notificationStorage.getNotifications();
-    const userNotifications = allNotifications.filter(
-      (notification) => notification.userId === userId,
-    );
-
-    // Sort by creation date (newest first)
-    userNotifications.sort(
-      (a, b) =>
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-    );
-
-    setNotifications(userNotifications);
-    setIsLoading(false);
-  }, [userId]);
+    },
+    [userId],
+  );
 
   useEffect(() => {
     loadNotifications();
   }, [loadNotifications]);
 
-  const markAsRead = (notificationId: string): void => {
-    notificationStorage.markAsRead(notificationId);
+  useEffect(() => {
+    if (!nextDeliveryAt) return;
+
+    const timeout = setTimeout(
+      () => loadNotifications(false),
+      Math.max(new Date(nextDeliveryAt).getTime() - Date.now(), 0),
+    );
+    return () => clearTimeout(timeout);
+  }, [nextDeliveryAt, loadNotifications]);
+
+  useDataChanges(
+    userId,
+    [
+      "notification_added",
+      "notification_updated",
+      "notification_deleted",
+      "notifications_cleared",
+    ],
+    () => loadNotifications(false),
+  );
+
+  const markAsRead = async (notificationId: string): Promise<void> => {
+    await dataProvider.markNotificationAsRead(notificationId);
     setNotifications((prev) =>
       prev.map((notification) =>
         notification.id === notificationId
@@ -44,11 +89,13 @@ export const useNotificationStore = (userId?: string) => {
     );
   };
 
-  const markAllAsRead = (): void => {
+  const markAllAsRead = async (): Promise<void> => {
     const unreadNotifications = notifications.filter((n) => !n.read);
-    unreadNotifications.forEach((notification) => {
-      notificationStorage.markAsRead(notification.id);
-    });
+    await Promise.all(
+      unreadNotifications.map((notification) =>
+        dataProvider.markNotificationAsRead(notification.id),
+      ),
+    );
 
     setNotifications((prev) =>
       prev.map((notification) => ({ ...notification, read: true })),
@@ -65,22 +112,49 @@ export const useNotificationStore = (userId?: string) => {
     return notifications.filter((notification) => notification.type === type);
   };
 
-  const deleteNotification = (notificationId: string): void => {
-    const allNotifications = notificationStorage.getNotifications();
-    const updatedNotifications = allNotifications.filter(
-      (n) => n.id !== notificationId,
-    );
-    notificationStorage.setNotifications(updatedNotifications);
+  const deleteNotification = async (notificationId: string): Promise<void> => {
+    await dataProvider.deleteNotification(notificationId);
 
     setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
   };
 
-  const clearAllNotifications = (): void => {
-    const allNotifications = notificationStorage.getNotifications();
-    const otherUsersNotifications = allNotifications.filter(
-      (n) => n.userId !== userId,
+  // Repeats from the same chat, sender, match or hangout, newest group first
+  const groups = useMemo(
+    () => groupNotifications(notifications),
+    [notifications],
+  );
+
+  const markGroupAsRead = async (group: NotificationGroup): Promise<void> => {
+    const unreadIds = group.notifications
+      .filter((notification) => !notification.read)
+      .map((notification) => notification.id);
+    await Promise.all(
+      unreadIds.map((id) => dataProvider.markNotificationAsRead(id)),
+    );
+
+    setNotifications((prev) =>
+      prev.map((notification) =>
+        unreadIds.includes(notification.id)
+          ? { ...notification, read: true }
+          : notification,
+      ),
     );
-    notificationStorage.setNotifications(otherUsersNotifications);
+  };
+
+  const dismissGroup = async (group: NotificationGroup): Promise<void> => {
+    const ids = group.notifications.map((notification) => notification.id);
+    await Promise.all(ids.map((id) => dataProvider.deleteNotification(id)));
+
+    setNotifications((prev) => prev.filter((n) => !ids.includes(n.id)));
+  };
+
+  const getDigest = (period: DigestPeriod): NotificationDigest =>
+    buildNotificationDigest(notifications, period);
+
+  const clearAllNotifications = async (): Promise<void> => {
+    if (!userId) return;
+
+    await dataProvider.clearUserNotifications(userId);
 
     setNotifications([]);
   };
@@ -94,6 +168,10 @@ export const useNotificationStore = (userId?: string) => {
     getNotificationsByType,
     deleteNotification,
     clearAllNotifications,
+    groups,
+    markGroupAsRead,
+    dismissGroup,
+    getDigest,
     loadNotifications,
   };
 };
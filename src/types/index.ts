@@ -9,9 +9,66 @@ export interface User {
     sent: string[];
     received: string[];
   };
+  matchPolicy?: MatchPolicy;
+  notificationPreferences?: NotificationPreferences;
+  // IANA zone, e.g. "Europe/London"
+  timeZone?: string;
+  // People the user hid from friend suggestions
+  suggestionDismissals?: SuggestionDismissal[];
+  // People the user blocked; blocks hide each side from the other
+  blockedUserIds?: string[];
   createdAt: string;
 }
 
+export interface SuggestionDismissal {
+  userId: string;
+  // Dismissed suggestions come back after a while; "not interested" is final
+  reason: "dismissed" | "not_interested";
+  dismissedAt: string;
+}
+
+export type ReportReason =
+  | "spam"
+  | "harassment"
+  | "inappropriate"
+  | "fake_account"
+  | "other";
+
+export interface UserReport {
+  id: string;
+  reporterId: string;
+  reportedUserId: string;
+  reason: ReportReason;
+  details?: string;
+  createdAt: string;
+}
+
+export interface MatchPolicy {
+  minOverlapMinutes: number;
+  requireSharedActivity: boolean;
+  requireBudgetCompatibility: boolean;
+  minCompatibilityScore: number;
+}
+
+export interface NotificationPreferences {
+  hangoutMatches: boolean;
+  // Invitations to, RSVPs for and changes to shared hangouts
+  hangoutInvites: boolean;
+  friendRequests: boolean;
+  messages: boolean;
+  email: boolean;
+  // System notifications through the browser, once permission is granted
+  push: boolean;
+  // Wall-clock "HH:mm" times in the user's zone; may span midnight
+  quietHours: {
+    enabled: boolean;
+    start: string;
+    end: string;
+  };
+  // Friends whose activity never produces notifications
+  mutedUserIds: string[];
+}
+
 export interface Event {
   id: string;
   userId: string;
@@ -20,47 +77,234 @@ export interface Event {
   startTime: string;
   endTime: string;
   type: "personal" | "hangout";
+  // IANA zone the times were entered in; recurrences repeat in this zone
+  timeZone?: string;
+  recurrence?: RecurrenceRule;
+  // UID of the iCalendar event this was imported from
+  icalUid?: string;
+  // Set on occurrences expanded from a recurring series
+  recurringEventId?: string;
+  originalStartTime?: string;
   createdAt: string;
+  // Stamped on every edit; the latest edit wins when offline edits replay
+  updatedAt?: string;
+  // Chosen by the creator, so a replayed create isn't stored twice
+  clientId?: string;
+  // Set on events created offline that haven't reached the server yet
+  pending?: boolean;
+}
+
+export interface RecurrenceRule {
+  frequency: "daily" | "weekly" | "monthly";
+  interval: number;
+  // Weekdays for weekly rules, 0 = Sunday
+  byWeekday?: number[];
+  count?: number;
+  until?: string;
+  // Start times of occurrences removed from the series
+  exceptionDates?: string[];
 }
 
 export interface HangoutEvent extends Event {
   type: "hangout";
   preferences: {
     activitySuggestions: string[];
+    budgetMin?: number;
     budgetLimit?: number;
     maxTravelDistance?: number;
   };
   visibility: "friends"; // Only friends can see hangout details
+  // Invitees of a shared hangout; the owner (`userId`) is always going
+  attendeeIds?: string[];
+  rsvps?: Record<string, RsvpStatus>;
 }
 
+export type RsvpStatus = "pending" | "going" | "maybe" | "declined";
+
 export interface Message {
   id: string;
+  conversationId?: string;
   senderId: string;
-  receiverId: string;
+  // Direct messages only; group messages are routed by `conversationId`
+  receiverId?: string;
+  // System messages announce membership changes and aren't counted as unread
+  type?: "text" | "system" | RichMessageType;
+  // Shown as-is by clients that can't render the payload
   content: string;
+  payload?: RichMessagePayload;
   timestamp: string;
+  // Superseded by `Conversation.lastRead`; only consulted for older chats
   read: boolean;
+  readBy?: string[];
+  // Earlier versions, oldest first; only text messages can be edited
+  editHistory?: MessageEdit[];
+  editedAt?: string;
+  // Set when the sender deletes the message for everyone, leaving a tombstone
+  deletedAt?: string;
+  // Users who deleted the message for themselves only
+  hiddenFor?: string[];
+  // Emoji to the IDs of users who reacted with it
+  reactions?: Record<string, string[]>;
+  // Chosen by the sender, so a replayed send isn't stored twice
+  clientId?: string;
+  // Set on messages queued offline that haven't reached the server yet
+  pending?: boolean;
+}
+
+// Applied to the latest stored copy, so concurrent changes by others survive
+export type MessageChange = (message: Message) => Message;
+
+export interface MessageEdit {
+  content: string;
+  editedAt: string;
+}
+
+export type RichMessageType = "hangout_proposal" | "event_card" | "location";
+
+export type ProposalResponse = "accepted" | "declined";
+
+export interface HangoutProposalPayload {
+  title: string;
+  startTime: string;
+  endTime: string;
+  timeZone?: string;
+  // The proposer's event, when proposing one that's already planned
+  eventId?: string;
+  responses?: Record<string, ProposalResponse>;
+}
+
+export interface EventCardPayload {
+  eventId: string;
+  title: string;
+  eventType: Event["type"];
+  startTime: string;
+  endTime: string;
+  timeZone?: string;
+}
+
+export interface LocationPayload {
+  label: string;
+  latitude: number;
+  longitude: number;
+}
+
+export type RichMessagePayload =
+  | HangoutProposalPayload
+  | EventCardPayload
+  | LocationPayload;
+
+// Where a participant has read up to in a conversation
+export interface ReadCursor {
+  messageId: string;
+  // The message's timestamp, so cursors compare without looking it up
+  timestamp: string;
 }
 
 export interface Conversation {
   id: string;
+  type?: "direct" | "group";
+  // Group conversations only
+  name?: string;
+  createdBy?: string;
+  // The shared hangout a group was started for
+  eventId?: string;
   participants: string[];
+  // The loaded messages, oldest first. Stored records keep this empty;
+  // providers fill in the latest page and older pages load on demand
   messages: Message[];
   lastMessage?: Message;
+  lastRead?: Record<string, ReadCursor>;
+  // Unread messages in the whole stored history for the user the
+  // conversation was loaded for; never stored
+  unreadCount?: number;
   updatedAt: string;
 }
 
+export interface MessagePageOptions {
+  // Only messages before this one; the latest page when omitted
+  before?: Pick<Message, "id" | "timestamp">;
+  limit?: number;
+}
+
+export interface MessagePage {
+  // Oldest first
+  messages: Message[];
+  hasMore: boolean;
+}
+
+export type PresenceStatus = "online" | "away" | "offline";
+
+export interface Presence {
+  userId: string;
+  // Time of the last heartbeat; users count as offline once these stop
+  lastSeen: string;
+  // Whether the user's tab was hidden or idle at the last heartbeat
+  away: boolean;
+  // The conversation the user is typing in, and when they last typed
+  typingIn?: string | null;
+  typingAt?: string;
+}
+
 export interface Notification {
   id: string;
   userId: string;
-  type: "friend_request" | "hangout_match" | "message";
+  type:
+    | "friend_request"
+    | "hangout_match"
+    | "hangout_invite"
+    | "hangout_rsvp"
+    | "hangout_update"
+    | "message";
   title: string;
   message: string;
   data?: any;
   read: boolean;
   createdAt: string;
+  // Held back by the recipient's quiet hours until this time
+  deliverAt?: string;
+}
+
+// A mutation published to every open view of the data, so stores can refresh
+// the part they show. Conversation changes list the participants they concern
+export type DataChange =
+  | {
+      type: "event_created" | "event_updated" | "event_deleted";
+      eventId: string;
+    }
+  | {
+      type: "message_sent" | "message_updated";
+      conversationId: string;
+      messageId: string;
+      participants: string[];
+    }
+  | {
+      type: "conversation_updated" | "conversation_deleted";
+      conversationId: string;
+      participants: string[];
+    }
+  | {
+      type:
+        | "notification_added"
+        | "notification_updated"
+        | "notification_deleted";
+      notificationId: string;
+      userId: string;
+    }
+  | { type: "notifications_cleared"; userId: string }
+  | { type: "hangout_match_saved"; matchId: string; users: string[] }
+  | { type: "user_updated"; userId: string };
+
+// Writes made offline wait in a queue until they reach the server
+export interface SyncStatus {
+  state: "synced" | "syncing" | "offline" | "error";
+  // Queued writes, including failed ones
+  pending: number;
+  // Writes that ran out of retries and wait for a manual retry
+  failed: number;
 }
 
+// One per group window, shared by everyone in it. The ID is the window's
+// match key, so finding the same window again doesn't add a second record
 export interface HangoutMatch {
   id: string;
   users: string[];
@@ -69,9 +313,20 @@ export interface HangoutMatch {
     end: string;
   };
   hangoutEvents: string[];
+  // How the group's preferences fit when the match was found
+  compatibilityScore?: number;
+  sharedActivities?: string[];
   createdAt: string;
 }
 
+// One of the user's hangouts overlapping a friend's, as shown on the calendar
+export interface HangoutOverlap {
+  userEvent: HangoutEvent;
+  friendEvent: HangoutEvent;
+  friend: User;
+  overlap: { start: string; end: string };
+}
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
@@ -84,8 +339,11 @@ export interface CreateEventInput {
   startTime: string;
   endTime: string;
   type: "personal" | "hangout";
+  timeZone?: string;
+  recurrence?: RecurrenceRule;
   preferences?: {
     activitySuggestions: string[];
+    budgetMin?: number;
     budgetLimit?: number;
     maxTravelDistance?: number;
   };
@@ -1,11 +1,10 @@
 // src/utils/auth.ts
-import { User } from "@/types";
-import {
-  searchUsers as firebaseSearchUsers,
-  sendFriendRequest as firebaseSendFriendRequest,
-  acceptFriendRequest as firebaseAcceptFriendRequest,
-  rejectFriendRequest as firebaseRejectFriendRequest,
-} from "@/services/firebase";
+import { ReportReason, User } from "@/types";
+import { dataProvider } from "@/services/dataProvider";
+import { notificationDispatcher } from "@/services/notificationDispatcher";
+import { generateId } from "@/lib/utils";
+
+export { generateId };
 
 // Validation utilities (keeping these as they're still useful)
 export const validateEmail = (email: string): boolean => {
@@ -40,38 +39,117 @@ export const validatePassword = (
   };
 };
 
-// Firebase-based user functions
+// User functions backed by the configured data provider
 export const searchUsers = async (query: string, currentUserId: string): Promise<User[]> => {
-  return await firebaseSearchUsers(query, currentUserId);
+  return await dataProvider.searchUsers(query, currentUserId);
 };
 
 export const sendFriendRequest = async (
   fromUserId: string,
   toUserId: string,
 ): Promise<boolean> => {
-  return await firebaseSendFriendRequest(fromUserId, toUserId);
+  const success = await dataProvider.sendFriendRequest(fromUserId, toUserId);
+  if (!success) return false;
+
+  const sender = await dataProvider.getUser(fromUserId);
+  await notificationDispatcher.dispatch({
+    userId: toUserId,
+    type: "friend_request",
+    title: "New Friend Request",
+    message: `${sender?.fullName || "Someone"} sent you a friend request`,
+    data: { senderId: fromUserId },
+    read: false,
+    createdAt: new Date().toISOString(),
+  });
+
+  return true;
 };
 
 export const acceptFriendRequest = async (
   userId: string,
   requesterId: string,
 ): Promise<boolean> => {
-  return await firebaseAcceptFriendRequest(userId, requesterId);
+  return await dataProvider.acceptFriendRequest(userId, requesterId);
 };
 
 export const rejectFriendRequest = async (
   userId: string,
   requesterId: string,
 ): Promise<boolean> => {
-  return await firebaseRejectFriendRequest(userId, requesterId);
+  return await dataProvider.rejectFriendRequest(userId, requesterId);
 };
 
-// Deprecated functions (kept for backward compatibility)
-export const generateId = (): string => {
-  console.warn("generateId() is deprecated. Firebase generates IDs automatically.");
-  return Math.random().toString(36).substr(2, 9) + Date.now().toString(36);
+// Requests that no longer stand shouldn't stay actionable in the bell
+const removeFriendRequestNotifications = async (
+  userId: string,
+  senderId: string,
+): Promise<void> => {
+  const notifications = await dataProvider.getUserNotifications(userId);
+  await Promise.all(
+    notifications
+      .filter(
+        (notification) =>
+          notification.type === "friend_request" &&
+          notification.data?.senderId === senderId,
+      )
+      .map((notification) => dataProvider.deleteNotification(notification.id)),
+  );
+};
+
+export const cancelFriendRequest = async (
+  fromUserId: string,
+  toUserId: string,
+): Promise<boolean> => {
+  const success = await dataProvider.cancelFriendRequest(fromUserId, toUserId);
+  if (success) await removeFriendRequestNotifications(toUserId, fromUserId);
+  return success;
+};
+
+export const removeFriend = async (
+  userId: string,
+  friendId: string,
+): Promise<boolean> => {
+  return await dataProvider.removeFriend(userId, friendId);
 };
 
+export const blockUser = async (
+  userId: string,
+  blockedUserId: string,
+): Promise<boolean> => {
+  const success = await dataProvider.blockUser(userId, blockedUserId);
+  if (success) {
+    await Promise.all([
+      removeFriendRequestNotifications(userId, blockedUserId),
+      removeFriendRequestNotifications(blockedUserId, userId),
+    ]);
+  }
+  return success;
+};
+
+export const unblockUser = async (
+  userId: string,
+  blockedUserId: string,
+): Promise<boolean> => {
+  return await dataProvider.unblockUser(userId, blockedUserId);
+};
+
+export const reportUser = async (
+  reporterId: string,
+  reportedUserId: string,
+  reason: ReportReason,
+  details?: string,
+): Promise<boolean> => {
+  const report = await dataProvider.reportUser({
+    reporterId,
+    reportedUserId,
+    reason,
+    ...(details?.trim() && { details: details.trim() }),
+    createdAt: new Date().toISOString(),
+  });
+  return report !== null;
+};
+
+// Deprecated functions (kept for backward compatibility)
 export const hashPassword = (password: string): string => {
   console.warn("hashPassword() is deprecated. Firebase Auth handles password hashing.");
   // Simple hash for demo purposes - Firebase handles this now
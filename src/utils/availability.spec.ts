@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { buildAvailabilityGrid, getAvailabilityRun } from "./availability";
+
+const hangout = (userId: string, startTime: string, endTime: string) => ({
+  userId,
+  startTime,
+  endTime,
+});
+
+// 2 July 2026, bucketed in UTC so slot N starts at N * 30 minutes past midnight
+const day = new Date(2026, 6, 2);
+
+describe("buildAvailabilityGrid", () => {
+  const [cells] = buildAvailabilityGrid(
+    [
+      hangout("ana", "2026-07-02T18:00:00.000Z", "2026-07-02T20:00:00.000Z"),
+      hangout("ben", "2026-07-02T19:00:00.000Z", "2026-07-02T19:45:00.000Z"),
+      hangout("ana", "2026-07-03T18:00:00.000Z", "2026-07-03T20:00:00.000Z"),
+    ],
+    [day],
+    "UTC",
+  );
+
+  it("should split the day into 30-minute cells", () => {
+    expect(cells).toHaveLength(48);
+    expect(cells[36].start).toBe("2026-07-02T18:00:00.000Z");
+    expect(cells[36].end).toBe("2026-07-02T18:30:00.000Z");
+  });
+
+  it("should list the friends free in each cell", () => {
+    expect(cells[35].userIds).toEqual([]);
+    expect(cells[36].userIds).toEqual(["ana"]);
+    expect(cells[38].userIds).toEqual(["ana", "ben"]);
+    expect(cells[39].userIds).toEqual(["ana", "ben"]);
+    expect(cells[40].userIds).toEqual([]);
+  });
+
+  it("should follow the viewer's zone", () => {
+    const [zoned] = buildAvailabilityGrid([], [day], "America/New_York");
+
+    expect(zoned[0].start).toBe("2026-07-02T04:00:00.000Z");
+  });
+});
+
+describe("getAvailabilityRun", () => {
+  const [cells] = buildAvailabilityGrid(
+    [
+      hangout("ana", "2026-07-02T18:00:00.000Z", "2026-07-02T20:00:00.000Z"),
+      hangout("ben", "2026-07-02T19:00:00.000Z", "2026-07-02T19:45:00.000Z"),
+    ],
+    [day],
+    "UTC",
+  );
+
+  it("should extend while the same friends stay free", () => {
+    expect(getAvailabilityRun(cells, 36)).toEqual({
+      start: "2026-07-02T18:00:00.000Z",
+      end: "2026-07-02T20:00:00.000Z",
+    });
+    expect(getAvailabilityRun(cells, 38)).toEqual({
+      start: "2026-07-02T19:00:00.000Z",
+      end: "2026-07-02T20:00:00.000Z",
+    });
+  });
+});
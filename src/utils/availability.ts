@@ -0,0 +1,86 @@
+import { Event } from "@/types";
+import { fromZonedDate, getZonedDayRange } from "@/utils/timezone";
+
+export interface AvailabilityCell {
+  start: string;
+  end: string;
+  // Friends with a hangout window overlapping this cell
+  userIds: string[];
+}
+
+export const AVAILABILITY_BUCKET_MINUTES = 30;
+
+/**
+ * Buckets friends' hangout windows into a grid of days (in the viewer's
+ * zone) by fixed-length time slots. Each cell lists the friends whose
+ * hangouts overlap it, so callers can shade cells by how many are free.
+ */
+export const buildAvailabilityGrid = (
+  hangouts: Array<Pick<Event, "userId" | "startTime" | "endTime">>,
+  days: Date[],
+  timeZone: string,
+  bucketMinutes = AVAILABILITY_BUCKET_MINUTES,
+): AvailabilityCell[][] =>
+  days.map((day) => {
+    const range = getZonedDayRange(day, timeZone);
+    const dayHangouts = hangouts.filter(
+      (hangout) =>
+        new Date(hangout.startTime) < range.end &&
+        new Date(hangout.endTime) > range.start,
+    );
+    const cells: AvailabilityCell[] = [];
+
+    // Slots follow the wall clock, so DST days still line up row by row
+    for (let minutes = 0; minutes < 24 * 60; minutes += bucketMinutes) {
+      const slot = (offset: number) => {
+        const date = new Date(day);
+        date.setHours(0, offset, 0, 0);
+        return fromZonedDate(date, timeZone);
+      };
+      const start = slot(minutes);
+      const end = slot(minutes + bucketMinutes);
+
+      const userIds = [
+        ...new Set(
+          dayHangouts
+            .filter(
+              (hangout) =>
+                new Date(hangout.startTime) < end &&
+                new Date(hangout.endTime) > start,
+            )
+            .map((hangout) => hangout.userId),
+        ),
+      ];
+
+      cells.push({
+        start: start.toISOString(),
+        end: end.toISOString(),
+        userIds,
+      });
+    }
+
+    return cells;
+  });
+
+/**
+ * Extends a cell forward through the following cells where the same friends
+ * are all still free, giving the longest slot to propose to them.
+ */
+export const getAvailabilityRun = (
+  cells: AvailabilityCell[],
+  index: number,
+): { start: string; end: string } => {
+  const userIds = cells[index].userIds;
+  let last = index;
+
+  // An empty cell has nobody to match against, so it stays a single slot
+  while (
+    userIds.length > 0 &&
+    last + 1 < cells.length &&
+    userIds.every((userId) => cells[last + 1].userIds.includes(userId))
+  ) {
+    last++;
+  }
+
+  return { start: cells[index].start, end: cells[last].end };
+};
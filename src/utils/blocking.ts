@@ -0,0 +1,35 @@
+import { User } from "@/types";
+
+export const hasBlocked = (
+  user: User | null | undefined,
+  otherUserId: string,
+): boolean => !!user?.blockedUserIds?.includes(otherUserId);
+
+// Blocks work both ways: neither side can find, message or match the other
+export const isBlockedBetween = (
+  a: User | null | undefined,
+  b: User | null | undefined,
+): boolean => !!a && !!b && (hasBlocked(a, b.id) || hasBlocked(b, a.id));
+
+// Drops the friendship and any pending request with the other user
+export const withoutConnection = (user: User, otherUserId: string): User => ({
+  ...user,
+  friends: user.friends.filter((id) => id !== otherUserId),
+  friendRequests: {
+    sent: user.friendRequests.sent.filter((id) => id !== otherUserId),
+    received: user.friendRequests.received.filter((id) => id !== otherUserId),
+  },
+});
+
+export const withUserBlocked = (user: User, blockedUserId: string): User => ({
+  ...withoutConnection(user, blockedUserId),
+  blockedUserIds: [...new Set([...(user.blockedUserIds || []), blockedUserId])],
+});
+
+// Unblocking doesn't bring back the friendship; they have to reconnect
+export const withUserUnblocked = (user: User, blockedUserId: string): User => ({
+  ...user,
+  blockedUserIds: (user.blockedUserIds || []).filter(
+    (id) => id !== blockedUserId,
+  ),
+});
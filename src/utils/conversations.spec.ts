@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { Conversation, Message } from "@/types";
+import {
+  getMessageConversationId,
+  getReadCursor,
+  getSeenBy,
+  isUnreadBy,
+} from "./conversations";
+
+const message = (overrides: Partial<Message>): Message => ({
+  id: "m1",
+  senderId: "ana",
+  content: "Hi",
+  timestamp: "2026-07-02T18:00:00.000Z",
+  read: false,
+  ...overrides,
+});
+
+describe("getMessageConversationId", () => {
+  it("should derive direct conversation IDs from the sorted pair", () => {
+    expect(getMessageConversationId(message({ receiverId: "ben" }))).toBe(
+      "ana-ben",
+    );
+    expect(
+      getMessageConversationId(message({ senderId: "ben", receiverId: "ana" })),
+    ).toBe("ana-ben");
+  });
+
+  it("should keep a group message's conversation", () => {
+    expect(getMessageConversationId(message({ conversationId: "crew" }))).toBe(
+      "crew",
+    );
+  });
+});
+
+describe("isUnreadBy", () => {
+  it("should count messages after the read cursor", () => {
+    const cursor = getReadCursor(message({ id: "m0" }));
+    const later = message({
+      receiverId: "ben",
+      timestamp: "2026-07-02T18:05:00.000Z",
+    });
+
+    expect(isUnreadBy(message({ receiverId: "ben" }), "ben", cursor)).toBe(
+      false,
+    );
+    expect(isUnreadBy(later, "ben", cursor)).toBe(true);
+    expect(isUnreadBy(later, "ana", cursor)).toBe(false);
+  });
+
+  it("should fall back to message flags without a cursor", () => {
+    expect(isUnreadBy(message({ receiverId: "ben" }), "ben")).toBe(true);
+    expect(isUnreadBy(message({ receiverId: "ben", read: true }), "ben")).toBe(
+      false,
+    );
+    expect(
+      isUnreadBy(message({ conversationId: "crew", readBy: ["ben"] }), "ben"),
+    ).toBe(false);
+  });
+
+  it("should never count system messages", () => {
+    expect(
+      isUnreadBy(message({ conversationId: "crew", type: "system" }), "ben"),
+    ).toBe(false);
+  });
+});
+
+describe("getSeenBy", () => {
+  const first = message({ id: "m1" });
+  const second = message({ id: "m2", timestamp: "2026-07-02T18:05:00.000Z" });
+  const conversation: Conversation = {
+    id: "crew",
+    type: "group",
+    participants: ["ana", "ben", "cy"],
+    messages: [first, second],
+    lastRead: {
+      ana: getReadCursor(second),
+      ben: getReadCursor(second),
+      cy: getReadCursor(first),
+      dee: getReadCursor(second),
+    },
+    updatedAt: second.timestamp,
+  };
+
+  it("should list current members who read up to the message", () => {
+    expect(getSeenBy(conversation, first)).toEqual(["ben", "cy"]);
+    expect(getSeenBy(conversation, second)).toEqual(["ben"]);
+  });
+});
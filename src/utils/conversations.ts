@@ -0,0 +1,109 @@
+import { Conversation, Message, ReadCursor, User } from "@/types";
+import { isDeleted, isHiddenFor } from "@/utils/messageEdits";
+
+export const getDirectConversationId = (userId: string, otherUserId: string) =>
+  [userId, otherUserId].sort().join("-");
+
+// Group messages carry their conversation; direct ones derive it from the pair
+export const getMessageConversationId = (
+  message: Pick<Message, "conversationId" | "senderId" | "receiverId">,
+) =>
+  message.conversationId ||
+  getDirectConversationId(message.senderId, message.receiverId);
+
+export const isGroupConversation = (conversation: Conversation) =>
+  conversation.type === "group";
+
+export const getReadCursor = (message: Message): ReadCursor => ({
+  messageId: message.id,
+  timestamp: message.timestamp,
+});
+
+/**
+ * Whether a message is unread for the user. Messages after their read cursor
+ * are unread; chats read before cursors existed fall back to the flags that
+ * were stored on each message.
+ */
+export const isUnreadBy = (
+  message: Message,
+  userId: string,
+  cursor?: ReadCursor,
+) => {
+  if (message.type === "system" || message.senderId === userId) return false;
+  if (isDeleted(message) || isHiddenFor(message, userId)) return false;
+  if (cursor) return message.timestamp > cursor.timestamp;
+  if (message.receiverId) return message.receiverId === userId && !message.read;
+  return !message.readBy?.includes(userId);
+};
+
+export const getUnreadMessages = (conversation: Conversation, userId: string) =>
+  conversation.messages.filter((message) =>
+    isUnreadBy(message, userId, conversation.lastRead?.[userId]),
+  );
+
+// Counts stored messages, e.g. those sent since the user's read cursor
+export const countUnreadMessages = (
+  messages: Message[],
+  conversation: Conversation,
+  userId: string,
+) =>
+  messages.filter((message) =>
+    isUnreadBy(message, userId, conversation.lastRead?.[userId]),
+  ).length;
+
+// The provider's count over the whole history; the loaded page is only a
+// fallback for conversations that haven't been counted yet
+export const getUnreadCount = (conversation: Conversation, userId: string) =>
+  conversation.unreadCount ?? getUnreadMessages(conversation, userId).length;
+
+// Conversation records are stored without their messages or per-user counts
+export const toStoredConversation = ({
+  unreadCount: _unreadCount,
+  ...conversation
+}: Conversation): Conversation => ({ ...conversation, messages: [] });
+
+// Other participants whose cursor has reached the message
+export const getSeenBy = (conversation: Conversation, message: Message) =>
+  Object.entries(conversation.lastRead || {})
+    .filter(
+      ([userId, cursor]) =>
+        userId !== message.senderId &&
+        conversation.participants.includes(userId) &&
+        cursor.timestamp >= message.timestamp,
+    )
+    .map(([userId]) => userId);
+
+export const createSystemMessage = (
+  conversationId: string,
+  actorId: string,
+  content: string,
+): Omit<Message, "id"> => ({
+  conversationId,
+  senderId: actorId,
+  type: "system",
+  content,
+  timestamp: new Date().toISOString(),
+  read: true,
+});
+
+// Groups use their name, direct chats the other person's
+export const getConversationTitle = (
+  conversation: Conversation,
+  users: Record<string, User>,
+  currentUserId?: string,
+) => {
+  const others = conversation.participants.filter((id) => id !== currentUserId);
+
+  if (isGroupConversation(conversation)) {
+    return (
+      conversation.name ||
+      others
+        .map((id) => users[id]?.fullName.split(" ")[0])
+        .filter(Boolean)
+        .join(", ") ||
+      "Group"
+    );
+  }
+
+  return users[others[0]]?.fullName || "";
+};
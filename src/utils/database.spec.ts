@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { Migration, getLatestVersion, getPendingMigrations } from "./database";
+
+const migration = (version: number): Migration => ({
+  version,
+  description: `Version ${version}`,
+  upgrade: () => {},
+});
+
+describe("getPendingMigrations", () => {
+  it("should run only newer migrations, oldest first", () => {
+    const migrations = [migration(3), migration(1), migration(2)];
+
+    expect(getLatestVersion(migrations)).toBe(3);
+    expect(getPendingMigrations(migrations, 0).map((m) => m.version)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(getPendingMigrations(migrations, 2).map((m) => m.version)).toEqual([
+      3,
+    ]);
+    expect(getPendingMigrations(migrations, 3)).toEqual([]);
+  });
+});
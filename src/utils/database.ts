@@ -0,0 +1,164 @@
+export interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the versionchange transaction, so it can only queue requests
+  upgrade: (database: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+export const getLatestVersion = (migrations: Migration[]): number =>
+  Math.max(1, ...migrations.map((migration) => migration.version));
+
+// Migrations the database still needs, oldest first
+export const getPendingMigrations = (
+  migrations: Migration[],
+  fromVersion: number,
+): Migration[] =>
+  migrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export interface Database {
+  get: <T>(store: string, key: IDBValidKey) => Promise<T | undefined>;
+  getAll: <T>(store: string) => Promise<T[]>;
+  // Records whose indexed value matches; multi-entry indexes match any item
+  getAllFromIndex: <T>(
+    store: string,
+    index: string,
+    query: IDBValidKey | IDBKeyRange,
+  ) => Promise<T[]>;
+  // Up to `limit` records with the highest index keys in range, highest first
+  getLastFromIndex: <T>(
+    store: string,
+    index: string,
+    query: IDBKeyRange,
+    limit: number,
+  ) => Promise<T[]>;
+  put: <T>(store: string, ...values: T[]) => Promise<void>;
+  delete: (store: string, ...keys: IDBValidKey[]) => Promise<void>;
+  clear: (...stores: string[]) => Promise<void>;
+}
+
+/**
+ * Promise wrapper over an IndexedDB database, opened on first use. Opening
+ * runs the migrations newer than the version the browser has, in order,
+ * inside the upgrade transaction. Reads and writes reject if IndexedDB is
+ * unavailable or the upgrade fails.
+ */
+export const openDatabase = (
+  name: string,
+  migrations: Migration[],
+): Database => {
+  let connection: Promise<IDBDatabase> | null = null;
+
+  const connect = () => {
+    if (!connection) {
+      connection = new Promise((resolve, reject) => {
+        if (typeof indexedDB === "undefined") {
+          reject(new Error("IndexedDB is not available"));
+          return;
+        }
+
+        const request = indexedDB.open(name, getLatestVersion(migrations));
+        request.onupgradeneeded = (event) => {
+          getPendingMigrations(migrations, event.oldVersion).forEach(
+            (migration) =>
+              migration.upgrade(request.result, request.transaction!),
+          );
+        };
+        request.onsuccess = () => {
+          // Let a newer version of the app in another tab upgrade
+          request.result.onversionchange = () => {
+            request.result.close();
+            connection = null;
+          };
+          resolve(request.result);
+        };
+        request.onerror = () => reject(request.error);
+      });
+      // A failed open can be retried on the next call
+      connection.catch(() => {
+        connection = null;
+      });
+    }
+    return connection;
+  };
+
+  const write = async (
+    stores: string[],
+    run: (transaction: IDBTransaction) => void,
+  ) => {
+    const transaction = (await connect()).transaction(stores, "readwrite");
+    run(transaction);
+    await transactionToPromise(transaction);
+  };
+
+  return {
+    get: async (store, key) =>
+      requestToPromise(
+        (await connect()).transaction(store).objectStore(store).get(key),
+      ),
+    getAll: async (store) =>
+      requestToPromise(
+        (await connect()).transaction(store).objectStore(store).getAll(),
+      ),
+    getAllFromIndex: async (store, index, query) =>
+      requestToPromise(
+        (await connect())
+          .transaction(store)
+          .objectStore(store)
+          .index(index)
+          .getAll(query),
+      ),
+    getLastFromIndex: async <T>(
+      store: string,
+      index: string,
+      query: IDBKeyRange,
+      limit: number,
+    ) => {
+      const request = (await connect())
+        .transaction(store)
+        .objectStore(store)
+        .index(index)
+        .openCursor(query, "prev");
+
+      return new Promise<T[]>((resolve, reject) => {
+        const records: T[] = [];
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || records.length >= limit) {
+            resolve(records);
+            return;
+          }
+          records.push(cursor.value);
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    },
+    put: (store, ...values) =>
+      write([store], (transaction) =>
+        values.forEach((value) => transaction.objectStore(store).put(value)),
+      ),
+    delete: (store, ...keys) =>
+      write([store], (transaction) =>
+        keys.forEach((key) => transaction.objectStore(store).delete(key)),
+      ),
+    clear: (...stores) =>
+      write(stores, (transaction) =>
+        stores.forEach((store) => transaction.objectStore(store).clear()),
+      ),
+  };
+};
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { Conversation, HangoutEvent, User } from "@/types";
+import {
+  getFriendSuggestions,
+  getSuggestionCandidateIds,
+  isSuggestionHidden,
+  withSuggestionDismissed,
+} from "./friendSuggestions";
+
+const now = new Date("2026-07-10T12:00:00.000Z");
+
+const user = (id: string, friends: string[] = []): User => ({
+  id,
+  email: `${id}@example.com`,
+  username: id,
+  fullName: id.toUpperCase(),
+  friends,
+  friendRequests: { sent: [], received: [] },
+  createdAt: "2026-01-01T00:00:00.000Z",
+});
+
+const hangout = (
+  id: string,
+  userId: string,
+  activities: string[],
+  overrides: Partial<HangoutEvent> = {},
+): HangoutEvent => ({
+  id,
+  userId,
+  title: "Hangout",
+  startTime: "2026-07-04T18:00:00.000Z",
+  endTime: "2026-07-04T20:00:00.000Z",
+  type: "hangout",
+  preferences: { activitySuggestions: activities },
+  visibility: "friends",
+  createdAt: "2026-07-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("getSuggestionCandidateIds", () => {
+  it("should offer friends of friends and group members only once", () => {
+    const ana = {
+      ...user("ana", ["bob"]),
+      friendRequests: { sent: ["dan"], received: [] },
+    };
+    const group: Conversation = {
+      id: "g1",
+      type: "group",
+      participants: ["ana", "bob", "eve"],
+      messages: [],
+      updatedAt: now.toISOString(),
+    };
+
+    expect(
+      getSuggestionCandidateIds(
+        ana,
+        [user("bob", ["ana", "cy", "dan", "eve"])],
+        [group],
+        [],
+        now,
+      ),
+    ).toEqual(["cy", "eve"]);
+  });
+});
+
+describe("getFriendSuggestions", () => {
+  it("should rank by mutual friends, shared habits and interactions", () => {
+    const ana = user("ana", ["bob", "cat"]);
+    const suggestions = getFriendSuggestions(
+      {
+        user: ana,
+        candidates: [
+          user("cy", ["bob", "cat"]),
+          user("dee", ["bob"]),
+          user("eve"),
+          user("fay"),
+        ],
+        events: [
+          hangout("h1", "ana", ["Climbing", "Coffee"]),
+          hangout("h2", "dee", ["climbing"]),
+          hangout("h3", "fay", ["karaoke"], {
+            startTime: "2026-07-06T08:00:00.000Z",
+            endTime: "2026-07-06T09:00:00.000Z",
+          }),
+        ],
+        messages: [
+          {
+            id: "m1",
+            conversationId: "g1",
+            senderId: "eve",
+            content: "Hi",
+            timestamp: "2026-07-09T12:00:00.000Z",
+            read: true,
+          },
+        ],
+      },
+      now,
+    );
+
+    expect(suggestions.map((s) => [s.user.id, s.score])).toEqual([
+      ["cy", 6],
+      ["dee", 5.5],
+      ["eve", 1],
+    ]);
+    expect(suggestions[1].reasons).toEqual([
+      "1 mutual friend",
+      "Also into climbing",
+      "Free at similar times",
+    ]);
+  });
+});
+
+describe("suggestion dismissals", () => {
+  it("should bring dismissed people back after a while", () => {
+    const ana = withSuggestionDismissed(
+      withSuggestionDismissed(user("ana"), "cy", "dismissed", now),
+      "dee",
+      "not_interested",
+      now,
+    );
+    const later = new Date("2026-09-01T12:00:00.000Z");
+
+    expect(isSuggestionHidden(ana.suggestionDismissals, "cy", now)).toBe(true);
+    expect(isSuggestionHidden(ana.suggestionDismissals, "cy", later)).toBe(
+      false,
+    );
+    expect(isSuggestionHidden(ana.suggestionDismissals, "dee", later)).toBe(
+      true,
+    );
+  });
+});
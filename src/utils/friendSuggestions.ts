@@ -0,0 +1,243 @@
+import {
+  Conversation,
+  Event,
+  HangoutEvent,
+  Message,
+  SuggestionDismissal,
+  User,
+} from "@/types";
+import { isBlockedBetween } from "@/utils/blocking";
+
+const MUTUAL_FRIEND_WEIGHT = 3;
+const SHARED_ACTIVITY_WEIGHT = 2;
+// Per hour of the week both usually plan hangouts for
+const SHARED_HOUR_WEIGHT = 0.25;
+const INTERACTION_WEIGHT = 1;
+// Caps keep one busy signal from drowning out the others
+const MAX_SHARED_HOURS = 8;
+const MAX_INTERACTIONS = 5;
+
+const INTERACTION_WINDOW_DAYS = 30;
+const DISMISSAL_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface FriendSuggestion {
+  user: User;
+  score: number;
+  mutualFriendIds: string[];
+  sharedActivities: string[];
+  sharedHours: number;
+  // Recent messages and hangouts the two had together
+  interactions: number;
+  reasons: string[];
+}
+
+export interface SuggestionContext {
+  user: User;
+  // Everyone the user might know, e.g. friends of friends
+  candidates: User[];
+  // Hangouts of the user and the candidates, and ones they share
+  events: Event[];
+  // Messages in the user's conversations since `getInteractionWindowStart`
+  messages: Message[];
+}
+
+export const isSuggestionHidden = (
+  dismissals: SuggestionDismissal[] = [],
+  userId: string,
+  now: Date = new Date(),
+): boolean =>
+  dismissals.some(
+    (dismissal) =>
+      dismissal.userId === userId &&
+      (dismissal.reason === "not_interested" ||
+        now.getTime() - new Date(dismissal.dismissedAt).getTime() <
+          DISMISSAL_DAYS * DAY_MS),
+  );
+
+// People the user is already connected to, waiting on or has blocked
+const getKnownIds = (user: User) =>
+  new Set([
+    user.id,
+    ...user.friends,
+    ...user.friendRequests.sent,
+    ...user.friendRequests.received,
+    ...(user.blockedUserIds || []),
+  ]);
+
+const getHangoutPeople = (event: Event): string[] => [
+  event.userId,
+  ...((event as HangoutEvent).attendeeIds || []),
+];
+
+/**
+ * Who could show up as a suggestion: friends of friends, and people the user
+ * shares a group chat or hangout with. Hidden and known people are left out.
+ */
+export const getSuggestionCandidateIds = (
+  user: User,
+  friends: User[],
+  conversations: Conversation[],
+  sharedEvents: Event[],
+  now: Date = new Date(),
+): string[] => {
+  const known = getKnownIds(user);
+  const ids = [
+    ...friends.flatMap((friend) => friend.friends),
+    ...conversations.flatMap((conversation) => conversation.participants),
+    ...sharedEvents.flatMap(getHangoutPeople),
+  ];
+
+  return [...new Set(ids)].filter(
+    (id) =>
+      !known.has(id) && !isSuggestionHidden(user.suggestionDismissals, id, now),
+  );
+};
+
+// What someone tends to plan hangouts for, and when
+const getHangoutHabits = (events: Event[], userId: string) => {
+  const hangouts = events.filter(
+    (event) => event.userId === userId && event.type === "hangout",
+  ) as HangoutEvent[];
+
+  const activities = new Set(
+    hangouts.flatMap((event) =>
+      (event.preferences?.activitySuggestions || []).map((activity) =>
+        activity.trim().toLowerCase(),
+      ),
+    ),
+  );
+
+  // Hours of the week, so a weekly habit lines up whatever the date
+  const hours = new Set<number>();
+  hangouts.forEach((event) => {
+    const start = new Date(event.startTime).getTime();
+    const end = new Date(event.endTime).getTime();
+    for (let time = start; time < end && time < start + DAY_MS; ) {
+      const date = new Date(time);
+      hours.add(date.getUTCDay() * 24 + date.getUTCHours());
+      time += HOUR_MS;
+    }
+  });
+
+  return { activities, hours };
+};
+
+// Messages and hangouts older than this don't count as interactions
+export const getInteractionWindowStart = (now: Date = new Date()): string =>
+  new Date(now.getTime() - INTERACTION_WINDOW_DAYS * DAY_MS).toISOString();
+
+const countInteractions = (
+  userId: string,
+  candidateId: string,
+  { events, messages }: SuggestionContext,
+  now: Date,
+) => {
+  const since = new Date(getInteractionWindowStart(now)).getTime();
+  const isRecent = (timestamp: string) =>
+    new Date(timestamp).getTime() >= since;
+
+  const sent = messages.filter(
+    (message) =>
+      message.senderId === candidateId && isRecent(message.timestamp),
+  ).length;
+  const hangouts = events.filter((event) => {
+    const people = getHangoutPeople(event);
+    return (
+      people.includes(userId) &&
+      people.includes(candidateId) &&
+      isRecent(event.startTime)
+    );
+  }).length;
+
+  return sent + hangouts;
+};
+
+const pluralize = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const getReasons = (
+  suggestion: Omit<FriendSuggestion, "reasons" | "score">,
+): string[] => [
+  ...(suggestion.mutualFriendIds.length > 0
+    ? [pluralize(suggestion.mutualFriendIds.length, "mutual friend")]
+    : []),
+  ...(suggestion.sharedActivities.length > 0
+    ? [`Also into ${suggestion.sharedActivities.slice(0, 2).join(" and ")}`]
+    : []),
+  ...(suggestion.sharedHours > 0 ? ["Free at similar times"] : []),
+  ...(suggestion.interactions > 0 ? ["You've hung out or chatted"] : []),
+];
+
+/**
+ * Ranks the candidates by mutual friends, overlapping hangout habits (the
+ * activities they suggest and the hours they plan for) and recent messages
+ * or hangouts together. Candidates with nothing in common are left out.
+ */
+export const getFriendSuggestions = (
+  context: SuggestionContext,
+  now: Date = new Date(),
+): FriendSuggestion[] => {
+  const { user, candidates, events } = context;
+  const known = getKnownIds(user);
+  const habits = getHangoutHabits(events, user.id);
+
+  return candidates
+    .filter(
+      (candidate) =>
+        !known.has(candidate.id) &&
+        !isBlockedBetween(user, candidate) &&
+        !isSuggestionHidden(user.suggestionDismissals, candidate.id, now),
+    )
+    .map((candidate) => {
+      const candidateHabits = getHangoutHabits(events, candidate.id);
+      const signals = {
+        user: candidate,
+        mutualFriendIds: candidate.friends.filter((id) =>
+          user.friends.includes(id),
+        ),
+        sharedActivities: [...candidateHabits.activities].filter((activity) =>
+          habits.activities.has(activity),
+        ),
+        sharedHours: [...candidateHabits.hours].filter((hour) =>
+          habits.hours.has(hour),
+        ).length,
+        interactions: countInteractions(user.id, candidate.id, context, now),
+      };
+
+      return {
+        ...signals,
+        score:
+          signals.mutualFriendIds.length * MUTUAL_FRIEND_WEIGHT +
+          signals.sharedActivities.length * SHARED_ACTIVITY_WEIGHT +
+          Math.min(signals.sharedHours, MAX_SHARED_HOURS) * SHARED_HOUR_WEIGHT +
+          Math.min(signals.interactions, MAX_INTERACTIONS) * INTERACTION_WEIGHT,
+        reasons: getReasons(signals),
+      };
+    })
+    .filter((suggestion) => suggestion.score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.mutualFriendIds.length - a.mutualFriendIds.length ||
+        a.user.fullName.localeCompare(b.user.fullName),
+    );
+};
+
+// Hides a suggestion, replacing any earlier dismissal of the same person
+export const withSuggestionDismissed = (
+  user: User,
+  userId: string,
+  reason: SuggestionDismissal["reason"],
+  now: Date = new Date(),
+): User => ({
+  ...user,
+  suggestionDismissals: [
+    ...(user.suggestionDismissals || []).filter(
+      (dismissal) => dismissal.userId !== userId,
+    ),
+    { userId, reason, dismissedAt: now.toISOString() },
+  ],
+});
@@ -0,0 +1,330 @@
+import { describe, it, expect } from "vitest";
+import { Event, HangoutEvent, User } from "@/types";
+import {
+  DEFAULT_MATCH_POLICY,
+  createHangoutMatchNotifications,
+  evaluateHangoutMatch,
+  filterByMatchPolicy,
+  findGroupHangoutWindows,
+  getMatchKey,
+  satisfiesMatchPolicy,
+  toHangoutMatch,
+} from "./hangoutMatching";
+
+const makeUser = (id: string, friends: string[]): User => ({
+  id,
+  email: `${id}@example.com`,
+  username: id,
+  fullName: id.toUpperCase(),
+  friends,
+  friendRequests: { sent: [], received: [] },
+  createdAt: "2026-01-01T00:00:00.000Z",
+});
+
+const makeHangout = (userId: string, start: string, end: string): Event => ({
+  id: `${userId}-${start}`,
+  userId,
+  title: "Free",
+  startTime: `2026-01-03T${start}:00.000Z`,
+  endTime: `2026-01-03T${end}:00.000Z`,
+  type: "hangout",
+  createdAt: "2026-01-01T00:00:00.000Z",
+});
+
+// Everyone in the list is friends with everyone else
+const makeCircle = (ids: string[]): User[] =>
+  ids.map((id) =>
+    makeUser(
+      id,
+      ids.filter((other) => other !== id),
+    ),
+  );
+
+describe("findGroupHangoutWindows", () => {
+  it("should find the window shared by a group of friends", () => {
+    const users = makeCircle(["a", "b", "c", "d"]);
+    const hangouts = [
+      makeHangout("a", "10:00", "16:00"),
+      makeHangout("b", "12:00", "18:00"),
+      makeHangout("c", "13:00", "15:00"),
+      makeHangout("d", "14:00", "20:00"),
+    ];
+
+    const [best] = findGroupHangoutWindows(hangouts, users);
+
+    expect(best.users).toEqual(["a", "b", "c", "d"]);
+    expect(best.start).toBe("2026-01-03T14:00:00.000Z");
+    expect(best.end).toBe("2026-01-03T15:00:00.000Z");
+    expect(best.hangoutEvents).toHaveLength(4);
+  });
+
+  it("should not group users who are not mutual friends", () => {
+    const users = [
+      makeUser("a", ["b", "c"]),
+      makeUser("b", ["a", "c"]),
+      makeUser("c", ["a"]),
+    ];
+    const hangouts = [
+      makeHangout("a", "10:00", "12:00"),
+      makeHangout("b", "10:00", "12:00"),
+      makeHangout("c", "10:00", "12:00"),
+    ];
+
+    expect(findGroupHangoutWindows(hangouts, users)).toEqual([]);
+    expect(
+      findGroupHangoutWindows(hangouts, users, { minGroupSize: 2 })
+        .map((window) => window.users)
+        .sort(),
+    ).toEqual([
+      ["a", "b"],
+      ["a", "c"],
+    ]);
+  });
+
+  it("should not match users who blocked each other", () => {
+    const [a, b, c] = makeCircle(["a", "b", "c"]);
+    const users = [a, { ...b, blockedUserIds: ["c"] }, c];
+    const hangouts = [
+      makeHangout("a", "10:00", "12:00"),
+      makeHangout("b", "10:00", "12:00"),
+      makeHangout("c", "10:00", "12:00"),
+    ];
+
+    expect(
+      findGroupHangoutWindows(hangouts, users, { minGroupSize: 2 })
+        .map((window) => window.users)
+        .sort(),
+    ).toEqual([
+      ["a", "b"],
+      ["a", "c"],
+    ]);
+  });
+
+  it("should rank larger groups first, then longer windows", () => {
+    const users = makeCircle(["a", "b", "c", "d", "e"]);
+    const hangouts = [
+      makeHangout("a", "09:00", "18:00"),
+      makeHangout("b", "09:00", "18:00"),
+      makeHangout("c", "09:00", "10:00"),
+      makeHangout("d", "12:00", "16:00"),
+      makeHangout("e", "12:00", "13:00"),
+    ];
+
+    const windows = findGroupHangoutWindows(hangouts, users, {
+      includeUserId: "a",
+    });
+
+    expect(windows.map((window) => window.users.join(""))).toEqual([
+      "abde",
+      "abd",
+      "abc",
+    ]);
+  });
+
+  it("should only report windows inside the requested range", () => {
+    const users = makeCircle(["a", "b"]);
+    const hangouts = [
+      makeHangout("a", "09:00", "10:00"),
+      makeHangout("a", "15:00", "16:00"),
+      makeHangout("b", "09:00", "16:00"),
+    ];
+
+    const windows = findGroupHangoutWindows(hangouts, users, {
+      minGroupSize: 2,
+      within: {
+        start: "2026-01-03T15:00:00.000Z",
+        end: "2026-01-03T16:00:00.000Z",
+      },
+    });
+
+    expect(windows).toHaveLength(1);
+    expect(windows[0].start).toBe("2026-01-03T15:00:00.000Z");
+  });
+});
+
+describe("createHangoutMatchNotifications", () => {
+  it("should notify every member with a shared match key", () => {
+    const users = makeCircle(["a", "b", "c"]);
+    const [window] = findGroupHangoutWindows(
+      users.map((user) => makeHangout(user.id, "10:00", "12:00")),
+      users,
+    );
+
+    const notifications = createHangoutMatchNotifications(
+      window,
+      new Map(users.map((user) => [user.id, user])),
+    );
+
+    expect(notifications.map((n) => n.userId)).toEqual(["a", "b", "c"]);
+    expect(notifications[0].message).toBe(
+      "You and B and C have overlapping hangout times",
+    );
+    expect(notifications[0].data.matchedUserIds).toEqual(["b", "c"]);
+    expect(
+      notifications.every((n) => n.data.matchKey === getMatchKey(window)),
+    ).toBe(true);
+  });
+});
+
+describe("toHangoutMatch", () => {
+  it("should key the record by the window's match key", () => {
+    const users = makeCircle(["a", "b", "c"]);
+    const hangouts = users.map(
+      (user): HangoutEvent => ({
+        ...makeHangout(user.id, "10:00", "12:00"),
+        type: "hangout",
+        preferences: {
+          activitySuggestions: ["Bowling", user.id === "c" ? "Chess" : "Darts"],
+        },
+        visibility: "friends",
+      }),
+    );
+    const [window] = findGroupHangoutWindows(hangouts, users);
+
+    const match = toHangoutMatch(
+      window,
+      evaluateHangoutMatch(window, hangouts),
+      "2026-01-01T00:00:00.000Z",
+    );
+
+    expect(match).toEqual({
+      id: getMatchKey(window),
+      users: ["a", "b", "c"],
+      overlappingTime: { start: window.start, end: window.end },
+      hangoutEvents: window.hangoutEvents,
+      compatibilityScore: 100,
+      sharedActivities: ["Bowling"],
+      createdAt: "2026-01-01T00:00:00.000Z",
+    });
+  });
+});
+
+describe("evaluateHangoutMatch", () => {
+  const users = makeCircle(["a", "b"]);
+
+  const withPreferences = (
+    event: Event,
+    preferences: HangoutEvent["preferences"],
+  ): HangoutEvent => ({
+    ...event,
+    type: "hangout",
+    preferences,
+    visibility: "friends",
+  });
+
+  const evaluate = (hangouts: Event[]) => {
+    const [window] = findGroupHangoutWindows(hangouts, users, {
+      minGroupSize: 2,
+    });
+    return evaluateHangoutMatch(window, hangouts);
+  };
+
+  it("should score long overlaps with shared activities highest", () => {
+    const evaluation = evaluate([
+      withPreferences(makeHangout("a", "10:00", "14:00"), {
+        activitySuggestions: ["Coffee", "Movie"],
+        budgetLimit: 30,
+      }),
+      withPreferences(makeHangout("b", "10:00", "14:00"), {
+        activitySuggestions: ["coffee"],
+        budgetMin: 10,
+        budgetLimit: 50,
+      }),
+    ]);
+
+    expect(evaluation.overlapMinutes).toBe(240);
+    expect(evaluation.sharedActivities).toEqual(["Coffee"]);
+    expect(evaluation.budgetCompatible).toBe(true);
+    expect(evaluation.compatibilityScore).toBe(100);
+  });
+
+  it("should flag budget ranges that don't overlap", () => {
+    const evaluation = evaluate([
+      withPreferences(makeHangout("a", "10:00", "11:00"), {
+        activitySuggestions: ["Hiking"],
+        budgetLimit: 20,
+      }),
+      withPreferences(makeHangout("b", "10:30", "12:00"), {
+        activitySuggestions: ["Bowling"],
+        budgetMin: 40,
+      }),
+    ]);
+
+    expect(evaluation.overlapMinutes).toBe(30);
+    expect(evaluation.sharedActivities).toEqual([]);
+    expect(evaluation.budgetCompatible).toBe(false);
+    expect(evaluation.compatibilityScore).toBe(13);
+  });
+
+  it("should apply each part of the matching policy", () => {
+    const evaluation = evaluate([
+      makeHangout("a", "10:00", "10:20"),
+      makeHangout("b", "10:00", "12:00"),
+    ]);
+
+    expect(satisfiesMatchPolicy(evaluation, DEFAULT_MATCH_POLICY)).toBe(false);
+    expect(
+      satisfiesMatchPolicy(evaluation, {
+        ...DEFAULT_MATCH_POLICY,
+        minOverlapMinutes: 15,
+      }),
+    ).toBe(true);
+    expect(
+      satisfiesMatchPolicy(evaluation, {
+        ...DEFAULT_MATCH_POLICY,
+        minOverlapMinutes: 0,
+        minCompatibilityScore: 50,
+      }),
+    ).toBe(false);
+  });
+
+  it("should only require a shared activity when someone listed one", () => {
+    const policy = { ...DEFAULT_MATCH_POLICY, requireSharedActivity: true };
+    const flexible = evaluate([
+      makeHangout("a", "10:00", "12:00"),
+      makeHangout("b", "10:00", "12:00"),
+    ]);
+    const disagreeing = evaluate([
+      withPreferences(makeHangout("a", "10:00", "12:00"), {
+        activitySuggestions: ["Hiking"],
+      }),
+      withPreferences(makeHangout("b", "10:00", "12:00"), {
+        activitySuggestions: ["Bowling"],
+      }),
+    ]);
+
+    expect(flexible.activitiesFlexible).toBe(true);
+    expect(satisfiesMatchPolicy(flexible, policy)).toBe(true);
+    expect(disagreeing.activitiesFlexible).toBe(false);
+    expect(satisfiesMatchPolicy(disagreeing, policy)).toBe(false);
+  });
+});
+
+describe("filterByMatchPolicy", () => {
+  it("should only notify members whose policy accepts the match", () => {
+    const [a, b] = makeCircle(["a", "b"]);
+    const strict = {
+      ...a,
+      matchPolicy: { ...DEFAULT_MATCH_POLICY, minOverlapMinutes: 180 },
+    };
+    const usersById = new Map([strict, b].map((user) => [user.id, user]));
+    const hangouts = [
+      makeHangout("a", "10:00", "12:00"),
+      makeHangout("b", "10:00", "12:00"),
+    ];
+    const [window] = findGroupHangoutWindows(hangouts, [strict, b], {
+      minGroupSize: 2,
+    });
+    const evaluation = evaluateHangoutMatch(window, hangouts);
+
+    expect(
+      filterByMatchPolicy(
+        createHangoutMatchNotifications(window, usersById, evaluation),
+        evaluation,
+        usersById,
+      ).map((notification) => notification.userId),
+    ).toEqual(["b"]);
+    // The match itself is still shared with the whole group
+    expect(toHangoutMatch(window, evaluation).users).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,425 @@
+import {
+  Event,
+  HangoutEvent,
+  HangoutMatch,
+  MatchPolicy,
+  Notification,
+  User,
+} from "@/types";
+import { isBlockedBetween } from "@/utils/blocking";
+
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+export interface GroupHangoutWindow extends TimeWindow {
+  users: string[];
+  hangoutEvents: string[];
+}
+
+export interface GroupMatchOptions {
+  // Smallest group worth reporting; pairs are groups of two
+  minGroupSize?: number;
+  // Only report groups that include this user
+  includeUserId?: string;
+  // Only report windows that intersect this range
+  within?: TimeWindow;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const toInterval = (window: TimeWindow): Interval => ({
+  start: new Date(window.start).getTime(),
+  end: new Date(window.end).getTime(),
+});
+
+const eventToInterval = (event: Event): Interval => ({
+  start: new Date(event.startTime).getTime(),
+  end: new Date(event.endTime).getTime(),
+});
+
+const toWindow = (interval: Interval): TimeWindow => ({
+  start: new Date(interval.start).toISOString(),
+  end: new Date(interval.end).toISOString(),
+});
+
+// Sorts and merges touching/overlapping intervals into a disjoint list
+const mergeIntervals = (intervals: Interval[]): Interval[] => {
+  const sorted = intervals
+    .filter((interval) => interval.end > interval.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: Interval[] = [];
+  sorted.forEach((interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  });
+  return merged;
+};
+
+const intersectIntervals = (a: Interval[], b: Interval[]): Interval[] => {
+  const result: Interval[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i].start, b[j].start);
+    const end = Math.min(a[i].end, b[j].end);
+    if (end > start) result.push({ start, end });
+
+    if (a[i].end < b[j].end) i++;
+    else j++;
+  }
+
+  return result;
+};
+
+// Friendship only counts when both users list each other and neither has
+// blocked the other
+export const areMutualFriends = (
+  a: string,
+  b: string,
+  usersById: Map<string, User>,
+): boolean =>
+  !!usersById.get(a)?.friends.includes(b) &&
+  !!usersById.get(b)?.friends.includes(a) &&
+  !isBlockedBetween(usersById.get(a), usersById.get(b));
+
+// Bron–Kerbosch with pivoting; friend circles are small enough for this
+const findMaximalCliques = (
+  vertices: string[],
+  isConnected: (a: string, b: string) => boolean,
+): string[][] => {
+  const cliques: string[][] = [];
+
+  const expand = (r: string[], p: string[], x: string[]) => {
+    if (p.length === 0 && x.length === 0) {
+      cliques.push(r);
+      return;
+    }
+
+    const pivot = [...p, ...x][0];
+    p.filter((v) => !isConnected(pivot, v)).forEach((v) => {
+      const neighbours = (list: string[]) =>
+        list.filter((u) => u !== v && isConnected(u, v));
+      expand([...r, v], neighbours(p), neighbours(x));
+      p = p.filter((u) => u !== v);
+      x = [...x, v];
+    });
+  };
+
+  expand([], vertices, []);
+  return cliques;
+};
+
+/**
+ * Finds the maximal time windows in which a group of mutually-connected
+ * users are all available, based on their hangout events.
+ *
+ * Candidate groups are the maximal cliques of available users within each
+ * stretch of time; each candidate is then reported with every maximal window
+ * in which all of its members are free. Results are ranked by group size,
+ * then window length, then start time.
+ */
+export const findGroupHangoutWindows = (
+  hangouts: Event[],
+  users: User[],
+  options: GroupMatchOptions = {},
+): GroupHangoutWindow[] => {
+  const { minGroupSize = 3, includeUserId, within } = options;
+  const usersById = new Map(users.map((user) => [user.id, user]));
+  const range = within ? toInterval(within) : null;
+
+  const hangoutsByUser = new Map<string, Event[]>();
+  hangouts
+    .filter((event) => event.type === "hangout" && usersById.has(event.userId))
+    .forEach((event) => {
+      hangoutsByUser.set(event.userId, [
+        ...(hangoutsByUser.get(event.userId) || []),
+        event,
+      ]);
+    });
+
+  const availability = new Map<string, Interval[]>();
+  hangoutsByUser.forEach((events, userId) => {
+    availability.set(userId, mergeIntervals(events.map(eventToInterval)));
+  });
+
+  // Split the timeline at every boundary so availability is constant inside
+  // each segment
+  const boundaries = [
+    ...new Set(
+      Array.from(availability.values()).flatMap((intervals) =>
+        intervals.flatMap((interval) => [interval.start, interval.end]),
+      ),
+    ),
+  ].sort((a, b) => a - b);
+
+  const isConnected = (a: string, b: string) =>
+    areMutualFriends(a, b, usersById);
+
+  const candidateGroups = new Map<string, string[]>();
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const segment = { start: boundaries[i], end: boundaries[i + 1] };
+    if (range && (segment.end <= range.start || segment.start >= range.end)) {
+      continue;
+    }
+
+    const available = Array.from(availability.entries())
+      .filter(([, intervals]) =>
+        intervals.some(
+          (interval) =>
+            interval.start <= segment.start && interval.end >= segment.end,
+        ),
+      )
+      .map(([userId]) => userId);
+
+    if (available.length < minGroupSize) continue;
+
+    findMaximalCliques(available, isConnected)
+      .filter((clique) => clique.length >= minGroupSize)
+      .filter((clique) => !includeUserId || clique.includes(includeUserId))
+      .forEach((clique) => {
+        const group = [...clique].sort();
+        candidateGroups.set(group.join(","), group);
+      });
+  }
+
+  const windows: GroupHangoutWindow[] = [];
+  candidateGroups.forEach((group) => {
+    const shared = group
+      .map((userId) => availability.get(userId) || [])
+      .reduce(intersectIntervals);
+
+    shared
+      .filter(
+        (interval) =>
+          !range || (interval.end > range.start && interval.start < range.end),
+      )
+      .forEach((interval) => {
+        const hangoutEvents = group.flatMap((userId) =>
+          (hangoutsByUser.get(userId) || [])
+            .filter((event) => {
+              const eventInterval = eventToInterval(event);
+              return (
+                eventInterval.start < interval.end &&
+                eventInterval.end > interval.start
+              );
+            })
+            .map((event) => event.id),
+        );
+
+        windows.push({ ...toWindow(interval), users: group, hangoutEvents });
+      });
+  });
+
+  const duration = (window: TimeWindow) =>
+    new Date(window.end).getTime() - new Date(window.start).getTime();
+
+  return windows.sort(
+    (a, b) =>
+      b.users.length - a.users.length ||
+      duration(b) - duration(a) ||
+      new Date(a.start).getTime() - new Date(b.start).getTime(),
+  );
+};
+
+export interface MatchEvaluation {
+  overlapMinutes: number;
+  sharedActivities: string[];
+  // True when nobody listed activities, so any activity suits the group
+  activitiesFlexible: boolean;
+  budgetCompatible: boolean;
+  // 0-100, weighted from overlap length, shared activities and budget fit
+  compatibilityScore: number;
+}
+
+export const DEFAULT_MATCH_POLICY: MatchPolicy = {
+  minOverlapMinutes: 30,
+  requireSharedActivity: false,
+  requireBudgetCompatibility: true,
+  minCompatibilityScore: 0,
+};
+
+// Overlaps at least this long earn the full time component of the score
+const FULL_OVERLAP_MINUTES = 120;
+
+export const getMatchPolicy = (user?: User | null): MatchPolicy => ({
+  ...DEFAULT_MATCH_POLICY,
+  ...user?.matchPolicy,
+});
+
+/**
+ * Scores how well a group window fits its members' hangout preferences.
+ *
+ * Members who left activities or budget blank are treated as flexible, so
+ * they never make a match incompatible on their own.
+ */
+export const evaluateHangoutMatch = (
+  window: GroupHangoutWindow,
+  hangouts: Event[],
+): MatchEvaluation => {
+  const overlapMinutes = Math.round(
+    (new Date(window.end).getTime() - new Date(window.start).getTime()) / 60000,
+  );
+
+  const preferencesByUser = window.users.map((userId) =>
+    hangouts
+      .filter(
+        (event) =>
+          event.userId === userId && window.hangoutEvents.includes(event.id),
+      )
+      .map((event) => (event as HangoutEvent).preferences)
+      .filter(Boolean),
+  );
+
+  // Activities are compared case-insensitively but reported as entered
+  const activitySets = preferencesByUser
+    .map(
+      (preferences) =>
+        new Map(
+          preferences
+            .flatMap((p) => p.activitySuggestions || [])
+            .map((activity) => [
+              activity.trim().toLowerCase(),
+              activity.trim(),
+            ]),
+        ),
+    )
+    .filter((activities) => activities.size > 0);
+  const sharedActivities = activitySets.length
+    ? Array.from(activitySets[0].entries())
+        .filter(([key]) => activitySets.every((set) => set.has(key)))
+        .map(([, activity]) => activity)
+    : [];
+
+  const budgetRanges = preferencesByUser
+    .map((preferences) =>
+      preferences.filter(
+        (p) => p.budgetMin !== undefined || p.budgetLimit !== undefined,
+      ),
+    )
+    .filter((preferences) => preferences.length > 0)
+    .map((preferences) => ({
+      min: Math.min(...preferences.map((p) => p.budgetMin ?? 0)),
+      max: Math.max(...preferences.map((p) => p.budgetLimit ?? Infinity)),
+    }));
+  const budgetCompatible =
+    Math.max(0, ...budgetRanges.map((range) => range.min)) <=
+    Math.min(Infinity, ...budgetRanges.map((range) => range.max));
+
+  const timeScore = Math.min(overlapMinutes / FULL_OVERLAP_MINUTES, 1);
+  const activityScore =
+    activitySets.length < 2 ? 0.5 : sharedActivities.length > 0 ? 1 : 0;
+  const budgetScore = budgetCompatible ? 1 : 0;
+
+  return {
+    overlapMinutes,
+    sharedActivities,
+    activitiesFlexible: activitySets.length === 0,
+    budgetCompatible,
+    compatibilityScore: Math.round(
+      100 * (0.5 * timeScore + 0.3 * activityScore + 0.2 * budgetScore),
+    ),
+  };
+};
+
+export const satisfiesMatchPolicy = (
+  evaluation: MatchEvaluation,
+  policy: MatchPolicy,
+): boolean =>
+  evaluation.overlapMinutes > 0 &&
+  evaluation.overlapMinutes >= policy.minOverlapMinutes &&
+  (!policy.requireSharedActivity ||
+    evaluation.activitiesFlexible ||
+    evaluation.sharedActivities.length > 0) &&
+  (!policy.requireBudgetCompatibility || evaluation.budgetCompatible) &&
+  evaluation.compatibilityScore >= policy.minCompatibilityScore;
+
+/**
+ * Keeps the match notifications whose recipient's own matching policy accepts
+ * the match. Policies only decide who gets notified: the match record is
+ * shared by the whole group and listed for every member either way.
+ */
+export const filterByMatchPolicy = (
+  notifications: Omit<Notification, "id">[],
+  evaluation: MatchEvaluation,
+  usersById: Map<string, User>,
+): Omit<Notification, "id">[] =>
+  notifications.filter((notification) =>
+    satisfiesMatchPolicy(
+      evaluation,
+      getMatchPolicy(usersById.get(notification.userId)),
+    ),
+  );
+
+// Stable identity for a group window, used as the ID of its match record
+export const getMatchKey = (window: GroupHangoutWindow): string =>
+  `${[...window.users].sort().join(",")}@${window.start}/${window.end}`;
+
+// The record saved for a window, shared by everyone in the group
+export const toHangoutMatch = (
+  window: GroupHangoutWindow,
+  evaluation?: MatchEvaluation,
+  createdAt = new Date().toISOString(),
+): HangoutMatch => ({
+  id: getMatchKey(window),
+  users: window.users,
+  overlappingTime: { start: window.start, end: window.end },
+  hangoutEvents: window.hangoutEvents,
+  ...(evaluation && {
+    compatibilityScore: evaluation.compatibilityScore,
+    sharedActivities: evaluation.sharedActivities,
+  }),
+  createdAt,
+});
+
+export const formatNames = (names: string[]): string =>
+  names.length <= 1
+    ? names.join("")
+    : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+
+// One notification per group member, naming everyone else in the group
+export const createHangoutMatchNotifications = (
+  window: GroupHangoutWindow,
+  usersById: Map<string, User>,
+  evaluation?: MatchEvaluation,
+): Omit<Notification, "id">[] =>
+  window.users.map((recipientId) => {
+    const others = window.users.filter((id) => id !== recipientId);
+    const names = others.map((id) => usersById.get(id)?.fullName || "a friend");
+
+    return {
+      userId: recipientId,
+      type: "hangout_match",
+      title:
+        others.length > 1
+          ? "Group Hangout Match Found!"
+          : "Hangout Match Found!",
+      message: `You and ${formatNames(names)} have overlapping hangout times`,
+      // Optional fields are left out rather than set to undefined, which
+      // Firestore rejects
+      data: {
+        matchKey: getMatchKey(window),
+        users: window.users,
+        ...(others.length === 1 && { matchedUserId: others[0] }),
+        matchedUserIds: others,
+        overlappingTime: { start: window.start, end: window.end },
+        hangoutEvents: window.hangoutEvents,
+        ...(evaluation && {
+          compatibilityScore: evaluation.compatibilityScore,
+          sharedActivities: evaluation.sharedActivities,
+        }),
+      },
+      read: false,
+      createdAt: new Date().toISOString(),
+    };
+  });
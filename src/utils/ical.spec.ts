@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import { Event, HangoutEvent } from "@/types";
+import {
+  exportEventsToICal,
+  getEventUid,
+  parseICal,
+  planICalImport,
+} from "./ical";
+
+const hangout: HangoutEvent = {
+  id: "abc123",
+  userId: "user",
+  title: "Board games; snacks, drinks",
+  description: "Bring a game\nor two",
+  startTime: "2026-01-02T17:00:00.000Z",
+  endTime: "2026-01-02T20:00:00.000Z",
+  type: "hangout",
+  recurrence: {
+    frequency: "weekly",
+    interval: 1,
+    byWeekday: [5],
+    exceptionDates: ["2026-01-09T17:00:00.000Z"],
+  },
+  preferences: {
+    activitySuggestions: ["Catan", "Pizza, maybe"],
+    budgetMin: 5,
+    budgetLimit: 25,
+  },
+  visibility: "friends",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+const calendar = (...lines: string[]) =>
+  ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n");
+
+describe("exportEventsToICal", () => {
+  it("should round-trip events through an .ics file", () => {
+    const text = exportEventsToICal([hangout]);
+    const { events, errors } = parseICal(text);
+
+    expect(errors).toEqual([]);
+    expect(events).toEqual([
+      {
+        icalUid: getEventUid(hangout),
+        title: hangout.title,
+        description: hangout.description,
+        startTime: hangout.startTime,
+        endTime: hangout.endTime,
+        type: "hangout",
+        recurrence: hangout.recurrence,
+        preferences: hangout.preferences,
+        visibility: "friends",
+      },
+    ]);
+  });
+
+  it("should keep the zone of zoned events", () => {
+    const text = exportEventsToICal([
+      { ...hangout, timeZone: "America/New_York" },
+    ]);
+    const [event] = parseICal(text).events;
+
+    expect(text).toContain("DTSTART;TZID=America/New_York:20260102T120000");
+    expect(text).toContain("EXDATE;TZID=America/New_York:20260109T120000");
+    expect(event.timeZone).toBe("America/New_York");
+    expect(event.startTime).toBe(hangout.startTime);
+    expect(event.recurrence).toEqual(hangout.recurrence);
+  });
+
+  it("should describe each zone it uses", () => {
+    const text = exportEventsToICal([
+      { ...hangout, timeZone: "America/New_York" },
+      { ...hangout, id: "later", timeZone: "America/New_York" },
+      { ...hangout, id: "tokyo", timeZone: "Asia/Tokyo" },
+    ]);
+
+    expect(text.match(/BEGIN:VTIMEZONE/g)).toHaveLength(2);
+    expect(text).toContain(
+      [
+        "BEGIN:DAYLIGHT",
+        "DTSTART:20250309T020000",
+        "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+        "TZOFFSETFROM:-0500",
+        "TZOFFSETTO:-0400",
+        "END:DAYLIGHT",
+        "BEGIN:STANDARD",
+        "DTSTART:20251102T020000",
+        "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+        "TZOFFSETFROM:-0400",
+        "TZOFFSETTO:-0500",
+        "END:STANDARD",
+      ].join("\r\n"),
+    );
+    expect(text).toContain(
+      [
+        "TZID:Asia/Tokyo",
+        "BEGIN:STANDARD",
+        "DTSTART:19700101T000000",
+        "TZOFFSETFROM:+0900",
+        "TZOFFSETTO:+0900",
+        "END:STANDARD",
+      ].join("\r\n"),
+    );
+    expect(text.indexOf("END:VTIMEZONE")).toBeLessThan(
+      text.indexOf("BEGIN:VEVENT"),
+    );
+    expect(parseICal(text).events).toHaveLength(3);
+  });
+
+  it("should escape every kind of line break in text", () => {
+    const description = "Windows\r\nold Mac\rUnix\nend";
+    const text = exportEventsToICal([{ ...hangout, description }]);
+
+    expect(text).toContain("DESCRIPTION:Windows\\nold Mac\\nUnix\\nend\r\n");
+    expect(text.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+    expect(parseICal(text).events[0].description).toBe(
+      "Windows\nold Mac\nUnix\nend",
+    );
+  });
+
+  it("should fold long lines by octets", () => {
+    const title = "x".repeat(100) + "é😀".repeat(50);
+    const text = exportEventsToICal([{ ...hangout, title }]);
+    const encoder = new TextEncoder();
+
+    expect(
+      text.split("\r\n").every((line) => encoder.encode(line).length <= 75),
+    ).toBe(true);
+    expect(parseICal(text).events[0].title).toBe(title);
+  });
+});
+
+describe("parseICal", () => {
+  it("should convert TZID, all-day and duration based times", () => {
+    const { events } = parseICal(
+      calendar(
+        "BEGIN:VEVENT",
+        "UID:ny",
+        "SUMMARY:Standup",
+        "DTSTART;TZID=America/New_York:20260702T090000",
+        "DURATION:PT30M",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:holiday",
+        "DTSTART;VALUE=DATE:20260704",
+        "END:VEVENT",
+      ),
+    );
+
+    expect(events[0].startTime).toBe("2026-07-02T13:00:00.000Z");
+    expect(events[0].endTime).toBe("2026-07-02T13:30:00.000Z");
+    expect(events[0].timeZone).toBe("America/New_York");
+    expect(events[1].timeZone).toBeUndefined();
+    expect(events[1].title).toBe("Untitled event");
+    expect(
+      new Date(events[1].endTime).getTime() -
+        new Date(events[1].startTime).getTime(),
+    ).toBe(24 * 3600 * 1000);
+  });
+
+  it("should turn modified occurrences into exceptions of their series", () => {
+    const { events } = parseICal(
+      calendar(
+        "BEGIN:VEVENT",
+        "UID:series",
+        "DTSTART:20260102T170000Z",
+        "RRULE:FREQ=WEEKLY",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "UID:series",
+        "RECURRENCE-ID:20260109T170000Z",
+        "DTSTART:20260109T180000Z",
+        "END:VEVENT",
+      ),
+    );
+
+    expect(events[0].recurrence?.exceptionDates).toEqual([
+      "2026-01-09T17:00:00.000Z",
+    ]);
+    expect(events[1].icalUid).toBe("series/20260109T170000Z");
+    expect(events[1].startTime).toBe("2026-01-09T18:00:00.000Z");
+  });
+
+  it("should report events it can't read", () => {
+    const { events, errors } = parseICal(
+      calendar("BEGIN:VEVENT", "SUMMARY:No UID", "END:VEVENT"),
+    );
+
+    expect(events).toEqual([]);
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe("planICalImport", () => {
+  it("should match by UID and flag overlapping events", () => {
+    const lunch: Event = {
+      id: "lunch",
+      userId: "user",
+      title: "Lunch",
+      startTime: "2026-01-02T18:00:00.000Z",
+      endTime: "2026-01-02T19:00:00.000Z",
+      type: "personal",
+      createdAt: "2026-01-01T00:00:00.000Z",
+    };
+    const { events } = parseICal(exportEventsToICal([hangout]));
+
+    const [item] = planICalImport(events, [hangout, lunch]);
+
+    expect(item.existing).toBe(hangout);
+    expect(item.conflicts.map((event) => event.id)).toEqual(["lunch"]);
+  });
+});
@@ -0,0 +1,541 @@
+import { Event, HangoutEvent, RecurrenceRule } from "@/types";
+import {
+  expandEvents,
+  formatICalDateTime,
+  formatRRule,
+  parseICalDateTime,
+  parseRRule,
+  WEEKDAY_CODES,
+} from "@/utils/recurrence";
+import {
+  getTimeZoneOffset,
+  getWallClockTime,
+  isValidTimeZone,
+  WallClockTime,
+  zonedTimeToUtc,
+} from "@/utils/timezone";
+
+export type ImportedEvent = Omit<Event, "id" | "userId" | "createdAt"> & {
+  icalUid: string;
+};
+
+export interface ICalParseResult {
+  events: ImportedEvent[];
+  errors: string[];
+}
+
+export interface ICalImportItem {
+  event: ImportedEvent;
+  // Event already in the calendar with the same UID
+  existing?: Event;
+  // Other events in the calendar at the same time
+  conflicts: Event[];
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ICalDate {
+  time: string;
+  // Set when the value was a wall-clock time in a known TZID
+  timeZone?: string;
+}
+
+const PRODUCT_ID = "-//SocialNet//Calendar//EN";
+const UID_DOMAIN = "socialnet";
+
+// Hangout details travel in vendor properties so other apps ignore them
+const X_PREFIX = "X-SOCIALNET-";
+
+// RFC 5545 limits content lines to 75 octets before folding
+const MAX_LINE_LENGTH = 75;
+
+const DAY_MS = 24 * 3600 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Bare CRs count as line breaks too, or they'd end the content line early
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n/g, "\\n")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\,;nN])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char,
+  );
+
+// Splits on commas that are not escaped
+const splitList = (value: string) =>
+  value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeText(item).trim())
+    .filter(Boolean);
+
+const utf8Length = (char: string) => {
+  const codePoint = char.codePointAt(0)!;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+// Folds by UTF-8 length without splitting a character; continuation lines
+// spend one octet on the leading space
+const foldLine = (line: string) => {
+  const chunks = [""];
+  let length = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = chunks.length === 1 ? MAX_LINE_LENGTH : MAX_LINE_LENGTH - 1;
+    if (length + size > limit) {
+      chunks.push("");
+      length = 0;
+    }
+    chunks[chunks.length - 1] += char;
+    length += size;
+  }
+  return chunks.join("\r\n ");
+};
+
+const unfoldLines = (text: string) =>
+  text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim());
+
+const parseProperty = (line: string): ICalProperty | null => {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, separator).split(";");
+  const params = Object.fromEntries(
+    paramParts.map((part) => {
+      const [key, ...rest] = part.split("=");
+      return [key.toUpperCase(), rest.join("=").replace(/^"|"$/g, "")];
+    }),
+  );
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+// Resolves DATE, UTC, TZID and floating date-times to an ISO string, keeping
+// the zone of TZID values
+const parseDateValue = (property: ICalProperty): ICalDate | null => {
+  const value = property.value.trim();
+  const toDate = (time: string | null) => (time ? { time } : null);
+
+  if (property.params.VALUE === "DATE" || /^\d{8}$/.test(value)) {
+    return toDate(parseICalDateTime(value.slice(0, 8)));
+  }
+
+  const timeZone = property.params.TZID;
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (timeZone && match && isValidTimeZone(timeZone)) {
+    const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+    const time = zonedTimeToUtc(
+      { year, month, day, hours, minutes, seconds },
+      timeZone,
+    ).toISOString();
+    return { time, timeZone };
+  }
+
+  // UTC values, and floating times or unknown zones as local time
+  return toDate(parseICalDateTime(value));
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// Date-time without a zone, e.g. 20260102T120000
+const formatWallClock = (time: WallClockTime) =>
+  `${pad(time.year, 4)}${pad(time.month)}${pad(time.day)}T${pad(time.hours)}${pad(time.minutes)}${pad(time.seconds)}`;
+
+// Writes a date-time property as wall-clock time in the zone when given,
+// otherwise in UTC
+const formatDateProperty = (
+  name: string,
+  dates: string[],
+  timeZone?: string,
+) => {
+  if (!timeZone) return `${name}:${dates.map(formatICalDateTime).join(",")}`;
+
+  const values = dates.map((date) =>
+    formatWallClock(getWallClockTime(new Date(date), timeZone)),
+  );
+  return `${name};TZID=${timeZone}:${values.join(",")}`;
+};
+
+// UTC offsets are written as +HHMM
+const formatOffset = (offset: number) => {
+  const minutes = Math.round(Math.abs(offset) / MINUTE_MS);
+  return `${offset < 0 ? "-" : "+"}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+};
+
+// The first minute of each new offset the zone switches to during the year
+const findOffsetChanges = (year: number, timeZone: string) => {
+  const offsetAt = (time: number) =>
+    getTimeZoneOffset(new Date(time), timeZone);
+  const changes: number[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+
+  for (let day = Date.UTC(year, 0, 1); day < end; day += DAY_MS) {
+    if (offsetAt(day) === offsetAt(day + DAY_MS)) continue;
+
+    let low = day;
+    let high = day + DAY_MS;
+    while (high - low > MINUTE_MS) {
+      const middle =
+        low + Math.floor((high - low) / (2 * MINUTE_MS)) * MINUTE_MS;
+      if (offsetAt(middle) === offsetAt(low)) low = middle;
+      else high = middle;
+    }
+    changes.push(high);
+  }
+  return changes;
+};
+
+/**
+ * The VTIMEZONE for a zone used by TZID values. Offset changes are read
+ * from the year before `year` and repeated on the same weekday of their
+ * month each year, which is how zones with daylight saving define them.
+ */
+const formatTimeZone = (timeZone: string, year: number) => {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  const changes = findOffsetChanges(year - 1, timeZone);
+
+  if (changes.length === 0) {
+    const offset = formatOffset(
+      getTimeZoneOffset(new Date(Date.UTC(year, 0, 1)), timeZone),
+    );
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD",
+    );
+  }
+
+  changes.forEach((change) => {
+    const from = getTimeZoneOffset(new Date(change - MINUTE_MS), timeZone);
+    const to = getTimeZoneOffset(new Date(change), timeZone);
+    const component = to > from ? "DAYLIGHT" : "STANDARD";
+
+    // Onsets are given in the local time of the offset being left
+    const onset = new Date(change + from);
+    const time: WallClockTime = {
+      year: onset.getUTCFullYear(),
+      month: onset.getUTCMonth() + 1,
+      day: onset.getUTCDate(),
+      hours: onset.getUTCHours(),
+      minutes: onset.getUTCMinutes(),
+      seconds: onset.getUTCSeconds(),
+    };
+    const daysInMonth = new Date(
+      Date.UTC(time.year, time.month, 0),
+    ).getUTCDate();
+    const week = time.day + 7 > daysInMonth ? -1 : Math.ceil(time.day / 7);
+
+    lines.push(
+      `BEGIN:${component}`,
+      `DTSTART:${formatWallClock(time)}`,
+      // A zone that changed offset only once isn't repeating a rule
+      ...(changes.length === 2
+        ? [
+            `RRULE:FREQ=YEARLY;BYMONTH=${time.month};BYDAY=${week}${WEEKDAY_CODES[onset.getUTCDay()]}`,
+          ]
+        : []),
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${component}`,
+    );
+  });
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+};
+
+const getExportTimeZone = (event: Event) =>
+  event.timeZone && isValidTimeZone(event.timeZone)
+    ? event.timeZone
+    : undefined;
+
+// Parses durations like PT1H30M or P1D
+const parseDuration = (value: string): number | null => {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim(),
+    );
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    (Number(weeks || 0) * 7 * 24 * 3600 +
+      Number(days || 0) * 24 * 3600 +
+      Number(hours || 0) * 3600 +
+      Number(minutes || 0) * 60 +
+      Number(seconds || 0)) *
+    1000;
+  return sign === "-" ? -total : total;
+};
+
+const parseVEvent = (properties: ICalProperty[]): ImportedEvent | string => {
+  const get = (name: string) => properties.find((p) => p.name === name);
+  const getAll = (name: string) => properties.filter((p) => p.name === name);
+
+  const uid = get("UID")?.value.trim();
+  if (!uid) return "Skipped an event without a UID";
+
+  const title = unescapeText(get("SUMMARY")?.value || "").trim();
+  const dtstart = get("DTSTART");
+  const start = dtstart && parseDateValue(dtstart);
+  if (!start) return `Skipped "${title || uid}": missing start time`;
+  const startTime = start.time;
+
+  const isAllDay =
+    dtstart.params.VALUE === "DATE" || /^\d{8}$/.test(dtstart.value.trim());
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+  const endTime =
+    (dtend && parseDateValue(dtend)?.time) ||
+    new Date(
+      new Date(startTime).getTime() +
+        ((duration && parseDuration(duration.value)) ||
+          (isAllDay ? 24 * 3600 * 1000 : 3600 * 1000)),
+    ).toISOString();
+
+  // A modified occurrence of a series shares the series UID, so it is keyed
+  // by its original start as well
+  const recurrenceId = get("RECURRENCE-ID");
+  const originalStartTime = recurrenceId && parseDateValue(recurrenceId)?.time;
+
+  const event: ImportedEvent = {
+    icalUid: originalStartTime ? `${uid}/${recurrenceId.value.trim()}` : uid,
+    ...(originalStartTime && { originalStartTime }),
+    title: title || "Untitled event",
+    startTime,
+    endTime,
+    ...(start.timeZone && { timeZone: start.timeZone }),
+    type: "personal",
+  };
+
+  const description = get("DESCRIPTION");
+  if (description) event.description = unescapeText(description.value);
+
+  const rrule = get("RRULE");
+  const recurrence: RecurrenceRule | null = rrule
+    ? parseRRule(rrule.value)
+    : null;
+  if (recurrence) {
+    const exceptionDates = getAll("EXDATE").flatMap((exdate) =>
+      exdate.value
+        .split(",")
+        .map((value) => parseDateValue({ ...exdate, value })?.time)
+        .filter((time): time is string => !!time),
+    );
+    event.recurrence = {
+      ...recurrence,
+      ...(exceptionDates.length > 0 && { exceptionDates }),
+    };
+  }
+
+  if (get(`${X_PREFIX}TYPE`)?.value.trim().toLowerCase() === "hangout") {
+    const number = (name: string) => {
+      const value = get(`${X_PREFIX}${name}`)?.value;
+      return value && !isNaN(Number(value)) ? Number(value) : undefined;
+    };
+    const activities = get(`${X_PREFIX}ACTIVITIES`);
+    const budgetMin = number("BUDGET-MIN");
+    const budgetLimit = number("BUDGET-MAX");
+    const maxTravelDistance = number("MAX-TRAVEL");
+
+    Object.assign(event, {
+      type: "hangout",
+      visibility: "friends",
+      preferences: {
+        activitySuggestions: activities ? splitList(activities.value) : [],
+        ...(budgetMin !== undefined && { budgetMin }),
+        ...(budgetLimit !== undefined && { budgetLimit }),
+        ...(maxTravelDistance !== undefined && { maxTravelDistance }),
+      },
+    });
+  }
+
+  return event;
+};
+
+/**
+ * Parses the VEVENTs of an iCalendar file. Events that can't be read are
+ * skipped and reported in `errors` rather than failing the whole file.
+ */
+export const parseICal = (text: string): ICalParseResult => {
+  const events: ImportedEvent[] = [];
+  const errors: string[] = [];
+  let current: ICalProperty[] | null = null;
+  let nestedDepth = 0;
+
+  unfoldLines(text).forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === "BEGIN" && property.value.trim() === "VEVENT") {
+      current = [];
+    } else if (property.name === "END" && property.value.trim() === "VEVENT") {
+      if (current) {
+        const result = parseVEvent(current);
+        if (typeof result === "string") errors.push(result);
+        else if (
+          current.find((p) => p.name === "STATUS")?.value.trim() !== "CANCELLED"
+        ) {
+          events.push(result);
+        }
+      }
+      current = null;
+    } else if (current && property.name === "BEGIN") {
+      // Skip nested components such as VALARM
+      nestedDepth++;
+    } else if (current && property.name === "END") {
+      nestedDepth = Math.max(0, nestedDepth - 1);
+    } else if (current && nestedDepth === 0) {
+      current.push(property);
+    }
+  });
+
+  // Modified occurrences replace their slot in the series
+  events
+    .filter((event) => event.originalStartTime)
+    .forEach((override) => {
+      const series = events.find(
+        (event) =>
+          event.recurrence && override.icalUid.startsWith(`${event.icalUid}/`),
+      );
+      if (series) {
+        series.recurrence = {
+          ...series.recurrence!,
+          exceptionDates: [
+            ...(series.recurrence!.exceptionDates || []),
+            override.originalStartTime!,
+          ],
+        };
+      }
+      delete override.originalStartTime;
+    });
+
+  if (events.length === 0 && errors.length === 0) {
+    errors.push("No events found in this file");
+  }
+
+  return { events, errors };
+};
+
+export const getEventUid = (event: Event) =>
+  event.icalUid || `${event.id}@${UID_DOMAIN}`;
+
+export const exportEventsToICal = (events: Event[]): string => {
+  const stamp = formatICalDateTime(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+  ];
+
+  // Each zone needs its rules from the earliest event that uses it
+  const zoneYears = new Map<string, number>();
+  events.forEach((event) => {
+    const timeZone = getExportTimeZone(event);
+    if (!timeZone) return;
+    const year = new Date(event.startTime).getUTCFullYear();
+    zoneYears.set(timeZone, Math.min(zoneYears.get(timeZone) ?? year, year));
+  });
+  zoneYears.forEach((year, timeZone) =>
+    lines.push(...formatTimeZone(timeZone, year)),
+  );
+
+  events.forEach((event) => {
+    const timeZone = getExportTimeZone(event);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${getEventUid(event)}`,
+      `DTSTAMP:${stamp}`,
+      formatDateProperty("DTSTART", [event.startTime], timeZone),
+      formatDateProperty("DTEND", [event.endTime], timeZone),
+      `SUMMARY:${escapeText(event.title)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.recurrence) {
+      lines.push(`RRULE:${formatRRule(event.recurrence)}`);
+      if (event.recurrence.exceptionDates?.length) {
+        lines.push(
+          formatDateProperty(
+            "EXDATE",
+            event.recurrence.exceptionDates,
+            timeZone,
+          ),
+        );
+      }
+    }
+
+    lines.push(`${X_PREFIX}TYPE:${event.type}`);
+    const preferences = (event as HangoutEvent).preferences;
+    if (event.type === "hangout" && preferences) {
+      if (preferences.activitySuggestions?.length) {
+        lines.push(
+          `${X_PREFIX}ACTIVITIES:${preferences.activitySuggestions.map(escapeText).join(",")}`,
+        );
+      }
+      if (preferences.budgetMin !== undefined) {
+        lines.push(`${X_PREFIX}BUDGET-MIN:${preferences.budgetMin}`);
+      }
+      if (preferences.budgetLimit !== undefined) {
+        lines.push(`${X_PREFIX}BUDGET-MAX:${preferences.budgetLimit}`);
+      }
+      if (preferences.maxTravelDistance !== undefined) {
+        lines.push(`${X_PREFIX}MAX-TRAVEL:${preferences.maxTravelDistance}`);
+      }
+    }
+
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+// Matches imported events to existing ones by UID and flags time conflicts
+export const planICalImport = (
+  imported: ImportedEvent[],
+  existing: Event[],
+): ICalImportItem[] => {
+  const byUid = new Map(existing.map((event) => [getEventUid(event), event]));
+
+  return imported.map((event) => {
+    const match = byUid.get(event.icalUid);
+    const start = new Date(event.startTime);
+    const end = new Date(event.endTime);
+
+    // Only the first occurrence of an imported series is checked
+    const conflicts = expandEvents(
+      existing.filter((e) => e.id !== match?.id),
+      start,
+      end,
+    ).filter((e) => new Date(e.startTime) < end && new Date(e.endTime) > start);
+
+    return { event, existing: match, conflicts };
+  });
+};
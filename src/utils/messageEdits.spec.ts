@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { Message } from "@/types";
+import {
+  DELETED_MESSAGE_TEXT,
+  canEditMessage,
+  getMessagePreview,
+  toTombstone,
+  withEditedContent,
+  withHiddenFor,
+  withReactionToggled,
+} from "./messageEdits";
+
+const message: Message = {
+  id: "m1",
+  senderId: "ana",
+  receiverId: "ben",
+  content: "See you at 6",
+  timestamp: "2026-07-01T12:00:00.000Z",
+  read: false,
+};
+
+describe("message edits", () => {
+  it("should keep earlier versions when editing", () => {
+    const first = withEditedContent(
+      message,
+      "See you at 7 ",
+      "2026-07-01T12:05:00.000Z",
+    );
+    const second = withEditedContent(
+      first,
+      "See you at 8",
+      "2026-07-01T12:10:00.000Z",
+    );
+
+    expect(second.content).toBe("See you at 8");
+    expect(second.editedAt).toBe("2026-07-01T12:10:00.000Z");
+    expect(second.editHistory).toEqual([
+      { content: "See you at 6", editedAt: "2026-07-01T12:00:00.000Z" },
+      { content: "See you at 7", editedAt: "2026-07-01T12:05:00.000Z" },
+    ]);
+  });
+
+  it("should only let the sender edit text messages", () => {
+    expect(canEditMessage(message, "ana")).toBe(true);
+    expect(canEditMessage(message, "ben")).toBe(false);
+    expect(
+      canEditMessage({ ...message, type: "location", payload: null }, "ana"),
+    ).toBe(false);
+    expect(canEditMessage(toTombstone(message), "ana")).toBe(false);
+  });
+
+  it("should drop the content and extras of deleted messages", () => {
+    const edited = withReactionToggled(
+      withEditedContent(message, "See you at 7"),
+      "👍",
+      "ben",
+    );
+    const tombstone = toTombstone(edited, "2026-07-01T13:00:00.000Z");
+
+    expect(tombstone).toEqual({
+      ...message,
+      type: "text",
+      content: DELETED_MESSAGE_TEXT,
+      deletedAt: "2026-07-01T13:00:00.000Z",
+    });
+  });
+
+  it("should hide messages deleted for one user from their previews", () => {
+    const hidden = withHiddenFor(message, "ben");
+
+    expect(withHiddenFor(hidden, "ben").hiddenFor).toEqual(["ben"]);
+    expect(getMessagePreview(hidden, "ben")).toBe(DELETED_MESSAGE_TEXT);
+    expect(getMessagePreview(hidden, "ana")).toBe("See you at 6");
+  });
+
+  it("should toggle each user's reactions", () => {
+    const liked = withReactionToggled(message, "👍", "ben");
+    const both = withReactionToggled(liked, "👍", "ana");
+
+    expect(both.reactions).toEqual({ "👍": ["ben", "ana"] });
+    expect(
+      withReactionToggled(withReactionToggled(both, "👍", "ben"), "👍", "ana")
+        .reactions,
+    ).toEqual({});
+  });
+});
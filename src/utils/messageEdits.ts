@@ -0,0 +1,93 @@
+import { Message } from "@/types";
+
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+// Stored as the tombstone's content so older clients show it too
+export const DELETED_MESSAGE_TEXT = "This message was deleted";
+
+export const isDeleted = (message: Message) => Boolean(message.deletedAt);
+
+export const isHiddenFor = (message: Message, userId: string) =>
+  Boolean(message.hiddenFor?.includes(userId));
+
+// Rich and system messages keep their payload, so only plain text is editable
+export const canEditMessage = (message: Message, userId: string) =>
+  message.senderId === userId &&
+  !isDeleted(message) &&
+  (!message.type || message.type === "text");
+
+/**
+ * Replaces a message's text, keeping the previous version in its history
+ * along with when that version was written.
+ */
+export const withEditedContent = (
+  message: Message,
+  content: string,
+  editedAt = new Date().toISOString(),
+): Message => ({
+  ...message,
+  content: content.trim(),
+  editedAt,
+  editHistory: [
+    ...(message.editHistory || []),
+    {
+      content: message.content,
+      editedAt: message.editedAt || message.timestamp,
+    },
+  ],
+});
+
+/**
+ * Deletes a message for everyone. The message stays in the history as a
+ * placeholder, but its payload, edits and reactions are dropped.
+ */
+export const toTombstone = (
+  message: Message,
+  deletedAt = new Date().toISOString(),
+): Message => {
+  const {
+    payload: _payload,
+    editHistory: _editHistory,
+    editedAt: _editedAt,
+    reactions: _reactions,
+    ...rest
+  } = message;
+
+  return {
+    ...rest,
+    type: "text",
+    content: DELETED_MESSAGE_TEXT,
+    deletedAt,
+  };
+};
+
+export const withHiddenFor = (message: Message, userId: string): Message =>
+  isHiddenFor(message, userId)
+    ? message
+    : { ...message, hiddenFor: [...(message.hiddenFor || []), userId] };
+
+// Adds the user's reaction, or removes it if they already reacted with it
+export const withReactionToggled = (
+  message: Message,
+  emoji: string,
+  userId: string,
+): Message => {
+  const reactions = { ...message.reactions };
+  const userIds = reactions[emoji] || [];
+
+  if (userIds.includes(userId)) {
+    const remaining = userIds.filter((id) => id !== userId);
+    if (remaining.length > 0) reactions[emoji] = remaining;
+    else delete reactions[emoji];
+  } else {
+    reactions[emoji] = [...userIds, userId];
+  }
+
+  return { ...message, reactions };
+};
+
+// Conversation previews shouldn't reveal messages the user deleted
+export const getMessagePreview = (message: Message, userId?: string) =>
+  userId && isHiddenFor(message, userId)
+    ? DELETED_MESSAGE_TEXT
+    : message.content;
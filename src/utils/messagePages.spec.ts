@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { Message } from "@/types";
+import { getMessagePage, mergeMessages } from "./messagePages";
+
+const message = (id: string, minute: number): Message => ({
+  id,
+  senderId: "ana",
+  receiverId: "ben",
+  content: id,
+  timestamp: new Date(Date.UTC(2026, 6, 1, 12, minute)).toISOString(),
+  read: false,
+});
+
+// Stored out of order, as appends from different clients can be
+const messages = [
+  message("m3", 3),
+  message("m1", 1),
+  message("m5", 5),
+  message("m2", 2),
+  message("m4", 4),
+];
+
+const ids = (list: Message[]) => list.map((item) => item.id);
+
+describe("getMessagePage", () => {
+  it("should return the latest messages oldest first", () => {
+    const page = getMessagePage(messages, { limit: 2 });
+
+    expect(ids(page.messages)).toEqual(["m4", "m5"]);
+    expect(page.hasMore).toBe(true);
+  });
+
+  it("should page backwards from a cursor", () => {
+    const page = getMessagePage(messages, {
+      before: message("m4", 4),
+      limit: 2,
+    });
+    const last = getMessagePage(messages, {
+      before: message("m2", 2),
+      limit: 2,
+    });
+
+    expect(ids(page.messages)).toEqual(["m2", "m3"]);
+    expect(page.hasMore).toBe(true);
+    expect(ids(last.messages)).toEqual(["m1"]);
+    expect(last.hasMore).toBe(false);
+  });
+
+  it("should not skip messages sharing the cursor's timestamp", () => {
+    const sameMoment = ["a", "B", "c"].map((id) => message(id, 1));
+    const first = getMessagePage(sameMoment, { limit: 2 });
+    const rest = getMessagePage(sameMoment, {
+      before: first.messages[0],
+      limit: 2,
+    });
+
+    expect(ids(first.messages)).toEqual(["a", "c"]);
+    expect(ids(rest.messages)).toEqual(["B"]);
+  });
+});
+
+describe("mergeMessages", () => {
+  it("should combine pages in order without duplicates", () => {
+    const edited = { ...message("m3", 3), content: "edited" };
+    const merged = mergeMessages(
+      [message("m1", 1), message("m3", 3)],
+      [edited, message("m2", 2)],
+    );
+
+    expect(ids(merged)).toEqual(["m1", "m2", "m3"]);
+    expect(merged[2].content).toBe("edited");
+  });
+});
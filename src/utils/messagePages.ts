@@ -0,0 +1,38 @@
+import { Message, MessagePage, MessagePageOptions } from "@/types";
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+const compareStrings = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Chronological, with IDs breaking ties between messages sent together.
+// Plain string order, as IndexedDB and Firestore sort their page cursors
+export const compareMessages = (
+  a: Pick<Message, "id" | "timestamp">,
+  b: Pick<Message, "id" | "timestamp">,
+) => compareStrings(a.timestamp, b.timestamp) || compareStrings(a.id, b.id);
+
+/**
+ * Cuts one page out of a conversation's messages: the `limit` messages
+ * just before the cursor, or the latest ones without a cursor.
+ */
+export const getMessagePage = (
+  messages: Message[],
+  { before, limit = MESSAGE_PAGE_SIZE }: MessagePageOptions = {},
+): MessagePage => {
+  const sorted = [...messages].sort(compareMessages);
+  const cursorIndex = before
+    ? sorted.findIndex((message) => compareMessages(message, before) >= 0)
+    : -1;
+  const end = cursorIndex === -1 ? sorted.length : cursorIndex;
+  const start = Math.max(0, end - limit);
+
+  return { messages: sorted.slice(start, end), hasMore: start > 0 };
+};
+
+// Combines loaded pages, preferring the later copy of a repeated message
+export const mergeMessages = (...pages: Message[][]): Message[] =>
+  [
+    ...new Map(
+      pages.flat().map((message) => [message.id, message] as const),
+    ).values(),
+  ].sort(compareMessages);
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { Notification, User } from "@/types";
+import {
+  buildNotificationDigest,
+  getNotificationGroupMessage,
+  groupNotifications,
+} from "./notificationGroups";
+
+let nextId = 0;
+const notification = (
+  type: Notification["type"],
+  createdAt: string,
+  data: Record<string, unknown>,
+  read = false,
+): Notification => ({
+  id: `n${nextId++}`,
+  userId: "bob",
+  type,
+  title: type,
+  message: `${type} message`,
+  data,
+  read,
+  createdAt,
+});
+
+const alex = { id: "alex", fullName: "Alex Kim" } as User;
+
+const notifications = [
+  notification("message", "2026-07-01T09:00:00.000Z", { senderId: "alex" }),
+  notification("hangout_match", "2026-07-01T09:30:00.000Z", {
+    matchKey: "a|b",
+  }),
+  notification("message", "2026-07-01T10:00:00.000Z", { senderId: "alex" }),
+  notification("hangout_match", "2026-07-01T10:30:00.000Z", {
+    matchKey: "a|b",
+  }),
+  notification(
+    "message",
+    "2026-07-01T11:00:00.000Z",
+    { senderId: "alex" },
+    true,
+  ),
+  notification("friend_request", "2026-06-28T08:00:00.000Z", {
+    senderId: "cy",
+  }),
+];
+
+describe("groupNotifications", () => {
+  it("should group by type and source, newest group first", () => {
+    const groups = groupNotifications(notifications);
+
+    expect(groups.map((group) => group.key)).toEqual([
+      "message:alex",
+      "hangout_match:a|b",
+      "friend_request:cy",
+    ]);
+    expect(groups[0].notifications).toHaveLength(3);
+    expect(groups[0].unreadCount).toBe(2);
+    expect(groups[0].latest.createdAt).toBe("2026-07-01T11:00:00.000Z");
+  });
+
+  it("should summarize repeated messages and collapse duplicate matches", () => {
+    const [messages, matches] = groupNotifications(notifications);
+
+    expect(getNotificationGroupMessage(messages, { alex })).toBe(
+      "Alex sent you 3 messages",
+    );
+    expect(getNotificationGroupMessage(matches)).toBe("hangout_match message");
+  });
+});
+
+describe("buildNotificationDigest", () => {
+  const now = new Date("2026-07-01T12:00:00.000Z");
+
+  it("should summarize unread activity in the period", () => {
+    const daily = buildNotificationDigest(notifications, "daily", now);
+
+    expect(daily.unreadCount).toBe(4);
+    expect(daily.countsByType).toEqual({ message: 2, hangout_match: 1 });
+    expect(daily.summary).toBe("2 messages and 1 hangout match");
+
+    expect(buildNotificationDigest(notifications, "weekly", now).summary).toBe(
+      "2 messages, 1 friend request and 1 hangout match",
+    );
+  });
+});
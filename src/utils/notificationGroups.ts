@@ -0,0 +1,168 @@
+import { Notification, User } from "@/types";
+
+export interface NotificationGroup {
+  key: string;
+  type: Notification["type"];
+  // Newest first
+  notifications: Notification[];
+  latest: Notification;
+  unreadCount: number;
+}
+
+export type DigestPeriod = "daily" | "weekly";
+
+export interface NotificationDigest {
+  period: DigestPeriod;
+  since: string;
+  until: string;
+  unreadCount: number;
+  countsByType: Partial<Record<Notification["type"], number>>;
+  // Unread groups from the period, newest first
+  groups: NotificationGroup[];
+  // e.g. "3 messages and 1 friend request"
+  summary: string;
+}
+
+const DIGEST_PERIOD_DAYS: Record<DigestPeriod, number> = {
+  daily: 1,
+  weekly: 7,
+};
+
+// In the order digests list them
+const TYPE_NOUNS: Record<Notification["type"], [string, string]> = {
+  message: ["message", "messages"],
+  friend_request: ["friend request", "friend requests"],
+  hangout_match: ["hangout match", "hangout matches"],
+  hangout_invite: ["hangout invite", "hangout invites"],
+  hangout_rsvp: ["RSVP", "RSVPs"],
+  hangout_update: ["hangout update", "hangout updates"],
+};
+
+const countOf = (count: number, type: Notification["type"]) =>
+  `${count} ${TYPE_NOUNS[type][count === 1 ? 0 : 1]}`;
+
+const formatList = (items: string[]) =>
+  items.length <= 1
+    ? items.join("")
+    : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+/**
+ * What a notification is about, so repeats can be shown together. Messages
+ * group by chat, requests by sender, matches by the matched window (which
+ * collapses duplicate matches) and hangout activity by hangout.
+ */
+export const getNotificationGroupKey = (notification: Notification): string => {
+  const data = notification.data || {};
+  switch (notification.type) {
+    case "message":
+      return `message:${data.conversationId || data.senderId}`;
+    case "friend_request":
+      return `friend_request:${data.senderId}`;
+    case "hangout_match":
+      return `hangout_match:${data.matchKey || notification.id}`;
+    default:
+      return `${notification.type}:${data.eventId || notification.id}`;
+  }
+};
+
+// Groups keep the order of their newest notification
+export const groupNotifications = (
+  notifications: Notification[],
+): NotificationGroup[] => {
+  const sorted = [...notifications].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+  const groups = new Map<string, NotificationGroup>();
+
+  sorted.forEach((notification) => {
+    const key = getNotificationGroupKey(notification);
+    const group = groups.get(key);
+    if (group) {
+      group.notifications.push(notification);
+      if (!notification.read) group.unreadCount++;
+    } else {
+      groups.set(key, {
+        key,
+        type: notification.type,
+        notifications: [notification],
+        latest: notification,
+        unreadCount: notification.read ? 0 : 1,
+      });
+    }
+  });
+
+  return [...groups.values()];
+};
+
+/**
+ * The line shown for a group, e.g. "Alex sent you 5 messages". Single
+ * notifications and duplicate matches or requests keep their own text.
+ */
+export const getNotificationGroupMessage = (
+  group: NotificationGroup,
+  usersById: Record<string, User> = {},
+): string => {
+  const { latest, notifications } = group;
+  const count = notifications.length;
+  if (count === 1) return latest.message;
+
+  switch (group.type) {
+    case "friend_request":
+    case "hangout_match":
+      return latest.message;
+    case "message": {
+      if (latest.data?.conversationId) {
+        return `${countOf(count, "message")} in ${latest.data.conversationName || "a group"}`;
+      }
+      const sender = usersById[latest.data?.senderId];
+      return `${sender?.fullName.split(" ")[0] || "A friend"} sent you ${countOf(count, "message")}`;
+    }
+    default:
+      return `${latest.message} and ${count - 1} more`;
+  }
+};
+
+/**
+ * Summarizes unread notifications from the last day or week, grouped the
+ * same way as the notification list.
+ */
+export const buildNotificationDigest = (
+  notifications: Notification[],
+  period: DigestPeriod,
+  now: Date = new Date(),
+): NotificationDigest => {
+  const since = new Date(
+    now.getTime() - DIGEST_PERIOD_DAYS[period] * 24 * 60 * 60 * 1000,
+  );
+  const unread = notifications.filter(
+    (notification) =>
+      !notification.read &&
+      new Date(notification.createdAt) >= since &&
+      new Date(notification.createdAt) <= now,
+  );
+  const groups = groupNotifications(unread);
+
+  // Duplicate matches and requests count once, like they're shown
+  const countsByType: NotificationDigest["countsByType"] = {};
+  groups.forEach((group) => {
+    const count =
+      group.type === "friend_request" || group.type === "hangout_match"
+        ? 1
+        : group.notifications.length;
+    countsByType[group.type] = (countsByType[group.type] || 0) + count;
+  });
+
+  const parts = (Object.keys(TYPE_NOUNS) as Notification["type"][])
+    .filter((type) => countsByType[type])
+    .map((type) => countOf(countsByType[type]!, type));
+
+  return {
+    period,
+    since: since.toISOString(),
+    until: now.toISOString(),
+    unreadCount: unread.length,
+    countsByType,
+    groups,
+    summary: parts.length > 0 ? formatList(parts) : "Nothing new",
+  };
+};
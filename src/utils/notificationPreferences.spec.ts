@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { NotificationPreferences, User } from "@/types";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getNotificationDelivery,
+  getQuietHoursEnd,
+} from "./notificationPreferences";
+
+const recipient = (
+  preferences: Partial<NotificationPreferences>,
+  timeZone = "UTC",
+): User => ({
+  id: "bob",
+  email: "bob@example.com",
+  username: "bob",
+  fullName: "Bob Jones",
+  friends: ["ana", "cy"],
+  friendRequests: { sent: [], received: [] },
+  notificationPreferences: {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...preferences,
+  },
+  timeZone,
+  createdAt: "2026-01-01T00:00:00.000Z",
+});
+
+const message = { type: "message" as const, data: { senderId: "ana" } };
+const quietHours = { enabled: true, start: "22:00", end: "07:00" };
+
+describe("getNotificationDelivery", () => {
+  const noon = new Date("2026-07-01T12:00:00.000Z");
+
+  it("should deliver by default", () => {
+    expect(getNotificationDelivery(message, null, noon)).toEqual({
+      deliver: true,
+    });
+  });
+
+  it("should drop disabled categories and muted friends", () => {
+    expect(
+      getNotificationDelivery(message, recipient({ messages: false }), noon),
+    ).toEqual({ deliver: false, reason: "disabled" });
+    expect(
+      getNotificationDelivery(
+        message,
+        recipient({ mutedUserIds: ["ana"] }),
+        noon,
+      ),
+    ).toEqual({ deliver: false, reason: "muted" });
+
+    // A group match still notifies while anyone in it is unmuted
+    const match = {
+      type: "hangout_match" as const,
+      data: { matchedUserIds: ["ana", "cy"] },
+    };
+    expect(
+      getNotificationDelivery(match, recipient({ mutedUserIds: ["ana"] }), noon)
+        .deliver,
+    ).toBe(true);
+  });
+
+  it("should hold notifications back until quiet hours end", () => {
+    expect(
+      getNotificationDelivery(
+        message,
+        recipient({ quietHours }),
+        new Date("2026-07-01T23:30:00.000Z"),
+      ),
+    ).toEqual({ deliver: true, deliverAt: "2026-07-02T07:00:00.000Z" });
+  });
+});
+
+describe("getQuietHoursEnd", () => {
+  it("should handle windows across midnight in the user's zone", () => {
+    // 02:00 in New York, during the overnight window
+    expect(
+      getQuietHoursEnd(
+        quietHours,
+        new Date("2026-07-01T06:00:00.000Z"),
+        "America/New_York",
+      )?.toISOString(),
+    ).toBe("2026-07-01T11:00:00.000Z");
+    expect(
+      getQuietHoursEnd(
+        quietHours,
+        new Date("2026-07-01T16:00:00.000Z"),
+        "America/New_York",
+      ),
+    ).toBeNull();
+  });
+
+  it("should handle same-day windows", () => {
+    const afternoon = { enabled: true, start: "13:00", end: "15:00" };
+
+    expect(
+      getQuietHoursEnd(
+        afternoon,
+        new Date("2026-07-01T14:00:00.000Z"),
+        "UTC",
+      )?.toISOString(),
+    ).toBe("2026-07-01T15:00:00.000Z");
+    expect(
+      getQuietHoursEnd(afternoon, new Date("2026-07-01T15:00:00.000Z"), "UTC"),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+import { Notification, NotificationPreferences, User } from "@/types";
+import {
+  getUserTimeZone,
+  getWallClockTime,
+  zonedTimeToUtc,
+} from "@/utils/timezone";
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  hangoutMatches: true,
+  hangoutInvites: true,
+  friendRequests: true,
+  messages: true,
+  email: false,
+  push: true,
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  mutedUserIds: [],
+};
+
+export const getNotificationPreferences = (
+  user?: User | null,
+): NotificationPreferences => ({
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  ...user?.notificationPreferences,
+  quietHours: {
+    ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours,
+    ...user?.notificationPreferences?.quietHours,
+  },
+});
+
+export type NotificationCategory = keyof Pick<
+  NotificationPreferences,
+  "hangoutMatches" | "hangoutInvites" | "friendRequests" | "messages"
+>;
+
+const NOTIFICATION_CATEGORIES: Record<
+  Notification["type"],
+  NotificationCategory
+> = {
+  friend_request: "friendRequests",
+  hangout_match: "hangoutMatches",
+  hangout_invite: "hangoutInvites",
+  hangout_rsvp: "hangoutInvites",
+  hangout_update: "hangoutInvites",
+  message: "messages",
+};
+
+export const getNotificationCategory = (
+  type: Notification["type"],
+): NotificationCategory => NOTIFICATION_CATEGORIES[type];
+
+// The users whose activity produced a notification
+export const getNotificationSourceIds = (
+  notification: Pick<Notification, "data">,
+): string[] => {
+  const data = notification.data || {};
+  const sourceId = data.senderId || data.ownerId || data.responderId;
+  if (sourceId) return [sourceId];
+  return data.matchedUserIds || [];
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * When quiet hours covering `now` end, or null outside quiet hours. Windows
+ * whose start is after their end run overnight.
+ */
+export const getQuietHoursEnd = (
+  quietHours: NotificationPreferences["quietHours"],
+  now: Date,
+  timeZone: string,
+): Date | null => {
+  if (!quietHours.enabled) return null;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return null;
+
+  const wallClock = getWallClockTime(now, timeZone);
+  const current = wallClock.hours * 60 + wallClock.minutes;
+  const isQuiet =
+    start < end
+      ? current >= start && current < end
+      : current >= start || current < end;
+  if (!isQuiet) return null;
+
+  return zonedTimeToUtc(
+    {
+      ...wallClock,
+      // Before midnight in an overnight window, the quiet ends tomorrow
+      day: current >= end ? wallClock.day + 1 : wallClock.day,
+      hours: Math.floor(end / 60),
+      minutes: end % 60,
+      seconds: 0,
+    },
+    timeZone,
+  );
+};
+
+export type NotificationDelivery =
+  | { deliver: false; reason: "disabled" | "muted" }
+  | { deliver: true; deliverAt?: string };
+
+/**
+ * Whether the recipient's preferences let a notification through. Disabled
+ * categories and muted friends drop it; quiet hours only hold it back until
+ * they end.
+ */
+export const getNotificationDelivery = (
+  notification: Pick<Notification, "type" | "data">,
+  recipient: User | null,
+  now: Date = new Date(),
+): NotificationDelivery => {
+  const preferences = getNotificationPreferences(recipient);
+
+  if (!preferences[getNotificationCategory(notification.type)]) {
+    return { deliver: false, reason: "disabled" };
+  }
+
+  const sourceIds = getNotificationSourceIds(notification);
+  if (
+    sourceIds.length > 0 &&
+    sourceIds.every((id) => preferences.mutedUserIds.includes(id))
+  ) {
+    return { deliver: false, reason: "muted" };
+  }
+
+  const quietUntil = getQuietHoursEnd(
+    preferences.quietHours,
+    now,
+    getUserTimeZone(recipient),
+  );
+  return quietUntil
+    ? { deliver: true, deliverAt: quietUntil.toISOString() }
+    : { deliver: true };
+};
+
+// Notifications held back by quiet hours stay hidden until they're due
+export const isNotificationDue = (
+  notification: Pick<Notification, "deliverAt">,
+  now: Date = new Date(),
+): boolean =>
+  !notification.deliverAt || new Date(notification.deliverAt) <= now;
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { Conversation, Event, Message } from "@/types";
+import {
+  QueuedWrite,
+  enqueueMutation,
+  getRetryDelay,
+  getSyncStatus,
+  shouldReplayEventUpdate,
+  withPendingMessages,
+  withResolvedEventIds,
+} from "./offlineSync";
+
+const event = (overrides: Partial<Event> = {}): Event => ({
+  id: "pending_e1",
+  userId: "ana",
+  title: "Climbing",
+  startTime: "2026-07-01T18:00:00.000Z",
+  endTime: "2026-07-01T20:00:00.000Z",
+  type: "personal",
+  createdAt: "2026-07-01T12:00:00.000Z",
+  ...overrides,
+});
+
+const message = (overrides: Partial<Message> = {}): Message => ({
+  id: "pending_m1",
+  senderId: "ana",
+  receiverId: "bob",
+  content: "On my way",
+  timestamp: "2026-07-01T12:00:00.000Z",
+  read: false,
+  clientId: "c1",
+  ...overrides,
+});
+
+const write = (id: string, mutation: QueuedWrite["mutation"]): QueuedWrite => ({
+  id,
+  mutation,
+  queuedAt: "2026-07-01T12:00:00.000Z",
+  attempts: 0,
+  retryAt: "2026-07-01T12:00:00.000Z",
+});
+
+describe("enqueueMutation", () => {
+  it("should fold edits into queued writes to the same record", () => {
+    const created = [write("w1", { type: "create_event", event: event() })];
+    const edited = enqueueMutation(
+      created,
+      write("w2", {
+        type: "update_event",
+        event: event({ title: "Bouldering" }),
+      }),
+    );
+
+    expect(edited).toHaveLength(1);
+    expect(edited[0]).toMatchObject({
+      id: "w1",
+      mutation: { type: "create_event", event: { title: "Bouldering" } },
+    });
+
+    const requested = enqueueMutation(
+      edited,
+      write("w3", {
+        type: "send_friend_request",
+        fromUserId: "ana",
+        toUserId: "bob",
+      }),
+    );
+    expect(requested.map((queued) => queued.id)).toEqual(["w1", "w3"]);
+  });
+});
+
+describe("shouldReplayEventUpdate", () => {
+  it("should let the latest edit win", () => {
+    const queued = event({ id: "e1", updatedAt: "2026-07-01T12:05:00.000Z" });
+
+    expect(
+      shouldReplayEventUpdate(
+        queued,
+        event({ id: "e1", updatedAt: "2026-07-01T12:00:00.000Z" }),
+      ),
+    ).toBe(true);
+    expect(
+      shouldReplayEventUpdate(
+        queued,
+        event({ id: "e1", updatedAt: "2026-07-01T12:10:00.000Z" }),
+      ),
+    ).toBe(false);
+    expect(shouldReplayEventUpdate(queued, undefined)).toBe(true);
+  });
+});
+
+describe("withResolvedEventIds", () => {
+  it("should swap replayed event IDs in records that point at them", () => {
+    const resolveId = (id: string) => (id === "pending_e1" ? "e1" : id);
+
+    expect(
+      withResolvedEventIds(
+        {
+          type: "add_notification",
+          notification: {
+            id: "pending_n1",
+            userId: "bob",
+            type: "hangout_invite",
+            title: "Hangout Invitation",
+            message: "Ana invited you",
+            data: { eventId: "pending_e1", ownerId: "ana" },
+            read: false,
+            createdAt: "2026-07-01T12:00:00.000Z",
+          },
+        },
+        resolveId,
+      ).notification.data,
+    ).toEqual({ eventId: "e1", ownerId: "ana" });
+
+    const request = {
+      type: "send_friend_request" as const,
+      fromUserId: "ana",
+      toUserId: "bob",
+    };
+    expect(withResolvedEventIds(request, resolveId)).toBe(request);
+  });
+});
+
+describe("withPendingMessages", () => {
+  it("should append queued messages and start direct chats", () => {
+    const group: Conversation = {
+      id: "g1",
+      type: "group",
+      participants: ["ana", "bob", "cy"],
+      messages: [],
+      updatedAt: "2026-07-01T11:00:00.000Z",
+    };
+    const queue = [
+      write("w1", { type: "send_message", message: message() }),
+      write("w2", {
+        type: "send_message",
+        message: message({
+          id: "pending_m2",
+          conversationId: "g1",
+          receiverId: undefined,
+        }),
+      }),
+    ];
+
+    const [withGroup, started] = withPendingMessages([group], queue, "ana");
+
+    expect(withGroup.lastMessage).toMatchObject({
+      id: "pending_m2",
+      pending: true,
+    });
+    expect(started).toMatchObject({
+      id: "ana-bob",
+      participants: ["ana", "bob"],
+      messages: [{ id: "pending_m1", pending: true }],
+    });
+    expect(withPendingMessages([group], queue, "bob")).toEqual([group]);
+  });
+});
+
+describe("sync status", () => {
+  it("should back off and report failed writes", () => {
+    expect([1, 2, 3, 20].map(getRetryDelay)).toEqual([
+      2000,
+      4000,
+      8000,
+      5 * 60 * 1000,
+    ]);
+
+    const queue = [
+      {
+        ...write("w1", { type: "create_event", event: event() }),
+        failed: true,
+      },
+    ];
+    expect(getSyncStatus(queue, true)).toEqual({
+      state: "error",
+      pending: 1,
+      failed: 1,
+    });
+    expect(getSyncStatus(queue, false).state).toBe("offline");
+    expect(getSyncStatus([], true).state).toBe("synced");
+  });
+});
@@ -0,0 +1,353 @@
+import {
+  Conversation,
+  Event,
+  HangoutMatch,
+  Message,
+  Notification,
+  RichMessagePayload,
+  SyncStatus,
+} from "@/types";
+import { getMessageConversationId } from "@/utils/conversations";
+import { mergeMessages } from "@/utils/messagePages";
+
+// A write the server hasn't confirmed yet. Records carry the ID shown in the
+// UI, which for created records is a placeholder until the write replays
+export type QueuedMutation =
+  | { type: "create_event"; event: Event }
+  | { type: "update_event"; event: Event }
+  | { type: "delete_event"; eventId: string }
+  | { type: "send_message"; message: Message }
+  | { type: "send_friend_request"; fromUserId: string; toUserId: string }
+  | { type: "add_notification"; notification: Notification }
+  | { type: "save_hangout_match"; match: HangoutMatch };
+
+export interface QueuedWrite {
+  id: string;
+  mutation: QueuedMutation;
+  queuedAt: string;
+  attempts: number;
+  // Not retried before this time
+  retryAt: string;
+  // Ran out of retries or was rejected; waits for a manual retry
+  failed?: boolean;
+}
+
+export const PENDING_ID_PREFIX = "pending_";
+export const RETRY_BASE_DELAY_MS = 2000;
+export const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+export const MAX_SYNC_ATTEMPTS = 8;
+
+export const isPendingId = (id: string): boolean =>
+  id.startsWith(PENDING_ID_PREFIX);
+
+// What each browser's `fetch` rejects with when the request never got out
+const FETCH_NETWORK_ERRORS = [
+  "Failed to fetch",
+  "NetworkError when attempting to fetch resource.",
+  "Load failed",
+  "fetch failed",
+];
+
+// Whether a write failed because the server couldn't be reached, rather than
+// because it was rejected or hit a bug. Firestore reports the former as
+// "unavailable" or "deadline-exceeded"; `fetch` as a TypeError with one of
+// the messages above, which other TypeErrors don't share
+export const isUnavailableError = (error: unknown): boolean => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return (
+    code === "unavailable" ||
+    code === "deadline-exceeded" ||
+    (error instanceof TypeError && FETCH_NETWORK_ERRORS.includes(error.message))
+  );
+};
+
+// Exponential backoff after the given number of failed attempts
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    RETRY_MAX_DELAY_MS,
+  );
+
+// The record a queued write creates or changes, if it has one
+export const getMutationRecordId = (
+  mutation: QueuedMutation,
+): string | null => {
+  switch (mutation.type) {
+    case "create_event":
+    case "update_event":
+      return mutation.event.id;
+    case "delete_event":
+      return mutation.eventId;
+    case "send_message":
+      return mutation.message.id;
+    case "add_notification":
+      return mutation.notification.id;
+    case "save_hangout_match":
+      return mutation.match.id;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Adds a write to the queue. A later write to a record that's already queued
+ * replaces the queued copy, so edits to an unsent event or message go out
+ * once, and an edited event only replays its latest version.
+ */
+export const enqueueMutation = (
+  queue: QueuedWrite[],
+  write: QueuedWrite,
+): QueuedWrite[] => {
+  const recordId = getMutationRecordId(write.mutation);
+  const index = recordId
+    ? queue.findIndex(
+        (queued) =>
+          !queued.failed && getMutationRecordId(queued.mutation) === recordId,
+      )
+    : -1;
+  if (index === -1) return [...queue, write];
+
+  const queued = queue[index];
+  const mutation: QueuedMutation =
+    queued.mutation.type === "create_event" &&
+    write.mutation.type === "update_event"
+      ? { type: "create_event", event: write.mutation.event }
+      : write.mutation;
+
+  return queue.map((entry, i) =>
+    i === index ? { ...queued, mutation } : entry,
+  );
+};
+
+/**
+ * Last writer wins for events: a queued edit only replays if nobody saved the
+ * event after it was made. An event that couldn't be read is still written,
+ * so a failed read never drops an edit.
+ */
+export const shouldReplayEventUpdate = (
+  queued: Event,
+  stored: Event | undefined,
+): boolean =>
+  !stored?.updatedAt || stored.updatedAt <= (queued.updatedAt || "");
+
+// Messages are append-only, so a replay only checks the send didn't land
+export const isMessageStored = (message: Message, stored: Message[]): boolean =>
+  Boolean(message.clientId) &&
+  stored.some((candidate) => candidate.clientId === message.clientId);
+
+// Events created offline carry a client ID for the same reason; this finds
+// the copy an earlier replay already stored
+export const findStoredEvent = (
+  event: Event,
+  stored: Event[],
+): Event | undefined =>
+  event.clientId
+    ? stored.find((candidate) => candidate.clientId === event.clientId)
+    : undefined;
+
+// The events a queued write points at, besides the one it creates or changes
+export const getReferencedEventIds = (mutation: QueuedMutation): string[] => {
+  switch (mutation.type) {
+    case "save_hangout_match":
+      return mutation.match.hangoutEvents;
+    case "add_notification":
+      return mutation.notification.data?.eventId
+        ? [mutation.notification.data.eventId]
+        : [];
+    case "send_message": {
+      const eventId = (mutation.message.payload as { eventId?: string })
+        ?.eventId;
+      return eventId ? [eventId] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Points a queued write at the stored IDs of events that were created offline
+ * and have since replayed, e.g. the hangouts behind a match.
+ */
+export const withResolvedEventIds = <T extends QueuedMutation>(
+  mutation: T,
+  resolveId: (eventId: string) => string,
+): T => {
+  if (getReferencedEventIds(mutation).length === 0) return mutation;
+
+  switch (mutation.type) {
+    case "save_hangout_match":
+      return {
+        ...mutation,
+        match: {
+          ...mutation.match,
+          hangoutEvents: mutation.match.hangoutEvents.map(resolveId),
+        },
+      };
+    case "add_notification": {
+      const { notification } = mutation;
+      return {
+        ...mutation,
+        notification: {
+          ...notification,
+          data: {
+            ...notification.data,
+            eventId: resolveId(notification.data.eventId),
+          },
+        },
+      };
+    }
+    case "send_message": {
+      const { message } = mutation;
+      const payload = message.payload as { eventId: string };
+      return {
+        ...mutation,
+        message: {
+          ...message,
+          payload: {
+            ...payload,
+            eventId: resolveId(payload.eventId),
+          } as RichMessagePayload,
+        },
+      };
+    }
+    default:
+      return mutation;
+  }
+};
+
+// What gets written when a queued record replays
+export const toStoredRecord = <T extends { id: string; pending?: boolean }>(
+  record: T,
+): Omit<T, "id" | "pending"> => {
+  const { id: _id, pending: _pending, ...stored } = record;
+  return stored;
+};
+
+// Shows queued events over the stored ones, as the user last saw them, and
+// leaves out events deleted while offline
+export const withPendingEvents = (
+  events: Event[],
+  queue: QueuedWrite[],
+  include: (event: Event) => boolean,
+): Event[] => {
+  const pending = queue.flatMap(({ mutation }) =>
+    (mutation.type === "create_event" || mutation.type === "update_event") &&
+    include(mutation.event)
+      ? [{ ...mutation.event, pending: true }]
+      : [],
+  );
+  const deletedIds = queue.flatMap(({ mutation }) =>
+    mutation.type === "delete_event" ? [mutation.eventId] : [],
+  );
+  return [
+    ...events.filter(
+      (event) =>
+        !pending.some((p) => p.id === event.id) &&
+        !deletedIds.includes(event.id),
+    ),
+    ...pending,
+  ];
+};
+
+export const getPendingMessages = (
+  queue: QueuedWrite[],
+  conversationId?: string,
+): Message[] =>
+  queue.flatMap(({ mutation }) =>
+    mutation.type === "send_message" &&
+    (!conversationId ||
+      getMessageConversationId(mutation.message) === conversationId)
+      ? [{ ...mutation.message, pending: true }]
+      : [],
+  );
+
+/**
+ * Shows the user's queued messages in their conversations. Direct chats
+ * started offline have no stored conversation yet, so one is made up from
+ * the first message.
+ */
+export const withPendingMessages = (
+  conversations: Conversation[],
+  queue: QueuedWrite[],
+  userId: string,
+): Conversation[] => {
+  const pending = getPendingMessages(queue).filter(
+    (message) => message.senderId === userId,
+  );
+  const started = pending.flatMap((message, index): Conversation[] => {
+    const id = getMessageConversationId(message);
+    const isFirst =
+      pending.findIndex((m) => getMessageConversationId(m) === id) === index;
+    return isFirst &&
+      message.receiverId &&
+      !conversations.some((conversation) => conversation.id === id)
+      ? [
+          {
+            id,
+            participants: [message.senderId, message.receiverId],
+            messages: [],
+            updatedAt: message.timestamp,
+          },
+        ]
+      : [];
+  });
+
+  return [...conversations, ...started].map((conversation) => {
+    const messages = pending.filter(
+      (message) => getMessageConversationId(message) === conversation.id,
+    );
+    if (messages.length === 0) return conversation;
+
+    const lastMessage = messages[messages.length - 1];
+    return {
+      ...conversation,
+      messages: mergeMessages(conversation.messages, messages),
+      lastMessage,
+      updatedAt: lastMessage.timestamp,
+    };
+  });
+};
+
+export const SYNCED_STATUS: SyncStatus = {
+  state: "synced",
+  pending: 0,
+  failed: 0,
+};
+
+export const getSyncStatus = (
+  queue: QueuedWrite[],
+  online: boolean,
+): SyncStatus => {
+  const failed = queue.filter((write) => write.failed).length;
+  const state = !online
+    ? "offline"
+    : failed > 0
+      ? "error"
+      : queue.length > 0
+        ? "syncing"
+        : "synced";
+
+  return { state, pending: queue.length, failed };
+};
+
+const pluralizeChanges = (count: number) =>
+  `${count} change${count === 1 ? "" : "s"}`;
+
+export const getSyncStatusLabel = ({
+  state,
+  pending,
+  failed,
+}: SyncStatus): string => {
+  switch (state) {
+    case "offline":
+      return pending > 0
+        ? `Offline · ${pluralizeChanges(pending)} will sync when you reconnect`
+        : "Offline · changes will sync when you reconnect";
+    case "syncing":
+      return `Syncing ${pluralizeChanges(pending)}`;
+    case "error":
+      return `${pluralizeChanges(failed)} couldn't be saved`;
+    default:
+      return "All changes saved";
+  }
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { Presence } from "@/types";
+import {
+  getLastSeenLabel,
+  getPresenceStatus,
+  getTypingLabel,
+  isTypingIn,
+} from "./presence";
+
+const now = new Date("2026-07-01T12:00:00.000Z");
+
+const presence = (secondsAgo: number, extra?: Partial<Presence>): Presence => ({
+  userId: "ana",
+  lastSeen: new Date(now.getTime() - secondsAgo * 1000).toISOString(),
+  away: false,
+  ...extra,
+});
+
+describe("presence", () => {
+  it("should go offline once heartbeats stop", () => {
+    expect(getPresenceStatus(presence(10), now)).toBe("online");
+    expect(getPresenceStatus(presence(10, { away: true }), now)).toBe("away");
+    expect(getPresenceStatus(presence(120), now)).toBe("offline");
+    expect(getPresenceStatus(undefined, now)).toBe("offline");
+  });
+
+  it("should describe when offline users were last seen", () => {
+    expect(getLastSeenLabel(presence(10), now)).toBe("Active now");
+    expect(getLastSeenLabel(presence(5 * 60), now)).toBe(
+      "Last seen 5 minutes ago",
+    );
+    expect(getLastSeenLabel(undefined, now)).toBe("Offline");
+  });
+
+  it("should only show recent typing in the same conversation", () => {
+    const typing = presence(10, {
+      typingIn: "chat",
+      typingAt: new Date(now.getTime() - 2000).toISOString(),
+    });
+
+    expect(isTypingIn(typing, "chat", now)).toBe(true);
+    expect(isTypingIn(typing, "other", now)).toBe(false);
+    expect(
+      isTypingIn(typing, "chat", new Date(now.getTime() + 10 * 1000)),
+    ).toBe(false);
+    expect(isTypingIn({ ...typing, typingIn: null }, "chat", now)).toBe(false);
+  });
+
+  it("should name who is typing", () => {
+    expect(getTypingLabel([])).toBeNull();
+    expect(getTypingLabel(["Ana"])).toBe("Ana is typing...");
+    expect(getTypingLabel(["Ana", "Ben"])).toBe("Ana and Ben are typing...");
+    expect(getTypingLabel(["Ana", "Ben", "Cy"])).toBe("3 people are typing...");
+  });
+});
@@ -0,0 +1,60 @@
+import { Presence, PresenceStatus } from "@/types";
+import { formatDistanceStrict } from "date-fns";
+
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// Two missed heartbeats, with some slack for throttled background tabs
+export const OFFLINE_AFTER_MS = 75 * 1000;
+// No input for this long marks an open tab as away
+export const AWAY_AFTER_MS = 5 * 60 * 1000;
+// Typing stops showing if no keystroke arrives in this window
+export const TYPING_TIMEOUT_MS = 6 * 1000;
+
+export const getPresenceStatus = (
+  presence: Presence | undefined,
+  now = new Date(),
+): PresenceStatus => {
+  if (!presence) return "offline";
+  if (now.getTime() - new Date(presence.lastSeen).getTime() > OFFLINE_AFTER_MS)
+    return "offline";
+  return presence.away ? "away" : "online";
+};
+
+export const PRESENCE_LABELS: Record<PresenceStatus, string> = {
+  online: "Active now",
+  away: "Away",
+  offline: "Offline",
+};
+
+// "Active now", "Away" or "Last seen 5 minutes ago"
+export const getLastSeenLabel = (
+  presence: Presence | undefined,
+  now = new Date(),
+) => {
+  const status = getPresenceStatus(presence, now);
+  if (status !== "offline" || !presence) return PRESENCE_LABELS[status];
+
+  return `Last seen ${formatDistanceStrict(new Date(presence.lastSeen), now, {
+    addSuffix: true,
+  })}`;
+};
+
+export const isTypingIn = (
+  presence: Presence | undefined,
+  conversationId: string,
+  now = new Date(),
+) =>
+  Boolean(
+    presence?.typingIn === conversationId &&
+      presence.typingAt &&
+      now.getTime() - new Date(presence.typingAt).getTime() <
+        TYPING_TIMEOUT_MS &&
+      getPresenceStatus(presence, now) !== "offline",
+  );
+
+// "Ana is typing...", "Ana and Ben are typing...", "3 people are typing..."
+export const getTypingLabel = (names: string[]) => {
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing...`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`;
+  return `${names.length} people are typing...`;
+};
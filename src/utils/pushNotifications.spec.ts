@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { Notification } from "@/types";
+import { toPushPayload } from "./pushNotifications";
+
+const notification = (
+  type: Notification["type"],
+  data: Record<string, unknown>,
+): Notification => ({
+  id: "n1",
+  userId: "bob",
+  type,
+  title: "Title",
+  message: "Body",
+  data,
+  read: false,
+  createdAt: "2026-07-01T12:00:00.000Z",
+});
+
+describe("toPushPayload", () => {
+  it("should link messages to their chat", () => {
+    expect(toPushPayload(notification("message", { senderId: "ana" }))).toEqual(
+      {
+        id: "n1",
+        type: "message",
+        title: "Title",
+        body: "Body",
+        url: "/messages?user=ana",
+        actions: [
+          {
+            action: "open-chat",
+            title: "Open chat",
+            url: "/messages?user=ana",
+          },
+        ],
+      },
+    );
+    expect(
+      toPushPayload(
+        notification("message", { senderId: "ana", conversationId: "g1" }),
+      )?.url,
+    ).toBe("/messages?conversation=g1");
+  });
+
+  it("should point friend requests at the request without accepting", () => {
+    expect(
+      toPushPayload(notification("friend_request", { senderId: "ana" }))
+        ?.actions,
+    ).toEqual([
+      {
+        action: "review",
+        title: "Review request",
+        url: "/friends?tab=requests&highlight=ana",
+      },
+    ]);
+  });
+
+  it("should skip hangout activity", () => {
+    expect(toPushPayload(notification("hangout_rsvp", {}))).toBeNull();
+  });
+});
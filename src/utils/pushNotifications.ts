@@ -0,0 +1,79 @@
+import { Notification } from "@/types";
+
+export interface PushAction {
+  action: string;
+  title: string;
+  // Route opened when the action is clicked
+  url: string;
+}
+
+/**
+ * What the service worker needs to show a system notification. The same
+ * shape arrives from the in-app relay and from `push` events, so a real push
+ * server only has to send this as JSON.
+ */
+export interface PushPayload {
+  id: string;
+  type: Notification["type"];
+  title: string;
+  body: string;
+  // Route opened when the notification itself is clicked
+  url: string;
+  actions: PushAction[];
+}
+
+// Only these are worth interrupting the user outside the app
+export const PUSH_NOTIFICATION_TYPES: Notification["type"][] = [
+  "hangout_match",
+  "friend_request",
+  "message",
+];
+
+const getMessageUrl = (notification: Notification) =>
+  notification.data?.conversationId
+    ? `/messages?conversation=${notification.data.conversationId}`
+    : `/messages?user=${notification.data?.senderId}`;
+
+export const toPushPayload = (
+  notification: Notification,
+): PushPayload | null => {
+  const base = {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.message,
+  };
+
+  switch (notification.type) {
+    case "message": {
+      const url = getMessageUrl(notification);
+      return {
+        ...base,
+        url,
+        actions: [{ action: "open-chat", title: "Open chat", url }],
+      };
+    }
+    case "friend_request":
+      return {
+        ...base,
+        url: "/friends?tab=requests",
+        // Links only point at the request; accepting takes a click in the app,
+        // so a crafted URL can't accept anyone
+        actions: [
+          {
+            action: "review",
+            title: "Review request",
+            url: `/friends?tab=requests&highlight=${encodeURIComponent(notification.data?.senderId || "")}`,
+          },
+        ],
+      };
+    case "hangout_match":
+      return {
+        ...base,
+        url: "/dashboard",
+        actions: [{ action: "view", title: "View match", url: "/dashboard" }],
+      };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,242 @@
+import { describe, it, expect } from "vitest";
+import { Event, RecurrenceRule } from "@/types";
+import {
+  applyToSeries,
+  describeRecurrence,
+  excludeOccurrence,
+  expandEvent,
+  formatRRule,
+  getOccurrenceId,
+  parseRRule,
+  planSeriesEdit,
+  resolveOccurrence,
+  splitSeries,
+  truncateSeries,
+} from "./recurrence";
+
+// Friday 2 January 2026, 17:00-19:00 local time
+const seriesStart = new Date(2026, 0, 2, 17, 0);
+
+const makeSeries = (recurrence: RecurrenceRule): Event => ({
+  id: "series",
+  userId: "user",
+  title: "Friday after work",
+  startTime: seriesStart.toISOString(),
+  endTime: new Date(2026, 0, 2, 19, 0).toISOString(),
+  type: "hangout",
+  recurrence,
+  createdAt: seriesStart.toISOString(),
+});
+
+const startsOf = (events: Event[]) =>
+  events.map((event) => new Date(event.startTime));
+
+const rangeStart = new Date(2026, 0, 1);
+const rangeEnd = new Date(2026, 2, 1);
+
+describe("expandEvent", () => {
+  it("should leave one-off events untouched", () => {
+    const { recurrence: _recurrence, ...event } = makeSeries({
+      frequency: "daily",
+      interval: 1,
+    });
+
+    expect(expandEvent(event, rangeStart, rangeEnd)).toEqual([event]);
+  });
+
+  it("should expand weekly rules on the chosen weekdays", () => {
+    const occurrences = expandEvent(
+      makeSeries({ frequency: "weekly", interval: 2, byWeekday: [2, 5] }),
+      rangeStart,
+      new Date(2026, 0, 20),
+    );
+
+    expect(startsOf(occurrences)).toEqual([
+      new Date(2026, 0, 2, 17, 0),
+      new Date(2026, 0, 13, 17, 0),
+      new Date(2026, 0, 16, 17, 0),
+    ]);
+    expect(occurrences[1].id).toBe(
+      getOccurrenceId("series", new Date(2026, 0, 13, 17, 0)),
+    );
+    expect(occurrences[1].recurringEventId).toBe("series");
+  });
+
+  it("should stop at count and until and skip exception dates", () => {
+    const exception = new Date(2026, 0, 3, 17, 0).toISOString();
+
+    expect(
+      expandEvent(
+        makeSeries({
+          frequency: "daily",
+          interval: 1,
+          count: 4,
+          exceptionDates: [exception],
+        }),
+        rangeStart,
+        rangeEnd,
+      ),
+    ).toHaveLength(3);
+    expect(
+      expandEvent(
+        makeSeries({
+          frequency: "daily",
+          interval: 1,
+          until: new Date(2026, 0, 4, 23, 59).toISOString(),
+        }),
+        rangeStart,
+        rangeEnd,
+      ),
+    ).toHaveLength(3);
+  });
+
+  it("should skip months without the start day", () => {
+    const event = {
+      ...makeSeries({ frequency: "monthly", interval: 1 }),
+      startTime: new Date(2026, 0, 31, 17, 0).toISOString(),
+      endTime: new Date(2026, 0, 31, 19, 0).toISOString(),
+    };
+
+    expect(
+      startsOf(expandEvent(event, rangeStart, new Date(2026, 4, 1))),
+    ).toEqual([new Date(2026, 0, 31, 17, 0), new Date(2026, 2, 31, 17, 0)]);
+  });
+});
+
+describe("series edits", () => {
+  const series = makeSeries({ frequency: "weekly", interval: 1, count: 5 });
+  const third = new Date(2026, 0, 16, 17, 0).toISOString();
+
+  it("should resolve occurrence IDs back to their series", () => {
+    expect(
+      resolveOccurrence([series], getOccurrenceId("series", third)),
+    ).toEqual({ event: series, occurrenceStart: third });
+    expect(resolveOccurrence([series], "series")).toEqual({ event: series });
+    expect(resolveOccurrence([series], "missing_123")).toBeNull();
+  });
+
+  it("should exclude a single occurrence", () => {
+    expect(
+      expandEvent(excludeOccurrence(series, third), rangeStart, rangeEnd),
+    ).toHaveLength(4);
+  });
+
+  it("should split a series into before and following parts", () => {
+    const before = truncateSeries(series, third);
+    const following = splitSeries(series, third);
+
+    expect(expandEvent(before, rangeStart, rangeEnd)).toHaveLength(2);
+    expect(following.startTime).toBe(third);
+    expect(following.recurrence?.count).toBe(3);
+  });
+
+  it("should move the whole series when an occurrence is moved", () => {
+    const moved = applyToSeries(
+      series,
+      {
+        startTime: new Date(2026, 0, 16, 18, 0).toISOString(),
+        endTime: new Date(2026, 0, 16, 20, 0).toISOString(),
+      },
+      third,
+    );
+
+    expect(moved.startTime).toBe(new Date(2026, 0, 2, 18, 0).toISOString());
+    expect(moved.endTime).toBe(new Date(2026, 0, 2, 20, 0).toISOString());
+  });
+
+  it("should keep removed occurrences removed when the series moves", () => {
+    const second = new Date(2026, 0, 9, 17, 0).toISOString();
+    const withException = excludeOccurrence(series, second);
+    const moved = applyToSeries(
+      withException,
+      {
+        startTime: new Date(2026, 0, 16, 18, 0).toISOString(),
+        endTime: new Date(2026, 0, 16, 20, 0).toISOString(),
+      },
+      third,
+    );
+
+    expect(
+      startsOf(expandEvent(moved, rangeStart, new Date(2026, 0, 24))),
+    ).toEqual([
+      new Date(2026, 0, 2, 18, 0),
+      new Date(2026, 0, 16, 18, 0),
+      new Date(2026, 0, 23, 18, 0),
+    ]);
+  });
+});
+
+describe("planSeriesEdit", () => {
+  const series = makeSeries({ frequency: "weekly", interval: 1, count: 5 });
+  const third = new Date(2026, 0, 16, 17, 0).toISOString();
+
+  it("should only change the edited occurrence", () => {
+    const { changed, created } = planSeriesEdit(
+      series,
+      { title: "Farewell drinks" },
+      third,
+      "this",
+    );
+
+    expect(
+      expandEvent(changed[0], rangeStart, rangeEnd).map((e) => e.title),
+    ).toEqual(Array(4).fill("Friday after work"));
+    expect(created).toEqual([
+      expect.objectContaining({ title: "Farewell drinks", startTime: third }),
+    ]);
+    expect(created[0].recurrence).toBeUndefined();
+  });
+
+  it("should change this and the following occurrences", () => {
+    const { changed, created } = planSeriesEdit(
+      series,
+      { title: "Farewell drinks" },
+      third,
+      "following",
+    );
+
+    expect(expandEvent(changed[0], rangeStart, rangeEnd)).toHaveLength(2);
+    expect(created[0]).toMatchObject({
+      title: "Farewell drinks",
+      startTime: third,
+      recurrence: { count: 3 },
+    });
+  });
+
+  it("should change the whole series when editing all occurrences", () => {
+    expect(
+      planSeriesEdit(series, { title: "Farewell drinks" }, third, "all"),
+    ).toEqual({
+      changed: [{ ...series, title: "Farewell drinks" }],
+      created: [],
+    });
+  });
+});
+
+describe("RRULE strings", () => {
+  it("should round-trip the supported rule parts", () => {
+    const rule: RecurrenceRule = {
+      frequency: "weekly",
+      interval: 2,
+      byWeekday: [1, 5],
+      until: "2026-06-30T00:00:00.000Z",
+    };
+
+    expect(formatRRule(rule)).toBe(
+      "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20260630T000000Z",
+    );
+    expect(parseRRule(`RRULE:${formatRRule(rule)}`)).toEqual(rule);
+    expect(parseRRule("FREQ=YEARLY")).toBeNull();
+  });
+
+  it("should describe rules for display", () => {
+    expect(
+      describeRecurrence({
+        frequency: "weekly",
+        interval: 1,
+        byWeekday: [5],
+        count: 10,
+      }),
+    ).toBe("Every week on Fri, 10 times");
+  });
+});
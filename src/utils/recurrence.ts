@@ -0,0 +1,457 @@
+import { addDays, addMonths, addWeeks, format, startOfWeek } from "date-fns";
+import { Event, RecurrenceRule } from "@/types";
+import { fromZonedDate, isValidTimeZone, toZonedDate } from "@/utils/timezone";
+
+export type RecurrenceEditScope = "this" | "following" | "all";
+
+// Hard stop for rules that never end, e.g. a daily series with no count/until
+const MAX_ITERATIONS = 10000;
+
+export const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const getDuration = (event: Pick<Event, "startTime" | "endTime">) =>
+  new Date(event.endTime).getTime() - new Date(event.startTime).getTime();
+
+/**
+ * Walks the start times of a series in order. Stops when the rule's
+ * count/until is exhausted or when `visit` returns false.
+ *
+ * Exception dates still count towards `count`, as in RFC 5545.
+ *
+ * Series repeat at the same wall-clock time in the event's time zone, so a
+ * 6pm hangout stays at 6pm across DST changes. Events without a zone use
+ * the browser's.
+ */
+const walkOccurrences = (
+  event: Event,
+  visit: (start: Date, index: number) => boolean,
+) => {
+  const rule = event.recurrence;
+  if (!rule) {
+    visit(new Date(event.startTime), 0);
+    return;
+  }
+
+  const timeZone =
+    event.timeZone && isValidTimeZone(event.timeZone)
+      ? event.timeZone
+      : undefined;
+  // All date arithmetic below happens on wall-clock times in that zone
+  const dtstart = timeZone
+    ? toZonedDate(event.startTime, timeZone)
+    : new Date(event.startTime);
+  const interval = Math.max(1, rule.interval || 1);
+  const until = rule.until ? new Date(rule.until).getTime() : Infinity;
+  let index = 0;
+
+  const emit = (wallClock: Date) => {
+    const start = timeZone ? fromZonedDate(wallClock, timeZone) : wallClock;
+    if (start.getTime() > until) return false;
+    if (rule.count !== undefined && index >= rule.count) return false;
+    return visit(start, index++);
+  };
+
+  for (let step = 0; step < MAX_ITERATIONS; step++) {
+    if (rule.frequency === "daily") {
+      if (!emit(addDays(dtstart, step * interval))) return;
+    } else if (rule.frequency === "weekly") {
+      const weekdays = rule.byWeekday?.length
+        ? [...rule.byWeekday].sort((a, b) => a - b)
+        : [dtstart.getDay()];
+      const weekStart = addWeeks(startOfWeek(dtstart), step * interval);
+
+      for (const weekday of weekdays) {
+        const start = addDays(weekStart, weekday);
+        start.setHours(
+          dtstart.getHours(),
+          dtstart.getMinutes(),
+          dtstart.getSeconds(),
+          dtstart.getMilliseconds(),
+        );
+        if (start < dtstart) continue;
+        if (!emit(start)) return;
+      }
+    } else {
+      const start = addMonths(dtstart, step * interval);
+      // addMonths clamps to the month's last day; RRULE skips those months
+      if (start.getDate() !== dtstart.getDate()) continue;
+      if (!emit(start)) return;
+    }
+  }
+};
+
+export const getOccurrenceId = (eventId: string, start: Date | string) =>
+  `${eventId}_${new Date(start).getTime()}`;
+
+export const parseOccurrenceId = (
+  id: string,
+): { eventId: string; originalStartTime: string } | null => {
+  const match = /^(.+)_(\d+)$/.exec(id);
+  if (!match) return null;
+
+  return {
+    eventId: match[1],
+    originalStartTime: new Date(Number(match[2])).toISOString(),
+  };
+};
+
+/**
+ * Expands a recurring event into the occurrences that intersect the range.
+ * One-off events are returned unchanged, whatever their time.
+ */
+export const expandEvent = (
+  event: Event,
+  rangeStart: Date,
+  rangeEnd: Date,
+): Event[] => {
+  if (!event.recurrence) return [event];
+
+  const duration = getDuration(event);
+  const excluded = new Set(
+    (event.recurrence.exceptionDates || []).map((date) =>
+      new Date(date).getTime(),
+    ),
+  );
+
+  const occurrences: Event[] = [];
+  walkOccurrences(event, (start) => {
+    if (start >= rangeEnd) return false;
+
+    const end = new Date(start.getTime() + duration);
+    if (end > rangeStart && !excluded.has(start.getTime())) {
+      occurrences.push({
+        ...event,
+        id: getOccurrenceId(event.id, start),
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        recurringEventId: event.id,
+        originalStartTime: start.toISOString(),
+      });
+    }
+    return true;
+  });
+
+  return occurrences;
+};
+
+export const expandEvents = (
+  events: Event[],
+  rangeStart: Date,
+  rangeEnd: Date,
+): Event[] =>
+  events.flatMap((event) => expandEvent(event, rangeStart, rangeEnd));
+
+// Looks up a stored event by its own ID or by one of its occurrence IDs
+export const resolveOccurrence = (
+  events: Event[],
+  eventId: string,
+): { event: Event; occurrenceStart?: string } | null => {
+  const event = events.find((e) => e.id === eventId);
+  if (event) return { event };
+
+  const occurrence = parseOccurrenceId(eventId);
+  const series = occurrence
+    ? events.find((e) => e.id === occurrence.eventId && e.recurrence)
+    : undefined;
+  if (!occurrence || !series) return null;
+
+  return { event: series, occurrenceStart: occurrence.originalStartTime };
+};
+
+// Finds a stored event, or rebuilds the occurrence an occurrence ID refers to
+export const findOccurrence = (events: Event[], eventId: string) => {
+  const resolved = resolveOccurrence(events, eventId);
+  if (!resolved) return null;
+  if (!resolved.occurrenceStart) return resolved.event;
+
+  const start = new Date(resolved.occurrenceStart);
+  return (
+    expandEvent(resolved.event, start, new Date(start.getTime() + 1)).find(
+      (occurrence) => occurrence.id === eventId,
+    ) || null
+  );
+};
+
+const countOccurrencesBefore = (event: Event, occurrenceStart: string) => {
+  const cutoff = new Date(occurrenceStart).getTime();
+  let count = 0;
+  walkOccurrences(event, (start) => {
+    if (start.getTime() >= cutoff) return false;
+    count++;
+    return true;
+  });
+  return count;
+};
+
+export const isFirstOccurrence = (event: Event, occurrenceStart: string) =>
+  countOccurrencesBefore(event, occurrenceStart) === 0;
+
+// Removes a single occurrence from a series
+export const excludeOccurrence = (
+  event: Event,
+  occurrenceStart: string,
+): Event => ({
+  ...event,
+  recurrence: {
+    ...event.recurrence!,
+    exceptionDates: [
+      ...(event.recurrence?.exceptionDates || []),
+      new Date(occurrenceStart).toISOString(),
+    ],
+  },
+});
+
+// Ends a series just before the given occurrence
+export const truncateSeries = (
+  event: Event,
+  occurrenceStart: string,
+): Event => {
+  const rule = event.recurrence!;
+  const remaining =
+    rule.count !== undefined
+      ? { count: countOccurrencesBefore(event, occurrenceStart) }
+      : {
+          until: new Date(
+            new Date(occurrenceStart).getTime() - 1,
+          ).toISOString(),
+        };
+
+  return { ...event, recurrence: { ...rule, ...remaining } };
+};
+
+// The rest of a series from the given occurrence on, as a new series
+export const splitSeries = (
+  event: Event,
+  occurrenceStart: string,
+): Omit<Event, "id"> => {
+  const { id: _id, ...series } = event;
+  const rule = event.recurrence!;
+  const start = new Date(occurrenceStart);
+
+  return {
+    ...series,
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + getDuration(event)).toISOString(),
+    recurrence: {
+      ...rule,
+      ...(rule.count !== undefined && {
+        count: rule.count - countOccurrencesBefore(event, occurrenceStart),
+      }),
+      exceptionDates: (rule.exceptionDates || []).filter(
+        (date) => new Date(date) >= start,
+      ),
+    },
+  };
+};
+
+/**
+ * Applies changes made on one occurrence to its whole series. Moving the
+ * occurrence moves the series, and the occurrences removed from it, by the
+ * same amount.
+ */
+export const applyToSeries = <T extends Omit<Event, "id">>(
+  series: T,
+  updates: Partial<Event>,
+  occurrenceStart?: string,
+): T => {
+  const {
+    id: _id,
+    recurringEventId: _recurringEventId,
+    originalStartTime: _originalStartTime,
+    ...changes
+  } = updates;
+  if (!occurrenceStart || (!changes.startTime && !changes.endTime)) {
+    return { ...series, ...changes };
+  }
+
+  const occurrenceStartMs = new Date(occurrenceStart).getTime();
+  const newStart = changes.startTime
+    ? new Date(changes.startTime).getTime()
+    : occurrenceStartMs;
+  const newEnd = changes.endTime
+    ? new Date(changes.endTime).getTime()
+    : occurrenceStartMs + getDuration(series);
+  const shift = newStart - occurrenceStartMs;
+  const seriesStart = new Date(series.startTime).getTime() + shift;
+  // Exceptions match occurrences to the millisecond, so they move too
+  const recurrence = changes.recurrence || series.recurrence;
+
+  return {
+    ...series,
+    ...changes,
+    startTime: new Date(seriesStart).toISOString(),
+    endTime: new Date(seriesStart + (newEnd - newStart)).toISOString(),
+    ...(recurrence?.exceptionDates && {
+      recurrence: {
+        ...recurrence,
+        exceptionDates: recurrence.exceptionDates.map((date) =>
+          new Date(new Date(date).getTime() + shift).toISOString(),
+        ),
+      },
+    }),
+  };
+};
+
+// A single occurrence, detached from its series as a one-off event
+export const detachOccurrence = (
+  event: Event,
+  occurrenceStart: string,
+): Omit<Event, "id"> => {
+  const { id: _id, recurrence: _recurrence, ...rest } = event;
+  const start = new Date(occurrenceStart);
+
+  return {
+    ...rest,
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + getDuration(event)).toISOString(),
+  };
+};
+
+/**
+ * Works out the writes for editing an event. Edits to one occurrence of a
+ * series apply to just that occurrence, to it and the following ones, or to
+ * the whole series, depending on `scope`.
+ */
+export const planSeriesEdit = (
+  event: Event,
+  updates: Partial<Event>,
+  occurrenceStart: string | undefined,
+  scope: RecurrenceEditScope,
+): { changed: Event[]; created: Omit<Event, "id">[] } => {
+  if (
+    !occurrenceStart ||
+    scope === "all" ||
+    (scope === "following" && isFirstOccurrence(event, occurrenceStart))
+  ) {
+    return {
+      changed: [applyToSeries(event, updates, occurrenceStart)],
+      created: [],
+    };
+  }
+
+  if (scope === "this") {
+    return {
+      changed: [excludeOccurrence(event, occurrenceStart)],
+      created: [
+        applyToSeries(detachOccurrence(event, occurrenceStart), updates),
+      ],
+    };
+  }
+
+  return {
+    changed: [truncateSeries(event, occurrenceStart)],
+    created: [
+      applyToSeries(
+        splitSeries(event, occurrenceStart),
+        updates,
+        occurrenceStart,
+      ),
+    ],
+  };
+};
+
+// RFC 5545 date-time, e.g. 20260102T170000Z
+export const formatICalDateTime = (date: Date | string) =>
+  new Date(date)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+export const parseICalDateTime = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    value,
+  );
+  if (!match) return null;
+
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0", utc] =
+    match;
+  const parts = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hours),
+    Number(minutes),
+    Number(seconds),
+  ] as const;
+
+  return (
+    utc ? new Date(Date.UTC(...parts)) : new Date(...parts)
+  ).toISOString();
+};
+
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday?.length) {
+    parts.push(
+      `BYDAY=${rule.byWeekday.map((d) => WEEKDAY_CODES[d]).join(",")}`,
+    );
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatICalDateTime(rule.until)}`);
+  return parts.join(";");
+};
+
+// Parses the subset of RRULE we support; returns null for anything else
+export const parseRRule = (value: string): RecurrenceRule | null => {
+  const fields = Object.fromEntries(
+    value
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .map((part) => part.split("="))
+      .map(([key, val]) => [key.toUpperCase(), val]),
+  );
+
+  const frequency = fields.FREQ?.toLowerCase();
+  if (
+    frequency !== "daily" &&
+    frequency !== "weekly" &&
+    frequency !== "monthly"
+  ) {
+    return null;
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: Number(fields.INTERVAL) || 1,
+  };
+
+  if (fields.BYDAY) {
+    rule.byWeekday = fields.BYDAY.split(",")
+      .map((code: string) =>
+        WEEKDAY_CODES.indexOf(code.slice(-2).toUpperCase()),
+      )
+      .filter((weekday: number) => weekday >= 0);
+  }
+  if (fields.COUNT) rule.count = Number(fields.COUNT);
+  if (fields.UNTIL) {
+    const until = parseICalDateTime(fields.UNTIL);
+    if (until) rule.until = until;
+  }
+
+  return rule;
+};
+
+// Short human-readable summary, e.g. "Every 2 weeks on Mon, Fri, 10 times"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[
+    rule.frequency
+  ];
+  let description =
+    rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.frequency === "weekly" && rule.byWeekday?.length) {
+    description += ` on ${[...rule.byWeekday]
+      .sort((a, b) => a - b)
+      .map((d) => WEEKDAY_NAMES[d])
+      .join(", ")}`;
+  }
+  if (rule.count !== undefined) {
+    description += `, ${rule.count} times`;
+  } else if (rule.until) {
+    description += `, until ${format(new Date(rule.until), "MMM d, yyyy")}`;
+  }
+
+  return description;
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { Message } from "@/types";
+import {
+  buildHangoutProposal,
+  buildLocationPin,
+  getEventCard,
+  getProposal,
+  withProposalResponse,
+} from "./richMessages";
+
+const proposalDraft = buildHangoutProposal({
+  title: "Bowling",
+  startTime: "2026-07-02T18:00:00.000Z",
+  endTime: "2026-07-02T20:00:00.000Z",
+  timeZone: "America/New_York",
+});
+
+const message: Message = {
+  id: "m1",
+  senderId: "ana",
+  receiverId: "ben",
+  timestamp: "2026-07-01T12:00:00.000Z",
+  read: false,
+  ...proposalDraft,
+};
+
+describe("rich messages", () => {
+  it("should give older clients readable fallback text", () => {
+    expect(proposalDraft.content).toBe(
+      "📅 Hangout proposal: Bowling (Thu, Jul 2 2:00 PM EDT)",
+    );
+    expect(
+      buildLocationPin({ label: "Cafe", latitude: 51.5, longitude: -0.12 })
+        .content,
+    ).toBe(
+      "📍 Cafe: https://www.openstreetmap.org/?mlat=51.5&mlon=-0.12#map=16/51.5/-0.12",
+    );
+  });
+
+  it("should read payloads only for their own message type", () => {
+    expect(getProposal(message)?.title).toBe("Bowling");
+    expect(getEventCard(message)).toBeNull();
+  });
+
+  it("should record each recipient's response", () => {
+    const accepted = withProposalResponse(message, "ben", "accepted");
+    const declined = withProposalResponse(accepted, "cy", "declined");
+
+    expect(getProposal(declined)?.responses).toEqual({
+      ben: "accepted",
+      cy: "declined",
+    });
+    expect(getProposal(message)?.responses).toEqual({});
+  });
+});
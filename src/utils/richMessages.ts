@@ -0,0 +1,77 @@
+import {
+  Event,
+  EventCardPayload,
+  HangoutProposalPayload,
+  LocationPayload,
+  Message,
+  ProposalResponse,
+} from "@/types";
+import { formatInTimeZone, getTimeZoneAbbreviation } from "@/utils/timezone";
+
+// What a sender fills in; the store adds the rest of the message
+export type RichMessageDraft = Pick<Message, "type" | "payload" | "content">;
+
+// Fallback text names the zone so it reads right for any recipient
+const describeTime = (startTime: string, timeZone = "UTC") =>
+  `${formatInTimeZone(startTime, "EEE, MMM d h:mm a", timeZone)} ${getTimeZoneAbbreviation(timeZone, startTime)}`;
+
+export const getLocationUrl = ({ latitude, longitude }: LocationPayload) =>
+  `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`;
+
+export const buildHangoutProposal = (
+  proposal: Omit<HangoutProposalPayload, "responses">,
+): RichMessageDraft => ({
+  type: "hangout_proposal",
+  payload: { ...proposal, responses: {} },
+  content: `📅 Hangout proposal: ${proposal.title} (${describeTime(proposal.startTime, proposal.timeZone)})`,
+});
+
+export const buildEventCard = (event: Event): RichMessageDraft => ({
+  type: "event_card",
+  payload: {
+    eventId: event.id,
+    title: event.title,
+    eventType: event.type,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    ...(event.timeZone && { timeZone: event.timeZone }),
+  },
+  content: `📅 ${event.title} (${describeTime(event.startTime, event.timeZone)})`,
+});
+
+export const buildLocationPin = (
+  location: LocationPayload,
+): RichMessageDraft => ({
+  type: "location",
+  payload: location,
+  content: `📍 ${location.label}: ${getLocationUrl(location)}`,
+});
+
+// Typed payload accessors; null when the message is a different type
+export const getProposal = (message: Message) =>
+  message.type === "hangout_proposal"
+    ? (message.payload as HangoutProposalPayload)
+    : null;
+
+export const getEventCard = (message: Message) =>
+  message.type === "event_card" ? (message.payload as EventCardPayload) : null;
+
+export const getLocation = (message: Message) =>
+  message.type === "location" ? (message.payload as LocationPayload) : null;
+
+export const withProposalResponse = (
+  message: Message,
+  userId: string,
+  response: ProposalResponse,
+): Message => {
+  const proposal = getProposal(message);
+  if (!proposal) return message;
+
+  return {
+    ...message,
+    payload: {
+      ...proposal,
+      responses: { ...proposal.responses, [userId]: response },
+    },
+  };
+};
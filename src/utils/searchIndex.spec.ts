@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  SearchDocument,
+  buildSearchIndex,
+  searchIndex,
+  tokenize,
+} from "./searchIndex";
+
+const document = (
+  id: string,
+  title: string,
+  body?: string,
+  timestamp?: string,
+): SearchDocument => ({
+  id,
+  kind: "message",
+  title,
+  body,
+  timestamp,
+  href: `/${id}`,
+});
+
+const index = buildSearchIndex([
+  document("bowling", "Bowling night", "Lanes booked for 8", "2026-07-01"),
+  document("cafe", "Brunch", "Meet at Café Bowl", "2026-07-02"),
+  document("hike", "Hike", "Bring water", "2026-07-03"),
+  document("old", "Bowling league", undefined, "2026-06-01"),
+]);
+
+const ids = (query: string) =>
+  searchIndex(index, query).map((result) => result.document.id);
+
+describe("tokenize", () => {
+  it("should lowercase words and strip accents and punctuation", () => {
+    expect(tokenize("Meet at Café-Bowl, 8pm!")).toEqual([
+      "meet",
+      "at",
+      "cafe",
+      "bowl",
+      "8pm",
+    ]);
+  });
+});
+
+describe("searchIndex", () => {
+  it("should match word prefixes", () => {
+    expect(ids("bowl")).toEqual(["bowling", "old", "cafe"]);
+    expect(ids("hik")).toEqual(["hike"]);
+  });
+
+  it("should rank title matches and whole words first", () => {
+    const [bowling, old, cafe] = searchIndex(index, "bowl");
+
+    // Title prefixes beat a whole word in the body; ties go to the newest
+    expect(bowling.score).toBe(old.score);
+    expect(bowling.score).toBeGreaterThan(cafe.score);
+    expect(searchIndex(index, "bowling")[0].score).toBeGreaterThan(
+      bowling.score,
+    );
+  });
+
+  it("should require every query word to match", () => {
+    expect(ids("bowling lanes")).toEqual(["bowling"]);
+    expect(ids("bowling water")).toEqual([]);
+    expect(ids("  ")).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+export type SearchResultKind = "person" | "event" | "message";
+
+export interface SearchDocument {
+  id: string;
+  kind: SearchResultKind;
+  title: string;
+  subtitle?: string;
+  body?: string;
+  // Breaks ties between equally good matches, newest first
+  timestamp?: string;
+  href: string;
+}
+
+export interface SearchIndex {
+  documents: Map<string, SearchDocument>;
+  // Token to the weight it carries in each document containing it
+  postings: Map<string, Map<string, number>>;
+  // Every indexed token, sorted so prefixes can be found by binary search
+  tokens: string[];
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+}
+
+// Title matches count for more than matches in the body
+const TITLE_WEIGHT = 3;
+// A term that only starts a word ranks below one matching it whole
+const PREFIX_WEIGHT = 0.5;
+
+/**
+ * Splits text into lowercase words with accents removed, so "Café" and
+ * "cafe" match each other.
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || [];
+
+export const buildSearchIndex = (documents: SearchDocument[]): SearchIndex => {
+  const postings = new Map<string, Map<string, number>>();
+
+  const add = (token: string, documentId: string, weight: number) => {
+    const documentWeights = postings.get(token) || new Map<string, number>();
+    documentWeights.set(
+      documentId,
+      (documentWeights.get(documentId) || 0) + weight,
+    );
+    postings.set(token, documentWeights);
+  };
+
+  documents.forEach((document) => {
+    tokenize(document.title).forEach((token) =>
+      add(token, document.id, TITLE_WEIGHT),
+    );
+    tokenize(`${document.subtitle || ""} ${document.body || ""}`).forEach(
+      (token) => add(token, document.id, 1),
+    );
+  });
+
+  return {
+    documents: new Map(documents.map((document) => [document.id, document])),
+    postings,
+    tokens: [...postings.keys()].sort(),
+  };
+};
+
+// Indexed tokens starting with the term, found from its sorted position
+const getPrefixMatches = (tokens: string[], term: string) => {
+  let low = 0;
+  let high = tokens.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (tokens[mid] < term) low = mid + 1;
+    else high = mid;
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < tokens.length && tokens[i].startsWith(term); i++) {
+    matches.push(tokens[i]);
+  }
+  return matches;
+};
+
+/**
+ * Finds documents matching every word of the query, where the last word
+ * may still be being typed. Each query word scores its best match in a
+ * document, and results are ranked by the total.
+ */
+export const searchIndex = (
+  index: SearchIndex,
+  query: string,
+  limit = 20,
+): SearchResult[] => {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  let scores: Map<string, number> | null = null;
+
+  for (const term of terms) {
+    const termScores = new Map<string, number>();
+
+    getPrefixMatches(index.tokens, term).forEach((token) => {
+      const factor = token === term ? 1 : PREFIX_WEIGHT;
+      index.postings.get(token)!.forEach((weight, documentId) => {
+        termScores.set(
+          documentId,
+          Math.max(termScores.get(documentId) || 0, weight * factor),
+        );
+      });
+    });
+
+    // Documents have to match every term
+    const previous = scores;
+    scores = new Map(
+      [...termScores]
+        .filter(([documentId]) => !previous || previous.has(documentId))
+        .map(([documentId, score]) => [
+          documentId,
+          score + (previous?.get(documentId) || 0),
+        ]),
+    );
+    if (scores.size === 0) return [];
+  }
+
+  return [...scores]
+    .map(([documentId, score]) => ({
+      document: index.documents.get(documentId)!,
+      score,
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (b.document.timestamp || "").localeCompare(a.document.timestamp || ""),
+    )
+    .slice(0, limit);
+};
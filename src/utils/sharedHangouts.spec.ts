@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { HangoutEvent } from "@/types";
+import {
+  buildSharedHangout,
+  createHangoutUpdateNotifications,
+  getRsvpStatus,
+} from "./sharedHangouts";
+
+const hangout = (
+  userId: string,
+  preferences: HangoutEvent["preferences"],
+): HangoutEvent => ({
+  id: `${userId}-hangout`,
+  userId,
+  title: "Free",
+  startTime: "2026-07-02T18:00:00.000Z",
+  endTime: "2026-07-02T20:00:00.000Z",
+  type: "hangout",
+  preferences,
+  visibility: "friends",
+  createdAt: "2026-07-01T00:00:00.000Z",
+});
+
+describe("buildSharedHangout", () => {
+  const shared = buildSharedHangout(
+    "ana",
+    ["ben", "ana", "ben"],
+    { start: "2026-07-02T19:00:00.000Z", end: "2026-07-02T20:00:00.000Z" },
+    [
+      hangout("ana", {
+        activitySuggestions: ["Coffee", "Bowling"],
+        budgetLimit: 40,
+        maxTravelDistance: 10,
+      }),
+      hangout("ben", {
+        activitySuggestions: ["coffee", "Movies"],
+        budgetMin: 10,
+        budgetLimit: 25,
+      }),
+    ],
+    { title: "Hangout with Ben" },
+  );
+
+  it("should invite everyone but the owner once", () => {
+    expect(shared.attendeeIds).toEqual(["ben"]);
+    expect(shared.rsvps).toEqual({ ben: "pending" });
+  });
+
+  it("should merge preferences so they suit everyone", () => {
+    expect(shared.preferences).toEqual({
+      activitySuggestions: ["Coffee", "Bowling", "Movies"],
+      budgetMin: 10,
+      budgetLimit: 25,
+      maxTravelDistance: 10,
+    });
+  });
+});
+
+describe("getRsvpStatus", () => {
+  const shared = {
+    ...hangout("ana", { activitySuggestions: [] }),
+    attendeeIds: ["ben", "cy"],
+    rsvps: { ben: "declined" as const },
+  };
+
+  it("should treat the owner as going and others as pending", () => {
+    expect(getRsvpStatus(shared, "ana")).toBe("going");
+    expect(getRsvpStatus(shared, "ben")).toBe("declined");
+    expect(getRsvpStatus(shared, "cy")).toBe("pending");
+    expect(getRsvpStatus(shared, "dee")).toBeNull();
+  });
+
+  it("should not notify attendees who declined about updates", () => {
+    const owner = {
+      id: "ana",
+      email: "ana@example.com",
+      username: "ana",
+      fullName: "Ana",
+      friends: [],
+      friendRequests: { sent: [], received: [] },
+      createdAt: "2026-01-01T00:00:00.000Z",
+    };
+
+    expect(
+      createHangoutUpdateNotifications(shared, owner).map((n) => n.userId),
+    ).toEqual(["cy"]);
+  });
+});
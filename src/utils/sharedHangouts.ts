@@ -0,0 +1,167 @@
+import { Event, HangoutEvent, Notification, RsvpStatus, User } from "@/types";
+import { formatNames } from "@/utils/hangoutMatching";
+
+export const RSVP_LABELS: Record<RsvpStatus, string> = {
+  pending: "Invited",
+  going: "Going",
+  maybe: "Maybe",
+  declined: "Declined",
+};
+
+export const isSharedHangout = (event: Event): event is HangoutEvent =>
+  event.type === "hangout" &&
+  Boolean((event as HangoutEvent).attendeeIds?.length);
+
+// The user's RSVP, or null if they aren't part of the hangout
+export const getRsvpStatus = (
+  event: HangoutEvent,
+  userId: string,
+): RsvpStatus | null => {
+  if (event.userId === userId) return "going";
+  if (!event.attendeeIds?.includes(userId)) return null;
+  return event.rsvps?.[userId] || "pending";
+};
+
+// The stored hangout with one invitee's answer recorded
+export const withRsvp = (
+  event: Event,
+  userId: string,
+  status: RsvpStatus,
+): HangoutEvent => ({
+  ...(event as HangoutEvent),
+  rsvps: { ...(event as HangoutEvent).rsvps, [userId]: status },
+});
+
+/**
+ * An edit to an event with the RSVPs taken from the stored copy. Answers only
+ * change through `respondToInvite`, so saving an edit made from an older copy
+ * doesn't undo answers given since.
+ */
+export const withStoredRsvps = (
+  event: Event,
+  stored: Event | null | undefined,
+): Event => {
+  const { rsvps: _rsvps, ...edited } = event as HangoutEvent;
+  const rsvps = (stored as HangoutEvent | null | undefined)?.rsvps;
+  return (rsvps ? { ...edited, rsvps } : edited) as Event;
+};
+
+// Everyone in the hangout, owner first
+export const getHangoutMembers = (event: HangoutEvent): string[] => [
+  event.userId,
+  ...(event.attendeeIds || []),
+];
+
+/**
+ * Builds a shared hangout for the people behind a match. Preferences are
+ * merged from their hangouts: every suggested activity, and the budget and
+ * travel limits that suit everyone.
+ */
+export const buildSharedHangout = (
+  ownerId: string,
+  inviteeIds: string[],
+  time: { start: string; end: string },
+  sourceHangouts: HangoutEvent[],
+  details: { title: string; description?: string; timeZone?: string },
+): Omit<HangoutEvent, "id"> => {
+  const activities = new Map<string, string>();
+  sourceHangouts.forEach((hangout) =>
+    hangout.preferences?.activitySuggestions?.forEach((activity) => {
+      const key = activity.trim().toLowerCase();
+      if (key && !activities.has(key)) activities.set(key, activity.trim());
+    }),
+  );
+
+  const defined = (values: Array<number | undefined>) =>
+    values.filter((value): value is number => value !== undefined);
+  const budgetMins = defined(
+    sourceHangouts.map((h) => h.preferences?.budgetMin),
+  );
+  const budgetLimits = defined(
+    sourceHangouts.map((h) => h.preferences?.budgetLimit),
+  );
+  const travelLimits = defined(
+    sourceHangouts.map((h) => h.preferences?.maxTravelDistance),
+  );
+
+  const attendeeIds = [...new Set(inviteeIds)].filter((id) => id !== ownerId);
+
+  return {
+    userId: ownerId,
+    title: details.title,
+    ...(details.description && { description: details.description }),
+    startTime: time.start,
+    endTime: time.end,
+    type: "hangout",
+    ...(details.timeZone && { timeZone: details.timeZone }),
+    preferences: {
+      activitySuggestions: [...activities.values()],
+      ...(budgetMins.length > 0 && { budgetMin: Math.max(...budgetMins) }),
+      ...(budgetLimits.length > 0 && {
+        budgetLimit: Math.min(...budgetLimits),
+      }),
+      ...(travelLimits.length > 0 && {
+        maxTravelDistance: Math.min(...travelLimits),
+      }),
+    },
+    visibility: "friends",
+    attendeeIds,
+    rsvps: Object.fromEntries(attendeeIds.map((id) => [id, "pending"])),
+    createdAt: new Date().toISOString(),
+  };
+};
+
+export const getSharedHangoutTitle = (names: string[]) =>
+  names.length > 0 ? `Hangout with ${formatNames(names)}` : "Hangout";
+
+export const createInviteNotifications = (
+  hangout: HangoutEvent,
+  owner: User,
+): Omit<Notification, "id">[] =>
+  (hangout.attendeeIds || []).map((userId) => ({
+    userId,
+    type: "hangout_invite",
+    title: "Hangout Invitation",
+    message: `${owner.fullName} invited you to "${hangout.title}"`,
+    data: { eventId: hangout.id, ownerId: owner.id },
+    read: false,
+    createdAt: new Date().toISOString(),
+  }));
+
+const RSVP_MESSAGES: Record<RsvpStatus, string> = {
+  pending: "hasn't replied to",
+  going: "is going to",
+  maybe: "might join",
+  declined: "can't make it to",
+};
+
+export const createRsvpNotification = (
+  hangout: HangoutEvent,
+  responder: User,
+  status: RsvpStatus,
+): Omit<Notification, "id"> => ({
+  userId: hangout.userId,
+  type: "hangout_rsvp",
+  title: "RSVP Update",
+  message: `${responder.fullName} ${RSVP_MESSAGES[status]} "${hangout.title}"`,
+  data: { eventId: hangout.id, responderId: responder.id, status },
+  read: false,
+  createdAt: new Date().toISOString(),
+});
+
+// Attendees who declined aren't told about later changes
+export const createHangoutUpdateNotifications = (
+  hangout: HangoutEvent,
+  owner: User,
+): Omit<Notification, "id">[] =>
+  (hangout.attendeeIds || [])
+    .filter((userId) => getRsvpStatus(hangout, userId) !== "declined")
+    .map((userId) => ({
+      userId,
+      type: "hangout_update",
+      title: "Hangout Updated",
+      message: `${owner.fullName} changed the details of "${hangout.title}"`,
+      data: { eventId: hangout.id, ownerId: owner.id },
+      read: false,
+      createdAt: new Date().toISOString(),
+    }));
@@ -1,13 +1,65 @@
-import { User, Event, Message, Conversation, Notification } from "@/types";
+import {
+  User,
+  Event,
+  Message,
+  MessagePage,
+  MessagePageOptions,
+  Conversation,
+  HangoutMatch,
+  Notification,
+  Presence,
+  UserReport,
+} from "@/types";
+import {
+  getMessageConversationId,
+  toStoredConversation,
+} from "@/utils/conversations";
+import { openDatabase } from "@/utils/database";
+import { MESSAGE_PAGE_SIZE } from "@/utils/messagePages";
+import {
+  STORAGE_MIGRATIONS,
+  STORES,
+  StoredCredential,
+  getLegacyStorageKeys,
+} from "@/utils/storageMigrations";
 
+// The session and presence stay in localStorage: they're small, the session
+// is read synchronously at startup, and tabs hear presence through storage
+// events. Everything else lives in IndexedDB, one object store per entity
 const STORAGE_KEYS = {
-  USERS: "social_network_users",
   CURRENT_USER: "social_network_current_user",
-  EVENTS: "social_network_events",
-  CONVERSATIONS: "social_network_conversations",
-  NOTIFICATIONS: "social_network_notifications",
+  PRESENCE: "social_network_presence",
 } as const;
 
+const database = openDatabase("social_network", STORAGE_MIGRATIONS);
+
+// Read errors are logged and fall back to empty results
+const attempt = async <T>(
+  action: string,
+  run: () => Promise<T>,
+  fallback: T,
+): Promise<T> => {
+  try {
+    return await run();
+  } catch (error) {
+    console.error(`Failed to ${action}:`, error);
+    return fallback;
+  }
+};
+
+// Write errors are logged and rethrown, so the provider can report failure
+const attemptWrite = async (
+  action: string,
+  run: () => Promise<void>,
+): Promise<void> => {
+  try {
+    await run();
+  } catch (error) {
+    console.error(`Failed to ${action}:`, error);
+    throw error;
+  }
+};
+
 // Generic storage utilities
 export const storage = {
   get: <T>(key: string): T | null => {
@@ -35,22 +87,51 @@ export const storage = {
     }
   },
 
-  clear: (): void => {
+  clear: async (): Promise<void> => {
     try {
       Object.values(STORAGE_KEYS).forEach((key) =>
         localStorage.removeItem(key),
       );
+      // Data not yet imported by the IndexedDB migration
+      getLegacyStorageKeys(localStorage).forEach((key) =>
+        localStorage.removeItem(key),
+      );
     } catch (error) {
       console.error("Failed to clear localStorage:", error);
     }
+
+    await attempt(
+      "clear the database",
+      () => database.clear(...Object.values(STORES)),
+      undefined,
+    );
   },
 };
 
 // User storage utilities
 export const userStorage = {
-  getUsers: (): User[] => storage.get<User[]>(STORAGE_KEYS.USERS) || [],
+  getUsers: (): Promise<User[]> =>
+    attempt("load users", () => database.getAll<User>(STORES.USERS), []),
+
+  getUser: async (userId: string): Promise<User | null> =>
+    (await attempt(
+      "load user",
+      () => database.get<User>(STORES.USERS, userId),
+      undefined,
+    )) || null,
 
-  setUsers: (users: User[]): void => storage.set(STORAGE_KEYS.USERS, users),
+  getUserByUsername: async (username: string): Promise<User | null> =>
+    (
+      await attempt(
+        "load user",
+        () =>
+          database.getAllFromIndex<User>(STORES.USERS, "username", username),
+        [],
+      )
+    )[0] || null,
+
+  addUser: (user: User): Promise<void> =>
+    attemptWrite("save user", () => database.put(STORES.USERS, user)),
 
   getCurrentUser: (): User | null =>
     storage.get<User>(STORAGE_KEYS.CURRENT_USER),
@@ -63,105 +144,330 @@ export const userStorage = {
     }
   },
 
-  updateUser: (updatedUser: User): void => {
-    const users = userStorage.getUsers();
-    const index = users.findIndex((user) => user.id === updatedUser.id);
-    if (index !== -1) {
-      users[index] = updatedUser;
-      userStorage.setUsers(users);
-
-      // Update current user if it's the same user
-      const currentUser = userStorage.getCurrentUser();
-      if (currentUser?.id === updatedUser.id) {
-        userStorage.setCurrentUser(updatedUser);
-      }
+  updateUser: async (updatedUser: User): Promise<void> => {
+    if (!(await userStorage.getUser(updatedUser.id))) return;
+    await userStorage.addUser(updatedUser);
+
+    // Update current user if it's the same user
+    const currentUser = userStorage.getCurrentUser();
+    if (currentUser?.id === updatedUser.id) {
+      userStorage.setCurrentUser(updatedUser);
     }
   },
 };
 
+// Credential storage utilities (local provider only)
+export const credentialStorage = {
+  getCredential: (email: string): Promise<StoredCredential | undefined> =>
+    attempt(
+      "load credentials",
+      () =>
+        database.get<StoredCredential>(STORES.CREDENTIALS, email.toLowerCase()),
+      undefined,
+    ),
+
+  setCredential: (
+    email: string,
+    passwordHash: string,
+    userId: string,
+  ): Promise<void> =>
+    attemptWrite("save credentials", () =>
+      database.put<StoredCredential>(STORES.CREDENTIALS, {
+        email: email.toLowerCase(),
+        passwordHash,
+        userId,
+      }),
+    ),
+};
+
 // Event storage utilities
 export const eventStorage = {
-  getEvents: (): Event[] => storage.get<Event[]>(STORAGE_KEYS.EVENTS) || [],
+  getEvents: (): Promise<Event[]> =>
+    attempt("load events", () => database.getAll<Event>(STORES.EVENTS), []),
 
-  setEvents: (events: Event[]): void =>
-    storage.set(STORAGE_KEYS.EVENTS, events),
+  getEvent: async (eventId: string): Promise<Event | null> =>
+    (await attempt(
+      "load event",
+      () => database.get<Event>(STORES.EVENTS, eventId),
+      undefined,
+    )) || null,
 
-  addEvent: (event: Event): void => {
-    const events = eventStorage.getEvents();
-    events.push(event);
-    eventStorage.setEvents(events);
-  },
+  getUserEvents: (userId: string): Promise<Event[]> =>
+    attempt(
+      "load events",
+      () => database.getAllFromIndex<Event>(STORES.EVENTS, "userId", userId),
+      [],
+    ),
+
+  // Hangouts the user is an attendee of
+  getSharedEvents: (userId: string): Promise<Event[]> =>
+    attempt(
+      "load events",
+      () =>
+        database.getAllFromIndex<Event>(STORES.EVENTS, "attendeeIds", userId),
+      [],
+    ),
 
-  updateEvent: (updatedEvent: Event): void => {
-    const events = eventStorage.getEvents();
-    const index = events.findIndex((event) => event.id === updatedEvent.id);
-    if (index !== -1) {
-      events[index] = updatedEvent;
-      eventStorage.setEvents(events);
+  addEvent: (event: Event): Promise<void> =>
+    attemptWrite("save event", () => database.put(STORES.EVENTS, event)),
+
+  updateEvent: async (updatedEvent: Event): Promise<void> => {
+    if (await eventStorage.getEvent(updatedEvent.id)) {
+      await eventStorage.addEvent(updatedEvent);
     }
   },
 
-  deleteEvent: (eventId: string): void => {
-    const events = eventStorage.getEvents();
-    const filteredEvents = events.filter((event) => event.id !== eventId);
-    eventStorage.setEvents(filteredEvents);
+  deleteEvent: (eventId: string): Promise<void> =>
+    attemptWrite("delete event", () => database.delete(STORES.EVENTS, eventId)),
+};
+
+// Message storage utilities. Messages are their own records, indexed by
+// conversation, so listing conversations doesn't read every message ever sent
+export const messageStorage = {
+  getMessages: (conversationId: string): Promise<Message[]> =>
+    attempt(
+      "load messages",
+      () =>
+        database.getAllFromIndex<Message>(
+          STORES.MESSAGES,
+          "conversationId",
+          conversationId,
+        ),
+      [],
+    ),
+
+  // Reads just the page off the (conversation, timestamp, ID) index; an
+  // empty array sorts after every string, so it bounds the latest page
+  getMessagePage: async (
+    conversationId: string,
+    { before, limit = MESSAGE_PAGE_SIZE }: MessagePageOptions = {},
+  ): Promise<MessagePage> => {
+    const newestFirst = await attempt(
+      "load messages",
+      () =>
+        database.getLastFromIndex<Message>(
+          STORES.MESSAGES,
+          "conversationOrder",
+          IDBKeyRange.bound(
+            [conversationId],
+            before
+              ? [conversationId, before.timestamp, before.id]
+              : [conversationId, []],
+            false,
+            true,
+          ),
+          limit + 1,
+        ),
+      [],
+    );
+
+    return {
+      messages: newestFirst.slice(0, limit).reverse(),
+      hasMore: newestFirst.length > limit,
+    };
+  },
+
+  // Messages sent at or after `since`, read off the same index as pages
+  getMessagesSince: (
+    conversationId: string,
+    since: string,
+  ): Promise<Message[]> =>
+    attempt(
+      "load messages",
+      () =>
+        database.getAllFromIndex<Message>(
+          STORES.MESSAGES,
+          "conversationOrder",
+          IDBKeyRange.bound(
+            [conversationId, since],
+            [conversationId, []],
+            false,
+            true,
+          ),
+        ),
+      [],
+    ),
+
+  getMessage: async (messageId: string): Promise<Message | null> =>
+    (await attempt(
+      "load message",
+      () => database.get<Message>(STORES.MESSAGES, messageId),
+      undefined,
+    )) || null,
+
+  setMessage: (message: Message): Promise<void> =>
+    attemptWrite("save message", () =>
+      database.put(STORES.MESSAGES, {
+        ...message,
+        conversationId: getMessageConversationId(message),
+      }),
+    ),
+
+  removeMessages: async (conversationId: string): Promise<void> => {
+    const messages = await messageStorage.getMessages(conversationId);
+    await attemptWrite("delete messages", () =>
+      database.delete(
+        STORES.MESSAGES,
+        ...messages.map((message) => message.id),
+      ),
+    );
   },
 };
 
 // Conversation storage utilities
 export const conversationStorage = {
-  getConversations: (): Conversation[] =>
-    storage.get<Conversation[]>(STORAGE_KEYS.CONVERSATIONS) || [],
+  getConversations: (): Promise<Conversation[]> =>
+    attempt(
+      "load conversations",
+      () => database.getAll<Conversation>(STORES.CONVERSATIONS),
+      [],
+    ),
 
-  setConversations: (conversations: Conversation[]): void =>
-    storage.set(STORAGE_KEYS.CONVERSATIONS, conversations),
+  getConversation: async (
+    conversationId: string,
+  ): Promise<Conversation | null> =>
+    (await attempt(
+      "load conversation",
+      () => database.get<Conversation>(STORES.CONVERSATIONS, conversationId),
+      undefined,
+    )) || null,
 
-  addMessage: (message: Message): void => {
-    const conversations = conversationStorage.getConversations();
-    const conversationId = [message.senderId, message.receiverId]
-      .sort()
-      .join("-");
+  getUserConversations: (userId: string): Promise<Conversation[]> =>
+    attempt(
+      "load conversations",
+      () =>
+        database.getAllFromIndex<Conversation>(
+          STORES.CONVERSATIONS,
+          "participants",
+          userId,
+        ),
+      [],
+    ),
 
-    let conversation = conversations.find((conv) => conv.id === conversationId);
+  // Records are stored without messages; those go through `messageStorage`
+  setConversation: (conversation: Conversation): Promise<void> =>
+    attemptWrite("save conversation", () =>
+      database.put(STORES.CONVERSATIONS, toStoredConversation(conversation)),
+    ),
 
-    if (!conversation) {
-      conversation = {
+  deleteConversation: async (conversationId: string): Promise<void> => {
+    await attemptWrite("delete conversation", () =>
+      database.delete(STORES.CONVERSATIONS, conversationId),
+    );
+    await messageStorage.removeMessages(conversationId);
+  },
+
+  // Writes the one message and its conversation, never the whole history
+  addMessage: async (message: Message): Promise<void> => {
+    const conversationId = getMessageConversationId(message);
+    const conversation: Conversation =
+      (await conversationStorage.getConversation(conversationId)) || {
         id: conversationId,
         participants: [message.senderId, message.receiverId],
         messages: [],
         updatedAt: message.timestamp,
       };
-      conversations.push(conversation);
-    }
 
-    conversation.messages.push(message);
-    conversation.lastMessage = message;
-    conversation.updatedAt = message.timestamp;
-
-    conversationStorage.setConversations(conversations);
+    await messageStorage.setMessage(message);
+    await conversationStorage.setConversation({
+      ...conversation,
+      lastMessage: message,
+      updatedAt: message.timestamp,
+    });
   },
 };
 
 // Notification storage utilities
 export const notificationStorage = {
-  getNotifications: (): Notification[] =>
-    storage.get<Notification[]>(STORAGE_KEYS.NOTIFICATIONS) || [],
+  getNotification: async (
+    notificationId: string,
+  ): Promise<Notification | null> =>
+    (await attempt(
+      "load notification",
+      () => database.get<Notification>(STORES.NOTIFICATIONS, notificationId),
+      undefined,
+    )) || null,
 
-  setNotifications: (notifications: Notification[]): void =>
-    storage.set(STORAGE_KEYS.NOTIFICATIONS, notifications),
+  // Newest first
+  getUserNotifications: async (userId: string): Promise<Notification[]> =>
+    (
+      await attempt(
+        "load notifications",
+        () =>
+          database.getAllFromIndex<Notification>(
+            STORES.NOTIFICATIONS,
+            "userId",
+            userId,
+          ),
+        [],
+      )
+    ).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
 
-  addNotification: (notification: Notification): void => {
-    const notifications = notificationStorage.getNotifications();
-    notifications.unshift(notification); // Add to beginning
-    notificationStorage.setNotifications(notifications);
-  },
+  addNotification: (notification: Notification): Promise<void> =>
+    attemptWrite("save notification", () =>
+      database.put(STORES.NOTIFICATIONS, notification),
+    ),
 
-  markAsRead: (notificationId: string): void => {
-    const notifications = notificationStorage.getNotifications();
-    const notification = notifications.find((n) => n.id === notificationId);
+  markAsRead: async (notificationId: string): Promise<void> => {
+    const notification =
+      await notificationStorage.getNotification(notificationId);
     if (notification) {
-      notification.read = true;
-      notificationStorage.setNotifications(notifications);
+      await notificationStorage.addNotification({
+        ...notification,
+        read: true,
+      });
     }
   },
+
+  deleteNotifications: (...notificationIds: string[]): Promise<void> =>
+    attemptWrite("delete notifications", () =>
+      database.delete(STORES.NOTIFICATIONS, ...notificationIds),
+    ),
+};
+
+// Hangout match storage utilities, one record per group window
+export const hangoutMatchStorage = {
+  getUserMatches: (userId: string): Promise<HangoutMatch[]> =>
+    attempt(
+      "load hangout matches",
+      () =>
+        database.getAllFromIndex<HangoutMatch>(
+          STORES.HANGOUT_MATCHES,
+          "users",
+          userId,
+        ),
+      [],
+    ),
+
+  saveMatch: (match: HangoutMatch): Promise<void> =>
+    attemptWrite("save hangout match", () =>
+      database.put(STORES.HANGOUT_MATCHES, match),
+    ),
+};
+
+// Report storage utilities (local provider only)
+export const reportStorage = {
+  addReport: (report: UserReport): Promise<void> =>
+    attemptWrite("save report", () => database.put(STORES.REPORTS, report)),
+};
+
+// Presence storage utilities, keyed by user ID
+export const presenceStorage = {
+  getPresence: (): Record<string, Presence> =>
+    storage.get<Record<string, Presence>>(STORAGE_KEYS.PRESENCE) || {},
+
+  updatePresence: (
+    userId: string,
+    update: Partial<Omit<Presence, "userId">>,
+  ): void => {
+    const presence = presenceStorage.getPresence();
+    presence[userId] = {
+      lastSeen: new Date().toISOString(),
+      away: false,
+      ...presence[userId],
+      ...update,
+      userId,
+    };
+    storage.set(STORAGE_KEYS.PRESENCE, presence);
+  },
 };
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { getLegacyStorageKeys, readLegacyStorage } from "./storageMigrations";
+
+const createStorage = (items: Record<string, unknown>) => {
+  const keys = Object.keys(items);
+  return {
+    length: keys.length,
+    key: (index: number) => keys[index] ?? null,
+    getItem: (key: string) =>
+      key in items ? JSON.stringify(items[key]) : null,
+  };
+};
+
+const message = (id: string, conversationId?: string) => ({
+  id,
+  ...(conversationId && { conversationId }),
+  senderId: "ana",
+  receiverId: "bob",
+  content: "Hi",
+  timestamp: "2026-07-01T12:00:00.000Z",
+  read: false,
+});
+
+describe("readLegacyStorage", () => {
+  it("should split messages out of conversations and keep credentials", () => {
+    const source = createStorage({
+      social_network_users: [{ id: "ana" }],
+      social_network_credentials: {
+        "ana@example.com": { passwordHash: "hash", userId: "ana" },
+      },
+      social_network_conversations: [
+        {
+          id: "ana-bob",
+          participants: ["ana", "bob"],
+          messages: [message("m1")],
+          updatedAt: "2026-07-01T12:00:00.000Z",
+        },
+      ],
+      "social_network_messages_ana-bob": [message("m1"), message("m2")],
+      social_network_current_user: { id: "ana" },
+    });
+
+    const data = readLegacyStorage(source);
+
+    expect(data.credentials).toEqual([
+      { email: "ana@example.com", passwordHash: "hash", userId: "ana" },
+    ]);
+    expect(data.conversations[0].messages).toEqual([]);
+    expect(data.messages.map((m) => [m.id, m.conversationId])).toEqual([
+      ["m1", "ana-bob"],
+      ["m2", "ana-bob"],
+    ]);
+    expect(data.events).toEqual([]);
+    expect(getLegacyStorageKeys(source)).toEqual([
+      "social_network_users",
+      "social_network_credentials",
+      "social_network_conversations",
+      "social_network_messages_ana-bob",
+    ]);
+  });
+
+  it("should drop records the stores can't key", () => {
+    const data = readLegacyStorage(
+      createStorage({
+        social_network_users: [{ id: "ana" }, { username: "ghost" }, null],
+        social_network_credentials: { "": { userId: "ana" } },
+        social_network_conversations: [
+          { id: "ana-bob", messages: [message("m1"), { content: "?" }] },
+          { participants: ["ana"] },
+        ],
+        "social_network_messages_ana-bob": { id: "not-a-list" },
+        social_network_notifications: [{ id: "" }],
+        social_network_hangout_matches: [{ id: "ana,bob@noon" }, {}],
+      }),
+    );
+
+    expect(data.users).toEqual([{ id: "ana" }]);
+    expect(data.credentials).toEqual([]);
+    expect(data.conversations.map((c) => c.id)).toEqual(["ana-bob"]);
+    expect(data.messages.map((m) => m.id)).toEqual(["m1"]);
+    expect(data.notifications).toEqual([]);
+    expect(data.hangoutMatches).toEqual([{ id: "ana,bob@noon" }]);
+  });
+});
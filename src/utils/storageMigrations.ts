@@ -0,0 +1,216 @@
+import {
+  User,
+  Event,
+  Message,
+  Conversation,
+  HangoutMatch,
+  Notification,
+} from "@/types";
+import { Migration } from "@/utils/database";
+
+export const STORES = {
+  USERS: "users",
+  CREDENTIALS: "credentials",
+  EVENTS: "events",
+  CONVERSATIONS: "conversations",
+  MESSAGES: "messages",
+  NOTIFICATIONS: "notifications",
+  REPORTS: "reports",
+  HANGOUT_MATCHES: "hangoutMatches",
+} as const;
+
+// Where each entity lived before moving to IndexedDB, as one array per key
+export const LEGACY_STORAGE_KEYS = {
+  USERS: "social_network_users",
+  CREDENTIALS: "social_network_credentials",
+  EVENTS: "social_network_events",
+  CONVERSATIONS: "social_network_conversations",
+  // Prefix for each conversation's own message list
+  MESSAGES: "social_network_messages",
+  NOTIFICATIONS: "social_network_notifications",
+  HANGOUT_MATCHES: "social_network_hangout_matches",
+} as const;
+
+export interface StoredCredential {
+  email: string;
+  passwordHash: string;
+  userId: string;
+}
+
+export interface LegacyData {
+  users: User[];
+  credentials: StoredCredential[];
+  events: Event[];
+  conversations: Conversation[];
+  messages: Message[];
+  notifications: Notification[];
+  hangoutMatches: HangoutMatch[];
+}
+
+type LegacyStorage = Pick<Storage, "getItem" | "key" | "length">;
+
+const getMessageKeys = (source: LegacyStorage): string[] =>
+  Array.from({ length: source.length }, (_, index) => source.key(index)).filter(
+    (key): key is string =>
+      Boolean(key?.startsWith(`${LEGACY_STORAGE_KEYS.MESSAGES}_`)),
+  );
+
+export const getLegacyStorageKeys = (source: LegacyStorage): string[] => [
+  ...Object.values(LEGACY_STORAGE_KEYS).filter(
+    (key) => source.getItem(key) !== null,
+  ),
+  ...getMessageKeys(source),
+];
+
+// An object with a non-empty string ID, the only kind `put` can key
+const hasStringId = <T>(record: T): boolean => {
+  const id = (record as { id?: unknown } | null)?.id;
+  return typeof id === "string" && id !== "";
+};
+
+/**
+ * Reads everything the localStorage version of the app saved, as records
+ * for the object stores. Conversations saved before messages were split out
+ * still embed them, and older messages don't carry their conversation ID.
+ * Records without an ID are dropped, since one bad `put` would abort the
+ * whole upgrade.
+ */
+export const readLegacyStorage = (source: LegacyStorage): LegacyData => {
+  const read = <T>(key: string, fallback: T): T => {
+    try {
+      const item = source.getItem(key);
+      return item ? JSON.parse(item) : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+  const readList = <T>(key: string): T[] => {
+    const list = read<unknown>(key, []);
+    return Array.isArray(list) ? list.filter(hasStringId) : [];
+  };
+
+  const conversations = readList<Conversation>(
+    LEGACY_STORAGE_KEYS.CONVERSATIONS,
+  );
+  const messages = [
+    ...conversations.flatMap((conversation) =>
+      (Array.isArray(conversation.messages) ? conversation.messages : [])
+        .filter(hasStringId)
+        .map((message) => ({
+          ...message,
+          conversationId: message.conversationId || conversation.id,
+        })),
+    ),
+    ...getMessageKeys(source).flatMap((key) =>
+      readList<Message>(key).map((message) => ({
+        ...message,
+        conversationId:
+          message.conversationId ||
+          key.slice(LEGACY_STORAGE_KEYS.MESSAGES.length + 1),
+      })),
+    ),
+  ];
+  const credentials =
+    read<Record<string, Omit<StoredCredential, "email">> | null>(
+      LEGACY_STORAGE_KEYS.CREDENTIALS,
+      {},
+    ) || {};
+
+  return {
+    users: readList<User>(LEGACY_STORAGE_KEYS.USERS),
+    credentials: Object.entries(credentials)
+      .filter(([email, credential]) => email && credential?.userId)
+      .map(([email, credential]) => ({ ...credential, email })),
+    events: readList<Event>(LEGACY_STORAGE_KEYS.EVENTS),
+    conversations: conversations.map((conversation) => ({
+      ...conversation,
+      messages: [],
+    })),
+    // A message copied out of its conversation may still be embedded too
+    messages: [
+      ...new Map(messages.map((message) => [message.id, message])).values(),
+    ],
+    notifications: readList<Notification>(LEGACY_STORAGE_KEYS.NOTIFICATIONS),
+    hangoutMatches: readList<HangoutMatch>(LEGACY_STORAGE_KEYS.HANGOUT_MATCHES),
+  };
+};
+
+// Append only: released migrations have already run in users' browsers
+export const STORAGE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create a store per entity",
+    upgrade: (database) => {
+      database
+        .createObjectStore(STORES.USERS, { keyPath: "id" })
+        .createIndex("username", "username");
+      database.createObjectStore(STORES.CREDENTIALS, { keyPath: "email" });
+
+      const events = database.createObjectStore(STORES.EVENTS, {
+        keyPath: "id",
+      });
+      events.createIndex("userId", "userId");
+      events.createIndex("startTime", "startTime");
+      events.createIndex("attendeeIds", "attendeeIds", { multiEntry: true });
+
+      database
+        .createObjectStore(STORES.CONVERSATIONS, { keyPath: "id" })
+        .createIndex("participants", "participants", { multiEntry: true });
+
+      const messages = database.createObjectStore(STORES.MESSAGES, {
+        keyPath: "id",
+      });
+      messages.createIndex("conversationId", "conversationId");
+      // Pages are read off this index, in timestamp then ID order
+      messages.createIndex("conversationOrder", [
+        "conversationId",
+        "timestamp",
+        "id",
+      ]);
+
+      database
+        .createObjectStore(STORES.NOTIFICATIONS, { keyPath: "id" })
+        .createIndex("userId", "userId");
+      database
+        .createObjectStore(STORES.HANGOUT_MATCHES, { keyPath: "id" })
+        .createIndex("users", "users", { multiEntry: true });
+    },
+  },
+  {
+    version: 2,
+    description: "Import data saved in localStorage",
+    upgrade: (_database, transaction) => {
+      if (typeof localStorage === "undefined") return;
+
+      const data = readLegacyStorage(localStorage);
+      const imports: [string, unknown[]][] = [
+        [STORES.USERS, data.users],
+        [STORES.CREDENTIALS, data.credentials],
+        [STORES.EVENTS, data.events],
+        [STORES.CONVERSATIONS, data.conversations],
+        [STORES.MESSAGES, data.messages],
+        [STORES.NOTIFICATIONS, data.notifications],
+        [STORES.HANGOUT_MATCHES, data.hangoutMatches],
+      ];
+      imports.forEach(([store, records]) =>
+        records.forEach((record) => transaction.objectStore(store).put(record)),
+      );
+
+      // The old copy only goes once the import has committed
+      transaction.addEventListener("complete", () =>
+        getLegacyStorageKeys(localStorage).forEach((key) =>
+          localStorage.removeItem(key),
+        ),
+      );
+    },
+  },
+  {
+    version: 3,
+    description: "Add a store for user reports",
+    upgrade: (database) => {
+      database
+        .createObjectStore(STORES.REPORTS, { keyPath: "id" })
+        .createIndex("reportedUserId", "reportedUserId");
+    },
+  },
+];
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  MIN_ENTRY_MINUTES,
+  layoutTimeGridEntries,
+  shiftEventTimes,
+} from "./timeGridLayout";
+
+const entry = (item: string, start: number, end: number) => ({
+  item,
+  start,
+  end,
+});
+
+const columnsOf = (entries: ReturnType<typeof entry>[]) =>
+  Object.fromEntries(
+    layoutTimeGridEntries(entries).map((placement) => [
+      placement.item,
+      [placement.column, placement.columns],
+    ]),
+  );
+
+describe("layoutTimeGridEntries", () => {
+  it("should give entries that don't overlap the full width", () => {
+    expect(
+      columnsOf([entry("morning", 540, 600), entry("lunch", 720, 780)]),
+    ).toEqual({ morning: [0, 1], lunch: [0, 1] });
+  });
+
+  it("should put overlapping entries side by side", () => {
+    expect(
+      columnsOf([
+        entry("a", 540, 660),
+        entry("b", 570, 600),
+        entry("c", 600, 630),
+        entry("d", 900, 960),
+      ]),
+    ).toEqual({ a: [0, 2], b: [1, 2], c: [1, 2], d: [0, 1] });
+  });
+
+  it("should share a column count across chained overlaps", () => {
+    expect(
+      columnsOf([
+        entry("a", 540, 600),
+        entry("b", 580, 640),
+        entry("c", 590, 620),
+        entry("d", 630, 700),
+      ]),
+    ).toEqual({ a: [0, 3], b: [1, 3], c: [2, 3], d: [0, 3] });
+  });
+
+  it("should stretch very short entries", () => {
+    const [placement] = layoutTimeGridEntries([entry("ping", 600, 600)]);
+
+    expect(placement.end).toBe(600 + MIN_ENTRY_MINUTES);
+  });
+});
+
+describe("shiftEventTimes", () => {
+  // 6-8pm in New York on Friday 6 March 2026, two days before DST starts
+  const event = {
+    startTime: "2026-03-06T23:00:00.000Z",
+    endTime: "2026-03-07T01:00:00.000Z",
+  };
+
+  it("should move by wall-clock days and keep the duration", () => {
+    expect(
+      shiftEventTimes(
+        event,
+        "move",
+        { days: 7, minutes: 30 },
+        "America/New_York",
+      ),
+    ).toEqual({
+      startTime: "2026-03-13T22:30:00.000Z",
+      endTime: "2026-03-14T00:30:00.000Z",
+    });
+  });
+
+  it("should only move the end when resizing", () => {
+    expect(
+      shiftEventTimes(event, "resize", { days: 0, minutes: -60 }, "UTC"),
+    ).toEqual({ ...event, endTime: "2026-03-07T00:00:00.000Z" });
+    expect(
+      shiftEventTimes(event, "resize", { days: 0, minutes: -600 }, "UTC")
+        .endTime,
+    ).toBe("2026-03-06T23:15:00.000Z");
+  });
+});
@@ -0,0 +1,113 @@
+import { addDays, addMinutes } from "date-fns";
+import { Event } from "@/types";
+import { fromZonedDate, toZonedDate } from "@/utils/timezone";
+
+export interface TimeGridEntry<T> {
+  item: T;
+  // Minutes from the start of the day shown
+  start: number;
+  end: number;
+}
+
+export interface TimeGridPlacement<T> extends TimeGridEntry<T> {
+  // Zero-based column within its group of overlapping entries
+  column: number;
+  columns: number;
+}
+
+// Short entries still get enough height to show their title
+export const MIN_ENTRY_MINUTES = 15;
+
+/**
+ * Lays out a day's entries side by side where they overlap. Entries that
+ * overlap directly or through a chain of others form a group, and every
+ * entry in a group shares the group's column count so widths line up.
+ */
+export const layoutTimeGridEntries = <T>(
+  entries: TimeGridEntry<T>[],
+): TimeGridPlacement<T>[] => {
+  const sorted = [...entries]
+    .map((entry) => ({
+      ...entry,
+      end: Math.max(entry.end, entry.start + MIN_ENTRY_MINUTES),
+    }))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const placements: TimeGridPlacement<T>[] = [];
+  let group: TimeGridPlacement<T>[] = [];
+  // End of the last entry in each column of the current group
+  let columnEnds: number[] = [];
+  let groupEnd = -Infinity;
+
+  const closeGroup = () => {
+    group.forEach((placement) => {
+      placement.columns = columnEnds.length;
+    });
+    placements.push(...group);
+    group = [];
+    columnEnds = [];
+  };
+
+  sorted.forEach((entry) => {
+    if (entry.start >= groupEnd) {
+      closeGroup();
+      groupEnd = -Infinity;
+    }
+
+    let column = columnEnds.findIndex((end) => end <= entry.start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(entry.end);
+    } else {
+      columnEnds[column] = entry.end;
+    }
+
+    group.push({ ...entry, column, columns: 1 });
+    groupEnd = Math.max(groupEnd, entry.end);
+  });
+  closeGroup();
+
+  return placements;
+};
+
+export type TimeGridDragMode = "move" | "resize";
+
+/**
+ * New times for an event dragged on the grid. Moves shift the start by
+ * wall-clock days and minutes in the viewer's zone and keep the duration;
+ * resizes shift only the end, never below the minimum length.
+ */
+export const shiftEventTimes = (
+  event: Pick<Event, "startTime" | "endTime">,
+  mode: TimeGridDragMode,
+  shift: { days: number; minutes: number },
+  timeZone: string,
+): { startTime: string; endTime: string } => {
+  const shiftWallClock = (time: string) =>
+    fromZonedDate(
+      addMinutes(
+        addDays(toZonedDate(time, timeZone), shift.days),
+        shift.minutes,
+      ),
+      timeZone,
+    );
+
+  if (mode === "resize") {
+    const minEnd =
+      new Date(event.startTime).getTime() + MIN_ENTRY_MINUTES * 60 * 1000;
+    return {
+      startTime: event.startTime,
+      endTime: new Date(
+        Math.max(shiftWallClock(event.endTime).getTime(), minEnd),
+      ).toISOString(),
+    };
+  }
+
+  const start = shiftWallClock(event.startTime);
+  const duration =
+    new Date(event.endTime).getTime() - new Date(event.startTime).getTime();
+  return {
+    startTime: start.toISOString(),
+    endTime: new Date(start.getTime() + duration).toISOString(),
+  };
+};
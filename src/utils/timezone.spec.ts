@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { Event } from "@/types";
+import { expandEvent } from "./recurrence";
+import {
+  formatInTimeZone,
+  fromZonedDate,
+  getOwnerTimeLabel,
+  getUserTimeZone,
+  getZonedDayRange,
+  toZonedDate,
+  zonedTimeToUtc,
+} from "./timezone";
+
+describe("zonedTimeToUtc", () => {
+  it("should convert wall-clock times on either side of DST", () => {
+    const time = { year: 2026, month: 1, day: 15, hours: 9, minutes: 0 };
+
+    expect(
+      zonedTimeToUtc({ ...time, seconds: 0 }, "America/New_York").toISOString(),
+    ).toBe("2026-01-15T14:00:00.000Z");
+    expect(
+      zonedTimeToUtc(
+        { ...time, month: 7, seconds: 0 },
+        "America/New_York",
+      ).toISOString(),
+    ).toBe("2026-07-15T13:00:00.000Z");
+  });
+});
+
+describe("zoned dates", () => {
+  const instant = "2026-07-02T13:00:00.000Z";
+
+  it("should format instants in the viewer's zone", () => {
+    expect(formatInTimeZone(instant, "MMM d, h:mm a", "America/New_York")).toBe(
+      "Jul 2, 9:00 AM",
+    );
+    expect(formatInTimeZone(instant, "MMM d, h:mm a", "Asia/Tokyo")).toBe(
+      "Jul 2, 10:00 PM",
+    );
+  });
+
+  it("should round-trip through zoned wall-clock dates", () => {
+    const zoned = toZonedDate(instant, "Europe/London");
+
+    expect(zoned.getHours()).toBe(14);
+    expect(fromZonedDate(zoned, "Europe/London").toISOString()).toBe(instant);
+  });
+
+  it("should bound calendar days in the given zone", () => {
+    const { start, end } = getZonedDayRange(
+      new Date(2026, 6, 2),
+      "America/Los_Angeles",
+    );
+
+    expect(start.toISOString()).toBe("2026-07-02T07:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-07-03T07:00:00.000Z");
+  });
+
+  it("should ignore unknown home zones", () => {
+    expect(getUserTimeZone({ timeZone: "Mars/Olympus" } as never)).toBe(
+      getUserTimeZone(),
+    );
+  });
+});
+
+describe("getOwnerTimeLabel", () => {
+  const event = { startTime: "2026-07-02T13:00:00.000Z" };
+
+  it("should only label events planned in a different offset", () => {
+    expect(getOwnerTimeLabel(event, "Asia/Tokyo")).toBeNull();
+    expect(
+      getOwnerTimeLabel({ ...event, timeZone: "Asia/Tokyo" }, "Asia/Tokyo"),
+    ).toBeNull();
+    expect(
+      getOwnerTimeLabel({ ...event, timeZone: "Asia/Tokyo" }, "Europe/London"),
+    ).toBe("10:00 PM GMT+9");
+  });
+});
+
+describe("zoned recurrence", () => {
+  it("should keep the owner's wall-clock time across DST changes", () => {
+    // Fridays at 6pm in New York, either side of the 8 March 2026 change
+    const series: Event = {
+      id: "series",
+      userId: "user",
+      title: "Friday drinks",
+      startTime: "2026-03-06T23:00:00.000Z",
+      endTime: "2026-03-07T01:00:00.000Z",
+      type: "hangout",
+      timeZone: "America/New_York",
+      recurrence: { frequency: "weekly", interval: 1, count: 2 },
+      createdAt: "2026-03-01T00:00:00.000Z",
+    };
+
+    const occurrences = expandEvent(
+      series,
+      new Date("2026-03-01T00:00:00.000Z"),
+      new Date("2026-04-01T00:00:00.000Z"),
+    );
+
+    expect(occurrences.map((event) => event.startTime)).toEqual([
+      "2026-03-06T23:00:00.000Z",
+      "2026-03-13T22:00:00.000Z",
+    ]);
+  });
+});
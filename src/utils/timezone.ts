@@ -0,0 +1,192 @@
+import { format } from "date-fns";
+import { Event, User } from "@/types";
+
+export interface WallClockTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The wall-clock time an instant shows in the given IANA zone
+export const getWallClockTime = (
+  date: Date,
+  timeZone: string,
+): WallClockTime => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hours: Number(parts.hour) % 24,
+    minutes: Number(parts.minute),
+    seconds: Number(parts.second),
+  };
+};
+
+const wallClockToUtcMs = (time: WallClockTime) =>
+  Date.UTC(
+    time.year,
+    time.month - 1,
+    time.day,
+    time.hours,
+    time.minutes,
+    time.seconds,
+  );
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return (
+    wallClockToUtcMs(getWallClockTime(new Date(instant), timeZone)) - instant
+  );
+};
+
+/**
+ * Converts a wall-clock time in an IANA zone to a UTC instant. Times skipped
+ * by a DST jump resolve to the later offset, as most calendar apps do.
+ */
+export const zonedTimeToUtc = (time: WallClockTime, timeZone: string): Date => {
+  const guess = wallClockToUtcMs(time);
+  const firstOffset = getTimeZoneOffset(new Date(guess), timeZone);
+  const secondOffset = getTimeZoneOffset(
+    new Date(guess - firstOffset),
+    timeZone,
+  );
+
+  return new Date(guess - secondOffset);
+};
+
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+// A user's home zone, falling back to the browser's when unset or invalid
+export const getUserTimeZone = (user?: User | null): string =>
+  user?.timeZone && isValidTimeZone(user.timeZone)
+    ? user.timeZone
+    : getBrowserTimeZone();
+
+export const getSupportedTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & {
+    supportedValuesOf?: (key: string) => string[];
+  };
+  return intl.supportedValuesOf?.("timeZone") || [getBrowserTimeZone(), "UTC"];
+};
+
+/**
+ * Shifts an instant so its local fields show the wall-clock time in the
+ * given zone. The result is only meant for date-fns formatting and
+ * calendar arithmetic; convert back with `fromZonedDate`.
+ */
+export const toZonedDate = (date: Date | string, timeZone: string): Date => {
+  const time = getWallClockTime(new Date(date), timeZone);
+  return new Date(
+    time.year,
+    time.month - 1,
+    time.day,
+    time.hours,
+    time.minutes,
+    time.seconds,
+    new Date(date).getMilliseconds(),
+  );
+};
+
+export const fromZonedDate = (zoned: Date, timeZone: string): Date => {
+  const instant = zonedTimeToUtc(
+    {
+      year: zoned.getFullYear(),
+      month: zoned.getMonth() + 1,
+      day: zoned.getDate(),
+      hours: zoned.getHours(),
+      minutes: zoned.getMinutes(),
+      seconds: zoned.getSeconds(),
+    },
+    timeZone,
+  );
+  return new Date(instant.getTime() + zoned.getMilliseconds());
+};
+
+export const formatInTimeZone = (
+  date: Date | string,
+  pattern: string,
+  timeZone: string,
+): string => format(toZonedDate(date, timeZone), pattern);
+
+// Short zone label for display, e.g. "EST" or "GMT+2"
+export const getTimeZoneAbbreviation = (
+  timeZone: string,
+  date: Date | string = new Date(),
+): string =>
+  new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(new Date(date))
+    .find((part) => part.type === "timeZoneName")?.value || timeZone;
+
+// The instants bounding a calendar day as seen in the given zone
+export const getZonedDayRange = (day: Date, timeZone: string) => {
+  const start = fromZonedDate(
+    new Date(day.getFullYear(), day.getMonth(), day.getDate()),
+    timeZone,
+  );
+  const end = fromZonedDate(
+    new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1),
+    timeZone,
+  );
+  return { start, end };
+};
+
+/**
+ * The event's start time as its owner sees it, e.g. "6:00 PM EST", or null
+ * when the owner's zone shows the same time as the viewer's.
+ */
+export const getOwnerTimeLabel = (
+  event: Pick<Event, "startTime" | "timeZone">,
+  viewerTimeZone: string,
+): string | null => {
+  if (!event.timeZone || !isValidTimeZone(event.timeZone)) return null;
+
+  const start = new Date(event.startTime);
+  if (
+    getTimeZoneOffset(start, event.timeZone) ===
+    getTimeZoneOffset(start, viewerTimeZone)
+  ) {
+    return null;
+  }
+
+  return `${formatInTimeZone(start, "h:mm a", event.timeZone)} ${getTimeZoneAbbreviation(event.timeZone, start)}`;
+};